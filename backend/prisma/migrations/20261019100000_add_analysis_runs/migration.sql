@@ -0,0 +1,80 @@
+-- CreateTable
+CREATE TABLE "AnalysisRun" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'Running',
+    "mode" TEXT NOT NULL DEFAULT 'full',
+    "commitSha" TEXT,
+    "baseCommitSha" TEXT,
+    "branch" TEXT,
+    "language" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "stageTimings" JSONB,
+    "summary" JSONB,
+    "error" TEXT,
+
+    CONSTRAINT "AnalysisRun_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: one legacy run per existing project that owns its current issues and ASTs
+INSERT INTO "AnalysisRun" ("projectId", "status", "mode", "commitSha", "language", "startedAt", "finishedAt")
+SELECT "id", 'Completed', 'full', "lastAnalyzedCommit", "language", "createdAt", "createdAt" FROM "Project";
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "currentRunId" INTEGER;
+UPDATE "Project" p SET "currentRunId" = r."id" FROM "AnalysisRun" r WHERE r."projectId" = p."id";
+
+-- AlterTable
+ALTER TABLE "Issue" ADD COLUMN     "runId" INTEGER,
+ADD COLUMN     "resolvedRunId" INTEGER;
+UPDATE "Issue" i SET "runId" = r."id" FROM "AnalysisRun" r WHERE r."projectId" = i."projectId";
+ALTER TABLE "Issue" ALTER COLUMN "runId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "FileAst" ADD COLUMN     "runId" INTEGER,
+ADD COLUMN     "supersededRunId" INTEGER;
+UPDATE "FileAst" f SET "runId" = r."id" FROM "AnalysisRun" r WHERE r."projectId" = f."projectId";
+ALTER TABLE "FileAst" ALTER COLUMN "runId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "FileAst_projectId_filePath_key";
+
+-- CreateIndex
+CREATE INDEX "AnalysisRun_projectId_idx" ON "AnalysisRun"("projectId");
+
+-- CreateIndex
+CREATE INDEX "AnalysisRun_status_idx" ON "AnalysisRun"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_currentRunId_key" ON "Project"("currentRunId");
+
+-- CreateIndex
+CREATE INDEX "Issue_runId_idx" ON "Issue"("runId");
+
+-- CreateIndex
+CREATE INDEX "Issue_resolvedRunId_idx" ON "Issue"("resolvedRunId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FileAst_runId_filePath_key" ON "FileAst"("runId", "filePath");
+
+-- CreateIndex
+CREATE INDEX "FileAst_projectId_filePath_idx" ON "FileAst"("projectId", "filePath");
+
+-- AddForeignKey
+ALTER TABLE "AnalysisRun" ADD CONSTRAINT "AnalysisRun_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Project" ADD CONSTRAINT "Project_currentRunId_fkey" FOREIGN KEY ("currentRunId") REFERENCES "AnalysisRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Issue" ADD CONSTRAINT "Issue_runId_fkey" FOREIGN KEY ("runId") REFERENCES "AnalysisRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Issue" ADD CONSTRAINT "Issue_resolvedRunId_fkey" FOREIGN KEY ("resolvedRunId") REFERENCES "AnalysisRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FileAst" ADD CONSTRAINT "FileAst_runId_fkey" FOREIGN KEY ("runId") REFERENCES "AnalysisRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FileAst" ADD CONSTRAINT "FileAst_supersededRunId_fkey" FOREIGN KEY ("supersededRunId") REFERENCES "AnalysisRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "ref" TEXT;
+
+-- AlterTable
+ALTER TABLE "AnalysisRun" ADD COLUMN     "ref" TEXT;
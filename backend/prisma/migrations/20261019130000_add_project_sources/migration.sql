@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "sourceType" TEXT NOT NULL DEFAULT 'git',
+ADD COLUMN     "sourcePath" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ProjectFile" ADD COLUMN     "language" TEXT,
+ADD COLUMN     "loc" INTEGER;
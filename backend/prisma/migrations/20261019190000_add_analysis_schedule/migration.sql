@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "lastScheduleResult" TEXT,
+ADD COLUMN     "lastScheduledAt" TIMESTAMP(3),
+ADD COLUMN     "nextScheduledAt" TIMESTAMP(3),
+ADD COLUMN     "schedule" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Project_nextScheduledAt_idx" ON "Project"("nextScheduledAt");
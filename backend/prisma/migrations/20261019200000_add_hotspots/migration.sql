@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "Hotspot" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "runId" INTEGER NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "commits" INTEGER NOT NULL,
+    "authors" INTEGER NOT NULL,
+    "linesChanged" INTEGER NOT NULL,
+    "complexity" INTEGER NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "functions" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Hotspot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Hotspot_projectId_idx" ON "Hotspot"("projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Hotspot_runId_filePath_key" ON "Hotspot"("runId", "filePath");
+
+-- AddForeignKey
+ALTER TABLE "Hotspot" ADD CONSTRAINT "Hotspot_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Hotspot" ADD CONSTRAINT "Hotspot_runId_fkey" FOREIGN KEY ("runId") REFERENCES "AnalysisRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Issue" ADD COLUMN     "author" TEXT,
+ADD COLUMN     "authorEmail" TEXT,
+ADD COLUMN     "owners" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "Issue_authorEmail_idx" ON "Issue"("authorEmail");
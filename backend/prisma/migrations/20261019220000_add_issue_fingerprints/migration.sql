@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Issue" ADD COLUMN     "fingerprint" TEXT,
+ADD COLUMN     "firstSeenRunId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "IssueComment" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "userId" INTEGER,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IssueComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Issue_projectId_fingerprint_idx" ON "Issue"("projectId", "fingerprint");
+
+-- CreateIndex
+CREATE INDEX "IssueComment_projectId_fingerprint_idx" ON "IssueComment"("projectId", "fingerprint");
+
+-- AddForeignKey
+ALTER TABLE "IssueComment" ADD CONSTRAINT "IssueComment_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IssueComment" ADD CONSTRAINT "IssueComment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "baselineAt" TIMESTAMP(3),
+ADD COLUMN     "baselineRunId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Issue" ADD COLUMN     "baselined" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "BaselineIssue" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "issueType" TEXT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BaselineIssue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BaselineIssue_projectId_fingerprint_key" ON "BaselineIssue"("projectId", "fingerprint");
+
+-- CreateIndex
+CREATE INDEX "BaselineIssue_projectId_filePath_idx" ON "BaselineIssue"("projectId", "filePath");
+
+-- AddForeignKey
+ALTER TABLE "BaselineIssue" ADD CONSTRAINT "BaselineIssue_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
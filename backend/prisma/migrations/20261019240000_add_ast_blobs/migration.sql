@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "FileAst" ADD COLUMN     "astHash" TEXT,
+ALTER COLUMN "ast" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "AstBlob" (
+    "hash" TEXT NOT NULL,
+    "data" BYTEA NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AstBlob_pkey" PRIMARY KEY ("hash")
+);
+
+-- AddForeignKey
+ALTER TABLE "FileAst" ADD CONSTRAINT "FileAst_astHash_fkey" FOREIGN KEY ("astHash") REFERENCES "AstBlob"("hash") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "CustomRule" (
+    "id" SERIAL NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "userId" INTEGER,
+    "projectId" INTEGER,
+    "kind" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "language" TEXT,
+    "severity" TEXT NOT NULL DEFAULT 'Medium',
+    "message" TEXT NOT NULL,
+    "recommendation" TEXT NOT NULL DEFAULT '',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomRule_userId_ruleId_key" ON "CustomRule"("userId", "ruleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomRule_projectId_ruleId_key" ON "CustomRule"("projectId", "ruleId");
+
+-- AddForeignKey
+ALTER TABLE "CustomRule" ADD CONSTRAINT "CustomRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomRule" ADD CONSTRAINT "CustomRule_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "CodeSymbol" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "runId" INTEGER NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "container" TEXT,
+    "exported" BOOLEAN NOT NULL,
+    "language" TEXT NOT NULL,
+    "lineStart" INTEGER NOT NULL,
+    "lineEnd" INTEGER NOT NULL,
+    "column" INTEGER NOT NULL,
+
+    CONSTRAINT "CodeSymbol_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SymbolReference" (
+    "id" SERIAL NOT NULL,
+    "symbolId" INTEGER NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "line" INTEGER NOT NULL,
+    "column" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+
+    CONSTRAINT "SymbolReference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CodeSymbol_projectId_runId_name_idx" ON "CodeSymbol"("projectId", "runId", "name");
+
+-- CreateIndex
+CREATE INDEX "CodeSymbol_runId_idx" ON "CodeSymbol"("runId");
+
+-- CreateIndex
+CREATE INDEX "SymbolReference_symbolId_idx" ON "SymbolReference"("symbolId");
+
+-- AddForeignKey
+ALTER TABLE "CodeSymbol" ADD CONSTRAINT "CodeSymbol_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodeSymbol" ADD CONSTRAINT "CodeSymbol_runId_fkey" FOREIGN KEY ("runId") REFERENCES "AnalysisRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SymbolReference" ADD CONSTRAINT "SymbolReference_symbolId_fkey" FOREIGN KEY ("symbolId") REFERENCES "CodeSymbol"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "CodeSymbol" ADD COLUMN     "fanIn" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "fanOut" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "CallEdge" (
+    "id" SERIAL NOT NULL,
+    "callerId" INTEGER NOT NULL,
+    "calleeId" INTEGER,
+    "callee" TEXT NOT NULL,
+    "line" INTEGER NOT NULL,
+    "column" INTEGER NOT NULL,
+
+    CONSTRAINT "CallEdge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CallEdge_callerId_idx" ON "CallEdge"("callerId");
+
+-- CreateIndex
+CREATE INDEX "CallEdge_calleeId_idx" ON "CallEdge"("calleeId");
+
+-- AddForeignKey
+ALTER TABLE "CallEdge" ADD CONSTRAINT "CallEdge_callerId_fkey" FOREIGN KEY ("callerId") REFERENCES "CodeSymbol"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CallEdge" ADD CONSTRAINT "CallEdge_calleeId_fkey" FOREIGN KEY ("calleeId") REFERENCES "CodeSymbol"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+import type { SmellThresholds } from './enhanced-analysis.service';
+import type { DuplicationThresholds } from './duplication-detection.service';
+import type { RuleConfig } from './repo-config.service';
+import type { CustomRuleSpec } from './custom-rule-runner.service';
+
+export interface AnalysisLimits {
+  maxFileBytes: number; // larger files are listed but not analyzed
+  duplicationMaxFileBytes: number; // larger files are left out of duplicate detection
+}
+
+export const DEFAULT_ANALYSIS_LIMITS: AnalysisLimits = {
+  maxFileBytes: 1024 * 1024,
+  duplicationMaxFileBytes: 50000,
+};
+
+/**
+ * Everything one analysis run decided about how to analyze: thresholds, enabled
+ * rules and limits. Built once per run (defaults < user < project < .codestruct.yml)
+ * and passed to the detectors explicitly, so concurrent runs never share settings.
+ * Plain data: it travels to worker processes as is.
+ */
+export interface AnalysisContext {
+  complexityThreshold: number; // HighComplexity in the JSON/text fallbacks
+  smells: SmellThresholds;
+  duplication: DuplicationThresholds;
+  rules: Record<string, RuleConfig>;
+  customRules: CustomRuleSpec[];
+  limits: AnalysisLimits;
+}
+
+export function isRuleEnabled(ctx: AnalysisContext | undefined, issueType: string) {
+  return ctx?.rules[issueType]?.enabled !== false;
+}
+
+/**
+ * Drop issues of disabled rules and apply severity overrides
+ */
+export function applyRuleOverrides<T extends { issueType: string; severity: string }>(ctx: AnalysisContext, issues: T[]): T[] {
+  return issues
+    .filter((issue) => isRuleEnabled(ctx, issue.issueType))
+    .map((issue) => {
+      const severity = ctx.rules[issue.issueType]?.severity;
+      return severity ? { ...issue, severity } : issue;
+    });
+}
@@ -1,4 +1,5 @@
 import { Injectable } from '@nestjs/common';
+import { getLanguageProfile, nodeTypesOf } from '../languages/language-registry';
 
 @Injectable()
 export class AnalysisHelperService {
@@ -62,8 +63,13 @@ export class AnalysisHelperService {
     private findNameNode(node: any, language: string): any {
         if (!node) return null;
 
+        // Grammars with a name field; Go parameters and fields may declare several names
+        // (a, b int), a Java field's or variable's name is in its declarator
+        const named = node.nameNode || node.nameNodes?.[0] || node.declaratorNodes?.[0]?.nameNode;
+        if (named) return named;
+
         // Language-specific name extraction
-        const nameTypes = this.getNameNodeTypes(language);
+        const nameTypes = nodeTypesOf(language).names;
 
         // Check direct children for name nodes
         for (let i = 0; i < (node.namedChildCount || 0); i++) {
@@ -87,21 +93,6 @@ export class AnalysisHelperService {
         return null;
     }
 
-    /**
-     * Get node types that represent names/identifiers
-     */
-    private getNameNodeTypes(language: string): string[] {
-        const types: Record<string, string[]> = {
-            typescript: ['identifier', 'property_identifier'],
-            javascript: ['identifier', 'property_identifier'],
-            python: ['identifier'],
-            java: ['identifier'],
-            cpp: ['identifier']
-        };
-
-        return types[language.toLowerCase()] || types.typescript;
-    }
-
     /**
      * Extract text from node
      */
@@ -119,16 +110,19 @@ export class AnalysisHelperService {
 
         if (!node) return parameters;
 
-        // Find parameter list node
-        const paramListNode = this.findParameterListNode(node, language);
+        // Find parameter list node; a Go method's receiver is a parameter list too
+        const paramListNode = node.parametersNode || this.findParameterListNode(node, language);
         if (!paramListNode) return parameters;
 
-        // Extract individual parameters
+        // Extract individual parameters; `a, b int` declares two
         for (let i = 0; i < (paramListNode.namedChildCount || 0); i++) {
             const param = paramListNode.namedChild(i);
-            if (param) {
+            if (!param || param.type === 'comment') continue;
+            const names: any[] = param.nameNodes?.length > 1 ? param.nameNodes : [null];
+            for (const nameNode of names) {
                 const paramInfo = this.extractParameterInfo(param, language);
                 if (paramInfo) {
+                    if (nameNode) paramInfo.name = this.getNodeText(nameNode);
                     parameters.push(paramInfo);
                 }
             }
@@ -173,6 +167,8 @@ export class AnalysisHelperService {
      * Extract parameter type
      */
     private extractParameterType(paramNode: any, language: string): string | null {
+        if (paramNode.typeNode) return this.getNodeText(paramNode.typeNode);
+
         // Look for type annotation
         for (let i = 0; i < (paramNode.namedChildCount || 0); i++) {
             const child = paramNode.namedChild(i);
@@ -192,7 +188,9 @@ export class AnalysisHelperService {
 
         if (!classNode) return methods;
 
-        const methodTypes = this.getMethodTypes(language);
+        if (getLanguageProfile(language)?.receiverMethods) return this.extractReceiverMethods(classNode, language);
+
+        const methodTypes = nodeTypesOf(language).methods;
 
         const walkNode = (node: any) => {
             if (!node) return;
@@ -214,6 +212,30 @@ export class AnalysisHelperService {
         return methods;
     }
 
+    /**
+     * Methods declared outside the type (Go): the file's method declarations whose
+     * receiver is the type (T or *T)
+     */
+    private extractReceiverMethods(typeNode: any, language: string): any[] {
+        const typeName = this.extractNodeName(typeNode, language);
+        let root = typeNode;
+        while (root.parent) root = root.parent;
+
+        const methods: any[] = [];
+        for (let i = 0; i < (root.namedChildCount || 0); i++) {
+            const decl = root.namedChild(i);
+            if (!decl?.receiverNode) continue;
+
+            const receiverType = decl.receiverNode?.namedChild(0)?.typeNode;
+            const receiverName = receiverType ? this.getNodeText(receiverType).replace(/^\*/, '').replace(/\[.*$/, '') : null;
+            if (receiverName && receiverName === typeName) {
+                methods.push(this.extractFunctionInfo(decl, language));
+            }
+        }
+
+        return methods;
+    }
+
     /**
      * Extract class fields
      */
@@ -222,7 +244,7 @@ export class AnalysisHelperService {
 
         if (!classNode) return fields;
 
-        const fieldTypes = this.getFieldTypes(language);
+        const { fields: fieldTypes, classBodies } = nodeTypesOf(language);
 
         const walkNode = (node: any) => {
             if (!node) return;
@@ -235,7 +257,7 @@ export class AnalysisHelperService {
             }
 
             // Recursively check children (but not too deep to avoid methods)
-            if (node.type === 'class_body' || node.type === 'class_declaration') {
+            if (classBodies.includes(node.type)) {
                 for (let i = 0; i < (node.namedChildCount || 0); i++) {
                     walkNode(node.namedChild(i));
                 }
@@ -264,6 +286,8 @@ export class AnalysisHelperService {
      * Extract field type
      */
     private extractFieldType(fieldNode: any, language: string): string | null {
+        if (fieldNode.typeNode) return this.getNodeText(fieldNode.typeNode);
+
         // Similar to parameter type extraction
         for (let i = 0; i < (fieldNode.namedChildCount || 0); i++) {
             const child = fieldNode.namedChild(i);
@@ -275,36 +299,6 @@ export class AnalysisHelperService {
         return null;
     }
 
-    /**
-     * Get method node types for different languages
-     */
-    private getMethodTypes(language: string): string[] {
-        const types: Record<string, string[]> = {
-            typescript: ['method_definition', 'function_declaration'],
-            javascript: ['method_definition', 'function_declaration'],
-            python: ['function_definition'],
-            java: ['method_declaration', 'constructor_declaration'],
-            cpp: ['function_definition']
-        };
-
-        return types[language.toLowerCase()] || types.typescript;
-    }
-
-    /**
-     * Get field node types for different languages
-     */
-    private getFieldTypes(language: string): string[] {
-        const types: Record<string, string[]> = {
-            typescript: ['property_definition', 'public_field_definition', 'private_field_definition'],
-            javascript: ['property_definition'],
-            python: ['expression_statement'], // Python fields are often assignments
-            java: ['field_declaration'],
-            cpp: ['field_declaration', 'member_declaration']
-        };
-
-        return types[language.toLowerCase()] || types.typescript;
-    }
-
     /**
      * Find magic numbers in AST
      */
@@ -315,14 +309,14 @@ export class AnalysisHelperService {
 
         if (!ast?.rootNode) return magicNumbers;
 
-        const numberTypes = this.getNumberTypes(language);
+        const numberTypes = nodeTypesOf(language).numbers;
+        const numberValue = getLanguageProfile(language)?.numberValue ?? ((text: string) => Number(text));
 
         const walkNode = (node: any) => {
             if (!node) return;
 
             if (numberTypes.includes(node.type)) {
-                const text = code.slice(node.startIndex, node.endIndex);
-                const value = Number(text);
+                const value = numberValue(code.slice(node.startIndex, node.endIndex), node.type);
 
                 if (!Number.isNaN(value) && !ignoreList.has(value) && Math.abs(value) > 1) {
                     foundNumbers.set(value, (foundNumbers.get(value) || 0) + 1);
@@ -350,21 +344,6 @@ export class AnalysisHelperService {
         return magicNumbers;
     }
 
-    /**
-     * Get number node types for different languages
-     */
-    private getNumberTypes(language: string): string[] {
-        const types: Record<string, string[]> = {
-            typescript: ['number', 'numeric_literal'],
-            javascript: ['number', 'numeric_literal'],
-            python: ['integer', 'float'],
-            java: ['decimal_integer_literal', 'decimal_floating_point_literal'],
-            cpp: ['number_literal']
-        };
-
-        return types[language.toLowerCase()] || types.typescript;
-    }
-
     /**
      * Find dead code patterns
      */
@@ -374,10 +353,11 @@ export class AnalysisHelperService {
         if (!ast?.rootNode) return deadCodeBlocks;
 
         // Look for unreachable code patterns
-        this.findUnreachableCode(ast.rootNode, code, deadCodeBlocks);
+        const { blocks, variables } = nodeTypesOf(language);
+        this.findUnreachableCode(ast.rootNode, code, deadCodeBlocks, blocks);
 
         // Look for unused variables (simplified)
-        this.findUnusedVariables(ast.rootNode, code, deadCodeBlocks);
+        this.findUnusedVariables(ast.rootNode, code, deadCodeBlocks, variables);
 
         return deadCodeBlocks;
     }
@@ -385,13 +365,13 @@ export class AnalysisHelperService {
     /**
      * Find unreachable code after return statements
      */
-    private findUnreachableCode(node: any, code: string, deadCodeBlocks: any[]): void {
+    private findUnreachableCode(node: any, code: string, deadCodeBlocks: any[], blockTypes: string[]): void {
         if (!node) return;
 
         // Look for return statements followed by other statements
         if (node.type === 'return_statement') {
             const parent = node.parent;
-            if (parent && parent.type === 'statement_block') {
+            if (parent && blockTypes.includes(parent.type)) {
                 // Check if there are statements after this return
                 const siblings = [];
                 for (let i = 0; i < (parent.namedChildCount || 0); i++) {
@@ -417,19 +397,19 @@ export class AnalysisHelperService {
 
         // Recursively check children
         for (let i = 0; i < (node.namedChildCount || 0); i++) {
-            this.findUnreachableCode(node.namedChild(i), code, deadCodeBlocks);
+            this.findUnreachableCode(node.namedChild(i), code, deadCodeBlocks, blockTypes);
         }
     }
 
     /**
      * Find unused variables (simplified heuristic)
      */
-    private findUnusedVariables(node: any, code: string, deadCodeBlocks: any[]): void {
+    private findUnusedVariables(node: any, code: string, deadCodeBlocks: any[], declarationTypes: string[]): void {
         // This is a simplified implementation
         // A full implementation would require symbol table analysis
         if (!node) return;
 
-        if (node.type === 'variable_declaration' || node.type === 'lexical_declaration') {
+        if (declarationTypes.includes(node.type)) {
             // Extract variable name and check if it's used later
             const varName = this.extractVariableName(node);
             if (varName) {
@@ -450,7 +430,7 @@ export class AnalysisHelperService {
 
         // Recursively check children
         for (let i = 0; i < (node.namedChildCount || 0); i++) {
-            this.findUnusedVariables(node.namedChild(i), code, deadCodeBlocks);
+            this.findUnusedVariables(node.namedChild(i), code, deadCodeBlocks, declarationTypes);
         }
     }
 
@@ -491,7 +471,7 @@ export class AnalysisHelperService {
 
         if (!node) return { total: 0, mostUsedClass: '', distribution: {} };
 
-        const callTypes = this.getCallExpressionTypes(language);
+        const callTypes = nodeTypesOf(language).calls;
 
         const walkNode = (n: any) => {
             if (!n) return;
@@ -537,7 +517,7 @@ export class AnalysisHelperService {
 
         if (!node) return localCalls;
 
-        const callTypes = this.getCallExpressionTypes(language);
+        const callTypes = nodeTypesOf(language).calls;
 
         const walkNode = (n: any) => {
             if (!n) return;
@@ -558,21 +538,6 @@ export class AnalysisHelperService {
         return localCalls;
     }
 
-    /**
-     * Get call expression types for different languages
-     */
-    private getCallExpressionTypes(language: string): string[] {
-        const types: Record<string, string[]> = {
-            typescript: ['call_expression', 'member_expression'],
-            javascript: ['call_expression', 'member_expression'],
-            python: ['call', 'attribute'],
-            java: ['method_invocation'],
-            cpp: ['call_expression']
-        };
-
-        return types[language.toLowerCase()] || types.typescript;
-    }
-
     /**
      * Extract call information
      */
@@ -0,0 +1,216 @@
+import { Injectable, MessageEvent } from '@nestjs/common';
+import { concat, defer, filter, from, interval, map, merge, Observable, Subject, switchMap } from 'rxjs';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobsService } from '../jobs/jobs.service';
+
+export type AnalysisProgressStatus = 'idle' | 'queued' | 'running' | 'completed' | 'failed' | 'stopped';
+export type AnalysisProgressEventType = 'snapshot' | 'stage' | 'file' | 'error' | 'done';
+
+export interface AnalysisProgress {
+  projectId: number;
+  runId: number | null;
+  status: AnalysisProgressStatus;
+  stage: string | null;
+  filesTotal: number;
+  filesParsed: number;
+  issuesFound: number;
+  currentFile: string | null;
+  errors: string[]; // the most recent ones
+  queuePosition?: number | null;
+  seq: number; // grows with every change of a run, so stale snapshots can be told apart
+  updatedAt: string;
+}
+
+interface ProgressEvent {
+  type: AnalysisProgressEventType;
+  progress: AnalysisProgress;
+}
+
+const MAX_ERRORS = 20;
+const PERSIST_INTERVAL_MS = 1000;
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Live progress of analysis runs. Runs in this process publish to an in-memory
+ * stream; snapshots are also written to AnalysisRun.progress (throttled) so
+ * subscribers on other instances, which poll it, see runs claimed elsewhere.
+ */
+@Injectable()
+export class AnalysisProgressService {
+  private readonly events = new Subject<ProgressEvent>();
+  private readonly live = new Map<number, AnalysisProgress>(); // projectId -> run in this process
+  private readonly persisted = new Map<number, number>(); // runId -> last write (ms)
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jobs: JobsService,
+  ) { }
+
+  start(projectId: number, runId: number) {
+    const progress: AnalysisProgress = {
+      projectId,
+      runId,
+      status: 'running',
+      stage: 'starting',
+      filesTotal: 0,
+      filesParsed: 0,
+      issuesFound: 0,
+      currentFile: null,
+      errors: [],
+      seq: 0,
+      updatedAt: new Date().toISOString(),
+    };
+    this.live.set(projectId, progress);
+    this.publish('stage', progress, true);
+  }
+
+  stage(projectId: number, stage: string) {
+    this.update(projectId, 'stage', (p) => {
+      p.stage = stage;
+      p.currentFile = null;
+    }, true);
+  }
+
+  filesTotal(projectId: number, filesTotal: number) {
+    this.update(projectId, 'stage', (p) => { p.filesTotal = filesTotal; }, true);
+  }
+
+  fileDone(projectId: number, relPath: string, issues: number) {
+    this.update(projectId, 'file', (p) => {
+      p.filesParsed++;
+      p.issuesFound += issues;
+      p.currentFile = relPath;
+    });
+  }
+
+  issues(projectId: number, issues: number) {
+    this.update(projectId, 'file', (p) => { p.issuesFound += issues; });
+  }
+
+  error(projectId: number, message: string) {
+    this.update(projectId, 'error', (p) => {
+      p.errors = [...p.errors, message].slice(-MAX_ERRORS);
+    }, true);
+  }
+
+  finish(projectId: number, status: 'completed' | 'failed' | 'stopped') {
+    this.update(projectId, 'done', (p) => {
+      p.status = status;
+      p.stage = status;
+      p.currentFile = null;
+    }, true);
+    const progress = this.live.get(projectId);
+    this.live.delete(projectId);
+    if (progress?.runId) this.persisted.delete(progress.runId);
+  }
+
+  /**
+   * Server-sent events for one project: the current snapshot first, then every
+   * change. Snapshots older than what the subscriber already saw are dropped.
+   */
+  stream(projectId: number): Observable<MessageEvent> {
+    let last: AnalysisProgress | null = null;
+    const isNewer = (next: AnalysisProgress) => {
+      if (!last) return true;
+      if (next.status === 'queued') {
+        // Queued again once the previous run ended
+        return last.status === 'queued' ? next.queuePosition !== last.queuePosition : last.runId === null || this.isFinal(last.status);
+      }
+      if (next.runId !== last.runId) return (next.runId ?? 0) > (last.runId ?? 0);
+      return next.seq > last.seq || (next.seq === last.seq && next.status !== last.status);
+    };
+    const fromStore = (type: AnalysisProgressEventType) => defer(() => from(this.snapshot(projectId)))
+      .pipe(map((progress) => ({ type: progress.runId && this.isFinal(progress.status) ? 'done' : type, progress })));
+
+    return concat(
+      fromStore('snapshot'),
+      merge(
+        this.events.pipe(filter((e) => e.progress.projectId === projectId)),
+        interval(POLL_INTERVAL_MS).pipe(switchMap(() => fromStore('snapshot'))),
+      ),
+    ).pipe(
+      filter((e) => isNewer(e.progress)),
+      map((e) => {
+        last = e.progress;
+        return { type: e.type, data: e.progress };
+      }),
+    );
+  }
+
+  /**
+   * Current progress of a project: the run working in this process, else the
+   * latest stored snapshot, else what the project row says
+   */
+  async snapshot(projectId: number): Promise<AnalysisProgress> {
+    const live = this.live.get(projectId);
+    if (live) return { ...live };
+
+    const project = await (this.prisma as any).project.findUnique({
+      where: { id: projectId },
+      select: { status: true, analysisStage: true },
+    });
+    const run = await (this.prisma as any).analysisRun.findFirst({
+      where: { projectId },
+      orderBy: { id: 'desc' },
+      select: { id: true, status: true, progress: true, summary: true, finishedAt: true, startedAt: true },
+    });
+    const idle: AnalysisProgress = {
+      projectId,
+      runId: null,
+      status: 'idle',
+      stage: project?.analysisStage ?? null,
+      filesTotal: 0,
+      filesParsed: 0,
+      issuesFound: 0,
+      currentFile: null,
+      errors: [],
+      seq: 0,
+      updatedAt: new Date().toISOString(),
+    };
+
+    // Queued: the project waits for a worker and its latest run (if any) is an older one
+    if (project?.status === 'Analyzing' && run?.status !== 'Running') {
+      const job = await this.jobs.activeJob(projectId, 'analysis').catch(() => null);
+      return { ...idle, status: 'queued', stage: 'queued', queuePosition: job?.queuePosition ?? null };
+    }
+    if (!run) return idle;
+    if (run.progress) {
+      const stored = run.progress as AnalysisProgress;
+      // Runs that ended before a final snapshot was written (e.g. the process died)
+      const status = run.status === 'Running' ? stored.status : run.status.toLowerCase() as AnalysisProgressStatus;
+      return { ...stored, status };
+    }
+    return {
+      ...idle,
+      runId: run.id,
+      status: run.status.toLowerCase() as AnalysisProgressStatus,
+      filesTotal: run.summary?.filesTotal ?? 0,
+      filesParsed: run.summary?.filesTotal ?? 0,
+      issuesFound: run.summary?.totalIssues ?? 0,
+      updatedAt: (run.finishedAt ?? run.startedAt).toISOString(),
+    };
+  }
+
+  private isFinal(status: AnalysisProgressStatus) {
+    return status === 'completed' || status === 'failed' || status === 'stopped';
+  }
+
+  private update(projectId: number, type: AnalysisProgressEventType, change: (p: AnalysisProgress) => void, persist = false) {
+    const progress = this.live.get(projectId);
+    if (!progress) return;
+    change(progress);
+    progress.seq++;
+    progress.updatedAt = new Date().toISOString();
+    this.publish(type, progress, persist);
+  }
+
+  private publish(type: AnalysisProgressEventType, progress: AnalysisProgress, persist: boolean) {
+    this.events.next({ type, progress: { ...progress } });
+    const runId = progress.runId;
+    if (!runId) return;
+    const now = Date.now();
+    if (!persist && now - (this.persisted.get(runId) ?? 0) < PERSIST_INTERVAL_MS) return;
+    this.persisted.set(runId, now);
+    (this.prisma as any).analysisRun.update({ where: { id: runId }, data: { progress: { ...progress } } }).catch(() => { });
+  }
+}
@@ -0,0 +1,319 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { IssueTrackingService } from './issue-tracking.service';
+import { AstStorageService } from './ast-storage.service';
+import { languageOfFile } from '../languages/language-registry';
+import { SECURITY_ISSUE_TYPES } from './quality-gate.service';
+
+interface StageClock {
+  stage: string;
+  startedAt: number;
+  timings: Record<string, number>; // stage -> milliseconds
+}
+
+// Issue list filters; each list matches any of its values
+export interface IssueFilters {
+  owners?: string[];
+  authors?: string[]; // author emails
+  severities?: string[];
+  issueTypes?: string[];
+  includeBaselined?: boolean;
+}
+
+/**
+ * Tracks analysis runs. An Issue/FileAst row belongs to the run that produced it
+ * (runId) and stays part of every later run until one resolves it (resolvedRunId /
+ * supersededRunId), so any run's snapshot can be rebuilt without copying rows.
+ */
+@Injectable()
+export class AnalysisRunService {
+  private readonly clocks = new Map<number, StageClock>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly issueTracking: IssueTrackingService,
+    private readonly astStorage: AstStorageService,
+  ) { }
+
+  async startRun(projectId: number, data: { language?: string; ref?: string | null } = {}) {
+    const run = await (this.prisma as any).analysisRun.create({
+      data: { projectId, status: 'Running', language: data.language, ref: data.ref ?? null },
+    });
+    this.clocks.set(run.id, { stage: 'starting', startedAt: Date.now(), timings: {} });
+    return run;
+  }
+
+  async updateRun(runId: number, data: Record<string, any>) {
+    return (this.prisma as any).analysisRun.update({ where: { id: runId }, data });
+  }
+
+  /**
+   * Close the timer of the previous stage and start timing the next one
+   */
+  async recordStage(runId: number, stage: string) {
+    const clock = this.clocks.get(runId);
+    if (!clock) return;
+    this.closeStage(clock);
+    clock.stage = stage;
+    clock.startedAt = Date.now();
+    try {
+      await this.updateRun(runId, { stageTimings: clock.timings });
+    } catch { }
+  }
+
+  /**
+   * Mark the run completed, store its summary and make it the project's current run
+   */
+  async completeRun(runId: number, summary: Record<string, any>) {
+    const timings = this.stopClock(runId);
+    const run = await this.updateRun(runId, {
+      status: 'Completed',
+      finishedAt: new Date(),
+      stageTimings: timings,
+      summary,
+    });
+    await (this.prisma as any).project.update({ where: { id: run.projectId }, data: { currentRunId: run.id } });
+    return run;
+  }
+
+  /**
+   * End a run that did not complete (Failed/Stopped). Rows it produced are removed and
+   * rows it resolved are reopened, so the previous snapshot stays intact.
+   */
+  async abortRun(runId: number, status: 'Failed' | 'Stopped', error?: string) {
+    const timings = this.stopClock(runId);
+    try {
+      await (this.prisma as any).issue.deleteMany({ where: { runId } });
+      await (this.prisma as any).issue.updateMany({ where: { resolvedRunId: runId }, data: { resolvedRunId: null } });
+      const asts = await (this.prisma as any).fileAst.findMany({ where: { runId, astHash: { not: null } }, select: { astHash: true } });
+      await (this.prisma as any).fileAst.deleteMany({ where: { runId } });
+      await this.astStorage.pruneBlobs([...new Set<string>(asts.map((a: any) => a.astHash))]);
+      await (this.prisma as any).fileAst.updateMany({ where: { supersededRunId: runId }, data: { supersededRunId: null } });
+      await (this.prisma as any).hotspot.deleteMany({ where: { runId } });
+      await (this.prisma as any).codeSymbol.deleteMany({ where: { runId } });
+    } catch (err: any) {
+      // eslint-disable-next-line no-console
+      console.error('[analysis-run] rollback failed', runId, err?.message || err);
+    }
+    await this.updateRun(runId, {
+      status,
+      finishedAt: new Date(),
+      stageTimings: timings,
+      error: error ? String(error).slice(0, 2000) : null,
+    });
+  }
+
+  /**
+   * Roll back runs still marked Running, e.g. because the process died mid-analysis
+   */
+  async abortStaleRuns(projectId: number, status: 'Failed' | 'Stopped' = 'Failed') {
+    const stale = await (this.prisma as any).analysisRun.findMany({
+      where: { projectId, status: 'Running' },
+      select: { id: true },
+    });
+    for (const run of stale) {
+      await this.abortRun(run.id, status, status === 'Failed' ? 'Interrupted before completion' : undefined);
+    }
+  }
+
+  /**
+   * Prisma filter for the issues visible in a given run of a project
+   */
+  issueSnapshotWhere(projectId: number, runId: number | null | undefined) {
+    if (!runId) return { projectId, id: -1 };
+    return {
+      projectId,
+      runId: { lte: runId },
+      OR: [{ resolvedRunId: null }, { resolvedRunId: { gt: runId } }],
+    };
+  }
+
+  /**
+   * The issues of a run that are reported: its snapshot minus the project's baseline
+   */
+  reportedIssueWhere(projectId: number, runId: number | null | undefined, includeBaselined = false) {
+    const snapshot = this.issueSnapshotWhere(projectId, runId);
+    return includeBaselined ? snapshot : { ...snapshot, baselined: false };
+  }
+
+  /**
+   * Prisma filter for the ASTs visible in a given run of a project
+   */
+  fileAstSnapshotWhere(projectId: number, runId: number | null | undefined) {
+    if (!runId) return { projectId, id: -1 };
+    return {
+      projectId,
+      runId: { lte: runId },
+      OR: [{ supersededRunId: null }, { supersededRunId: { gt: runId } }],
+    };
+  }
+
+  async getCurrentRunId(projectId: number): Promise<number | null> {
+    const project = await (this.prisma as any).project.findUnique({
+      where: { id: projectId },
+      select: { currentRunId: true },
+    });
+    return project?.currentRunId ?? null;
+  }
+
+  async listRuns(projectId: number) {
+    const [runs, currentRunId] = await Promise.all([
+      (this.prisma as any).analysisRun.findMany({
+        where: { projectId },
+        orderBy: { id: 'desc' },
+      }),
+      this.getCurrentRunId(projectId),
+    ]);
+    return runs.map((r: any) => ({ ...r, isCurrent: r.id === currentRunId }));
+  }
+
+  async getRun(projectId: number, runId: number) {
+    const run = await (this.prisma as any).analysisRun.findFirst({ where: { id: runId, projectId } });
+    if (!run) throw new NotFoundException('Analysis run not found');
+    const issues = await (this.prisma as any).issue.findMany({ where: this.issueSnapshotWhere(projectId, runId) });
+    const currentRunId = await this.getCurrentRunId(projectId);
+    // Findings the run no longer reports; rows it resolved but found again are left out
+    const present = new Set(issues.map((i: any) => i.fingerprint).filter(Boolean));
+    const resolved = await (this.prisma as any).issue.findMany({ where: { projectId, resolvedRunId: runId } });
+    return {
+      ...run,
+      isCurrent: run.id === currentRunId,
+      issues: issues.map((i: any) => ({ ...i, finding: (i.firstSeenRunId ?? i.runId) === runId ? 'new' : 'existing' })),
+      fixedIssues: resolved.filter((i: any) => !i.fingerprint || !present.has(i.fingerprint)),
+    };
+  }
+
+  /**
+   * Issues of the current run matching every given filter, with owner and author
+   * facets counted over the whole run so the other choices stay visible
+   */
+  async listIssues(projectId: number, filters: IssueFilters = {}) {
+    const currentRunId = await this.getCurrentRunId(projectId);
+    const snapshot = this.reportedIssueWhere(projectId, currentRunId, filters.includeBaselined);
+    const baselinedIssues = await (this.prisma as any).issue.count({ where: { ...this.issueSnapshotWhere(projectId, currentRunId), baselined: true } });
+    const all = await (this.prisma as any).issue.findMany({
+      where: snapshot,
+      select: { author: true, authorEmail: true, owners: true },
+    });
+    const owners: Record<string, number> = {};
+    const authors: Record<string, { name: string | null; count: number }> = {};
+    for (const issue of all) {
+      for (const owner of issue.owners || []) owners[owner] = (owners[owner] || 0) + 1;
+      if (issue.authorEmail) {
+        const entry = authors[issue.authorEmail] ??= { name: issue.author, count: 0 };
+        entry.count++;
+      }
+    }
+
+    const issues = await (this.prisma as any).issue.findMany({
+      where: {
+        ...snapshot,
+        ...(filters.owners?.length ? { owners: { hasSome: filters.owners } } : {}),
+        ...(filters.authors?.length ? { authorEmail: { in: filters.authors.map((a) => a.toLowerCase()) } } : {}),
+        ...(filters.severities?.length ? { severity: { in: filters.severities } } : {}),
+        ...(filters.issueTypes?.length ? { issueType: { in: filters.issueTypes } } : {}),
+      },
+      orderBy: [{ filePath: 'asc' }, { lineStart: 'asc' }],
+    });
+    return { runId: currentRunId, total: issues.length, baselinedIssues, issues, facets: { owners, authors } };
+  }
+
+  async setCurrentRun(projectId: number, runId: number) {
+    const run = await (this.prisma as any).analysisRun.findFirst({ where: { id: runId, projectId } });
+    if (!run) throw new NotFoundException('Analysis run not found');
+    if (run.status !== 'Completed') {
+      throw new BadRequestException('Only completed runs can be made current');
+    }
+    await (this.prisma as any).project.update({ where: { id: projectId }, data: { currentRunId: runId } });
+    return { ...run, isCurrent: true };
+  }
+
+  /**
+   * Summary counts for the snapshot of a finished run
+   */
+  async summarize(projectId: number, runId: number, extra: Record<string, any> = {}) {
+    const issues = await (this.prisma as any).issue.findMany({
+      where: this.issueSnapshotWhere(projectId, runId),
+      select: { runId: true, severity: true, issueType: true, filePath: true, fingerprint: true, firstSeenRunId: true, baselined: true },
+    });
+    // New, existing and fixed by fingerprint, so a full re-analysis does not report everything as new
+    const findings = await this.issueTracking.findings(projectId, runId, issues);
+    const reported = issues.filter((i: any) => !i.baselined);
+    return {
+      languages: await this.languageBreakdown(projectId, reported),
+      totalIssues: reported.length,
+      baselinedIssues: issues.length - reported.length,
+      ...findings,
+      resolvedIssues: findings.fixedIssues,
+      bySeverity: reported.reduce((acc: Record<string, number>, i: any) => {
+        acc[i.severity] = (acc[i.severity] || 0) + 1;
+        return acc;
+      }, {}),
+      byType: reported.reduce((acc: Record<string, number>, i: any) => {
+        acc[i.issueType] = (acc[i.issueType] || 0) + 1;
+        return acc;
+      }, {}),
+      ...extra,
+    };
+  }
+
+  /**
+   * Security findings of the project's current run
+   */
+  async getSecuritySummary(projectId: number) {
+    const currentRunId = await this.getCurrentRunId(projectId);
+    const issues = await (this.prisma as any).issue.findMany({
+      where: {
+        ...this.reportedIssueWhere(projectId, currentRunId),
+        issueType: { in: SECURITY_ISSUE_TYPES },
+      },
+      select: { issueType: true, severity: true, confidence: true },
+    });
+
+    return {
+      totalIssues: issues.length,
+      criticalIssues: issues.filter((i: any) => i.severity === 'Critical').length,
+      highIssues: issues.filter((i: any) => i.severity === 'High').length,
+      mediumIssues: issues.filter((i: any) => i.severity === 'Medium').length,
+      lowIssues: issues.filter((i: any) => i.severity === 'Low').length,
+      byType: issues.reduce((acc: Record<string, number>, issue: any) => {
+        acc[issue.issueType] = (acc[issue.issueType] || 0) + 1;
+        return acc;
+      }, {}),
+    };
+  }
+
+  /**
+   * Files, lines of code and issues per language, from the file inventory
+   */
+  private async languageBreakdown(projectId: number, issues: Array<{ filePath: string }>) {
+    const files = await (this.prisma as any).projectFile.findMany({
+      where: { projectId, excludedReason: null, language: { not: null } },
+      select: { language: true, loc: true },
+    });
+    const languages: Record<string, { files: number; loc: number; issues: number }> = {};
+    const entry = (language: string) => (languages[language] ??= { files: 0, loc: 0, issues: 0 });
+    for (const file of files) {
+      const stats = entry(file.language);
+      stats.files++;
+      stats.loc += file.loc || 0;
+    }
+    for (const issue of issues) {
+      const language = languageOfFile(issue.filePath);
+      if (language) entry(language).issues++;
+    }
+    return languages;
+  }
+
+  private closeStage(clock: StageClock) {
+    clock.timings[clock.stage] = (clock.timings[clock.stage] || 0) + (Date.now() - clock.startedAt);
+  }
+
+  private stopClock(runId: number): Record<string, number> | undefined {
+    const clock = this.clocks.get(runId);
+    if (!clock) return undefined;
+    this.closeStage(clock);
+    this.clocks.delete(runId);
+    return clock.timings;
+  }
+}
@@ -0,0 +1,138 @@
+import { BadRequestException, Injectable, NotFoundException, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { parseExpression } from 'cron-parser';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobsService } from '../jobs/jobs.service';
+import { AnalysisService } from './analysis.service';
+import { ProjectSourceService } from './project-source.service';
+
+// Shorthands accepted in place of a cron expression
+export const SCHEDULE_PRESETS: Record<string, string> = {
+  hourly: '0 * * * *',
+  nightly: '0 2 * * *',
+  daily: '0 2 * * *',
+  weekly: '0 3 * * 1',
+};
+
+/**
+ * Re-analyzes projects on their schedule (a cron expression or preset). Every
+ * instance polls for due projects; a project is claimed by moving its
+ * nextScheduledAt, so only one instance queues each scheduled run. Runs are
+ * skipped when the remote HEAD is still the last analyzed commit.
+ */
+@Injectable()
+export class AnalysisSchedulerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly pollIntervalMs = Number(process.env.ANALYSIS_SCHEDULER_INTERVAL_MS) || 60000;
+  private readonly timezone = process.env.ANALYSIS_SCHEDULE_TZ || undefined;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jobs: JobsService,
+    private readonly analysis: AnalysisService,
+    private readonly projectSources: ProjectSourceService,
+  ) { }
+
+  onApplicationBootstrap() {
+    if (process.env.ANALYSIS_SCHEDULER_DISABLED === 'true') return;
+    this.timer = setInterval(() => this.tick(), this.pollIntervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  /**
+   * Next time the schedule fires after `from`; throws BadRequest for invalid schedules
+   */
+  nextRun(schedule: string, from = new Date()): Date {
+    const expression = SCHEDULE_PRESETS[schedule.trim().toLowerCase()] ?? schedule.trim();
+    try {
+      return parseExpression(expression, { currentDate: from, tz: this.timezone }).next().toDate();
+    } catch {
+      throw new BadRequestException(`Invalid schedule "${schedule}": use a cron expression or one of ${Object.keys(SCHEDULE_PRESETS).join(', ')}`);
+    }
+  }
+
+  /**
+   * Set or clear (null/empty) a project's schedule
+   */
+  async setSchedule(projectId: number, schedule: string | null | undefined) {
+    const project = await (this.prisma as any).project.findUnique({ where: { id: projectId } });
+    if (!project) throw new NotFoundException('Project not found');
+    const value = typeof schedule === 'string' ? schedule.trim() : null;
+    if (value && project.sourceType === 'upload') {
+      throw new BadRequestException('Uploaded projects only change when a new archive is uploaded');
+    }
+    const updated = await (this.prisma as any).project.update({
+      where: { id: projectId },
+      data: { schedule: value || null, nextScheduledAt: value ? this.nextRun(value) : null },
+    });
+    return this.describe(updated);
+  }
+
+  describe(project: any) {
+    return {
+      schedule: project.schedule ?? null,
+      nextScheduledAt: project.nextScheduledAt ?? null,
+      lastScheduledAt: project.lastScheduledAt ?? null,
+      lastScheduleResult: project.lastScheduleResult ?? null,
+    };
+  }
+
+  private async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const now = new Date();
+      const due = await (this.prisma as any).project.findMany({
+        where: { schedule: { not: null }, nextScheduledAt: { lte: now } },
+        orderBy: { nextScheduledAt: 'asc' },
+      });
+      for (const project of due) {
+        await this.runScheduled(project, now).catch((err: any) => {
+          console.error('[scheduler] scheduled analysis failed', project.id, err?.message || err);
+        });
+      }
+    } catch (err: any) {
+      console.error('[scheduler] poll failed', err?.message || err);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runScheduled(project: any, now: Date) {
+    let next: Date | null;
+    try {
+      next = this.nextRun(project.schedule, now);
+    } catch {
+      next = null; // the schedule was stored before it became invalid; stop firing
+    }
+    // Claim this firing; another instance that read the same row loses the race
+    const claimed = await (this.prisma as any).project.updateMany({
+      where: { id: project.id, nextScheduledAt: project.nextScheduledAt },
+      data: { nextScheduledAt: next, lastScheduledAt: now },
+    });
+    if (!claimed.count) return;
+
+    let result = await this.decide(project);
+    if (result === 'queued') {
+      result = await this.analysis.startAnalysis(project.gitUrl, project.language, project.userId)
+        .then(() => result, (err: any) => `failed: ${err?.message || err}`);
+    }
+    console.log(`[scheduler] project ${project.id}: ${result}`);
+    await (this.prisma as any).project.update({ where: { id: project.id }, data: { lastScheduleResult: result } });
+  }
+
+  // 'queued', or why this firing is skipped
+  private async decide(project: any): Promise<string> {
+    const owner = await (this.prisma as any).userSettings.findUnique({ where: { userId: project.userId } }).catch(() => null);
+    if (owner && owner.autoAnalysis === false) return 'skipped: automatic analysis is off in the owner\'s settings';
+    if (await this.jobs.activeJob(project.id, 'analysis')) return 'skipped: an analysis is already queued or running';
+    if (project.lastAnalyzedCommit) {
+      const head = await this.projectSources.remoteHead(project, project.ref);
+      if (head && head === project.lastAnalyzedCommit) return 'skipped: no new commits';
+    }
+    return 'queued';
+  }
+}
@@ -0,0 +1,192 @@
+import { ChildProcess, fork } from 'child_process';
+import { cpus } from 'os';
+import { extname, join } from 'path';
+import { WorkerRequest, WorkerResponse, WorkerTask } from './worker/worker-protocol';
+
+/**
+ * A worker crashed, ran out of memory or hit a time limit. Retrying the same repo
+ * would hit the same limit, so the job runner does not retry these.
+ */
+export class AnalysisWorkerError extends Error {
+  readonly retryable = false;
+}
+
+export interface WorkerPoolOptions {
+  size: number;
+  maxOldSpaceMb: number;
+  taskTimeoutMs: number; // per file
+  runTimeoutMs: number; // whole run, wall clock
+}
+
+interface PendingTask {
+  id: number;
+  task: WorkerTask;
+  label: string;
+  timeoutMs: number | null;
+  resolve: (value: any) => void;
+  reject: (err: Error) => void;
+}
+
+interface WorkerHandle {
+  child: ChildProcess;
+  state: 'starting' | 'idle' | 'busy';
+  current?: PendingTask;
+  timer?: NodeJS.Timeout;
+  timeoutReason?: string;
+  stderrTail: string;
+}
+
+/**
+ * Forked analysis processes for one run. Each worker has its own V8 heap limit, a
+ * task that runs too long gets its worker killed, and any crash fails the whole run
+ * with a readable reason while the API process stays up.
+ */
+export class AnalysisWorkerPool {
+  private readonly deadline: number;
+  private readonly workers: WorkerHandle[] = [];
+  private readonly queue: PendingTask[] = [];
+  private nextId = 1;
+  private failure: AnalysisWorkerError | null = null;
+  private closed = false;
+
+  static optionsFromEnv(): WorkerPoolOptions {
+    const num = (value: string | undefined, fallback: number) => {
+      const n = Number(value);
+      return Number.isFinite(n) && n > 0 ? n : fallback;
+    };
+    return {
+      size: num(process.env.ANALYSIS_WORKERS, Math.min(4, Math.max(1, cpus().length - 1))),
+      maxOldSpaceMb: num(process.env.ANALYSIS_WORKER_MEMORY_MB, 1536),
+      taskTimeoutMs: num(process.env.ANALYSIS_FILE_TIMEOUT_MS, 120000),
+      runTimeoutMs: num(process.env.ANALYSIS_TIMEOUT_MS, 30 * 60 * 1000),
+    };
+  }
+
+  constructor(private readonly options: WorkerPoolOptions = AnalysisWorkerPool.optionsFromEnv()) {
+    this.deadline = Date.now() + options.runTimeoutMs;
+  }
+
+  // timeoutMs null: only the run's overall time limit applies
+  run<T>(task: WorkerTask, label: string, timeoutMs: number | null = this.options.taskTimeoutMs): Promise<T> {
+    if (this.failure) return Promise.reject(this.failure);
+    if (this.closed) return Promise.reject(new Error('Analysis worker pool is closed'));
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, task, label, timeoutMs, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  async close() {
+    this.closed = true;
+    for (const pending of this.queue.splice(0)) pending.reject(new Error('Analysis worker pool closed'));
+    for (const worker of this.workers.splice(0)) {
+      if (worker.timer) clearTimeout(worker.timer);
+      worker.current?.reject(new Error('Analysis worker pool closed'));
+      worker.child.removeAllListeners('exit');
+      worker.child.kill('SIGKILL');
+    }
+  }
+
+  private dispatch() {
+    while (this.queue.length && !this.failure && !this.closed) {
+      const idle = this.workers.find((w) => w.state === 'idle');
+      if (!idle) {
+        if (this.workers.length < this.options.size) this.spawn();
+        return;
+      }
+      this.assign(idle, this.queue.shift()!);
+    }
+  }
+
+  private spawn() {
+    // Same loader flags as the API process (ts-node in dev), but our own heap limit
+    const execArgv = process.execArgv
+      .filter((arg) => !arg.startsWith('--max-old-space-size'))
+      .concat(`--max-old-space-size=${this.options.maxOldSpaceMb}`);
+    const script = join(__dirname, 'worker', `analysis-worker${extname(__filename)}`);
+    const child = fork(script, [], { execArgv, stdio: ['ignore', 'inherit', 'pipe', 'ipc'] });
+    const worker: WorkerHandle = { child, state: 'starting', stderrTail: '' };
+    this.workers.push(worker);
+
+    child.stderr?.on('data', (chunk: Buffer) => {
+      process.stderr.write(chunk);
+      worker.stderrTail = (worker.stderrTail + chunk.toString()).slice(-4000);
+    });
+    child.on('message', (message: WorkerResponse) => this.onMessage(worker, message));
+    child.on('exit', (code, signal) => this.onExit(worker, code, signal));
+  }
+
+  private assign(worker: WorkerHandle, pending: PendingTask) {
+    const remaining = this.deadline - Date.now();
+    if (remaining <= 0) {
+      this.fail(new AnalysisWorkerError(`Analysis exceeded its time limit of ${this.formatMs(this.options.runTimeoutMs)}`));
+      pending.reject(this.failure!);
+      return;
+    }
+    worker.state = 'busy';
+    worker.current = pending;
+    const limit = pending.timeoutMs ?? remaining;
+    const runLimited = remaining <= limit;
+    worker.timer = setTimeout(() => {
+      worker.timeoutReason = runLimited
+        ? `Analysis exceeded its time limit of ${this.formatMs(this.options.runTimeoutMs)} while processing ${pending.label}`
+        : `Analysis worker timed out after ${this.formatMs(limit)} while processing ${pending.label}`;
+      worker.child.kill('SIGKILL');
+    }, Math.min(remaining, limit));
+    const request: WorkerRequest = { id: pending.id, task: pending.task };
+    worker.child.send(request);
+  }
+
+  private onMessage(worker: WorkerHandle, message: WorkerResponse) {
+    if (message.type === 'ready') {
+      worker.state = 'idle';
+      this.dispatch();
+      return;
+    }
+    const pending = worker.current;
+    if (!pending || pending.id !== message.id) return;
+    if (worker.timer) clearTimeout(worker.timer);
+    worker.current = undefined;
+    worker.state = 'idle';
+    if (message.type === 'result') pending.resolve(message.result);
+    else pending.reject(new Error(message.error));
+    this.dispatch();
+  }
+
+  private onExit(worker: WorkerHandle, code: number | null, signal: NodeJS.Signals | null) {
+    if (worker.timer) clearTimeout(worker.timer);
+    const index = this.workers.indexOf(worker);
+    if (index >= 0) this.workers.splice(index, 1);
+    if (this.closed) return;
+
+    const label = worker.current?.label;
+    const during = label ? ` while processing ${label}` : ' during startup';
+    let reason: string;
+    if (worker.timeoutReason) {
+      reason = worker.timeoutReason;
+    } else if (/heap out of memory|Allocation failed/i.test(worker.stderrTail) || signal === 'SIGABRT') {
+      reason = `Analysis worker ran out of memory (limit ${this.options.maxOldSpaceMb} MB)${during}`;
+    } else {
+      reason = `Analysis worker exited unexpectedly (code ${code ?? 'none'}, signal ${signal ?? 'none'})${during}`;
+    }
+    this.fail(new AnalysisWorkerError(reason));
+    worker.current?.reject(this.failure!);
+  }
+
+  // A crashed worker fails the run: reject everything still waiting and stop the others
+  private fail(error: AnalysisWorkerError) {
+    if (this.failure) return;
+    this.failure = error;
+    for (const pending of this.queue.splice(0)) pending.reject(error);
+    for (const other of this.workers) {
+      other.current?.reject(error);
+      other.current = undefined;
+    }
+    void this.close();
+  }
+
+  private formatMs(ms: number) {
+    if (ms < 1000) return `${ms} ms`;
+    return ms >= 60000 ? `${Math.round(ms / 60000)} min` : `${Math.round(ms / 1000)}s`;
+  }
+}
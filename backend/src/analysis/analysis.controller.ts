@@ -1,8 +1,11 @@
-import { Body, Controller, Post, Get, Param, Req, BadRequestException, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
+import { Body, Controller, Post, Get, Param, Req, BadRequestException, HttpCode, HttpStatus, UseGuards, UseInterceptors, UploadedFile } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { Request } from 'express';
+import { tmpdir } from 'os';
+import { rm } from 'fs/promises';
 import { AnalysisService } from './analysis.service';
-import { SecurityAnalysisService } from './security-analysis.service';
-import { IsNotEmpty, IsString, IsOptional } from 'class-validator';
+import { AnalysisRunService } from './analysis-run.service';
+import { IsNotEmpty, IsString, IsOptional, IsNumberString } from 'class-validator';
 import { AuthGuard } from '../auth/auth.guard';
 
 class StartAnalysisDto {
@@ -13,6 +16,40 @@ class StartAnalysisDto {
   @IsString()
   @IsOptional()
   language?: string;
+
+  // Branch, tag or commit SHA; empty for the default branch
+  @IsString()
+  @IsOptional()
+  ref?: string;
+}
+
+// Multipart fields arrive as strings
+class UploadAnalysisDto {
+  @IsNumberString()
+  @IsOptional()
+  projectId?: string;
+
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  language?: string;
+}
+
+class LocalAnalysisDto {
+  @IsString()
+  @IsNotEmpty()
+  path!: string;
+
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  language?: string;
 }
 
 @Controller('analysis')
@@ -20,24 +57,66 @@ class StartAnalysisDto {
 export class AnalysisController {
   constructor(
     private readonly analysisService: AnalysisService,
-    private readonly securityAnalysisService: SecurityAnalysisService
+    private readonly analysisRuns: AnalysisRunService
   ) { }
 
   @Post('start')
   @HttpCode(HttpStatus.ACCEPTED)
   async start(@Body() body: StartAnalysisDto, @Req() req: Request) {
-    const { gitUrl, language } = body || {} as any;
+    const { gitUrl, language, ref } = body || {} as any;
     if (!gitUrl) {
       throw new BadRequestException('gitUrl is required');
     }
     const user = (req as any).user;
-    const projectId = await this.analysisService.startAnalysis(gitUrl, language, user.id);
+    const projectId = await this.analysisService.startAnalysis(gitUrl, language, user.id, ref);
+    return { projectId, status: 'Analyzing' };
+  }
+
+  /**
+   * Analyze a .zip or .tar.gz upload (form field "archive"). Pass projectId to
+   * replace the sources of an existing uploaded project.
+   */
+  @Post('upload')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(FileInterceptor('archive', {
+    dest: tmpdir(),
+    limits: { fileSize: (Number(process.env.ANALYSIS_UPLOAD_MAX_MB) || 200) * 1024 * 1024 },
+  }))
+  async upload(
+    @UploadedFile() archive: { path: string; originalname: string } | undefined,
+    @Body() body: UploadAnalysisDto,
+    @Req() req: Request,
+  ) {
+    if (!archive) {
+      throw new BadRequestException('archive is required');
+    }
+    const user = (req as any).user;
+    try {
+      const projectId = await this.analysisService.startUploadAnalysis(
+        archive,
+        { projectId: body.projectId ? Number(body.projectId) : undefined, name: body.name, language: body.language },
+        user.id,
+      );
+      return { projectId, status: 'Analyzing' };
+    } finally {
+      await rm(archive.path, { force: true }).catch(() => { });
+    }
+  }
+
+  /**
+   * Analyze a directory on the server; it must be under one of ANALYSIS_LOCAL_ROOTS
+   */
+  @Post('local')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async local(@Body() body: LocalAnalysisDto, @Req() req: Request) {
+    const user = (req as any).user;
+    const projectId = await this.analysisService.startLocalAnalysis(body.path, body.language, user.id, body.name);
     return { projectId, status: 'Analyzing' };
   }
 
   @Get('security/:projectId')
   async getSecuritySummary(@Param('projectId') projectId: string) {
-    const summary = await this.securityAnalysisService.getSecuritySummary(parseInt(projectId));
+    const summary = await this.analysisRuns.getSecuritySummary(parseInt(projectId));
     return summary;
   }
 }
@@ -1,19 +1,39 @@
 import { Module } from '@nestjs/common';
 import { AnalysisService } from './analysis.service';
 import { AnalysisController } from './analysis.controller';
+import { CustomRulesController } from './custom-rules.controller';
+import { CustomRuleService } from './custom-rule.service';
 import { EnhancedAnalysisService } from './enhanced-analysis.service';
 import { DuplicationDetectionService } from './duplication-detection.service';
 import { AnalysisHelperService } from './analysis-helper.service';
 import { SecurityAnalysisService } from './security-analysis.service';
 import { HardcodedValuesAnalyzer } from './hardcoded-values-analyzer.service';
+import { AnalysisRunService } from './analysis-run.service';
+import { AstStorageService } from './ast-storage.service';
+import { StructuralQueryService } from './structural-query.service';
+import { AnalysisProgressService } from './analysis-progress.service';
+import { HotspotService } from './hotspot.service';
+import { SymbolIndexService } from './symbol-index.service';
+import { OwnershipService } from './ownership.service';
+import { IssueTrackingService } from './issue-tracking.service';
+import { BaselineService } from './baseline.service';
+import { QualityGateService } from './quality-gate.service';
+import { AnalysisSchedulerService } from './analysis-scheduler.service';
+import { FileAnalysisService } from './file-analysis.service';
+import { CustomRuleRunnerService } from './custom-rule-runner.service';
+import { RepoConfigService } from './repo-config.service';
+import { FileCollectorService } from './file-collector.service';
+import { ProjectSettingsService } from './project-settings.service';
+import { ProjectSourceService } from './project-source.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { ParserService } from '../parser/parser.service';
 import { AuthModule } from '../auth/auth.module';
 import { GitHubModule } from '../github/github.module';
 import { ValidationModule } from '../validation/validation.module';
+import { JobsModule } from '../jobs/jobs.module';
 
 @Module({
-  imports: [PrismaModule, AuthModule, GitHubModule, ValidationModule],
+  imports: [PrismaModule, AuthModule, GitHubModule, ValidationModule, JobsModule],
   providers: [
     AnalysisService,
     EnhancedAnalysisService,
@@ -21,9 +41,27 @@ import { ValidationModule } from '../validation/validation.module';
     AnalysisHelperService,
     SecurityAnalysisService,
     HardcodedValuesAnalyzer,
+    AnalysisRunService,
+    AstStorageService,
+    StructuralQueryService,
+    AnalysisProgressService,
+    HotspotService,
+    SymbolIndexService,
+    OwnershipService,
+    IssueTrackingService,
+    BaselineService,
+    QualityGateService,
+    AnalysisSchedulerService,
+    FileAnalysisService,
+    CustomRuleRunnerService,
+    CustomRuleService,
+    RepoConfigService,
+    FileCollectorService,
+    ProjectSettingsService,
+    ProjectSourceService,
     ParserService
   ],
-  exports: [AnalysisService],
-  controllers: [AnalysisController],
+  exports: [AnalysisService, AnalysisRunService, AstStorageService, StructuralQueryService, AnalysisProgressService, AnalysisSchedulerService, HotspotService, SymbolIndexService, IssueTrackingService, BaselineService, QualityGateService, ProjectSourceService, ProjectSettingsService, ParserService],
+  controllers: [AnalysisController, CustomRulesController],
 })
 export class AnalysisModule { }
@@ -1,18 +1,43 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable, OnModuleInit } from '@nestjs/common';
 import { ParserService } from '../parser/parser.service';
 import { PrismaService } from '../prisma/prisma.service';
-import { EnhancedAnalysisService } from './enhanced-analysis.service';
-import { DuplicationDetectionService } from './duplication-detection.service';
+import { DuplicateGroup } from './duplication-detection.service';
+import { DuplicationBlock, FileAnalysisResult, FileAnalysisService } from './file-analysis.service';
+import { AnalysisWorkerError, AnalysisWorkerPool } from './analysis-worker-pool';
+import { CheckedOutSource, ProjectSourceService } from './project-source.service';
+import { RepoConfigService } from './repo-config.service';
+import { ProjectSettingsService } from './project-settings.service';
+import { isRuleEnabled } from './analysis-context';
+import { FileCollectorService } from './file-collector.service';
+import { languageOfExtension, languageOfFile } from '../languages/language-registry';
 import { GitHubPRService } from '../github/github-pr.service';
+import { AnalysisRunService } from './analysis-run.service';
+import { AstStorageService } from './ast-storage.service';
+import { AnalysisProgressService } from './analysis-progress.service';
+import { HotspotService } from './hotspot.service';
+import { IndexedFile, SymbolIndexService } from './symbol-index.service';
+import { OwnershipService } from './ownership.service';
+import { BlameLine, blameFile } from './git-blame';
+import { IssueTrackingService } from './issue-tracking.service';
+import { BaselineService } from './baseline.service';
+import { QualityGateService } from './quality-gate.service';
+import { fingerprintAll, issueFingerprint } from './issue-fingerprint';
+import type { FunctionMetrics } from './enhanced-analysis.service';
+import { JobContext, JobsService } from '../jobs/jobs.service';
 import simpleGit from 'simple-git';
 import { tmpdir } from 'os';
 import { mkdtemp, readdir, readFile } from 'fs/promises';
-import { join, extname, relative } from 'path';
+import { join, extname, relative, basename } from 'path';
+import { randomUUID } from 'crypto';
 
-@Injectable()
-export class AnalysisService {
-  private complexityThreshold = 3; // aggressive threshold for clearer findings
+// Files touched between the last analyzed commit and the new HEAD (repo-relative paths)
+interface RepoChangeSet {
+  changed: Set<string>; // added, modified, copied or renamed-to paths
+  removed: Set<string>; // deleted or renamed-from paths
+}
 
+@Injectable()
+export class AnalysisService implements OnModuleInit {
   // Holds current file's source during analysis pass
   private currentSourceText: string | undefined;
 
@@ -22,12 +47,23 @@ export class AnalysisService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly parserService: ParserService,
-    private readonly enhancedAnalysisService: EnhancedAnalysisService,
-    private readonly duplicationDetectionService: DuplicationDetectionService,
+    private readonly fileAnalysis: FileAnalysisService,
+    private readonly projectSources: ProjectSourceService,
+    private readonly repoConfig: RepoConfigService,
+    private readonly fileCollector: FileCollectorService,
+    private readonly projectSettings: ProjectSettingsService,
     private readonly githubPRService: GitHubPRService,
+    private readonly analysisRuns: AnalysisRunService,
+    private readonly astStorage: AstStorageService,
+    private readonly jobs: JobsService,
+    private readonly progress: AnalysisProgressService,
+    private readonly hotspots: HotspotService,
+    private readonly symbolIndex: SymbolIndexService,
+    private readonly ownership: OwnershipService,
+    private readonly issueTracking: IssueTrackingService,
+    private readonly baseline: BaselineService,
+    private readonly qualityGates: QualityGateService,
   ) {
-    const th = Number(process.env.ANALYSIS_COMPLEXITY_THRESHOLD);
-    if (!Number.isNaN(th) && th > 0) this.complexityThreshold = th;
     // Try to load TypeScript API for AST-based fallback normalization
     try {
       // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -41,64 +77,192 @@ export class AnalysisService {
     }
   }
 
+  onModuleInit() {
+    this.jobs.registerHandler('analysis', (payload, ctx) => this.runAnalysisJob(payload, ctx));
+    this.jobs.onJobEnded('analysis', (job, status) => this.analysisJobEnded(job.projectId, status));
+  }
+
   private dlog(...args: any[]) {
     // Temporarily always log for deep debugging
     // eslint-disable-next-line no-console
     console.log('[analysis]', ...args);
   }
 
-  async startAnalysis(gitUrl: string, language?: string, userId?: number): Promise<number> {
-    this.dlog('startAnalysis called', { gitUrl, language, userId, threshold: this.complexityThreshold });
+  /**
+   * Queue an analysis of the project behind gitUrl. `ref` (branch, tag or SHA) is
+   * remembered on the project: omit it to keep the current one, pass '' or null to
+   * go back to the default branch.
+   */
+  async startAnalysis(gitUrl: string, language?: string, userId?: number, ref?: string | null): Promise<number> {
+    this.dlog('startAnalysis called', { gitUrl, language, userId, ref });
+    // Refs end up as git arguments: no option-looking or otherwise odd names
+    if (ref && !/^(?!-)[\w./-]+$/.test(ref.trim())) {
+      throw new BadRequestException('ref must be a branch, tag or commit SHA');
+    }
+    // Local paths are only reachable through the allow-listed /analysis/local endpoint
+    const existing = await (this.prisma as any).project.findUnique({ where: { gitUrl }, select: { id: true } });
+    if (!existing && !/^(https?|ssh|git):\/\/|^[\w.-]+@[\w.-]+:/.test(gitUrl)) {
+      throw new BadRequestException('gitUrl must be a remote repository URL');
+    }
     // Create project or reuse existing
     const project = await (this.prisma as any).project.upsert({
       where: { gitUrl },
-      update: { status: 'Analyzing', analysisStage: 'cloning' },
+      update: ref !== undefined ? { ref: ref?.trim() || null } : {},
       create: {
         name: this.deriveProjectName(gitUrl),
         gitUrl,
         language: language || 'auto-detect',
+        ref: ref?.trim() || null,
         status: 'Analyzing',
-        analysisStage: 'cloning',
+        analysisStage: 'queued',
         user: userId
           ? { connect: { id: userId } }
           : { create: { email: `${Date.now()}@placeholder.local` } },
       },
     });
 
-    // If we have a logged-in user and GitHub URL, attempt token-authenticated clone for private repos
-    let effectiveUrl = gitUrl;
-    if (userId && /github\.com/.test(gitUrl)) {
-      try {
-        const user = await (this.prisma as any).user.findUnique({ where: { id: userId } });
-        const token: string | undefined = user?.githubAccessToken;
-        if (token) {
-          // https://x-access-token:<token>@github.com/owner/repo.git
-          const encoded = encodeURIComponent(token);
-          effectiveUrl = gitUrl.replace(/^https:\/\//, `https://x-access-token:${encoded}@`);
+    return this.queueAnalysis(project, language);
+  }
+
+  /**
+   * Analyze an uploaded .zip or .tar.gz. Without projectId a new non-git project is
+   * created; with it, the archive replaces the sources of that uploaded project.
+   */
+  async startUploadAnalysis(
+    archive: { path: string; originalname: string },
+    options: { projectId?: number; name?: string; language?: string },
+    userId: number,
+  ): Promise<number> {
+    this.dlog('startUploadAnalysis called', { archive: archive.originalname, ...options, userId });
+    const staging = await this.projectSources.extractArchive(archive.path, archive.originalname);
+    try {
+      let project: any;
+      if (options.projectId) {
+        project = await (this.prisma as any).project.findUnique({ where: { id: options.projectId } });
+        if (!project || project.sourceType !== 'upload') {
+          throw new BadRequestException(`Project ${options.projectId} is not an uploaded project`);
         }
-      } catch { }
+        // The running analysis reads the stored tree we are about to replace
+        if (await this.jobs.activeJob(project.id, 'analysis')) {
+          throw new BadRequestException('An analysis of this project is already queued or running');
+        }
+      } else {
+        project = await (this.prisma as any).project.create({
+          data: {
+            name: options.name || archive.originalname.replace(/\.(zip|tar\.gz|tgz)$/i, ''),
+            gitUrl: `upload://${randomUUID()}`,
+            sourceType: 'upload',
+            language: options.language || 'auto-detect',
+            status: 'Analyzing',
+            analysisStage: 'queued',
+            user: { connect: { id: userId } },
+          },
+        });
+      }
+      await this.projectSources.storeUpload(project.id, staging);
+      project = await (this.prisma as any).project.update({
+        where: { id: project.id },
+        data: { status: 'Analyzing', analysisStage: 'queued' },
+      });
+      return this.queueAnalysis(project, options.language || project.language);
+    } finally {
+      await this.projectSources.discardStaging(staging);
     }
+  }
 
-    // Async fire-and-forget analysis (no queue for demo)
-    this.dlog('queue analyzeRepo', { effectiveUrl, language: language || 'auto-detect', projectId: project.id, userId });
-    this.analyzeRepo(effectiveUrl, language || 'auto-detect', project.id, userId).catch((err) => {
-      // eslint-disable-next-line no-console
-      console.error('Analysis failed', err);
+  /**
+   * Analyze a directory on the server. Only paths under ANALYSIS_LOCAL_ROOTS are
+   * accepted; the same path always maps to the same project.
+   */
+  async startLocalAnalysis(path: string, language?: string, userId?: number, name?: string): Promise<number> {
+    this.dlog('startLocalAnalysis called', { path, language, userId });
+    const sourcePath = await this.projectSources.resolveLocalPath(path);
+    const gitUrl = `local://${sourcePath}`;
+    const project = await (this.prisma as any).project.upsert({
+      where: { gitUrl },
+      update: {},
+      create: {
+        name: name || basename(sourcePath),
+        gitUrl,
+        sourceType: 'local',
+        sourcePath,
+        language: language || 'auto-detect',
+        status: 'Analyzing',
+        analysisStage: 'queued',
+        user: { connect: { id: userId } },
+      },
     });
+    return this.queueAnalysis(project, language);
+  }
+
+  // Queue the run; an already queued analysis of this project is reused, a running one gets a follow-up
+  private async queueAnalysis(project: { id: number; gitUrl: string; userId: number }, language?: string) {
+    // The running analysis keeps reporting its own progress until the follow-up starts
+    if (!(await this.jobs.isRunning(project.id, 'analysis'))) {
+      await (this.prisma as any).project.update({ where: { id: project.id }, data: { status: 'Analyzing', analysisStage: 'queued' } });
+    }
+    const job = await this.jobs.enqueue(
+      'analysis',
+      { gitUrl: project.gitUrl, language: language || 'auto-detect' },
+      { projectId: project.id, userId: project.userId, unique: true, maxAttempts: 2 },
+    );
+    this.dlog('queued analysis job', { jobId: job.id, projectId: project.id, queuePosition: job.queuePosition });
 
     return project.id;
   }
 
+  /**
+   * Job handler for queued analyses. A run left behind by a crashed worker is rolled
+   * back first so the retry starts from the last completed snapshot.
+   */
+  private async runAnalysisJob(payload: { gitUrl: string; language: string }, ctx: JobContext) {
+    const job = await (this.prisma as any).job.findUnique({ where: { id: ctx.jobId } });
+    const projectId: number = job.projectId;
+    const userId: number | undefined = job.userId ?? undefined;
+    await this.analysisRuns.abortStaleRuns(projectId);
+    // The ref is read when the run starts so a queued job (reused, or queued behind a running one) picks up the latest request
+    const project = await (this.prisma as any).project.update({ where: { id: projectId }, data: { status: 'Analyzing', analysisStage: 'cloning' } });
+
+    try {
+      await this.analyzeRepo(payload.gitUrl, payload.language, projectId, userId, ctx, project.ref);
+    } catch (err: any) {
+      if (err?.retryable !== false && ctx.attempt < ctx.maxAttempts && !(await ctx.isCancelled())) {
+        // Will be retried; keep the project in the queue instead of showing Failed
+        await (this.prisma as any).project.update({ where: { id: projectId }, data: { status: 'Analyzing', analysisStage: 'queued' } }).catch(() => { });
+      }
+      throw err;
+    }
+    return { projectId, currentRunId: await this.analysisRuns.getCurrentRunId(projectId) };
+  }
+
+  /**
+   * An analysis job failed for good or was cancelled, possibly in a process that died
+   * before it could clean up: roll back its run and settle the project's status, unless
+   * another analysis of the project is running or queued
+   */
+  private async analysisJobEnded(projectId: number | null, status: 'Failed' | 'Cancelled') {
+    if (!projectId || await this.jobs.isRunning(projectId, 'analysis')) return;
+    await this.analysisRuns.abortStaleRuns(projectId, status === 'Failed' ? 'Failed' : 'Stopped');
+    const queued = await this.jobs.activeJob(projectId, 'analysis');
+    await (this.prisma as any).project.update({
+      where: { id: projectId },
+      data: queued
+        ? { status: 'Analyzing', analysisStage: 'queued' }
+        : status === 'Failed' ? { status: 'Failed' } : { status: 'Stopped', analysisStage: 'stopped' },
+    });
+  }
+
   private deriveProjectName(gitUrl: string) {
     if (!gitUrl) return 'project';
     const name = gitUrl.split('/').pop() || 'project';
     return name.replace(/\.git$/, '');
   }
 
-  // Automatically detect the primary language of a repository
-  private async detectLanguage(dir: string): Promise<string> {
+  // Automatically detect the primary language of a repository (the project's label; every
+  // supported language is analyzed regardless)
+  private async detectLanguage(dir: string, collected?: string[]): Promise<string> {
     try {
-      const files = await this.collectFiles(dir);
+      const files = collected || await this.collectFiles(dir);
       const extensionCounts = new Map<string, number>();
 
       // Count file extensions
@@ -109,31 +273,15 @@ export class AnalysisService {
         }
       }
 
-      // Define language detection priorities
-      const languageMap = {
-        '.java': { language: 'java', priority: 12 },
-        '.kt': { language: 'kotlin', priority: 11 },
-        '.ts': { language: 'typescript', priority: 10 },
-        '.tsx': { language: 'typescript', priority: 9 },
-        '.js': { language: 'javascript', priority: 8 },
-        '.jsx': { language: 'javascript', priority: 7 },
-        '.py': { language: 'python', priority: 6 },
-        '.cpp': { language: 'cpp', priority: 5 },
-        '.c': { language: 'c', priority: 4 },
-        '.cs': { language: 'csharp', priority: 3 },
-        '.go': { language: 'go', priority: 2 },
-        '.rs': { language: 'rust', priority: 1 },
-      };
-
       let bestMatch = { language: 'typescript', score: 0 }; // default to typescript
 
       // Score each language based on file count and priority
       for (const [ext, count] of extensionCounts.entries()) {
-        const mapping = languageMap[ext as keyof typeof languageMap];
+        const mapping = languageOfExtension(ext);
         if (mapping) {
           const score = count * mapping.priority;
           if (score > bestMatch.score) {
-            bestMatch = { language: mapping.language, score };
+            bestMatch = { language: mapping.profile.id, score };
           }
         }
       }
@@ -150,54 +298,91 @@ export class AnalysisService {
     }
   }
 
-  private async analyzeRepo(gitUrl: string, language: string, projectId: number, userId?: number) {
-    this.dlog('analyzeRepo start', { gitUrl, language, projectId, userId });
-    
-    // Fetch user settings to get complexity threshold
-    const originalThreshold = this.complexityThreshold;
-    if (userId) {
-      try {
-        const settings = await (this.prisma as any).userSettings.findUnique({
-          where: { userId: userId }
-        });
-        if (settings && settings.complexityThreshold) {
-          this.complexityThreshold = settings.complexityThreshold;
-          this.dlog('Using user complexity threshold', { threshold: this.complexityThreshold });
-        }
-      } catch (err) {
-        this.dlog('Failed to fetch user settings, using default threshold', err);
-      }
-    }
-    
-    let dir: string | undefined;
+  private async analyzeRepo(gitUrl: string, language: string, projectId: number, userId?: number, job?: JobContext, ref?: string | null) {
+    this.dlog('analyzeRepo start', { gitUrl, language, projectId, userId, ref });
+
+    let source: CheckedOutSource | undefined;
+    let pool: AnalysisWorkerPool | undefined;
+    const run = await this.analysisRuns.startRun(projectId, { language, ref });
+    this.progress.start(projectId, run.id);
+    let runFinished = false;
     try {
       // Stage 1: Cloning
-      await this.updateAnalysisStage(projectId, 'cloning');
+      await this.updateAnalysisStage(projectId, 'cloning', run.id);
       
       // Check if analysis should stop
-      if (await this.shouldStopAnalysis(projectId)) {
+      if (await this.shouldStopAnalysis(projectId, job)) {
         this.dlog('Analysis stopped during cloning stage');
         return;
       }
       
-      dir = await mkdtemp(join(tmpdir(), 'codestruct-'));
-      const git = simpleGit();
-      await git.clone(gitUrl, dir);
-      this.dlog('cloned into', { dir });
+      // Clone git projects; uploaded and local projects are read in place
+      const previous = await (this.prisma as any).project.findUnique({ where: { id: projectId } });
+      source = await this.projectSources.checkout(previous, ref);
+      const dir = source.dir;
+      this.dlog('sources ready', { dir, sourceType: source.sourceType });
+
+      // Settings for this run only: defaults < user < project < .codestruct.yml
+      const config = await this.repoConfig.load(dir, await this.projectSettings.resolve(previous));
+      const context = this.repoConfig.toContext(config);
+      const codeOwners = await this.ownership.loadCodeOwners(dir);
+      await this.analysisRuns.updateRun(run.id, { config });
+      this.dlog('analysis settings', { layers: config.layers, warnings: config.warnings });
+
+      // Decide between incremental and full analysis based on the last analyzed commit.
+      // Non-git sources have no history to diff, so they are always analyzed in full, and
+      // so is every run whose config changed since the last one.
+      const headSha = source.commitSha;
+      const lastRun = previous?.lastAnalyzedCommit
+        ? await (this.prisma as any).analysisRun.findFirst({
+          where: { projectId, status: 'Completed', id: { lt: run.id } },
+          orderBy: { id: 'desc' },
+          select: { config: true },
+        })
+        : null;
+      let changeSet = headSha && previous?.lastAnalyzedCommit && this.repoConfig.sameSettings(lastRun?.config, config)
+        ? await this.diffSinceCommit(dir, previous.lastAnalyzedCommit, headSha)
+        : null;
+      // Ignore rules decide which files exist for the analysis; when they change, start over
+      const touchesIgnoreRules = (paths: Set<string>) =>
+        [...paths].some((p) => basename(p) === '.gitignore' || p === '.gitattributes');
+      if (changeSet && (touchesIgnoreRules(changeSet.changed) || touchesIgnoreRules(changeSet.removed))) {
+        changeSet = null;
+      }
+      const incremental = !!changeSet;
+      await this.analysisRuns.updateRun(run.id, {
+        mode: incremental ? 'incremental' : 'full',
+        commitSha: headSha,
+        baseCommitSha: incremental ? previous.lastAnalyzedCommit : null,
+        branch: source.branch,
+      });
+      this.dlog('analysis mode', {
+        mode: incremental ? 'incremental' : 'full',
+        from: previous?.lastAnalyzedCommit,
+        to: headSha,
+        changed: changeSet?.changed.size,
+        removed: changeSet?.removed.size,
+      });
 
       // Stage 2: Language Detection
-      await this.updateAnalysisStage(projectId, 'detecting');
+      await this.updateAnalysisStage(projectId, 'detecting', run.id);
       
       // Check if analysis should stop
-      if (await this.shouldStopAnalysis(projectId)) {
+      if (await this.shouldStopAnalysis(projectId, job)) {
         this.dlog('Analysis stopped during detection stage');
         return;
       }
       
-      // Auto-detect language if needed
-      let detectedLanguage = language;
-      if (language === 'auto-detect') {
-        detectedLanguage = await this.detectLanguage(dir);
+      // Files git would track, minus generated/vendored code and project or repo excludes
+      const collected = await this.fileCollector.collect(dir, { excludeGlobs: previous?.excludeGlobs, config });
+      const files = collected.files;
+      this.dlog('files collected', { count: files.length, excluded: collected.excluded.length });
+      this.progress.filesTotal(projectId, files.length);
+
+      // Auto-detect language if needed; a language in the repository config always wins
+      let detectedLanguage = config.language || language;
+      if (detectedLanguage === 'auto-detect') {
+        detectedLanguage = await this.detectLanguage(dir, files);
         this.dlog('detected language', { detectedLanguage });
 
         // Update project with detected language
@@ -210,339 +395,344 @@ export class AnalysisService {
           this.dlog('failed to update project language', err);
         }
       }
+      await this.analysisRuns.updateRun(run.id, { language: detectedLanguage });
+
+      // Resolve the previous findings this run will re-detect; they stay in history under older runs.
+      // Incremental runs only touch rows of changed files; duplicates are cross-file and handled later.
+      if (changeSet) {
+        const touched = [...changeSet.changed, ...changeSet.removed];
+        if (touched.length) {
+          await (this.prisma as any).issue.updateMany({
+            where: { projectId, resolvedRunId: null, filePath: { in: touched }, NOT: { issueType: 'DuplicateCode' } },
+            data: { resolvedRunId: run.id },
+          });
+          await (this.prisma as any).fileAst.updateMany({
+            where: { projectId, supersededRunId: null, filePath: { in: touched } },
+            data: { supersededRunId: run.id },
+          });
+        }
+      } else {
+        await (this.prisma as any).issue.updateMany({ where: { projectId, resolvedRunId: null }, data: { resolvedRunId: run.id } });
+        await (this.prisma as any).fileAst.updateMany({ where: { projectId, supersededRunId: null }, data: { supersededRunId: run.id } });
+      }
 
-      // Reset existing issues for re-run scenarios (cascade deletes refactoring suggestions)
-      await (this.prisma as any).issue.deleteMany({ where: { projectId } });
-      await (this.prisma as any).fileAst?.deleteMany?.({ where: { projectId } }).catch(() => { });
+      const toRel = (p: string) => relative(dir!, p).replace(/\\/g, '/');
+      const needsAnalysis = (p: string) => !changeSet || changeSet.changed.has(toRel(p));
 
-      const files = await this.collectFiles(dir);
-      this.dlog('files collected', { count: files.length });
-      
       // Stage 3: Parsing Files
-      await this.updateAnalysisStage(projectId, 'parsing');
+      await this.updateAnalysisStage(projectId, 'parsing', run.id);
       
       // Check if analysis should stop
-      if (await this.shouldStopAnalysis(projectId)) {
+      if (await this.shouldStopAnalysis(projectId, job)) {
         this.dlog('Analysis stopped during parsing stage');
         return;
       }
-      
-      // Parse all files and persist ASTs using ParserService
-      let asts: any = {};
-      try {
-        asts = await this.parserService.parseRepo(dir, detectedLanguage);
-        this.dlog('ASTs parsed', { count: Object.keys(asts).length });
-      } catch (parseError: any) {
-        this.dlog('parseRepo failed, continuing with empty ASTs', { error: parseError?.message });
-        // Continue analysis even if parsing fails
-      }
 
-      for (const [relPath, astObj] of Object.entries(asts)) {
-        try {
-          await (this.prisma as any).fileAst.create({
-            data: {
-              projectId,
-              filePath: relPath,
-              language: (astObj as any).language,
-              astFormat: (astObj as any).format,
-              ast: String((astObj as any).ast).slice(0, 500000),
-            },
-          });
-        } catch (astError: any) {
-          this.dlog('failed to store AST for file', { relPath, error: astError?.message });
-          // Continue with other files
-        }
-      }
-      this.dlog('total files found', { count: files.length });
-      // Store file inventory for the project (use repo-relative paths)
-      try {
-        await (this.prisma as any).projectFile?.deleteMany?.({ where: { projectId } });
-        const batch = files.slice(0, 5000).map((p) => {
-          const rel = relative(dir!, p).replace(/\\/g, '/');
-          const e = extname(p).toLowerCase();
-          return { projectId, filePath: rel, ext: e, supported: this.supports(e, detectedLanguage) };
-        });
-        if (batch.length) await (this.prisma as any).projectFile?.createMany?.({ data: batch, skipDuplicates: true });
-      } catch { }
-
-      // Stage 4: Analyzing Code Smells
-      await this.updateAnalysisStage(projectId, 'analyzing');
-      
-      // Check if analysis should stop
-      if (await this.shouldStopAnalysis(projectId)) {
-        this.dlog('Analysis stopped during analyzing stage');
-        return;
-      }
-      
-      // Enhanced analysis using new services
-      const codeBlocks: Array<{ code: string; filePath: string; startIndex: number; endIndex: number; ast?: any }> = [];
+      // Parsing and smell detection run in worker processes, several files at a time;
+      // results are persisted here as they come back
+      pool = new AnalysisWorkerPool();
+      const workerPool = pool;
+      const blocksByFile: Array<DuplicationBlock | undefined> = new Array(files.length);
+      const locByFile = new Map<string, number>();
+      const functionsByFile = new Map<string, FunctionMetrics[]>();
+      const symbolsByFile = new Map<string, IndexedFile>();
       let created = 0;
       let filesVisited = 0;
       let filesAnalyzed = 0;
+      let stopped = false;
 
-      for (const file of files) {
+      const outcomes = await Promise.allSettled(files.map(async (file, index) => {
+        const relPath = toRel(file);
+        let result: FileAnalysisResult;
         try {
-          const displayPath = relative(dir!, file).replace(/\\/g, '/');
-          const code = await readFile(file, 'utf8');
-          const ext = extname(file).toLowerCase();
-          filesVisited++;
-          const supported = this.supports(ext, detectedLanguage);
-
-          if (!supported) {
-            this.dlog('skip unsupported', { displayPath, ext, language: detectedLanguage });
-            continue;
-          }
-
-          this.dlog('analyzing file', { displayPath, ext });
-
-          let astSucceeded = false;
-          let ast: any = null;
-
-          // Try Tree-sitter parsing first
-          try {
-            const parsed = this.parserService.parseWithTreeSitter(code, ext);
-            if (parsed) {
-              this.dlog('treesitter parsed', { displayPath, langKey: parsed.langKey });
-              ast = parsed.tree;
-
-              // Use enhanced analysis service
-              const issues = await this.enhancedAnalysisService.analyzeCodeSmells(
-                ast,
-                code,
-                displayPath,
-                parsed.langKey,
-                projectId
-              );
-
-              created += issues.length;
-              astSucceeded = true;
-              filesAnalyzed++;
-
-              // Add to code blocks for duplicate detection (with size limits)
-              if (code.length <= 50000) { // Skip very large files for duplicate detection
-                codeBlocks.push({
-                  code: code.slice(0, 10000), // Limit code size for duplicate detection
-                  filePath: displayPath,
-                  startIndex: 0,
-                  endIndex: Math.min(code.length, 10000),
-                  ast
-                });
-              }
-            }
-          } catch (error: any) {
-            this.dlog('treesitter parsing failed', { displayPath, error: error?.message || 'Unknown error' });
-          }
-
-          // Fallback to JSON AST if available
-          const astObj = (asts as any)[displayPath];
-          if (!astSucceeded && astObj?.ast && (astObj.format === 'tree-sitter-json' || astObj.format === 'ts-compiler-json')) {
-            this.dlog('using JSON AST fallback', { displayPath, format: astObj.format });
-            try {
-              const jsonAst = JSON.parse(astObj.ast);
-
-              // Basic complexity analysis for fallback
-              const funcNodes = this.findFunctionsJson(jsonAst, astObj.format);
-              for (const fn of funcNodes) {
-                const { start, end } = this.getRangeFromJsonNode(fn, astObj.format);
-                const text = code.slice(start, end);
-                const complexity = this.calculateComplexityJson(fn, astObj.format, code);
-                const fnName = this.extractFunctionNameFromText(text, detectedLanguage);
-
-                if (complexity > this.complexityThreshold) {
-                  await (this.prisma as any).issue.create({
-                    data: {
-                      projectId,
-                      filePath: displayPath,
-                      functionName: fnName,
-                      issueType: 'HighComplexity',
-                      severity: complexity > 15 ? 'High' : complexity > 10 ? 'Medium' : 'Low',
-                      confidence: 80,
-                      description: `Function '${fnName}' has high cyclomatic complexity (${complexity})`,
-                      recommendation: 'Consider breaking this function into smaller, more focused functions.',
-                      metadata: { complexity },
-                      codeBlock: text,
-                    },
-                  });
-                  created++;
-                }
-              }
-
-              astSucceeded = true;
-              filesAnalyzed++;
-
-              codeBlocks.push({
-                code,
-                filePath: displayPath,
-                startIndex: 0,
-                endIndex: code.length
-              });
-            } catch (error: any) {
-              this.dlog('JSON AST parsing failed', { displayPath, error: error?.message || 'Unknown error' });
-            }
-          }
-
-          // Final fallback to text-based analysis
-          if (!astSucceeded) {
-            this.dlog('falling back to text extraction', { displayPath });
-            const blocks = this.extractBlocksFallback(code, detectedLanguage);
-
-            for (const block of blocks) {
-              const complexity = this.estimateCyclomaticComplexityFromText(block.text);
-              const fnName = this.extractFunctionNameFromText(block.text, detectedLanguage);
-
-              if (complexity > this.complexityThreshold) {
-                await (this.prisma as any).issue.create({
-                  data: {
-                    projectId,
-                    filePath: displayPath,
-                    functionName: fnName,
-                    issueType: 'HighComplexity',
-                    severity: complexity > 15 ? 'High' : complexity > 10 ? 'Medium' : 'Low',
-                    confidence: 60,
-                    description: `Function '${fnName}' has high cyclomatic complexity (${complexity})`,
-                    recommendation: 'Consider breaking this function into smaller, more focused functions.',
-                    metadata: { complexity },
-                    codeBlock: block.text,
-                  },
-                });
-                created++;
-              }
-            }
-
-            // Add to code blocks for duplicate detection (with size limits)
-            if (code.length <= 50000) { // Skip very large files for duplicate detection
-              codeBlocks.push({
-                code: code.slice(0, 10000), // Limit code size for duplicate detection
-                filePath: displayPath,
-                startIndex: 0,
-                endIndex: Math.min(code.length, 10000)
-              });
-            }
-          }
+          result = await workerPool.run<FileAnalysisResult>({
+            kind: 'file',
+            file: {
+              absPath: file,
+              relPath,
+              language: languageOfFile(relPath) ?? detectedLanguage,
+              context,
+              analyze: needsAnalysis(file),
+            },
+          }, relPath);
         } catch (fileError: any) {
+          if (fileError instanceof AnalysisWorkerError || stopped) throw fileError;
           this.dlog('failed to analyze file', { file, error: fileError?.message });
-          filesVisited++;
-          // Continue with next file
+          this.progress.error(projectId, `${relPath}: ${fileError?.message || 'analysis failed'}`);
+          return;
+        }
+        if (stopped) return;
+        blocksByFile[index] = result.codeBlock;
+        locByFile.set(relPath, result.loc);
+        if (result.functions) functionsByFile.set(relPath, result.functions);
+        if (result.symbols) symbolsByFile.set(relPath, { language: result.language, symbols: result.symbols });
+        if (result.analyzed) filesAnalyzed++;
+        try {
+          result.issues = await this.ownership.attribute(dir, codeOwners, relPath, result.issues);
+          const stored = await this.storeFileResult(projectId, run.id, result);
+          created += stored;
+          this.progress.fileDone(projectId, relPath, stored);
+        } catch (storeError: any) {
+          this.dlog('failed to store file results', { file, error: storeError?.message });
+          this.progress.error(projectId, `${relPath}: storing results failed: ${storeError?.message || 'unknown error'}`);
+          throw storeError;
+        }
+
+        // Stage 4 starts once results flow back; keep honouring stop requests
+        if (++filesVisited === 1) await this.updateAnalysisStage(projectId, 'analyzing', run.id);
+        if (filesVisited % 25 === 0 && await this.shouldStopAnalysis(projectId, job)) {
+          stopped = true;
+          await workerPool.close();
         }
+      }));
+      if (stopped) {
+        this.dlog('Analysis stopped during analyzing stage');
+        return;
+      }
+      const crash = outcomes.find((o) => o.status === 'rejected' && o.reason instanceof AnalysisWorkerError);
+      if (crash) throw (crash as PromiseRejectedResult).reason;
+      // Completing without a file's issues would report them as fixed, so fail the run instead
+      const failed = outcomes.filter((o): o is PromiseRejectedResult => o.status === 'rejected');
+      if (failed.length) {
+        throw new Error(`Results of ${failed.length} file(s) could not be stored: ${failed[0].reason?.message || failed[0].reason}`);
       }
 
       // Stage 5: Duplicate Detection
-      await this.updateAnalysisStage(projectId, 'duplicates');
+      await this.updateAnalysisStage(projectId, 'duplicates', run.id);
       
       // Check if analysis should stop
-      if (await this.shouldStopAnalysis(projectId)) {
+      if (await this.shouldStopAnalysis(projectId, job)) {
         this.dlog('Analysis stopped during duplicate detection stage');
         return;
       }
       
-      // Enhanced duplicate detection with memory optimization
-      this.dlog('starting enhanced duplicate detection', { codeBlockCount: codeBlocks.length });
+      // Store file inventory for the project (use repo-relative paths) with each file's language
+      // and size, excluded paths with their reason. Only past the last stop point: aborting doesn't restore them.
+      await (this.prisma as any).projectFile.deleteMany({
+        where: changeSet
+          ? { projectId, OR: [{ filePath: { in: [...changeSet.changed, ...changeSet.removed] } }, { excludedReason: { not: null } }] }
+          : { projectId },
+      });
+      const batch = files.filter(needsAnalysis).slice(0, 5000).map((p) => {
+        const rel = toRel(p);
+        const e = extname(p).toLowerCase();
+        return {
+          projectId,
+          filePath: rel,
+          ext: e,
+          language: languageOfFile(rel),
+          loc: locByFile.get(rel) ?? null,
+          supported: this.fileAnalysis.supports(e),
+        };
+      });
+      const excluded = collected.excluded.slice(0, 5000).map((x) => ({
+        projectId,
+        filePath: x.path,
+        ext: x.path.endsWith('/') ? '' : extname(x.path).toLowerCase(),
+        language: x.path.endsWith('/') ? null : languageOfFile(x.path),
+        supported: false,
+        excludedReason: x.reason,
+      }));
+      if (batch.length || excluded.length) {
+        await (this.prisma as any).projectFile.createMany({ data: [...batch, ...excluded], skipDuplicates: true });
+      }
 
-      try {
-        // Process in smaller batches to prevent memory overflow
-        const batchSize = 50; // Process 50 code blocks at a time
-        const allGroups: any[] = [];
-
-        for (let i = 0; i < codeBlocks.length; i += batchSize) {
-          const batch = codeBlocks.slice(i, i + batchSize);
-          this.dlog(`Processing duplicate detection batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(codeBlocks.length / batchSize)}`);
-
-          try {
-            const duplicateGroups = await this.duplicationDetectionService.detectDuplicates(
-              batch,
-              detectedLanguage
-            );
-            allGroups.push(...duplicateGroups);
-
-            // Force garbage collection if available
-            if (global.gc) {
-              global.gc();
-            }
-          } catch (batchError: any) {
-            this.dlog('batch duplicate detection failed', {
-              batch: Math.floor(i / batchSize) + 1,
-              error: batchError?.message || 'Unknown error'
-            });
-          }
+      // Duplicate detection per language over its files (in repository order), in workers as well
+      const blocksByLanguage = new Map<string, DuplicationBlock[]>();
+      for (const block of blocksByFile) {
+        if (block) blocksByLanguage.set(block.language, [...(blocksByLanguage.get(block.language) || []), block]);
+      }
+      this.dlog('starting enhanced duplicate detection', {
+        codeBlockCount: Object.fromEntries([...blocksByLanguage].map(([lang, blocks]) => [lang, blocks.length])),
+      });
 
-          // Small delay between batches
-          await new Promise(resolve => setTimeout(resolve, 50));
+      // Detection and storage errors fail the run: old duplicate groups are already resolved by now
+      let allGroups: DuplicateGroup[] = [];
+      if (isRuleEnabled(context, 'DuplicateCode')) {
+        const groups = await Promise.all([...blocksByLanguage].map(([blockLanguage, blocks]) =>
+          workerPool.run<DuplicateGroup[]>(
+            {
+              kind: 'duplicates',
+              blocks,
+              language: blockLanguage,
+              context,
+            },
+            `duplicate detection (${blockLanguage})`,
+            null,
+          )));
+        allGroups = groups.flat();
+      }
+
+      this.dlog('duplicate detection completed', { groupCount: allGroups.length });
+
+      // Incremental runs only replace duplicate groups that involve a touched file
+      let groupsToStore = allGroups;
+      if (changeSet) {
+        const touched = new Set([...changeSet.changed, ...changeSet.removed]);
+        const touches = (paths: string[]) => paths.some((p) => touched.has(p));
+        const existing = await (this.prisma as any).issue.findMany({
+          where: { projectId, issueType: 'DuplicateCode', resolvedRunId: null },
+          select: { id: true, filePath: true, metadata: true },
+        });
+        const staleIds = existing
+          .filter((i: any) => touches([i.filePath, ...((i.metadata?.affectedFiles as string[]) || [])]))
+          .map((i: any) => i.id);
+        if (staleIds.length) {
+          await (this.prisma as any).issue.updateMany({ where: { id: { in: staleIds } }, data: { resolvedRunId: run.id } });
         }
+        groupsToStore = allGroups.filter((g: any) => touches(g.affectedFiles));
+      }
 
-        this.dlog('duplicate detection completed', { groupCount: allGroups.length });
-
-        // Store duplicate issues
-        for (const group of allGroups) {
-          try {
-            for (const block of group.blocks) {
-              await (this.prisma as any).issue.create({
-                data: {
-                  projectId,
-                  filePath: block.filePath,
-                  functionName: null,
-                  issueType: 'DuplicateCode',
-                  severity: group.severity,
-                  confidence: Math.round(group.similarity * 100),
-                  description: `${group.type} duplicate code found (${group.blocks.length} instances across ${group.affectedFiles.length} files)`,
-                  recommendation: 'Extract common code into a shared function or module to reduce duplication.',
-                  duplicateGroupId: group.id,
-                  metadata: {
-                    duplicateType: group.type,
-                    similarity: group.similarity,
-                    totalInstances: group.blocks.length,
-                    affectedFiles: group.affectedFiles,
-                    totalLines: group.totalLines
-                  },
-                  codeBlock: block.originalCode.slice(0, 2000), // Limit size
-                },
-              });
-              created++;
-            }
-          } catch (storeError: any) {
-            this.dlog('failed to store duplicate group', {
-              groupId: group.id,
-              error: storeError?.message || 'Unknown error'
-            });
-          }
+      // Store duplicate issues, attributed over each block's lines like the others (each file is blamed once)
+      const blameByFile = new Map<string, BlameLine[]>();
+      const duplicateOccurrences = new Map<string, number>(); // fingerprint -> repeats so far
+      for (const group of groupsToStore) {
+        for (const block of group.blocks) {
+          if (!blameByFile.has(block.filePath)) blameByFile.set(block.filePath, await blameFile(dir, block.filePath));
+          const [owned] = await this.ownership.attribute(dir, codeOwners, block.filePath, [{ filePath: block.filePath, lineStart: block.startLine, lineEnd: block.endLine }], blameByFile.get(block.filePath));
+          const fingerprintInput = { issueType: 'DuplicateCode', filePath: block.filePath, codeBlock: block.originalCode };
+          const base = issueFingerprint(fingerprintInput);
+          const occurrence = duplicateOccurrences.get(base) ?? 0;
+          duplicateOccurrences.set(base, occurrence + 1);
+          await (this.prisma as any).issue.create({
+            data: {
+              projectId,
+              runId: run.id,
+              filePath: block.filePath,
+              functionName: null,
+              issueType: 'DuplicateCode',
+              lineStart: block.startLine,
+              lineEnd: block.endLine,
+              severity: context.rules.DuplicateCode?.severity || group.severity,
+              confidence: Math.round(group.similarity * 100),
+              description: `${group.type} duplicate code found (${group.blocks.length} instances across ${group.affectedFiles.length} files)`,
+              recommendation: 'Extract common code into a shared function or module to reduce duplication.',
+              duplicateGroupId: group.id,
+              metadata: {
+                duplicateType: group.type,
+                similarity: group.similarity,
+                totalInstances: group.blocks.length,
+                affectedFiles: group.affectedFiles,
+                totalLines: group.totalLines
+              },
+              codeBlock: block.originalCode.slice(0, 2000), // Limit size
+              author: owned.author,
+              authorEmail: owned.authorEmail,
+              owners: owned.owners,
+              fingerprint: occurrence ? issueFingerprint(fingerprintInput, occurrence) : base,
+              firstSeenRunId: run.id,
+            },
+          });
+          created++;
         }
+        this.progress.issues(projectId, group.blocks.length);
+      }
+
+      // Stage 6: Hotspots (churn from the history combined with the complexity measured above)
+      await this.updateAnalysisStage(projectId, 'hotspots', run.id);
+      try {
+        const stored = await this.hotspots.computeAndStore(
+          projectId,
+          run.id,
+          dir,
+          files.map(toRel),
+          functionsByFile,
+          config.hotspots,
+          incremental ? previous?.currentRunId : null,
+        );
+        this.dlog('hotspots stored', { files: stored });
+      } catch (error: any) {
+        this.dlog('hotspot analysis failed', { error: error?.message || 'Unknown error' });
+      }
+
+      // Cross-file symbol index, from every parsed file of this run
+      try {
+        const indexed = await this.symbolIndex.computeAndStore(projectId, run.id, symbolsByFile);
+        this.dlog('symbol index stored', indexed);
       } catch (error: any) {
-        this.dlog('duplicate detection failed', { error: error?.message || 'Unknown error' });
+        this.dlog('symbol indexing failed', { error: error?.message || 'Unknown error' });
       }
-      this.dlog('analysis complete', { totalIssues: created, filesVisited, filesAnalyzed });
-      // Mark project completed
-      await (this.prisma as any).project.update({ where: { id: projectId }, data: { status: 'Completed', analysisStage: 'completed' } });
+
+      // Findings seen before keep their triage status and suggestions; baselined ones stay hidden.
+      // Errors fail the run: completing it would lose that state and report everything as new.
+      const carried = await this.issueTracking.carryOver(projectId, run.id);
+      await this.baseline.apply(projectId, run.id);
+      this.dlog('carried over findings', { carried });
+
+      this.dlog('analysis complete', { totalIssues: created, filesVisited, filesAnalyzed, incremental });
+      const summary = await this.analysisRuns.summarize(projectId, run.id, {
+        filesTotal: files.length,
+        filesAnalyzed,
+        qualityGate: await this.qualityGates.evaluateRun(projectId, run.id, config.qualityGate),
+      });
+      await this.analysisRuns.completeRun(run.id, summary);
+      runFinished = true;
+      // Mark project completed and remember the analyzed commit for the next incremental run
+      await (this.prisma as any).project.update({
+        where: { id: projectId },
+        data: { status: 'Completed', analysisStage: 'completed', lastAnalyzedCommit: headSha },
+      });
+      this.progress.finish(projectId, 'completed');
 
       this.dlog('Analysis completed successfully');
-    } catch (e) {
+    } catch (e: any) {
       // Mark project failed
       try {
+        await this.analysisRuns.abortRun(run.id, 'Failed', e?.message || String(e));
+        runFinished = true;
         await (this.prisma as any).project.update({ where: { id: projectId }, data: { status: 'Failed' } });
       } catch { }
+      this.progress.error(projectId, e?.message || String(e));
+      this.progress.finish(projectId, 'failed');
       throw e;
     } finally {
-      // Restore original threshold
-      this.complexityThreshold = originalThreshold;
-      
-      // Cleanup temp dir best-effort
-      if (dir) {
-        try {
-          const { rm } = await import('fs/promises');
-          await (rm as any)(dir, { recursive: true, force: true });
-        } catch { }
+      // Runs that return early were stopped by the user
+      if (!runFinished) {
+        await this.analysisRuns.abortRun(run.id, 'Stopped').catch(() => { });
+        this.progress.finish(projectId, 'stopped');
       }
+
+      await pool?.close();
+
+      // Cleanup temp clone best-effort
+      await source?.release();
     }
   }
 
-  // Quick analysis for CI: analyze changed files without persisting to DB
-  async quickAnalyzeRepo(gitUrl: string, language?: string, filesFilter?: string[]) {
+  /**
+   * Persist one worker result: the file's AST and its issues. Returns the issue count.
+   */
+  private async storeFileResult(projectId: number, runId: number, result: FileAnalysisResult): Promise<number> {
+    if (result.ast) {
+      try {
+        await this.astStorage.store(projectId, runId, result.relPath, result.ast);
+      } catch (astError: any) {
+        this.dlog('failed to store AST for file', { relPath: result.relPath, error: astError?.message });
+      }
+    }
+    if (!result.issues.length) return 0;
+    await (this.prisma as any).issue.createMany({
+      data: fingerprintAll(result.issues).map((issue) => ({ ...issue, projectId, runId, firstSeenRunId: runId })),
+    });
+    return result.issues.length;
+  }
+
+  // Quick analysis for CI: analyze changed files without persisting to DB. Settings
+  // are those of the project analyzing the repository, if any, and its .codestruct.yml.
+  async quickAnalyzeRepo(gitUrl: string, language?: string, filesFilter?: string[], project?: { id: number; userId?: number | null; settings?: any } | null) {
     this.dlog('[quick] start', { gitUrl, language, filesFilter });
     const dir = await mkdtemp(join(tmpdir(), 'codestruct-ci-'));
     const git = simpleGit();
     await git.clone(gitUrl, dir);
 
-    // Auto-detect language if not provided
-    const detectedLanguage = language || await this.detectLanguage(dir);
-    this.dlog('[quick] using language', { detectedLanguage });
+    const config = await this.repoConfig.load(dir, project
+      ? await this.projectSettings.resolve(project)
+      : this.repoConfig.defaults(this.projectSettings.defaultComplexityThreshold));
+    const context = this.repoConfig.toContext(config);
+
+    // Every supported language is analyzed unless one is asked for
+    const only = language && language !== 'auto-detect' ? language.toLowerCase() : null;
+    this.dlog('[quick] using language', { language: only || 'all' });
 
     const files = await this.collectFiles(dir);
     this.dlog('[quick] files collected', { count: files.length });
@@ -550,94 +740,105 @@ export class AnalysisService {
       ? files.filter((f) => filesFilter.some((rel) => f.endsWith(rel)))
       : files;
 
-    const issues: any[] = [];
-    for (const file of targetFiles) {
-      const code = await readFile(file, 'utf8');
-      const ext = extname(file).toLowerCase();
-      if (!this.supports(ext, detectedLanguage)) continue;
-      let blocks: { start: number; end: number; text: string; node?: any }[] = [];
-      try {
-        const parsed = this.parserService.parseWithTreeSitter(code, ext);
-        if (!parsed) throw new Error('Tree-sitter unavailable');
-        const tree = parsed.tree;
-        const fnTypes = ['function_declaration', 'method_definition', 'arrow_function', 'function', 'function_definition'];
-        const nodes = this.queryNodes(tree, fnTypes);
-        blocks = nodes.map((n: any) => ({ start: n.startIndex, end: n.endIndex, text: code.slice(n.startIndex, n.endIndex), node: n }));
-        this.dlog('[quick] AST ok', { file });
-      } catch (e: any) {
-        // eslint-disable-next-line no-console
-        console.error(`[analysis:quick] AST parsing failed for file ${file}:`, e);
-        blocks = this.extractBlocksFallback(code, detectedLanguage);
-        this.dlog('[quick] fallback blocks', { file, count: blocks.length });
-      }
-
-      for (const b of blocks) {
-        const complexity = this.estimateCyclomaticComplexityFromText(b.text);
-        if (complexity > this.complexityThreshold) {
-          issues.push({ filePath: file, issueType: 'HighComplexity', metadata: { complexity }, codeBlock: b.text });
-        }
-      }
-
-      const map = new Map<string, { start: number; end: number; text: string }[]>();
-      for (const b of blocks) {
-        if (!b.node) continue;
-        const normalized = this.normalizeAndHashNode(b.node);
-        const hash = this.simpleHash(normalized);
-        const arr = map.get(hash) || [];
-        arr.push(b);
-        map.set(hash, arr);
-      }
-      for (const [_, list] of map.entries()) {
-        if (list.length > 1) {
-          for (const item of list) {
-            issues.push({ filePath: file, issueType: 'DuplicateCode', metadata: { duplicates: list.length }, codeBlock: item.text });
+    // Analyzed in worker processes like a full analysis; results are kept in file order
+    const pool = new AnalysisWorkerPool();
+    const measures = { loc: 0, maxComplexity: 0 };
+    let issuesByFile: any[][];
+    try {
+      issuesByFile = await Promise.all(targetFiles.map(async (file) => {
+        const ext = extname(file).toLowerCase();
+        const fileLanguage = languageOfFile(file);
+        if (!fileLanguage || !this.fileAnalysis.supports(ext) || (only && fileLanguage !== only)) return [];
+        const relPath = relative(dir, file).replace(/\\/g, '/');
+
+        // The detectors of a full analysis, so findings have severities and match its issues
+        const result = await pool.run<FileAnalysisResult>({
+          kind: 'file',
+          file: { absPath: file, relPath, language: fileLanguage, context, analyze: true },
+        }, relPath);
+        measures.loc += result.loc;
+        for (const fn of result.functions ?? []) measures.maxComplexity = Math.max(measures.maxComplexity, fn.cyclomaticComplexity);
+        const issues: any[] = result.issues;
+
+        // Duplicates between the file's functions; a full analysis also finds them across files
+        if (!result.functions?.length || !isRuleEnabled(context, 'DuplicateCode')) return issues;
+        const lines = (await readFile(file, 'utf8')).split('\n');
+        const lineOffsets = [0];
+        for (const line of lines) lineOffsets.push(lineOffsets[lineOffsets.length - 1] + line.length + 1);
+        const firstLineAt = new Map<number, number>();
+        const blocks: DuplicationBlock[] = result.functions.map((fn) => {
+          firstLineAt.set(lineOffsets[fn.lineStart - 1], fn.lineStart);
+          return {
+            code: lines.slice(fn.lineStart - 1, fn.lineEnd).join('\n'),
+            filePath: relPath,
+            language: fileLanguage,
+            startIndex: lineOffsets[fn.lineStart - 1],
+            endIndex: lineOffsets[fn.lineEnd],
+          };
+        });
+        const groups = await pool.run<DuplicateGroup[]>(
+          { kind: 'duplicates', blocks, language: fileLanguage, context },
+          `duplicate detection (${relPath})`,
+        );
+        for (const group of groups) {
+          for (const block of group.blocks) {
+            const offset = (firstLineAt.get(block.startIndex) ?? 1) - 1;
+            issues.push({
+              filePath: relPath,
+              issueType: 'DuplicateCode',
+              severity: context.rules.DuplicateCode?.severity || group.severity,
+              lineStart: block.startLine + offset,
+              lineEnd: block.endLine + offset,
+              metadata: { duplicates: group.blocks.length, duplicateType: group.type },
+              codeBlock: block.originalCode,
+            });
           }
         }
-      }
+        return issues;
+      }));
+    } finally {
+      await pool.close();
     }
+    const issues = issuesByFile.flat();
 
     this.dlog('[quick] done', { issues: issues.length });
-    return { projectName: this.deriveProjectName(gitUrl), issues };
+    return { projectName: this.deriveProjectName(gitUrl), issues, measures, config };
   }
 
-  private supports(ext: string, language: string) {
-    const ts = ['.ts', '.tsx', '.js', '.jsx'];
-    const py = ['.py'];
-    const java = ['.java'];
-    const l = (language || '').toLowerCase();
-
-    const wantsTs = ['ts', 'tsx', 'js', 'jsx', 'typescript', 'javascript', 'node'].some((k) => l.includes(k));
-    const wantsPy = ['py', 'python'].some((k) => l.includes(k));
-    const wantsJava = ['java'].some((k) => l.includes(k));
-
-    if (wantsTs) return ts.includes(ext);
-    if (wantsPy) return py.includes(ext);
-    if (wantsJava) return java.includes(ext);
-
-    // If language not specified clearly, try to support based on extension
-    if (ts.includes(ext) || py.includes(ext) || java.includes(ext)) return true;
-
-    // Default fallback
-    return ts.includes(ext);
+  /**
+   * Diff the last analyzed commit against HEAD. Returns null when the old commit is
+   * not reachable (e.g. after a force push), in which case a full analysis is needed.
+   */
+  private async diffSinceCommit(dir: string, fromSha: string, toSha: string): Promise<RepoChangeSet | null> {
+    const changeSet: RepoChangeSet = { changed: new Set(), removed: new Set() };
+    if (fromSha === toSha) return changeSet;
+    try {
+      const git = simpleGit(dir);
+      await git.raw(['cat-file', '-e', `${fromSha}^{commit}`]);
+      const out = await git.raw(['diff', '--name-status', '-M', `${fromSha}..${toSha}`]);
+      for (const line of out.split('\n')) {
+        if (!line.trim()) continue;
+        const [status, ...paths] = line.split('\t');
+        const kind = status.charAt(0);
+        if (kind === 'R') {
+          changeSet.removed.add(paths[0]);
+          changeSet.changed.add(paths[1]);
+        } else if (kind === 'D') {
+          changeSet.removed.add(paths[0]);
+        } else {
+          // A, M, C (copied) and T (type change) all need a fresh parse of the last path
+          changeSet.changed.add(paths[paths.length - 1]);
+        }
+      }
+      return changeSet;
+    } catch (err: any) {
+      this.dlog('cannot diff against last analyzed commit, falling back to full analysis', { fromSha, error: err?.message });
+      return null;
+    }
   }
 
   private async collectFiles(root: string) {
-    const walk = async (dir: string, acc: string[] = []) => {
-      const entries = await readdir(dir, { withFileTypes: true });
-      for (const e of entries) {
-        const p = join(dir, e.name);
-        if (e.isDirectory()) {
-          const name = e.name.toLowerCase();
-          if (name === '.git' || name === 'node_modules' || name === 'dist' || name === 'build' || name === '.next') {
-            continue;
-          }
-          await walk(p, acc);
-        }
-        else acc.push(p);
-      }
-      return acc;
-    };
-    return walk(root);
+    return (await this.fileCollector.collect(root)).files;
   }
 
   // Very rough cyclomatic complexity estimation by counting branching nodes
@@ -657,7 +858,7 @@ export class AnalysisService {
     for (const node of functionNodes) {
       const signature = code.slice(node.startIndex, node.endIndex);
       const complexity = this.estimateCyclomaticComplexity(node, code);
-      if (complexity > this.complexityThreshold) {
+      if (complexity > this.projectSettings.defaultComplexityThreshold) {
         await (this.prisma as any).issue.create({
           data: {
             projectId,
@@ -683,16 +884,6 @@ export class AnalysisService {
     return score;
   }
 
-  private estimateCyclomaticComplexityFromText(text: string) {
-    const keywords = ['if', 'for', 'while', 'case', 'catch', '&&', '||', '?', 'elif'];
-    let score = 1;
-    for (const kw of keywords) {
-      const matches = text.match(new RegExp(`\\b${kw}\\b`, 'g'));
-      if (matches) score += matches.length;
-    }
-    return score;
-  }
-
   private estimateCyclomaticComplexityAst(node: any, code: string, language: string) {
     // Traverse AST and count decision nodes per spec
     const decisionTypesTs = new Set([
@@ -842,99 +1033,6 @@ export class AnalysisService {
       .trim();
   }
 
-  private extractFunctionNameFromText(text: string, language: string) {
-    const lang = language.toLowerCase();
-    if (lang.includes('py')) {
-      const m = text.match(/def\s+(\w+)\s*\(/);
-      return m ? m[1] : null;
-    }
-    const m = text.match(/function\s+(\w+)/) || text.match(/(\w+)\s*\(/);
-    return m ? m[1] : null;
-  }
-
-  private extractBlocksFallback(code: string, language: string) {
-    const lang = language.toLowerCase();
-    if (lang.includes('py')) return this.extractBlocksFallbackPy(code);
-    // default to JS/TS
-    return this.extractBlocksFallbackJs(code);
-  }
-
-  private extractBlocksFallbackJs(code: string) {
-    const blocks: { start: number; end: number; text: string }[] = [];
-    const findMatchingBrace = (startIdx: number) => {
-      let depth = 0;
-      for (let i = startIdx; i < code.length; i++) {
-        const ch = code[i];
-        if (ch === '{') depth++;
-        else if (ch === '}') {
-          depth--;
-          if (depth === 0) return i;
-        }
-      }
-      return -1;
-    };
-    // function declarations
-    const funcRegex = /function\s+[A-Za-z_][A-Za-z0-9_]*\s*\([^)]*\)\s*\{/g;
-    for (let m; (m = funcRegex.exec(code));) {
-      const braceIdx = m.index + m[0].lastIndexOf('{');
-      const end = findMatchingBrace(braceIdx);
-      if (end > braceIdx) blocks.push({ start: m.index, end: end + 1, text: code.slice(m.index, end + 1) });
-    }
-    // class methods and constructors
-    const reserved = new Set(['if', 'for', 'while', 'switch', 'catch', 'try', 'else', 'do', 'function']);
-    const methodRegex = /(?:^|\n)\s*(?:public|private|protected|static|async\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*\([^)]*\)\s*\{/g;
-    for (let m; (m = methodRegex.exec(code));) {
-      const name = m[1];
-      if (reserved.has(name)) continue;
-      const braceIdx = m.index + m[0].lastIndexOf('{');
-      const end = findMatchingBrace(braceIdx);
-      if (end > braceIdx) {
-        const start = m.index;
-        blocks.push({ start, end: end + 1, text: code.slice(start, end + 1) });
-      }
-    }
-    // arrow functions with block body: => { ... }
-    const arrowRegex = /=>\s*\{/g;
-    for (let m; (m = arrowRegex.exec(code));) {
-      const braceIdx = m.index + m[0].indexOf('{');
-      const end = findMatchingBrace(braceIdx);
-      if (end > braceIdx) {
-        // backtrack a bit to include variable name if present
-        const start = Math.max(0, code.lastIndexOf('\n', m.index - 80));
-        blocks.push({ start, end: end + 1, text: code.slice(start, end + 1) });
-      }
-    }
-    return blocks;
-  }
-
-  private extractBlocksFallbackPy(code: string) {
-    const blocks: { start: number; end: number; text: string }[] = [];
-    const lines = code.split(/\r?\n/);
-    let offset = 0; // track index offset
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const defMatch = line.match(/^([ \t]*)def\s+\w+\s*\(.*\)\s*:/);
-      const lineStartIdx = offset;
-      const lineEndIdx = offset + line.length;
-      if (defMatch) {
-        const indent = defMatch[1] || '';
-        let j = i + 1;
-        let endIdx = lineEndIdx;
-        for (; j < lines.length; j++) {
-          const l = lines[j];
-          const isBlank = /^\s*$/.test(l);
-          const ind = (l.match(/^([ \t]*)/) || ['', ''])[1];
-          if (!isBlank && ind.length <= indent.length) break;
-          endIdx += 1 + l.length; // +1 for newline
-        }
-        blocks.push({ start: lineStartIdx, end: endIdx, text: code.slice(lineStartIdx, endIdx) });
-        i = j - 1;
-      }
-      offset = lineEndIdx + 1;
-    }
-    return blocks;
-  }
-
   // Task 1: High Complexity with Tree-sitter
   private async detectHighComplexity(ast: any, language: string, projectId: number, filePath: string) {
     if (!ast?.rootNode) return;
@@ -964,10 +1062,10 @@ export class AnalysisService {
       const src = this.currentSourceText || '';
       const code = src.slice(node.startIndex ?? 0, node.endIndex ?? 0);
       const complexity = this.estimateCyclomaticComplexityAstTreeSitter(node, lang, src);
-      const fnName = this.extractFunctionNameFromText(code, language);
+      const fnName = this.fileAnalysis.extractFunctionNameFromText(code, language);
       // Deep debug log per function
-      console.log(`[DEBUG] Complexity Check => Function: "${fnName}", Score: ${complexity}, Threshold: ${this.complexityThreshold}`);
-      if (complexity > this.complexityThreshold) {
+      console.log(`[DEBUG] Complexity Check => Function: "${fnName}", Score: ${complexity}, Threshold: ${this.projectSettings.defaultComplexityThreshold}`);
+      if (complexity > this.projectSettings.defaultComplexityThreshold) {
         console.log(`[SUCCESS] High complexity issue found for "${fnName}"`);
         await (this.prisma as any).issue.create({
           data: {
@@ -1079,7 +1177,7 @@ export class AnalysisService {
             data: {
               projectId,
               filePath: item.file,
-              functionName: this.extractFunctionNameFromText(item.text, language),
+              functionName: this.fileAnalysis.extractFunctionNameFromText(item.text, language),
               issueType: 'DuplicateCode',
               metadata: { duplicates: list.length },
               codeBlock: item.text,
@@ -1094,54 +1192,6 @@ export class AnalysisService {
   // removed unused readNodeCode helper
 
   // JSON AST helpers
-  private findFunctionsJson(root: any, format: string): any[] {
-    const out: any[] = [];
-    const isFn = (t: string) => {
-      const tsKinds = new Set([
-        'FunctionDeclaration', 'MethodDeclaration', 'ArrowFunction', 'FunctionExpression',
-      ]);
-      const tsxExtra = new Set(['GetAccessor', 'SetAccessor']);
-      if (format.startsWith('ts-compiler')) return tsKinds.has(t) || tsxExtra.has(t);
-      return t === 'function_declaration' || t === 'method_definition' || t === 'arrow_function' || t === 'function' || t === 'function_definition';
-    };
-    const walk = (n: any) => {
-      if (!n) return;
-      if (n.type && isFn(n.type)) out.push(n);
-      if (Array.isArray(n.children)) {
-        for (const c of n.children) walk(c);
-      }
-    };
-    walk(root);
-    return out;
-  }
-
-  private calculateComplexityJson(node: any, format: string, code: string): number {
-    let score = 1;
-    const tsDecisions = new Set([
-      'IfStatement', 'ForStatement', 'WhileStatement', 'DoStatement', 'CaseClause', 'DefaultClause', 'CatchClause', 'ConditionalExpression', 'BinaryExpression',
-    ]);
-    const tsLogicalKinds = new Set(['BinaryExpression']);
-    const tsOps = new Set(['&&', '||']);
-    const walk = (n: any) => {
-      if (!n) return;
-      if (format.startsWith('ts-compiler-json')) {
-        if (tsDecisions.has(n.type)) score++;
-        if (n.type === 'BinaryExpression') {
-          const txt = code.slice(n.pos ?? 0, n.end ?? 0);
-          if (txt.includes('&&') || txt.includes('||')) score++;
-        }
-      } else {
-        const tsLikeDec = new Set([
-          'if_statement', 'for_statement', 'while_statement', 'do_statement', 'case_clause', 'default_clause', 'catch_clause', 'conditional_expression', 'binary_expression', 'logical_expression',
-        ]);
-        if (tsLikeDec.has(n.type)) score++;
-      }
-      if (Array.isArray(n.children)) for (const c of n.children) walk(c);
-    };
-    walk(node);
-    return score;
-  }
-
   private async detectMagicNumbersJson(root: any, code: string, projectId: number, filePath: string, format: string) {
     const ignore = new Set([0, 1, -1]);
     const nums = new Map<number, number>();
@@ -1214,13 +1264,6 @@ export class AnalysisService {
     return out;
   }
 
-  private getRangeFromJsonNode(node: any, format: string): { start: number; end: number } {
-    if (format.startsWith('ts-compiler-json')) {
-      return { start: typeof node.pos === 'number' ? node.pos : 0, end: typeof node.end === 'number' ? node.end : 0 };
-    }
-    return { start: typeof node.startIndex === 'number' ? node.startIndex : 0, end: typeof node.endIndex === 'number' ? node.endIndex : 0 };
-  }
-
   // Deprecated: old hashing helper; replaced by simpleHash
   private async hash(input: string) {
     return this.simpleHash(input);
@@ -1262,7 +1305,9 @@ export class AnalysisService {
   /**
    * Update the analysis stage for a project to show progress
    */
-  private async updateAnalysisStage(projectId: number, stage: string) {
+  private async updateAnalysisStage(projectId: number, stage: string, runId?: number) {
+    if (runId) await this.analysisRuns.recordStage(runId, stage);
+    this.progress.stage(projectId, stage);
     try {
       await (this.prisma as any).project.update({
         where: { id: projectId },
@@ -1277,8 +1322,13 @@ export class AnalysisService {
   /**
    * Check if analysis should be stopped
    */
-  private async shouldStopAnalysis(projectId: number): Promise<boolean> {
+  private async shouldStopAnalysis(projectId: number, job?: JobContext): Promise<boolean> {
     try {
+      if (job && await job.isCancelled()) {
+        this.dlog(`[Stop] Analysis job ${job.jobId} was cancelled for project ${projectId}`);
+        return true;
+      }
+
       const project = await (this.prisma as any).project.findUnique({
         where: { id: projectId },
         select: { status: true, analysisStage: true }
@@ -0,0 +1,149 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import { PrismaService } from '../prisma/prisma.service';
+import type { StoredAst } from '../parser/parser.service';
+
+// A serialized syntax tree node: Tree-sitter nodes carry startIndex/endIndex, TS compiler nodes pos/end
+export interface AstNode {
+  type: string;
+  startIndex?: number;
+  endIndex?: number;
+  pos?: number;
+  end?: number;
+  children?: AstNode[];
+  childCount?: number; // set instead of children when a subtree is cut at the requested depth
+  startLine?: number; // 1-based, added to returned nodes
+  endLine?: number;
+}
+
+// Selects the smallest node containing an offset or line range, cut below `depth` levels
+export interface AstQuery {
+  start?: number;
+  end?: number;
+  startLine?: number;
+  endLine?: number;
+  type?: string; // the innermost containing node of this type, for nodes sharing a range with their child
+  depth?: number;
+}
+
+interface AstDocument {
+  lineStarts: number[] | null; // null for rows stored before line offsets were kept
+  root: AstNode;
+}
+
+function span(node: AstNode): [number, number] {
+  return [node.startIndex ?? node.pos ?? 0, node.endIndex ?? node.end ?? 0];
+}
+
+// 1-based line of an offset
+function lineOf(lineStarts: number[], offset: number) {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo + 1;
+}
+
+/**
+ * File ASTs are kept as gzipped compact JSON in AstBlob rows keyed by content hash,
+ * so identical trees (unchanged files across runs, copies) are stored once and
+ * nothing is truncated. Readers fetch subtrees rather than the whole document.
+ */
+@Injectable()
+export class AstStorageService {
+  constructor(private readonly prisma: PrismaService) { }
+
+  async store(projectId: number, runId: number, filePath: string, stored: StoredAst) {
+    const document = `{"lineStarts":${JSON.stringify(stored.lineStarts)},"root":${stored.ast}}`;
+    const hash = createHash('sha256').update(document).digest('hex');
+    const existing = await (this.prisma as any).astBlob.findUnique({ where: { hash }, select: { hash: true } });
+    if (!existing) {
+      // skipDuplicates covers another file storing the same tree meanwhile
+      await (this.prisma as any).astBlob.createMany({
+        data: [{ hash, data: gzipSync(document), size: Buffer.byteLength(document) }],
+        skipDuplicates: true,
+      });
+    }
+    await (this.prisma as any).fileAst.create({
+      data: { projectId, runId, filePath, language: stored.language, astFormat: stored.format, astHash: hash },
+    });
+  }
+
+  /**
+   * Remove blobs no file references any more, among the given hashes
+   */
+  async pruneBlobs(hashes: string[]) {
+    if (!hashes.length) return;
+    await (this.prisma as any).astBlob.deleteMany({ where: { hash: { in: hashes }, files: { none: {} } } });
+  }
+
+  /**
+   * The selected subtree of a FileAst row, with its size and line count
+   */
+  async subtree(row: any, query: AstQuery) {
+    const doc = await this.load(row);
+    const [start, end] = this.range(doc, query);
+    const path = [doc.root];
+    for (;;) {
+      const inner = path[path.length - 1].children?.find((child) => {
+        const [s, e] = span(child);
+        return s <= start && e >= end;
+      });
+      if (!inner) break;
+      path.push(inner);
+    }
+    const node = (query.type && [...path].reverse().find((n) => n.type === query.type)) || path[path.length - 1];
+    return {
+      size: row.blob?.size ?? row.ast?.length ?? 0,
+      lines: doc.lineStarts?.length ?? null,
+      ast: this.cut(node, query.depth ?? Infinity, doc.lineStarts),
+    };
+  }
+
+  private async load(row: any): Promise<AstDocument> {
+    if (row.astHash) {
+      const blob = row.blob ?? await (this.prisma as any).astBlob.findUnique({ where: { hash: row.astHash } });
+      if (!blob) throw new BadRequestException('AST data is missing');
+      return JSON.parse(gunzipSync(blob.data).toString('utf8'));
+    }
+    try {
+      return { lineStarts: null, root: JSON.parse(row.ast) };
+    } catch {
+      // Older rows were cut at 500 KB; analyzing the project again stores them whole
+      throw new BadRequestException('AST was stored truncated; re-analyze the project to view it');
+    }
+  }
+
+  // Offset range [start, end) of the query; the whole file by default
+  private range(doc: AstDocument, query: AstQuery): [number, number] {
+    if (query.startLine != null || query.endLine != null) {
+      if (!doc.lineStarts) throw new BadRequestException('Line ranges need a newer analysis of this project');
+      const lines = doc.lineStarts;
+      const first = Math.min(Math.max(query.startLine ?? 1, 1), lines.length);
+      const last = Math.min(Math.max(query.endLine ?? first, first), lines.length);
+      // Up to the end of the last line, without its newline
+      return [lines[first - 1], last < lines.length ? lines[last] - 1 : span(doc.root)[1]];
+    }
+    const [rootStart, rootEnd] = span(doc.root);
+    const start = query.start ?? rootStart;
+    return [start, Math.max(query.end ?? (query.start != null ? start : rootEnd), start)];
+  }
+
+  private cut(node: AstNode, depth: number, lineStarts: number[] | null): AstNode {
+    const { children, ...rest } = node;
+    const out: AstNode = { ...rest };
+    if (lineStarts) {
+      const [s, e] = span(node);
+      out.startLine = lineOf(lineStarts, s);
+      out.endLine = lineOf(lineStarts, Math.max(s, e - 1));
+    }
+    if (!children?.length) return out;
+    if (depth <= 0) out.childCount = children.length;
+    else out.children = children.map((child) => this.cut(child, depth - 1, lineStarts));
+    return out;
+  }
+}
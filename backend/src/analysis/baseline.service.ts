@@ -0,0 +1,118 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AnalysisRunService } from './analysis-run.service';
+import { IssueTrackingService } from './issue-tracking.service';
+import { codeHash } from './issue-fingerprint';
+
+const BATCH = 1000;
+
+/**
+ * A project's baseline: findings accepted as existing debt. They are frozen by
+ * fingerprint, flagged on every later run that finds them again, and left out of
+ * run summaries, the issue list and CI results unless asked for.
+ */
+@Injectable()
+export class BaselineService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly analysisRuns: AnalysisRunService,
+    private readonly issueTracking: IssueTrackingService,
+  ) { }
+
+  /**
+   * Replace the baseline with the findings of the project's current run
+   */
+  async freeze(projectId: number) {
+    const project = await (this.prisma as any).project.findUnique({ where: { id: projectId } });
+    if (!project) throw new NotFoundException('Project not found');
+    if (!project.currentRunId) throw new BadRequestException('Analyze the project before freezing a baseline');
+
+    const snapshot = this.analysisRuns.issueSnapshotWhere(projectId, project.currentRunId);
+    await this.issueTracking.ensureFingerprints(snapshot);
+    const issues = await (this.prisma as any).issue.findMany({
+      where: snapshot,
+      select: { id: true, fingerprint: true, issueType: true, filePath: true, codeBlock: true },
+    });
+
+    await (this.prisma as any).baselineIssue.deleteMany({ where: { projectId } });
+    await (this.prisma as any).issue.updateMany({ where: { projectId, baselined: true }, data: { baselined: false } });
+    for (let i = 0; i < issues.length; i += BATCH) {
+      const batch = issues.slice(i, i + BATCH);
+      await (this.prisma as any).baselineIssue.createMany({
+        data: batch.map((issue: any) => ({
+          projectId,
+          fingerprint: issue.fingerprint,
+          issueType: issue.issueType,
+          filePath: issue.filePath,
+          codeHash: codeHash(issue.codeBlock, issue.filePath),
+        })),
+        skipDuplicates: true,
+      });
+      await (this.prisma as any).issue.updateMany({
+        where: { id: { in: batch.map((issue: any) => issue.id) } },
+        data: { baselined: true },
+      });
+    }
+    const updated = await (this.prisma as any).project.update({
+      where: { id: projectId },
+      data: { baselineAt: new Date(), baselineRunId: project.currentRunId },
+    });
+    return this.describe(updated);
+  }
+
+  /**
+   * Drop the baseline; every finding is reported again
+   */
+  async reset(projectId: number) {
+    const project = await (this.prisma as any).project.findUnique({ where: { id: projectId } });
+    if (!project) throw new NotFoundException('Project not found');
+    await (this.prisma as any).baselineIssue.deleteMany({ where: { projectId } });
+    await (this.prisma as any).issue.updateMany({ where: { projectId, baselined: true }, data: { baselined: false } });
+    const updated = await (this.prisma as any).project.update({
+      where: { id: projectId },
+      data: { baselineAt: null, baselineRunId: null },
+    });
+    return this.describe(updated);
+  }
+
+  /**
+   * Flag the issues a run created that are in the baseline
+   */
+  async apply(projectId: number, runId: number) {
+    const baseline = await (this.prisma as any).baselineIssue.findMany({ where: { projectId }, select: { fingerprint: true } });
+    for (let i = 0; i < baseline.length; i += BATCH) {
+      await (this.prisma as any).issue.updateMany({
+        where: { runId, fingerprint: { in: baseline.slice(i, i + BATCH).map((b: any) => b.fingerprint) } },
+        data: { baselined: true },
+      });
+    }
+  }
+
+  /**
+   * Split CI findings (repo-relative paths) into new and baselined ones. CI finds
+   * duplicates per file rather than across files, so findings match by rule, file and code.
+   */
+  async partition<T extends { issueType: string; filePath: string; codeBlock?: string | null }>(projectId: number, issues: T[]) {
+    const baseline = await (this.prisma as any).baselineIssue.findMany({
+      where: { projectId, filePath: { in: [...new Set(issues.map((i) => i.filePath))] } },
+      select: { issueType: true, filePath: true, codeHash: true },
+    });
+    const keys = new Set(baseline.map((b: any) => `${b.issueType}\0${b.filePath}\0${b.codeHash}`));
+    const fresh: T[] = [];
+    const baselined: T[] = [];
+    for (const issue of issues) {
+      (keys.has(`${issue.issueType}\0${issue.filePath}\0${codeHash(issue.codeBlock, issue.filePath)}`) ? baselined : fresh).push(issue);
+    }
+    return { fresh, baselined };
+  }
+
+  async describe(project: any) {
+    return {
+      baselineAt: project.baselineAt ?? null,
+      baselineRunId: project.baselineRunId ?? null,
+      baselineIssues: project.baselineAt
+        ? await (this.prisma as any).baselineIssue.count({ where: { projectId: project.id } })
+        : 0,
+    };
+  }
+}
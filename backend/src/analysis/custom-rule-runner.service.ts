@@ -0,0 +1,162 @@
+import { Injectable } from '@nestjs/common';
+import RE2 from 're2';
+import { ParserService } from '../parser/parser.service';
+import { getLanguageProfile, grammarFor } from '../languages/language-registry';
+import type { AnalyzedIssue } from './file-analysis.service';
+import type { Severity } from './repo-config.service';
+
+// Matches reported per rule and file, so a too broad pattern can't flood the results
+const MAX_MATCHES_PER_FILE = 100;
+const SNIPPET_LINES = 20;
+
+/**
+ * A custom rule as the detectors see it: plain data, part of the run's settings.
+ * Query patterns are Tree-sitter S-expressions; the node captured as @match (else
+ * the span of all captures) is reported. Regex patterns run on RE2, which matches in
+ * linear time, so no pattern can stall the API process or a worker; in exchange,
+ * backreferences and lookarounds are not supported.
+ */
+export interface CustomRuleSpec {
+  ruleId: string;
+  kind: 'query' | 'regex';
+  pattern: string;
+  language: string | null;
+  severity: Severity;
+  message: string;
+  recommendation: string;
+}
+
+interface RuleMatch {
+  start: number; // string offsets
+  end: number;
+  text: string;
+}
+
+/**
+ * Runs custom rules on one file. No database access, so it runs inside analysis
+ * worker processes; compiled queries are cached per process.
+ */
+@Injectable()
+export class CustomRuleRunnerService {
+  private readonly queries = new Map<string, any>(); // grammar key + pattern -> query, null when it doesn't compile
+
+  constructor(private readonly parserService: ParserService) { }
+
+  run(rules: CustomRuleSpec[], code: string, relPath: string, language: string, ext: string): AnalyzedIssue[] {
+    const applicable = rules.filter((rule) => !rule.language || rule.language === language);
+    if (!applicable.length) return [];
+    let parsed: { tree: any; langKey: string } | null | undefined;
+    const lines = code.split('\n');
+    const issues: AnalyzedIssue[] = [];
+    for (const rule of applicable) {
+      let matches: RuleMatch[];
+      if (rule.kind === 'regex') {
+        matches = this.regexMatches(rule.pattern, code);
+      } else {
+        if (parsed === undefined) parsed = this.parserService.parseWithTreeSitter(code, ext);
+        if (!parsed) continue;
+        matches = this.queryMatches(rule.pattern, parsed.tree, code, language, ext);
+      }
+      for (const match of matches) issues.push(this.toIssue(rule, code, lines, relPath, match));
+    }
+    return issues;
+  }
+
+  // Whether query rules can run on files of the language with that extension
+  canParse(language: string, ext: string) {
+    const profile = getLanguageProfile(language);
+    const grammar = profile && grammarFor(profile, ext);
+    return !!grammar && this.parserService.hasGrammar(grammar.key);
+  }
+
+  /**
+   * Compile a rule's pattern for the language; returns the error message, or null
+   * when it compiles (or no grammar is loaded to check a query against)
+   */
+  validate(rule: Pick<CustomRuleSpec, 'kind' | 'pattern' | 'language'>): string | null {
+    if (rule.kind === 'regex') {
+      try {
+        new RE2(rule.pattern, 'gm');
+        return null;
+      } catch (err: any) {
+        return err?.message || String(err);
+      }
+    }
+    const profile = rule.language ? getLanguageProfile(rule.language) : undefined;
+    for (const grammar of profile?.grammars ?? []) {
+      if (!this.parserService.hasGrammar(grammar.key)) continue;
+      try {
+        this.parserService.compileQuery(grammar.key, rule.pattern);
+      } catch (err: any) {
+        return err?.message || String(err);
+      }
+    }
+    return null;
+  }
+
+  private regexMatches(pattern: string, code: string): RuleMatch[] {
+    let regex: RE2;
+    try {
+      regex = new RE2(pattern, 'gm');
+    } catch {
+      return []; // rules saved before RE2 may use syntax it rejects
+    }
+    const matches: RuleMatch[] = [];
+    for (let m; matches.length < MAX_MATCHES_PER_FILE && (m = regex.exec(code));) {
+      if (!m[0]) {
+        regex.lastIndex++; // empty matches would never advance
+        continue;
+      }
+      matches.push({ start: m.index, end: m.index + m[0].length, text: m[0] });
+    }
+    return matches;
+  }
+
+  private queryMatches(pattern: string, tree: any, code: string, language: string, ext: string): RuleMatch[] {
+    const profile = getLanguageProfile(language);
+    const grammarKey = profile && grammarFor(profile, ext)?.key;
+    if (!grammarKey) return [];
+    const cacheKey = `${grammarKey}\n${pattern}`;
+    if (!this.queries.has(cacheKey)) {
+      let query: any = null;
+      try {
+        query = this.parserService.compileQuery(grammarKey, pattern);
+      } catch (err: any) {
+        console.log('[analysis] custom rule query does not compile', { grammarKey, error: err?.message });
+      }
+      this.queries.set(cacheKey, query);
+    }
+    const query = this.queries.get(cacheKey);
+    if (!query) return [];
+
+    const matches: RuleMatch[] = [];
+    for (const match of query.matches(tree.rootNode) as Array<{ captures: Array<{ name: string; node: any }> }>) {
+      if (!match.captures.length) continue;
+      const nodes = match.captures.filter((c) => c.name === 'match').map((c) => c.node);
+      const span = nodes.length ? nodes : match.captures.map((c) => c.node);
+      const start = Math.min(...span.map((n) => n.startIndex));
+      const end = Math.max(...span.map((n) => n.endIndex));
+      matches.push({ start, end, text: code.slice(start, end) });
+      if (matches.length >= MAX_MATCHES_PER_FILE) break;
+    }
+    return matches;
+  }
+
+  private toIssue(rule: CustomRuleSpec, code: string, lines: string[], relPath: string, match: RuleMatch): AnalyzedIssue {
+    const lineStart = code.slice(0, match.start).split('\n').length;
+    const lineEnd = lineStart + match.text.replace(/\n$/, '').split('\n').length - 1;
+    return {
+      filePath: relPath,
+      functionName: null,
+      issueType: rule.ruleId,
+      severity: rule.severity,
+      confidence: 80,
+      description: rule.message,
+      recommendation: rule.recommendation,
+      lineStart,
+      lineEnd,
+      metadata: { customRule: true, kind: rule.kind, match: match.text.slice(0, 200) },
+      codeBlock: lines.slice(lineStart - 1, Math.min(lineEnd, lineStart + SNIPPET_LINES - 1)).join('\n'),
+    };
+  }
+}
@@ -0,0 +1,146 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { extname } from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { getLanguageProfile, isAnalyzable, languageOfFile } from '../languages/language-registry';
+import { CustomRuleRunnerService, CustomRuleSpec } from './custom-rule-runner.service';
+import { SEVERITIES } from './repo-config.service';
+
+// Namespaced like linter plugin rules, so they never clash with built-in issue types
+const RULE_ID = /^[a-z][a-z0-9-]*\/[a-z0-9][a-z0-9-]*$/;
+const KINDS = ['query', 'regex'];
+
+export interface CustomRuleInput {
+  ruleId: string;
+  kind: 'query' | 'regex';
+  pattern: string;
+  language?: string | null;
+  severity?: string;
+  message: string;
+  recommendation?: string;
+  enabled?: boolean;
+  projectId?: number | null; // a project rule; otherwise the rule applies to all of the user's projects
+}
+
+/**
+ * CRUD for custom rules. A user manages their own rules and the rules of projects
+ * they own; rules take effect from the next analysis.
+ */
+@Injectable()
+export class CustomRuleService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly runner: CustomRuleRunnerService,
+  ) { }
+
+  async list(userId: number) {
+    return (this.prisma as any).customRule.findMany({
+      where: { OR: [{ userId }, { project: { userId } }] },
+      include: { project: { select: { id: true, name: true } } },
+      orderBy: [{ projectId: 'asc' }, { ruleId: 'asc' }],
+    });
+  }
+
+  async create(userId: number, input: CustomRuleInput) {
+    const data = await this.validate(userId, input);
+    await this.ensureUnique(data);
+    return (this.prisma as any).customRule.create({ data });
+  }
+
+  async update(userId: number, id: number, input: CustomRuleInput) {
+    const existing = await this.findOwned(userId, id);
+    const data = await this.validate(userId, { ...existing, ...input });
+    await this.ensureUnique(data, id);
+    return (this.prisma as any).customRule.update({ where: { id }, data });
+  }
+
+  async remove(userId: number, id: number) {
+    await this.findOwned(userId, id);
+    await (this.prisma as any).customRule.delete({ where: { id } });
+    return { success: true };
+  }
+
+  /**
+   * Run a rule, saved or not, on a pasted snippet. filePath picks the grammar
+   * (e.g. .tsx) when the language has several.
+   */
+  test(rule: CustomRuleInput, code: string, filePath?: string) {
+    if (typeof code !== 'string') throw new BadRequestException('code must be a string');
+    const spec = this.toSpec(rule);
+    const language = spec.language ?? (filePath && languageOfFile(filePath)) ?? '';
+    const profile = getLanguageProfile(language);
+    const ext = filePath ? extname(filePath) : Object.keys(profile?.extensions ?? {})[0] ?? '';
+    if (spec.kind === 'query' && !this.runner.canParse(language, ext)) {
+      throw new BadRequestException(`No ${language} grammar is loaded on this server; queries can't be tested`);
+    }
+    return { issues: this.runner.run([spec], code, filePath || `snippet${ext}`, language, ext) };
+  }
+
+  private async validate(userId: number, input: CustomRuleInput) {
+    const spec = this.toSpec(input);
+    let projectId: number | null = null;
+    if (input.projectId != null) {
+      projectId = Number(input.projectId);
+      const project = await (this.prisma as any).project.findUnique({ where: { id: projectId } });
+      if (!project || project.userId !== userId) throw new NotFoundException('Project not found');
+    }
+    if (input.enabled != null && typeof input.enabled !== 'boolean') throw new BadRequestException('enabled must be true or false');
+    return {
+      ...spec,
+      enabled: input.enabled ?? true,
+      userId: projectId == null ? userId : null,
+      projectId,
+    };
+  }
+
+  // Checks everything about the rule itself; the pattern must compile
+  private toSpec(input: CustomRuleInput): CustomRuleSpec {
+    if (!input || typeof input !== 'object') throw new BadRequestException('rule must be an object');
+    const ruleId = String(input.ruleId ?? '').trim();
+    if (!RULE_ID.test(ruleId)) {
+      throw new BadRequestException('ruleId must be namespaced lowercase words, e.g. acme/no-raw-sql');
+    }
+    if (!KINDS.includes(input.kind)) throw new BadRequestException(`kind must be one of ${KINDS.join(', ')}`);
+    if (typeof input.pattern !== 'string' || !input.pattern.trim()) throw new BadRequestException('pattern must be a non-empty string');
+    const language = input.language ? String(input.language).toLowerCase() : null;
+    if (language && !isAnalyzable(language)) throw new BadRequestException(`Unknown or unanalyzed language: ${language}`);
+    if (input.kind === 'query' && !language) throw new BadRequestException('Query rules need a language');
+    const severity = SEVERITIES.find((s) => s.toLowerCase() === String(input.severity ?? 'Medium').toLowerCase());
+    if (!severity) throw new BadRequestException(`severity must be one of ${SEVERITIES.join(', ')}`);
+    if (typeof input.message !== 'string' || !input.message.trim()) throw new BadRequestException('message must be a non-empty string');
+    if (input.recommendation != null && typeof input.recommendation !== 'string') {
+      throw new BadRequestException('recommendation must be a string');
+    }
+
+    const spec: CustomRuleSpec = {
+      ruleId,
+      kind: input.kind,
+      pattern: input.pattern,
+      language,
+      severity,
+      message: input.message.trim(),
+      recommendation: input.recommendation?.trim() ?? '',
+    };
+    const error = this.runner.validate(spec);
+    if (error) throw new BadRequestException(`pattern does not compile: ${error}`);
+    return spec;
+  }
+
+  private async ensureUnique(data: { ruleId: string; userId: number | null; projectId: number | null }, exceptId?: number) {
+    const clash = await (this.prisma as any).customRule.findFirst({
+      where: {
+        ruleId: data.ruleId,
+        ...(data.projectId != null ? { projectId: data.projectId } : { userId: data.userId }),
+        ...(exceptId ? { id: { not: exceptId } } : {}),
+      },
+    });
+    if (clash) throw new BadRequestException(`A rule ${data.ruleId} already exists there`);
+  }
+
+  private async findOwned(userId: number, id: number) {
+    const rule = await (this.prisma as any).customRule.findFirst({
+      where: { id, OR: [{ userId }, { project: { userId } }] },
+    });
+    if (!rule) throw new NotFoundException('Rule not found');
+    return rule;
+  }
+}
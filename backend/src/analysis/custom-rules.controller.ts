@@ -0,0 +1,38 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Post, Put, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
+import { CustomRuleInput, CustomRuleService } from './custom-rule.service';
+
+@Controller('custom-rules')
+@UseGuards(AuthGuard)
+export class CustomRulesController {
+  constructor(private readonly customRules: CustomRuleService) { }
+
+  // The user's own rules and those of their projects
+  @Get()
+  list(@Req() req: Request) {
+    return this.customRules.list((req as any).user.id);
+  }
+
+  @Post()
+  create(@Req() req: Request, @Body() body: CustomRuleInput) {
+    return this.customRules.create((req as any).user.id, body);
+  }
+
+  // Preview: run a rule on a pasted snippet without saving it
+  @Post('test')
+  @HttpCode(HttpStatus.OK)
+  test(@Body() body: { rule: CustomRuleInput; code: string; filePath?: string }) {
+    return this.customRules.test(body?.rule, body?.code, body?.filePath);
+  }
+
+  @Put(':id')
+  update(@Req() req: Request, @Param('id') id: string, @Body() body: CustomRuleInput) {
+    return this.customRules.update((req as any).user.id, Number(id), body);
+  }
+
+  @Delete(':id')
+  remove(@Req() req: Request, @Param('id') id: string) {
+    return this.customRules.remove((req as any).user.id, Number(id));
+  }
+}
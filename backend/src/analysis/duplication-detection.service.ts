@@ -1,5 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import * as crypto from 'crypto';
+import type { AnalysisContext } from './analysis-context';
+import { getLanguageProfile } from '../languages/language-registry';
 
 export interface DuplicateBlock {
     hash: string;
@@ -24,33 +26,71 @@ export interface DuplicateGroup {
     affectedFiles: string[];
 }
 
+// Defaults; a repository's .codestruct.yml can override them
+export const DEFAULT_DUPLICATION_THRESHOLDS = {
+    MIN_LINES: 8,               // Increased: Need at least 8 meaningful lines
+    MIN_TOKENS: 100,            // Increased: More tokens for real logic
+    MIN_COMPLEXITY: 5,          // New: Minimum complexity threshold
+    SEMANTIC_SIMILARITY: 0.75,
+};
+
+export type DuplicationThresholds = typeof DEFAULT_DUPLICATION_THRESHOLDS;
+
 @Injectable()
 export class DuplicationDetectionService {
-    private readonly MIN_DUPLICATE_LINES = 8;         // Increased: Need at least 8 meaningful lines
-    private readonly MIN_DUPLICATE_TOKENS = 100;      // Increased: More tokens for real logic
-    private readonly MIN_COMPLEXITY_SCORE = 5;        // New: Minimum complexity threshold
     private readonly SIMILARITY_THRESHOLD = 0.85;
-    private readonly SEMANTIC_SIMILARITY_THRESHOLD = 0.75;
+
+    /**
+     * Run detectDuplicates over the blocks in fixed-size batches to bound memory use
+     */
+    async detectDuplicatesInBatches(
+        codeBlocks: Array<{ code: string; filePath: string; startIndex: number; endIndex: number; ast?: any }>,
+        language: string,
+        ctx?: AnalysisContext,
+        batchSize = 50
+    ): Promise<DuplicateGroup[]> {
+        const allGroups: DuplicateGroup[] = [];
+
+        for (let i = 0; i < codeBlocks.length; i += batchSize) {
+            const batch = codeBlocks.slice(i, i + batchSize);
+            console.log(`[duplicates] Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(codeBlocks.length / batchSize)}`);
+
+            try {
+                allGroups.push(...await this.detectDuplicates(batch, language, ctx));
+
+                // Force garbage collection if available
+                if (global.gc) {
+                    global.gc();
+                }
+            } catch (batchError: any) {
+                console.error(`[duplicates] batch ${Math.floor(i / batchSize) + 1} failed:`, batchError?.message || 'Unknown error');
+            }
+        }
+
+        return allGroups;
+    }
 
     /**
      * Advanced duplicate detection using multiple algorithms
      */
     async detectDuplicates(
         codeBlocks: Array<{ code: string; filePath: string; startIndex: number; endIndex: number; ast?: any }>,
-        language: string
+        language: string,
+        ctx?: AnalysisContext
     ): Promise<DuplicateGroup[]> {
         const duplicateGroups: DuplicateGroup[] = [];
+        const thresholds = ctx?.duplication ?? DEFAULT_DUPLICATION_THRESHOLDS;
 
         // 1. Exact duplicates detection
-        const exactDuplicates = this.detectExactDuplicates(codeBlocks);
+        const exactDuplicates = this.detectExactDuplicates(codeBlocks, thresholds);
         duplicateGroups.push(...exactDuplicates);
 
         // 2. Structural duplicates detection (normalized AST)
-        const structuralDuplicates = this.detectStructuralDuplicates(codeBlocks, language);
+        const structuralDuplicates = this.detectStructuralDuplicates(codeBlocks, language, thresholds);
         duplicateGroups.push(...structuralDuplicates);
 
         // 3. Semantic duplicates detection (token-based similarity)
-        const semanticDuplicates = this.detectSemanticDuplicates(codeBlocks, language);
+        const semanticDuplicates = this.detectSemanticDuplicates(codeBlocks, language, thresholds);
         duplicateGroups.push(...semanticDuplicates);
 
         // 4. Remove overlapping groups and return the best matches
@@ -60,27 +100,27 @@ export class DuplicationDetectionService {
     /**
      * Detect exact code duplicates using line-by-line comparison
      */
-    private detectExactDuplicates(codeBlocks: Array<{ code: string; filePath: string; startIndex: number; endIndex: number }>): DuplicateGroup[] {
+    private detectExactDuplicates(codeBlocks: Array<{ code: string; filePath: string; startIndex: number; endIndex: number }>, thresholds: DuplicationThresholds): DuplicateGroup[] {
         const groups: DuplicateGroup[] = [];
         const hashMap = new Map<string, DuplicateBlock[]>();
 
         for (const block of codeBlocks) {
             const lines = block.code.split('\n').filter(line => line.trim());
 
-            if (lines.length < this.MIN_DUPLICATE_LINES) continue;
+            if (lines.length < thresholds.MIN_LINES) continue;
 
             // Create sliding windows of different sizes
-            for (let windowSize = this.MIN_DUPLICATE_LINES; windowSize <= lines.length; windowSize++) {
+            for (let windowSize = thresholds.MIN_LINES; windowSize <= lines.length; windowSize++) {
                 for (let i = 0; i <= lines.length - windowSize; i++) {
                     const window = lines.slice(i, i + windowSize);
                     const normalizedWindow = this.normalizeLines(window);
                     
                     // Skip if not enough meaningful lines after normalization
-                    if (normalizedWindow.length < this.MIN_DUPLICATE_LINES) continue;
+                    if (normalizedWindow.length < thresholds.MIN_LINES) continue;
                     
                     // Check if this code block has sufficient complexity
                     const complexityScore = this.calculateCodeComplexity(normalizedWindow);
-                    if (complexityScore < this.MIN_COMPLEXITY_SCORE) continue;
+                    if (complexityScore < thresholds.MIN_COMPLEXITY) continue;
                     
                     const hash = this.hashLines(normalizedWindow);
 
@@ -133,13 +173,14 @@ export class DuplicationDetectionService {
      */
     private detectStructuralDuplicates(
         codeBlocks: Array<{ code: string; filePath: string; startIndex: number; endIndex: number; ast?: any }>,
-        language: string
+        language: string,
+        thresholds: DuplicationThresholds
     ): DuplicateGroup[] {
         const groups: DuplicateGroup[] = [];
         const structuralMap = new Map<string, DuplicateBlock[]>();
 
         for (const block of codeBlocks) {
-            if (this.countTokens(block.code) < this.MIN_DUPLICATE_TOKENS) continue;
+            if (this.countTokens(block.code) < thresholds.MIN_TOKENS) continue;
 
             // Normalize the code structurally
             const normalizedStructure = this.normalizeCodeStructure(block.code, language);
@@ -191,14 +232,15 @@ export class DuplicationDetectionService {
      */
     private detectSemanticDuplicates(
         codeBlocks: Array<{ code: string; filePath: string; startIndex: number; endIndex: number }>,
-        language: string
+        language: string,
+        thresholds: DuplicationThresholds
     ): DuplicateGroup[] {
         const groups: DuplicateGroup[] = [];
         const blocks: DuplicateBlock[] = [];
 
         // Prepare blocks for comparison
         for (const block of codeBlocks) {
-            if (this.countTokens(block.code) < this.MIN_DUPLICATE_TOKENS) continue;
+            if (this.countTokens(block.code) < thresholds.MIN_TOKENS) continue;
 
             const tokens = this.tokenizeCode(block.code, language);
             const normalizedTokens = this.normalizeTokens(tokens);
@@ -233,7 +275,7 @@ export class DuplicationDetectionService {
                     blocks[j].normalizedCode.split(' ')
                 );
 
-                if (similarity >= this.SEMANTIC_SIMILARITY_THRESHOLD) {
+                if (similarity >= thresholds.SEMANTIC_SIMILARITY) {
                     blocks[j].similarity = similarity;
                     similarBlocks.push(blocks[j]);
                 }
@@ -328,18 +370,18 @@ export class DuplicationDetectionService {
         let normalized = code;
 
         // Remove comments
-        normalized = normalized.replace(/\/\*[\s\S]*?\*\//g, '');
-        normalized = normalized.replace(/\/\/.*$/gm, '');
+        normalized = this.stripComments(normalized, language, '');
 
         // Normalize string literals
-        normalized = normalized.replace(/"([^"\\]|\\.)*"/g, '""');
-        normalized = normalized.replace(/'([^'\\]|\\.)*'/g, "''");
+        for (const quote of this.languageProfile(language).quotes) {
+            normalized = normalized.replace(new RegExp(`${quote}([^${quote}\\\\]|\\\\.)*${quote}`, 'g'), quote + quote);
+        }
 
         // Normalize numeric literals
         normalized = normalized.replace(/\b\d+\.?\d*\b/g, '0');
 
         // Normalize identifiers (keep keywords)
-        const keywords = this.getLanguageKeywords(language);
+        const keywords = this.languageProfile(language).keywords;
         const tokens = normalized.split(/\s+/);
 
         normalized = tokens.map(token => {
@@ -364,9 +406,7 @@ export class DuplicationDetectionService {
      */
     private tokenizeCode(code: string, language: string): string[] {
         // Simple tokenization - can be enhanced with proper lexer
-        const tokens = code
-            .replace(/\/\*[\s\S]*?\*\//g, ' ') // Remove multi-line comments
-            .replace(/\/\/.*$/gm, ' ') // Remove single-line comments
+        const tokens = this.stripComments(code, language, ' ')
             .replace(/[{}();,.\[\]<>!=+\-*/%&|^~?:]/g, ' $& ') // Separate operators
             .split(/\s+/)
             .filter(token => token.trim().length > 0);
@@ -518,15 +558,19 @@ export class DuplicationDetectionService {
         return code.substring(0, index).split('\n').length;
     }
 
-    private getLanguageKeywords(language: string): string[] {
-        const keywordMap: Record<string, string[]> = {
-            typescript: ['abstract', 'any', 'as', 'boolean', 'break', 'case', 'catch', 'class', 'const', 'continue', 'declare', 'default', 'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'is', 'let', 'module', 'namespace', 'never', 'new', 'null', 'number', 'object', 'of', 'package', 'private', 'protected', 'public', 'readonly', 'return', 'static', 'string', 'super', 'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield'],
-            javascript: ['break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield'],
-            python: ['and', 'as', 'assert', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'exec', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'not', 'or', 'pass', 'print', 'raise', 'return', 'try', 'while', 'with', 'yield'],
-            java: ['abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float', 'for', 'goto', 'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'package', 'private', 'protected', 'public', 'return', 'short', 'static', 'strictfp', 'super', 'switch', 'synchronized', 'this', 'throw', 'throws', 'transient', 'try', 'void', 'volatile', 'while']
-        };
+    private languageProfile(language: string) {
+        return getLanguageProfile(language) ?? getLanguageProfile('typescript')!;
+    }
 
-        return keywordMap[language.toLowerCase()] || keywordMap.typescript;
+    // Block comments first, then line comments, each replaced by `replacement`
+    private stripComments(code: string, language: string, replacement: string): string {
+        const { comments } = this.languageProfile(language);
+        const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        let stripped = code;
+        if (comments.block) {
+            stripped = stripped.replace(new RegExp(`${escape(comments.block[0])}[\\s\\S]*?${escape(comments.block[1])}`, 'g'), replacement);
+        }
+        return stripped.replace(new RegExp(`${escape(comments.line)}.*$`, 'gm'), replacement);
     }
 
     /**
@@ -1,11 +1,12 @@
 import { Injectable } from '@nestjs/common';
-import { PrismaService } from '../prisma/prisma.service';
 import { ParserService } from '../parser/parser.service';
 import { AnalysisHelperService } from './analysis-helper.service';
 import { SecurityAnalysisService } from './security-analysis.service';
+import { AnalysisContext, isRuleEnabled } from './analysis-context';
+import { getLanguageProfile, nodeTypesOf } from '../languages/language-registry';
 
 export interface CodeSmellIssue {
-    type: 'LongMethod' | 'GodClass' | 'DeepNesting' | 'LongParameterList' | 'HighComplexity' | 'CognitiveComplexity' | 'DuplicateCode' | 'MagicNumber' | 'DeadCode' | 'LargeClass' | 'FeatureEnvy' | 'DataClumps';
+    type: 'LongMethod' | 'GodClass' | 'DeepNesting' | 'LongParameterList' | 'HighComplexity' | 'CognitiveComplexity' | 'DuplicateCode' | 'MagicNumber' | 'DeadCode' | 'LargeClass' | 'FeatureEnvy' | 'DataClumps' | 'IgnoredError' | 'LongSwitch';
     severity: 'Low' | 'Medium' | 'High' | 'Critical';
     confidence: number; // 0-100
     description: string;
@@ -19,57 +20,75 @@ export interface CodeSmellIssue {
     metrics: Record<string, any>;
 }
 
+// Default severity bands per smell; a repository's .codestruct.yml can override them
+export const DEFAULT_SMELL_THRESHOLDS = {
+    // Method complexity thresholds
+    CYCLOMATIC_COMPLEXITY: {
+        LOW: 8,        // Small methods
+        MEDIUM: 15,    // Moderate complexity
+        HIGH: 25,      // High complexity
+        CRITICAL: 40   // Very complex, needs immediate refactoring
+    },
+    COGNITIVE_COMPLEXITY: {
+        LOW: 10,       // Easy to understand
+        MEDIUM: 20,    // Moderately complex
+        HIGH: 35,      // Hard to understand
+        CRITICAL: 50   // Very difficult to maintain
+    },
+    // Method length thresholds (lines) - more realistic for modern codebases
+    METHOD_LENGTH: {
+        LOW: 40,       // Small methods (20-40 lines)
+        MEDIUM: 80,    // Medium methods (40-80 lines)
+        HIGH: 150,     // Large methods (80-150 lines)
+        CRITICAL: 250  // Very large methods (150+ lines)
+    },
+    // Class size thresholds - adjusted for real-world usage
+    CLASS_SIZE: {
+        LINES: { LOW: 300, MEDIUM: 600, HIGH: 1000, CRITICAL: 1500 },
+        METHODS: { LOW: 20, MEDIUM: 35, HIGH: 50, CRITICAL: 80 }
+    },
+    // Parameter count thresholds
+    PARAMETER_COUNT: {
+        LOW: 4,        // Standard function parameters
+        MEDIUM: 6,     // Getting complex
+        HIGH: 8,       // Too many parameters
+        CRITICAL: 12   // Definitely needs refactoring
+    },
+    // Nesting depth thresholds
+    NESTING_DEPTH: {
+        LOW: 3,        // Simple nesting
+        MEDIUM: 4,     // Moderate nesting
+        HIGH: 5,       // Deep nesting
+        CRITICAL: 7
+    },
+    // Cases (default included) in one switch statement
+    SWITCH_CASES: {
+        LOW: 10,
+        MEDIUM: 15,
+        HIGH: 25,
+        CRITICAL: 40
+    },
+    // Duplication thresholds
+    DUPLICATE_LINES: {
+        MIN_LINES: 6,
+        MIN_TOKENS: 50
+    }
+};
+
+export type SmellThresholds = typeof DEFAULT_SMELL_THRESHOLDS;
+
+// Complexity of one function, whether or not it crosses a smell threshold
+export interface FunctionMetrics {
+    name: string;
+    lineStart: number;
+    lineEnd: number;
+    cyclomaticComplexity: number;
+    cognitiveComplexity?: number;
+}
+
 @Injectable()
 export class EnhancedAnalysisService {
-    private readonly THRESHOLDS = {
-        // Method complexity thresholds
-        CYCLOMATIC_COMPLEXITY: {
-            LOW: 8,        // Small methods
-            MEDIUM: 15,    // Moderate complexity
-            HIGH: 25,      // High complexity
-            CRITICAL: 40   // Very complex, needs immediate refactoring
-        },
-        COGNITIVE_COMPLEXITY: {
-            LOW: 10,       // Easy to understand
-            MEDIUM: 20,    // Moderately complex
-            HIGH: 35,      // Hard to understand
-            CRITICAL: 50   // Very difficult to maintain
-        },
-        // Method length thresholds (lines) - more realistic for modern codebases
-        METHOD_LENGTH: {
-            LOW: 40,       // Small methods (20-40 lines)
-            MEDIUM: 80,    // Medium methods (40-80 lines)
-            HIGH: 150,     // Large methods (80-150 lines)
-            CRITICAL: 250  // Very large methods (150+ lines)
-        },
-        // Class size thresholds - adjusted for real-world usage
-        CLASS_SIZE: {
-            LINES: { LOW: 300, MEDIUM: 600, HIGH: 1000, CRITICAL: 1500 },
-            METHODS: { LOW: 20, MEDIUM: 35, HIGH: 50, CRITICAL: 80 }
-        },
-        // Parameter count thresholds
-        PARAMETER_COUNT: {
-            LOW: 4,        // Standard function parameters
-            MEDIUM: 6,     // Getting complex
-            HIGH: 8,       // Too many parameters
-            CRITICAL: 12   // Definitely needs refactoring
-        },
-        // Nesting depth thresholds
-        NESTING_DEPTH: {
-            LOW: 3,        // Simple nesting
-            MEDIUM: 4,     // Moderate nesting
-            HIGH: 5,       // Deep nesting
-            CRITICAL: 7
-        },
-        // Duplication thresholds
-        DUPLICATE_LINES: {
-            MIN_LINES: 6,
-            MIN_TOKENS: 50
-        }
-    };
-
     constructor(
-        private readonly prisma: PrismaService,
         private readonly parserService: ParserService,
         private readonly helperService: AnalysisHelperService,
         private readonly securityAnalysisService: SecurityAnalysisService,
@@ -80,33 +99,33 @@ export class EnhancedAnalysisService {
         code: string,
         filePath: string,
         language: string,
-        projectId: number
+        ctx?: AnalysisContext
     ): Promise<CodeSmellIssue[]> {
         console.log(`Analyzing code smells for ${filePath}`);
         const allIssues: CodeSmellIssue[] = [];
+        const thresholds = ctx?.smells ?? DEFAULT_SMELL_THRESHOLDS;
 
-        // Process detections one by one to reduce memory usage
+        // Process detections one by one to reduce memory usage; `types` lists the issue
+        // types a detector reports, so detectors whose rules are all disabled are skipped
         const detections = [
-            { name: 'Long Methods', fn: () => this.detectLongMethods(ast, code, filePath, language) },
-            { name: 'God Classes', fn: () => this.detectGodClasses(ast, code, filePath, language) },
-            { name: 'Deep Nesting', fn: () => this.detectDeepNesting(ast, code, filePath, language) },
-            { name: 'Long Parameter Lists', fn: () => this.detectLongParameterLists(ast, code, filePath, language) },
-            { name: 'Enhanced Complexity', fn: () => this.detectEnhancedComplexity(ast, code, filePath, language) },
-            { name: 'Magic Numbers', fn: () => this.detectMagicNumbers(ast, code, filePath, language) },
-            { name: 'Dead Code', fn: () => this.detectDeadCode(ast, code, filePath, language) },
-            { name: 'Feature Envy', fn: () => this.detectFeatureEnvy(ast, code, filePath, language) },
-            { name: 'Security Issues', fn: () => this.detectSecurityIssues(code, filePath, projectId) }
+            { name: 'Long Methods', types: ['LongMethod'], fn: () => this.detectLongMethods(ast, code, filePath, language, thresholds) },
+            { name: 'God Classes', types: ['GodClass'], fn: () => this.detectGodClasses(ast, code, filePath, language, thresholds) },
+            { name: 'Deep Nesting', types: ['DeepNesting'], fn: () => this.detectDeepNesting(ast, code, filePath, language, thresholds) },
+            { name: 'Long Parameter Lists', types: ['LongParameterList'], fn: () => this.detectLongParameterLists(ast, code, filePath, language, thresholds) },
+            { name: 'Enhanced Complexity', types: ['HighComplexity', 'CognitiveComplexity'], fn: () => this.detectEnhancedComplexity(ast, code, filePath, language, thresholds) },
+            { name: 'Magic Numbers', types: ['MagicNumber'], fn: () => this.detectMagicNumbers(ast, code, filePath, language) },
+            { name: 'Dead Code', types: ['DeadCode'], fn: () => this.detectDeadCode(ast, code, filePath, language) },
+            { name: 'Feature Envy', types: ['FeatureEnvy'], fn: () => this.detectFeatureEnvy(ast, code, filePath, language) },
+            { name: 'Ignored Errors', types: ['IgnoredError'], fn: () => this.detectIgnoredErrors(ast, code, filePath, language) },
+            { name: 'Long Switches', types: ['LongSwitch'], fn: () => this.detectLongSwitches(ast, code, filePath, language, thresholds) },
+            { name: 'Security Issues', types: null, fn: () => this.detectSecurityIssues(code, filePath, ctx) }
         ];
 
         for (const detection of detections) {
+            if (detection.types && !detection.types.some(type => isRuleEnabled(ctx, type))) continue;
             try {
-                const issues = await detection.fn();
-
-                // Store issues immediately to reduce memory usage
-                for (const issue of issues) {
-                    await this.storeIssue(issue, projectId);
-                    allIssues.push(issue);
-                }
+                const issues = (await detection.fn()).filter(issue => isRuleEnabled(ctx, issue.type));
+                allIssues.push(...issues);
 
                 console.log(`${detection.name}: Found ${issues.length} issues in ${filePath}`);
             } catch (error) {
@@ -117,28 +136,29 @@ export class EnhancedAnalysisService {
         return allIssues;
     }
 
-    private async detectLongMethods(ast: any, code: string, filePath: string, language: string): Promise<CodeSmellIssue[]> {
+    private async detectLongMethods(ast: any, code: string, filePath: string, language: string, thresholds: SmellThresholds): Promise<CodeSmellIssue[]> {
         const issues: CodeSmellIssue[] = [];
         const functions = this.extractFunctions(ast, language);
 
         for (const func of functions) {
             const lines = this.getLines(code, func.startIndex, func.endIndex);
             const lineCount = lines.length;
-            const codeLines = lines.filter(line => line.trim() && !line.trim().startsWith('//')).length;
+            const lineComment = getLanguageProfile(language)?.comments.line ?? '//';
+            const codeLines = lines.filter(line => line.trim() && !line.trim().startsWith(lineComment)).length;
 
             let severity: CodeSmellIssue['severity'] = 'Low';
             let confidence = 70;
 
-            if (codeLines >= this.THRESHOLDS.METHOD_LENGTH.CRITICAL) {
+            if (codeLines >= thresholds.METHOD_LENGTH.CRITICAL) {
                 severity = 'Critical';
                 confidence = 95;
-            } else if (codeLines >= this.THRESHOLDS.METHOD_LENGTH.HIGH) {
+            } else if (codeLines >= thresholds.METHOD_LENGTH.HIGH) {
                 severity = 'High';
                 confidence = 85;
-            } else if (codeLines >= this.THRESHOLDS.METHOD_LENGTH.MEDIUM) {
+            } else if (codeLines >= thresholds.METHOD_LENGTH.MEDIUM) {
                 severity = 'Medium';
                 confidence = 75;
-            } else if (codeLines >= this.THRESHOLDS.METHOD_LENGTH.LOW) {
+            } else if (codeLines >= thresholds.METHOD_LENGTH.LOW) {
                 severity = 'Low';
                 confidence = 65;
             } else {
@@ -179,7 +199,7 @@ export class EnhancedAnalysisService {
                     totalLines: lineCount,
                     codeLines,
                     commentLines: lineCount - codeLines,
-                    threshold: this.THRESHOLDS.METHOD_LENGTH.LOW
+                    threshold: thresholds.METHOD_LENGTH.LOW
                 }
             });
         }
@@ -187,7 +207,7 @@ export class EnhancedAnalysisService {
         return issues;
     }
 
-    private async detectGodClasses(ast: any, code: string, filePath: string, language: string): Promise<CodeSmellIssue[]> {
+    private async detectGodClasses(ast: any, code: string, filePath: string, language: string, thresholds: SmellThresholds): Promise<CodeSmellIssue[]> {
         const issues: CodeSmellIssue[] = [];
         const classes = this.extractClasses(ast, language);
 
@@ -203,16 +223,16 @@ export class EnhancedAnalysisService {
             let severity: CodeSmellIssue['severity'] = 'Low';
             let confidence = 60;
 
-            if (lineCount >= this.THRESHOLDS.CLASS_SIZE.LINES.CRITICAL || methodCount >= this.THRESHOLDS.CLASS_SIZE.METHODS.CRITICAL) {
+            if (lineCount >= thresholds.CLASS_SIZE.LINES.CRITICAL || methodCount >= thresholds.CLASS_SIZE.METHODS.CRITICAL) {
                 severity = 'Critical';
                 confidence = 95;
-            } else if (lineCount >= this.THRESHOLDS.CLASS_SIZE.LINES.HIGH || methodCount >= this.THRESHOLDS.CLASS_SIZE.METHODS.HIGH) {
+            } else if (lineCount >= thresholds.CLASS_SIZE.LINES.HIGH || methodCount >= thresholds.CLASS_SIZE.METHODS.HIGH) {
                 severity = 'High';
                 confidence = 85;
-            } else if (lineCount >= this.THRESHOLDS.CLASS_SIZE.LINES.MEDIUM || methodCount >= this.THRESHOLDS.CLASS_SIZE.METHODS.MEDIUM) {
+            } else if (lineCount >= thresholds.CLASS_SIZE.LINES.MEDIUM || methodCount >= thresholds.CLASS_SIZE.METHODS.MEDIUM) {
                 severity = 'Medium';
                 confidence = 75;
-            } else if (lineCount >= this.THRESHOLDS.CLASS_SIZE.LINES.LOW || methodCount >= this.THRESHOLDS.CLASS_SIZE.METHODS.LOW) {
+            } else if (lineCount >= thresholds.CLASS_SIZE.LINES.LOW || methodCount >= thresholds.CLASS_SIZE.METHODS.LOW) {
                 severity = 'Low';
                 confidence = 65;
             } else {
@@ -243,25 +263,25 @@ export class EnhancedAnalysisService {
         return issues;
     }
 
-    private async detectDeepNesting(ast: any, code: string, filePath: string, language: string): Promise<CodeSmellIssue[]> {
+    private async detectDeepNesting(ast: any, code: string, filePath: string, language: string, thresholds: SmellThresholds): Promise<CodeSmellIssue[]> {
         const issues: CodeSmellIssue[] = [];
         const functions = this.extractFunctions(ast, language);
 
         for (const func of functions) {
             const maxNesting = this.calculateMaxNestingDepth(func.node, language);
 
-            if (maxNesting <= this.THRESHOLDS.NESTING_DEPTH.LOW) continue;
+            if (maxNesting <= thresholds.NESTING_DEPTH.LOW) continue;
 
             let severity: CodeSmellIssue['severity'] = 'Low';
             let confidence = 85;
 
-            if (maxNesting >= this.THRESHOLDS.NESTING_DEPTH.CRITICAL) {
+            if (maxNesting >= thresholds.NESTING_DEPTH.CRITICAL) {
                 severity = 'Critical';
                 confidence = 98;
-            } else if (maxNesting >= this.THRESHOLDS.NESTING_DEPTH.HIGH) {
+            } else if (maxNesting >= thresholds.NESTING_DEPTH.HIGH) {
                 severity = 'High';
                 confidence = 95;
-            } else if (maxNesting >= this.THRESHOLDS.NESTING_DEPTH.MEDIUM) {
+            } else if (maxNesting >= thresholds.NESTING_DEPTH.MEDIUM) {
                 severity = 'Medium';
                 confidence = 90;
             }
@@ -279,7 +299,7 @@ export class EnhancedAnalysisService {
                 codeBlock: code.slice(func.startIndex, func.endIndex),
                 metrics: {
                     maxNesting,
-                    threshold: this.THRESHOLDS.NESTING_DEPTH.LOW
+                    threshold: thresholds.NESTING_DEPTH.LOW
                 }
             });
         }
@@ -287,25 +307,25 @@ export class EnhancedAnalysisService {
         return issues;
     }
 
-    private async detectLongParameterLists(ast: any, code: string, filePath: string, language: string): Promise<CodeSmellIssue[]> {
+    private async detectLongParameterLists(ast: any, code: string, filePath: string, language: string, thresholds: SmellThresholds): Promise<CodeSmellIssue[]> {
         const issues: CodeSmellIssue[] = [];
         const functions = this.extractFunctions(ast, language);
 
         for (const func of functions) {
             const paramCount = func.parameters.length;
 
-            if (paramCount <= this.THRESHOLDS.PARAMETER_COUNT.LOW) continue;
+            if (paramCount <= thresholds.PARAMETER_COUNT.LOW) continue;
 
             let severity: CodeSmellIssue['severity'] = 'Low';
             let confidence = 80;
 
-            if (paramCount >= this.THRESHOLDS.PARAMETER_COUNT.CRITICAL) {
+            if (paramCount >= thresholds.PARAMETER_COUNT.CRITICAL) {
                 severity = 'Critical';
                 confidence = 95;
-            } else if (paramCount >= this.THRESHOLDS.PARAMETER_COUNT.HIGH) {
+            } else if (paramCount >= thresholds.PARAMETER_COUNT.HIGH) {
                 severity = 'High';
                 confidence = 90;
-            } else if (paramCount >= this.THRESHOLDS.PARAMETER_COUNT.MEDIUM) {
+            } else if (paramCount >= thresholds.PARAMETER_COUNT.MEDIUM) {
                 severity = 'Medium';
                 confidence = 85;
             }
@@ -324,7 +344,7 @@ export class EnhancedAnalysisService {
                 metrics: {
                     parameterCount: paramCount,
                     parameters: func.parameters,
-                    threshold: this.THRESHOLDS.PARAMETER_COUNT.LOW
+                    threshold: thresholds.PARAMETER_COUNT.LOW
                 }
             });
         }
@@ -332,7 +352,7 @@ export class EnhancedAnalysisService {
         return issues;
     }
 
-    private async detectEnhancedComplexity(ast: any, code: string, filePath: string, language: string): Promise<CodeSmellIssue[]> {
+    private async detectEnhancedComplexity(ast: any, code: string, filePath: string, language: string, thresholds: SmellThresholds): Promise<CodeSmellIssue[]> {
         const issues: CodeSmellIssue[] = [];
         const functions = this.extractFunctions(ast, language);
 
@@ -341,17 +361,17 @@ export class EnhancedAnalysisService {
             const cognitiveComplexity = this.calculateCognitiveComplexity(func.node, language, code);
 
             // Check cyclomatic complexity
-            if (cyclomaticComplexity > this.THRESHOLDS.CYCLOMATIC_COMPLEXITY.LOW) {
+            if (cyclomaticComplexity > thresholds.CYCLOMATIC_COMPLEXITY.LOW) {
                 let severity: CodeSmellIssue['severity'] = 'Low';
                 let confidence = 85;
 
-                if (cyclomaticComplexity >= this.THRESHOLDS.CYCLOMATIC_COMPLEXITY.CRITICAL) {
+                if (cyclomaticComplexity >= thresholds.CYCLOMATIC_COMPLEXITY.CRITICAL) {
                     severity = 'Critical';
                     confidence = 98;
-                } else if (cyclomaticComplexity >= this.THRESHOLDS.CYCLOMATIC_COMPLEXITY.HIGH) {
+                } else if (cyclomaticComplexity >= thresholds.CYCLOMATIC_COMPLEXITY.HIGH) {
                     severity = 'High';
                     confidence = 95;
-                } else if (cyclomaticComplexity >= this.THRESHOLDS.CYCLOMATIC_COMPLEXITY.MEDIUM) {
+                } else if (cyclomaticComplexity >= thresholds.CYCLOMATIC_COMPLEXITY.MEDIUM) {
                     severity = 'Medium';
                     confidence = 90;
                 }
@@ -370,23 +390,23 @@ export class EnhancedAnalysisService {
                     metrics: {
                         cyclomaticComplexity,
                         cognitiveComplexity,
-                        threshold: this.THRESHOLDS.CYCLOMATIC_COMPLEXITY.LOW
+                        threshold: thresholds.CYCLOMATIC_COMPLEXITY.LOW
                     }
                 });
             }
 
             // Check cognitive complexity
-            if (cognitiveComplexity > this.THRESHOLDS.COGNITIVE_COMPLEXITY.LOW) {
+            if (cognitiveComplexity > thresholds.COGNITIVE_COMPLEXITY.LOW) {
                 let severity: CodeSmellIssue['severity'] = 'Low';
                 let confidence = 80;
 
-                if (cognitiveComplexity >= this.THRESHOLDS.COGNITIVE_COMPLEXITY.CRITICAL) {
+                if (cognitiveComplexity >= thresholds.COGNITIVE_COMPLEXITY.CRITICAL) {
                     severity = 'Critical';
                     confidence = 95;
-                } else if (cognitiveComplexity >= this.THRESHOLDS.COGNITIVE_COMPLEXITY.HIGH) {
+                } else if (cognitiveComplexity >= thresholds.COGNITIVE_COMPLEXITY.HIGH) {
                     severity = 'High';
                     confidence = 90;
-                } else if (cognitiveComplexity >= this.THRESHOLDS.COGNITIVE_COMPLEXITY.MEDIUM) {
+                } else if (cognitiveComplexity >= thresholds.COGNITIVE_COMPLEXITY.MEDIUM) {
                     severity = 'Medium';
                     confidence = 85;
                 }
@@ -405,7 +425,7 @@ export class EnhancedAnalysisService {
                     metrics: {
                         cyclomaticComplexity,
                         cognitiveComplexity,
-                        threshold: this.THRESHOLDS.COGNITIVE_COMPLEXITY.LOW
+                        threshold: thresholds.COGNITIVE_COMPLEXITY.LOW
                     }
                 });
             }
@@ -503,6 +523,132 @@ export class EnhancedAnalysisService {
         return issues;
     }
 
+    /**
+     * Go: a call's last result assigned to the blank identifier, e.g. `v, _ := strconv.Atoi(s)`.
+     * By convention that result is the error. Without type information this is a
+     * heuristic, hence the lower confidence.
+     */
+    private async detectIgnoredErrors(ast: any, code: string, filePath: string, language: string): Promise<CodeSmellIssue[]> {
+        const issues: CodeSmellIssue[] = [];
+        if (language.toLowerCase() !== 'go' || !ast?.rootNode) return issues;
+
+        const walk = (node: any, functionName?: string) => {
+            if (!node) return;
+
+            if (['function_declaration', 'method_declaration'].includes(node.type)) {
+                functionName = node.nameNode?.text;
+            }
+
+            if (['short_var_declaration', 'assignment_statement'].includes(node.type)) {
+                const left = node.leftNode;
+                const right = node.rightNode;
+                const last = left?.namedChild((left?.namedChildCount ?? 0) - 1);
+                if (last?.type === 'identifier' && last.text === '_'
+                    && right?.namedChildCount === 1 && right.namedChild(0)?.type === 'call_expression') {
+                    const call = right.namedChild(0);
+                    const callee = call.functionNode?.text ?? 'call';
+                    issues.push({
+                        type: 'IgnoredError',
+                        severity: 'Medium',
+                        confidence: 70,
+                        description: `Error returned by ${callee}() is discarded with _`,
+                        recommendation: `Handle the error: return it (wrapped with context via fmt.Errorf("...: %w", err)), log it, or comment why it can safely be ignored.`,
+                        filePath,
+                        functionName,
+                        lineStart: this.getLineNumber(code, node.startIndex),
+                        lineEnd: this.getLineNumber(code, node.endIndex),
+                        codeBlock: code.slice(node.startIndex, node.endIndex),
+                        metrics: { callee }
+                    });
+                }
+            }
+
+            for (let i = 0; i < (node.namedChildCount ?? 0); i++) {
+                walk(node.namedChild(i), functionName);
+            }
+        };
+
+        walk(ast.rootNode);
+        return issues;
+    }
+
+    /**
+     * Go: switch statements (expression and type switches) with many cases
+     */
+    private async detectLongSwitches(ast: any, code: string, filePath: string, language: string, thresholds: SmellThresholds): Promise<CodeSmellIssue[]> {
+        const issues: CodeSmellIssue[] = [];
+        if (language.toLowerCase() !== 'go' || !ast?.rootNode) return issues;
+
+        const caseTypes = ['expression_case', 'type_case', 'default_case'];
+        const walk = (node: any, functionName?: string) => {
+            if (!node) return;
+
+            if (['function_declaration', 'method_declaration'].includes(node.type)) {
+                functionName = node.nameNode?.text;
+            }
+
+            if (['expression_switch_statement', 'type_switch_statement'].includes(node.type)) {
+                let caseCount = 0;
+                for (let i = 0; i < (node.namedChildCount ?? 0); i++) {
+                    if (caseTypes.includes(node.namedChild(i)?.type)) caseCount++;
+                }
+
+                if (caseCount > thresholds.SWITCH_CASES.LOW) {
+                    let severity: CodeSmellIssue['severity'] = 'Low';
+                    let confidence = 75;
+
+                    if (caseCount >= thresholds.SWITCH_CASES.CRITICAL) {
+                        severity = 'Critical';
+                        confidence = 90;
+                    } else if (caseCount >= thresholds.SWITCH_CASES.HIGH) {
+                        severity = 'High';
+                        confidence = 85;
+                    } else if (caseCount >= thresholds.SWITCH_CASES.MEDIUM) {
+                        severity = 'Medium';
+                        confidence = 80;
+                    }
+
+                    issues.push({
+                        type: 'LongSwitch',
+                        severity,
+                        confidence,
+                        description: `Switch statement${functionName ? ` in '${functionName}'` : ''} has ${caseCount} cases`,
+                        recommendation: `Replace the switch with a map of handlers, or move per-case behavior behind an interface so each type implements it.`,
+                        filePath,
+                        functionName,
+                        lineStart: this.getLineNumber(code, node.startIndex),
+                        lineEnd: this.getLineNumber(code, node.endIndex),
+                        codeBlock: code.slice(node.startIndex, node.endIndex),
+                        metrics: {
+                            caseCount,
+                            threshold: thresholds.SWITCH_CASES.LOW
+                        }
+                    });
+                }
+            }
+
+            for (let i = 0; i < (node.namedChildCount ?? 0); i++) {
+                walk(node.namedChild(i), functionName);
+            }
+        };
+
+        walk(ast.rootNode);
+        return issues;
+    }
+
+    /**
+     * Complexity metrics of every function in the file (used for hotspots)
+     */
+    functionMetrics(ast: any, code: string, language: string): FunctionMetrics[] {
+        return this.extractFunctions(ast, language).map((func) => ({
+            name: func.name,
+            lineStart: this.getLineNumber(code, func.startIndex),
+            lineEnd: this.getLineNumber(code, func.endIndex),
+            cyclomaticComplexity: this.calculateCyclomaticComplexity(func.node, language, code),
+            cognitiveComplexity: this.calculateCognitiveComplexity(func.node, language, code),
+        }));
+    }
+
     // Helper methods for analysis
 
     private extractFunctions(ast: any, language: string): any[] {
@@ -510,7 +656,7 @@ export class EnhancedAnalysisService {
 
         if (!ast?.rootNode) return functions;
 
-        const functionTypes = this.getFunctionTypes(language);
+        const functionTypes = nodeTypesOf(language).functions;
         const walk = (node: any) => {
             if (!node) return;
 
@@ -536,7 +682,7 @@ export class EnhancedAnalysisService {
 
         if (!ast?.rootNode) return classes;
 
-        const classTypes = this.getClassTypes(language);
+        const classTypes = nodeTypesOf(language).classes;
         const walk = (node: any) => {
             if (!node) return;
 
@@ -556,30 +702,6 @@ export class EnhancedAnalysisService {
         return classes;
     }
 
-    private getFunctionTypes(language: string): string[] {
-        const types: Record<string, string[]> = {
-            typescript: ['function_declaration', 'method_definition', 'arrow_function', 'function_expression'],
-            javascript: ['function_declaration', 'method_definition', 'arrow_function', 'function_expression'],
-            python: ['function_definition', 'async_function_definition'],
-            java: ['method_declaration', 'constructor_declaration'],
-            cpp: ['function_definition', 'function_declarator']
-        };
-
-        return types[language.toLowerCase()] || types.typescript;
-    }
-
-    private getClassTypes(language: string): string[] {
-        const types: Record<string, string[]> = {
-            typescript: ['class_declaration', 'interface_declaration'],
-            javascript: ['class_declaration'],
-            python: ['class_definition'],
-            java: ['class_declaration', 'interface_declaration'],
-            cpp: ['class_specifier', 'struct_specifier']
-        };
-
-        return types[language.toLowerCase()] || types.typescript;
-    }
-
     private extractFunctionInfo(node: any, language: string): any {
         return this.helperService.extractFunctionInfo(node, language);
     }
@@ -591,7 +713,7 @@ export class EnhancedAnalysisService {
     private calculateCyclomaticComplexity(node: any, language: string, code: string): number {
         let complexity = 1; // Base complexity
 
-        const complexityNodes = this.getComplexityNodes(language);
+        const complexityNodes = nodeTypesOf(language).complexity;
 
         const walk = (n: any) => {
             if (!n) return;
@@ -620,7 +742,11 @@ export class EnhancedAnalysisService {
         let complexity = 0;
         let nestingLevel = 0;
 
-        const cognitiveNodes = this.getCognitiveComplexityNodes(language);
+        const cognitiveNodes = {
+            binary: ['&&', '||'],
+            nesting: nodeTypesOf(language).cognitiveNesting,
+            jumping: ['break_statement', 'continue_statement', 'return_statement', 'throw_statement']
+        };
 
         const walk = (n: any, currentNesting: number) => {
             if (!n) return;
@@ -653,7 +779,7 @@ export class EnhancedAnalysisService {
     private calculateMaxNestingDepth(node: any, language: string): number {
         let maxDepth = 0;
 
-        const nestingNodes = this.getNestingNodes(language);
+        const nestingNodes = nodeTypesOf(language).nesting;
 
         const walk = (n: any, currentDepth: number) => {
             if (!n) return;
@@ -673,36 +799,6 @@ export class EnhancedAnalysisService {
         return maxDepth;
     }
 
-    private getComplexityNodes(language: string): string[] {
-        const nodes: Record<string, string[]> = {
-            typescript: ['if_statement', 'for_statement', 'while_statement', 'switch_statement', 'case_clause', 'catch_clause', 'conditional_expression'],
-            javascript: ['if_statement', 'for_statement', 'while_statement', 'switch_statement', 'case_clause', 'catch_clause', 'conditional_expression'],
-            python: ['if_statement', 'for_statement', 'while_statement', 'elif_clause', 'except_clause', 'conditional_expression'],
-            java: ['if_statement', 'for_statement', 'while_statement', 'switch_statement', 'case_clause', 'catch_clause'],
-        };
-
-        return nodes[language.toLowerCase()] || nodes.typescript;
-    }
-
-    private getCognitiveComplexityNodes(language: string) {
-        return {
-            binary: ['&&', '||'],
-            nesting: ['if_statement', 'for_statement', 'while_statement', 'switch_statement', 'try_statement'],
-            jumping: ['break_statement', 'continue_statement', 'return_statement', 'throw_statement']
-        };
-    }
-
-    private getNestingNodes(language: string): string[] {
-        const nodes: Record<string, string[]> = {
-            typescript: ['if_statement', 'for_statement', 'while_statement', 'try_statement', 'switch_statement', 'block'],
-            javascript: ['if_statement', 'for_statement', 'while_statement', 'try_statement', 'switch_statement', 'block'],
-            python: ['if_statement', 'for_statement', 'while_statement', 'try_statement', 'with_statement'],
-            java: ['if_statement', 'for_statement', 'while_statement', 'try_statement', 'switch_statement', 'block'],
-        };
-
-        return nodes[language.toLowerCase()] || nodes.typescript;
-    }
-
     private getLines(code: string, startIndex: number, endIndex: number): string[] {
         const text = code.slice(startIndex, endIndex);
         return text.split('\n');
@@ -775,28 +871,8 @@ export class EnhancedAnalysisService {
         }
     }
 
-    private async storeIssue(issue: CodeSmellIssue, projectId: number): Promise<void> {
-        await this.prisma.issue.create({
-            data: {
-                projectId,
-                filePath: issue.filePath,
-                functionName: issue.functionName,
-                className: issue.className,
-                issueType: issue.type,
-                severity: issue.severity,
-                confidence: issue.confidence,
-                description: issue.description,
-                recommendation: issue.recommendation,
-                lineStart: issue.lineStart,
-                lineEnd: issue.lineEnd,
-                metadata: issue.metrics,
-                codeBlock: issue.codeBlock,
-            },
-        });
-    }
-
-    private async detectSecurityIssues(code: string, filePath: string, projectId: number): Promise<CodeSmellIssue[]> {
-        const securityIssues = await this.securityAnalysisService.analyzeSecurityIssues(code, filePath, projectId);
+    private async detectSecurityIssues(code: string, filePath: string, ctx?: AnalysisContext): Promise<CodeSmellIssue[]> {
+        const securityIssues = await this.securityAnalysisService.analyzeSecurityIssues(code, filePath, ctx);
         
         // Convert security issues to code smell issues for consistency
         return securityIssues.map(issue => ({
@@ -0,0 +1,296 @@
+import { Injectable } from '@nestjs/common';
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { ParserService, StoredAst } from '../parser/parser.service';
+import { CustomRuleRunnerService } from './custom-rule-runner.service';
+import { EnhancedAnalysisService, CodeSmellIssue, FunctionMetrics } from './enhanced-analysis.service';
+import { AnalysisContext, applyRuleOverrides } from './analysis-context';
+import { getLanguageProfile, isAnalyzable, languageOfExtension, nodeTypesOf } from '../languages/language-registry';
+import type { FileSymbols } from '../languages/language-profile';
+
+// Issue row produced by a worker; projectId/runId are added when it is persisted
+export interface AnalyzedIssue {
+  filePath: string;
+  functionName?: string | null;
+  className?: string;
+  issueType: string;
+  severity: string;
+  confidence: number;
+  description: string;
+  recommendation: string;
+  lineStart?: number;
+  lineEnd?: number;
+  metadata: Record<string, any>;
+  codeBlock: string;
+}
+
+export interface DuplicationBlock {
+  code: string;
+  filePath: string;
+  language: string;
+  startIndex: number;
+  endIndex: number;
+}
+
+export interface FileAnalysisTask {
+  absPath: string;
+  relPath: string;
+  language: string; // the file's own language, from its extension
+  context: AnalysisContext;
+  // false for files unchanged since the last analyzed commit: only feed duplicate detection
+  analyze: boolean;
+}
+
+export interface FileAnalysisResult {
+  relPath: string;
+  ext: string;
+  language: string;
+  loc: number;
+  supported: boolean;
+  analyzed: boolean;
+  ast?: StoredAst;
+  issues: AnalyzedIssue[];
+  functions?: FunctionMetrics[]; // set when the file was analyzed
+  codeBlock?: DuplicationBlock;
+  symbols?: FileSymbols; // for every parsed file, changed or not: the symbol index is rebuilt each run
+}
+
+/**
+ * Per-file analysis (AST, code smells, complexity fallbacks) without any database
+ * access, so it can run inside an analysis worker process.
+ */
+@Injectable()
+export class FileAnalysisService {
+  constructor(
+    private readonly parserService: ParserService,
+    private readonly enhancedAnalysisService: EnhancedAnalysisService,
+    private readonly customRules: CustomRuleRunnerService,
+  ) { }
+
+  async analyzeFile(task: FileAnalysisTask): Promise<FileAnalysisResult> {
+    const result = await this.detect(task);
+    result.issues = applyRuleOverrides(task.context, result.issues);
+    return result;
+  }
+
+  private async detect(task: FileAnalysisTask): Promise<FileAnalysisResult> {
+    const { relPath, language } = task;
+    const code = await readFile(task.absPath, 'utf8');
+    const ext = extname(task.absPath).toLowerCase();
+    const supported = this.supports(ext);
+    const loc = code.split('\n').filter((line) => line.trim()).length;
+    const result: FileAnalysisResult = { relPath, ext, language, loc, supported, analyzed: false, issues: [] };
+    const limits = task.context.limits;
+    if (code.length > limits.maxFileBytes) {
+      console.log('[analysis] skipping file over the size limit', { relPath, bytes: code.length });
+      return result;
+    }
+
+    // Unchanged files keep their issues; they only feed cross-file duplicate detection and the symbol index
+    if (!task.analyze) {
+      if (supported && code.length <= limits.duplicationMaxFileBytes) result.codeBlock = this.duplicationBlock(code, relPath, language);
+      result.symbols = this.extractSymbols(code, ext, language);
+      return result;
+    }
+
+    const stored = this.parserService.parseSource(code, ext);
+    if (stored) result.ast = stored;
+    result.issues.push(...this.customRules.run(task.context.customRules ?? [], code, relPath, language, ext));
+    if (!supported) return result;
+
+    // Try Tree-sitter parsing first
+    try {
+      const parsed = this.parserService.parseWithTreeSitter(code, ext);
+      if (parsed) {
+        result.symbols = this.extractSymbols(code, ext, language, parsed.tree);
+        const issues = await this.enhancedAnalysisService.analyzeCodeSmells(
+          parsed.tree, code, relPath, parsed.langKey, task.context,
+        );
+        result.issues.push(...issues.map((issue) => this.toAnalyzedIssue(issue)));
+        result.functions = this.enhancedAnalysisService.functionMetrics(parsed.tree, code, parsed.langKey);
+        result.analyzed = true;
+        // Skip very large files for duplicate detection
+        if (code.length <= limits.duplicationMaxFileBytes) result.codeBlock = this.duplicationBlock(code, relPath, language);
+        return result;
+      }
+    } catch (error: any) {
+      console.log('[analysis] treesitter parsing failed', { relPath, error: error?.message || 'Unknown error' });
+    }
+
+    // Fallback to JSON AST if available
+    if (stored?.ast && (stored.format === 'tree-sitter-json' || stored.format === 'ts-compiler-json')) {
+      try {
+        const jsonAst = JSON.parse(stored.ast);
+
+        // Basic complexity analysis for fallback
+        const functions: FunctionMetrics[] = [];
+        for (const fn of this.findFunctionsJson(jsonAst, stored.format, language)) {
+          const { start, end } = this.getRangeFromJsonNode(fn, stored.format);
+          const text = code.slice(start, end);
+          const complexity = this.calculateComplexityJson(fn, stored.format, code);
+          functions.push(this.functionMetrics(code, start, end, this.extractFunctionNameFromText(text, language), complexity));
+          if (complexity > task.context.complexityThreshold) {
+            result.issues.push(this.complexityIssue(relPath, this.extractFunctionNameFromText(text, language), complexity, 80, text));
+          }
+        }
+        result.functions = functions;
+        result.analyzed = true;
+        result.codeBlock = { code, filePath: relPath, language, startIndex: 0, endIndex: code.length };
+        return result;
+      } catch (error: any) {
+        console.log('[analysis] JSON AST parsing failed', { relPath, error: error?.message || 'Unknown error' });
+      }
+    }
+
+    // Final fallback to text-based analysis
+    result.functions = [];
+    for (const block of this.extractBlocksFallback(code, language)) {
+      const complexity = this.estimateCyclomaticComplexityFromText(block.text);
+      result.functions.push(this.functionMetrics(code, block.start, block.end, this.extractFunctionNameFromText(block.text, language), complexity));
+      if (complexity > task.context.complexityThreshold) {
+        result.issues.push(this.complexityIssue(relPath, this.extractFunctionNameFromText(block.text, language), complexity, 60, block.text));
+      }
+    }
+    if (code.length <= limits.duplicationMaxFileBytes) result.codeBlock = this.duplicationBlock(code, relPath, language);
+    return result;
+  }
+
+  // Declarations, imports and references for the run's symbol index; needs the file's grammar
+  private extractSymbols(code: string, ext: string, language: string, tree?: any): FileSymbols | undefined {
+    const symbols = getLanguageProfile(language)?.symbols;
+    if (!symbols) return undefined;
+    try {
+      const root = (tree ?? this.parserService.parseWithTreeSitter(code, ext)?.tree)?.rootNode;
+      return root ? symbols.extract(root) : undefined;
+    } catch (error: any) {
+      console.log('[analysis] symbol extraction failed', { ext, error: error?.message || 'Unknown error' });
+      return undefined;
+    }
+  }
+
+  supports(ext: string) {
+    const language = languageOfExtension(ext)?.profile.id;
+    return !!language && isAnalyzable(language);
+  }
+
+  estimateCyclomaticComplexityFromText(text: string) {
+    const keywords = ['if', 'for', 'while', 'case', 'catch', '&&', '||', '?', 'elif'];
+    let score = 1;
+    for (const kw of keywords) {
+      const matches = text.match(new RegExp(`\\b${kw}\\b`, 'g'));
+      if (matches) score += matches.length;
+    }
+    return score;
+  }
+
+  extractFunctionNameFromText(text: string, language: string) {
+    const patterns = (getLanguageProfile(language) ?? getLanguageProfile('typescript')!).textFallback?.functionName ?? [];
+    for (const pattern of patterns) {
+      const m = text.match(pattern);
+      if (m) return m[1];
+    }
+    return null;
+  }
+
+  extractBlocksFallback(code: string, language: string) {
+    return (getLanguageProfile(language) ?? getLanguageProfile('typescript')!).textFallback?.functionBlocks(code) ?? [];
+  }
+
+  private findFunctionsJson(root: any, format: string, language: string): any[] {
+    const out: any[] = [];
+    const treeSitterKinds = new Set(nodeTypesOf(language).functions);
+    const isFn = (t: string) => {
+      const tsKinds = new Set([
+        'FunctionDeclaration', 'MethodDeclaration', 'ArrowFunction', 'FunctionExpression',
+      ]);
+      const tsxExtra = new Set(['GetAccessor', 'SetAccessor']);
+      if (format.startsWith('ts-compiler')) return tsKinds.has(t) || tsxExtra.has(t);
+      return treeSitterKinds.has(t);
+    };
+    const walk = (n: any) => {
+      if (!n) return;
+      if (n.type && isFn(n.type)) out.push(n);
+      if (Array.isArray(n.children)) {
+        for (const c of n.children) walk(c);
+      }
+    };
+    walk(root);
+    return out;
+  }
+
+  private calculateComplexityJson(node: any, format: string, code: string): number {
+    let score = 1;
+    const tsDecisions = new Set([
+      'IfStatement', 'ForStatement', 'WhileStatement', 'DoStatement', 'CaseClause', 'DefaultClause', 'CatchClause', 'ConditionalExpression', 'BinaryExpression',
+    ]);
+    const tsLogicalKinds = new Set(['BinaryExpression']);
+    const tsOps = new Set(['&&', '||']);
+    const walk = (n: any) => {
+      if (!n) return;
+      if (format.startsWith('ts-compiler-json')) {
+        if (tsDecisions.has(n.type)) score++;
+        if (n.type === 'BinaryExpression') {
+          const txt = code.slice(n.pos ?? 0, n.end ?? 0);
+          if (txt.includes('&&') || txt.includes('||')) score++;
+        }
+      } else {
+        const tsLikeDec = new Set([
+          'if_statement', 'for_statement', 'while_statement', 'do_statement', 'case_clause', 'default_clause', 'catch_clause', 'conditional_expression', 'binary_expression', 'logical_expression',
+        ]);
+        if (tsLikeDec.has(n.type)) score++;
+      }
+      if (Array.isArray(n.children)) for (const c of n.children) walk(c);
+    };
+    walk(node);
+    return score;
+  }
+
+  private getRangeFromJsonNode(node: any, format: string): { start: number; end: number } {
+    if (format.startsWith('ts-compiler-json')) {
+      return { start: typeof node.pos === 'number' ? node.pos : 0, end: typeof node.end === 'number' ? node.end : 0 };
+    }
+    return { start: typeof node.startIndex === 'number' ? node.startIndex : 0, end: typeof node.endIndex === 'number' ? node.endIndex : 0 };
+  }
+
+  private complexityIssue(filePath: string, fnName: string | null, complexity: number, confidence: number, text: string): AnalyzedIssue {
+    return {
+      filePath,
+      functionName: fnName,
+      issueType: 'HighComplexity',
+      severity: complexity > 15 ? 'High' : complexity > 10 ? 'Medium' : 'Low',
+      confidence,
+      description: `Function '${fnName}' has high cyclomatic complexity (${complexity})`,
+      recommendation: 'Consider breaking this function into smaller, more focused functions.',
+      metadata: { complexity },
+      codeBlock: text,
+    };
+  }
+
+  private toAnalyzedIssue(issue: CodeSmellIssue): AnalyzedIssue {
+    return {
+      filePath: issue.filePath,
+      functionName: issue.functionName,
+      className: issue.className,
+      issueType: issue.type,
+      severity: issue.severity,
+      confidence: issue.confidence,
+      description: issue.description,
+      recommendation: issue.recommendation,
+      lineStart: issue.lineStart,
+      lineEnd: issue.lineEnd,
+      metadata: issue.metrics,
+      codeBlock: issue.codeBlock,
+    };
+  }
+
+  // Metrics of a function found by the text-based fallbacks
+  private functionMetrics(code: string, start: number, end: number, name: string | null, complexity: number): FunctionMetrics {
+    const lineOf = (index: number) => code.slice(0, index).split('\n').length;
+    return { name: name || 'anonymous', lineStart: lineOf(start), lineEnd: lineOf(end), cyclomaticComplexity: complexity };
+  }
+
+  // Limit code size for duplicate detection
+  private duplicationBlock(code: string, filePath: string, language: string): DuplicationBlock {
+    return { code: code.slice(0, 10000), filePath, language, startIndex: 0, endIndex: Math.min(code.length, 10000) };
+  }
+}
@@ -0,0 +1,152 @@
+import { Injectable } from '@nestjs/common';
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import ignore, { Ignore } from 'ignore';
+import { minimatch } from 'minimatch';
+import type { RepoConfig } from './repo-config.service';
+import { languageOfFile } from '../languages/language-registry';
+
+// Directories that are never analyzed, whatever the repository says
+const DEFAULT_IGNORED_DIRS = new Set(['node_modules', 'dist', 'build', '.next']);
+
+// default: built-in directory list; gitignore: .gitignore or .git/info/exclude;
+// generated/vendored: linguist-* in .gitattributes; project: the project's exclude
+// globs; repo-config: include/exclude in .codestruct.yml; language: a language not
+// analyzed in that directory (`languages` in project settings or .codestruct.yml)
+export type ExclusionReason = 'default' | 'gitignore' | 'generated' | 'vendored' | 'project' | 'repo-config' | 'language';
+
+export interface ExcludedPath {
+  path: string; // repo-relative; directories end with '/' and stand for everything below
+  reason: ExclusionReason;
+}
+
+export interface CollectedFiles {
+  files: string[]; // absolute paths
+  excluded: ExcludedPath[];
+}
+
+export interface CollectOptions {
+  excludeGlobs?: string[];
+  config?: RepoConfig;
+}
+
+// Patterns without a slash match the file name at any depth, like in .gitignore
+export function matchesAnyGlob(relPath: string, patterns: string[]) {
+  return patterns.some((pattern) => minimatch(relPath, pattern, { dot: true, matchBase: !pattern.includes('/') }));
+}
+
+/**
+ * Whether the `languages` scopes let a file's language be analyzed. Files in languages
+ * we don't recognize are not restricted.
+ */
+export function isLanguageAllowed(config: RepoConfig, relPath: string) {
+  const language = languageOfFile(relPath);
+  if (!language) return true;
+  const scope = [...config.languages].reverse().find((s) => s.path === '**' || matchesAnyGlob(relPath, [s.path]));
+  return !scope || scope.languages.includes(language);
+}
+
+interface IgnoreScope {
+  base: string; // directory of the .gitignore, repo-relative with trailing '/' ('' for the root)
+  matcher: Ignore;
+}
+
+interface AttributeRule {
+  matcher: Ignore;
+  attribute: 'generated' | 'vendored';
+  set: boolean;
+}
+
+/**
+ * Walks a checked-out repository the way git sees it: .gitignore files (nested ones
+ * included) prune the tree, files marked linguist-generated or linguist-vendored in
+ * .gitattributes are skipped, and so are paths excluded by project or repo settings.
+ */
+@Injectable()
+export class FileCollectorService {
+  async collect(root: string, options: CollectOptions = {}): Promise<CollectedFiles> {
+    const result: CollectedFiles = { files: [], excluded: [] };
+    const attributes = await this.readAttributes(root);
+    const rootScope = ignore();
+    for (const name of ['.git/info/exclude', '.gitignore']) {
+      const text = await readFile(join(root, name), 'utf8').catch(() => null);
+      if (text) rootScope.add(text);
+    }
+
+    const walk = async (dir: string, rel: string, scopes: IgnoreScope[]) => {
+      const entries = await readdir(dir, { withFileTypes: true });
+      if (rel && entries.some((e) => e.name === '.gitignore' && e.isFile())) {
+        const text = await readFile(join(dir, '.gitignore'), 'utf8').catch(() => '');
+        scopes = [...scopes, { base: rel, matcher: ignore().add(text) }];
+      }
+      for (const e of entries) {
+        const relPath = rel + e.name;
+        if (e.isDirectory()) {
+          if (e.name === '.git') continue;
+          if (DEFAULT_IGNORED_DIRS.has(e.name.toLowerCase())) {
+            result.excluded.push({ path: `${relPath}/`, reason: 'default' });
+          } else if (this.isGitIgnored(scopes, `${relPath}/`)) {
+            result.excluded.push({ path: `${relPath}/`, reason: 'gitignore' });
+          } else {
+            await walk(join(dir, e.name), `${relPath}/`, scopes);
+          }
+          continue;
+        }
+        // Symlinks are skipped: in uploads and local trees they could point anywhere
+        if (!e.isFile()) continue;
+        const reason = this.isGitIgnored(scopes, relPath) ? 'gitignore' : this.exclusionReason(relPath, attributes, options);
+        if (reason) result.excluded.push({ path: relPath, reason });
+        else result.files.push(join(dir, e.name));
+      }
+    };
+    await walk(root, '', [{ base: '', matcher: rootScope }]);
+    return result;
+  }
+
+  // The deepest .gitignore with an opinion wins, as in git
+  private isGitIgnored(scopes: IgnoreScope[], relPath: string) {
+    let ignored = false;
+    for (const scope of scopes) {
+      if (!relPath.startsWith(scope.base)) continue;
+      const test = scope.matcher.test(relPath.slice(scope.base.length));
+      if (test.ignored) ignored = true;
+      else if (test.unignored) ignored = false;
+    }
+    return ignored;
+  }
+
+  private exclusionReason(relPath: string, attributes: AttributeRule[], options: CollectOptions): ExclusionReason | null {
+    const marked = { generated: false, vendored: false };
+    for (const rule of attributes) {
+      if (rule.matcher.ignores(relPath)) marked[rule.attribute] = rule.set;
+    }
+    if (marked.generated) return 'generated';
+    if (marked.vendored) return 'vendored';
+    if (options.excludeGlobs?.length && matchesAnyGlob(relPath, options.excludeGlobs)) return 'project';
+    const config = options.config;
+    if (config?.include.length && !matchesAnyGlob(relPath, config.include)) return 'repo-config';
+    if (config?.exclude.length && matchesAnyGlob(relPath, config.exclude)) return 'repo-config';
+    if (config?.languages.length && !isLanguageAllowed(config, relPath)) return 'language';
+    return null;
+  }
+
+  /**
+   * linguist-generated / linguist-vendored from the root .gitattributes, in file order
+   * so later lines override earlier ones
+   */
+  private async readAttributes(root: string): Promise<AttributeRule[]> {
+    const text = await readFile(join(root, '.gitattributes'), 'utf8').catch(() => '');
+    const rules: AttributeRule[] = [];
+    for (const line of text.split(/\r?\n/)) {
+      const [pattern, ...attrs] = line.trim().split(/\s+/);
+      if (!pattern || pattern.startsWith('#')) continue;
+      for (const attr of attrs) {
+        const m = /^([-!]?)linguist-(generated|vendored)(?:=(\w+))?$/.exec(attr);
+        if (!m) continue;
+        const set = !m[1] && (m[3] === undefined || m[3] === 'true');
+        rules.push({ matcher: ignore().add(pattern), attribute: m[2] as AttributeRule['attribute'], set });
+      }
+    }
+    return rules;
+  }
+}
@@ -0,0 +1,39 @@
+import simpleGit from 'simple-git';
+
+// Last change of one line of a file
+export interface BlameLine {
+  sha: string;
+  author: string;
+  email: string; // lowercase, without angle brackets
+  time: number; // author time, seconds
+}
+
+/**
+ * Blame every current line of `relPath` (1-based line n is entry n-1). Empty when
+ * the directory has no git history or the file is not tracked.
+ */
+export async function blameFile(dir: string, relPath: string): Promise<BlameLine[]> {
+  let out: string;
+  try {
+    out = await simpleGit(dir).raw(['blame', '--line-porcelain', '-w', '--', relPath]);
+  } catch {
+    return [];
+  }
+  const lines: BlameLine[] = [];
+  let current: Partial<BlameLine> = {};
+  for (const line of out.split('\n')) {
+    if (line.startsWith('\t')) {
+      lines.push(current as BlameLine);
+      current = {};
+    } else if (/^[0-9a-f]{40} /.test(line)) {
+      current.sha = line.slice(0, 40);
+    } else if (line.startsWith('author ')) {
+      current.author = line.slice(7);
+    } else if (line.startsWith('author-mail ')) {
+      current.email = line.slice(12).replace(/[<>]/g, '').toLowerCase();
+    } else if (line.startsWith('author-time ')) {
+      current.time = Number(line.slice(12));
+    }
+  }
+  return lines;
+}
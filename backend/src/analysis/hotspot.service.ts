@@ -0,0 +1,169 @@
+import { Injectable } from '@nestjs/common';
+import simpleGit from 'simple-git';
+import { PrismaService } from '../prisma/prisma.service';
+import type { FunctionMetrics } from './enhanced-analysis.service';
+import type { RepoConfig } from './repo-config.service';
+import { BlameLine, blameFile } from './git-blame';
+
+export interface Churn {
+  commits: number;
+  authors: number;
+  linesChanged: number;
+}
+
+// Functions of the hottest files also carry their churn (from git blame) and score
+export interface FunctionHotspot extends FunctionMetrics, Partial<Churn> {
+  score?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Hotspots: code that is both complex and changed often. Churn comes from the
+ * checked-out repository's history within a window (git log per file, git blame per
+ * function of the hottest files) and is combined with the complexity the run measured.
+ */
+@Injectable()
+export class HotspotService {
+  constructor(private readonly prisma: PrismaService) { }
+
+  /**
+   * Compute and store the run's hotspots. `functionsByFile` has the metrics of files
+   * analyzed in this run; other files reuse those of `previousRunId` (unchanged in
+   * incremental runs). Returns the number of files stored.
+   */
+  async computeAndStore(
+    projectId: number,
+    runId: number,
+    dir: string,
+    files: string[],
+    functionsByFile: Map<string, FunctionMetrics[]>,
+    options: RepoConfig['hotspots'],
+    previousRunId?: number | null,
+  ): Promise<number> {
+    const since = new Date(Date.now() - options.windowDays * DAY_MS);
+    const churn = await this.fileChurn(dir, since);
+
+    const previous = new Map<string, FunctionMetrics[]>();
+    if (previousRunId) {
+      const rows = await (this.prisma as any).hotspot.findMany({
+        where: { runId: previousRunId, filePath: { in: files.filter((f) => !functionsByFile.has(f)) } },
+        select: { filePath: true, functions: true },
+      });
+      for (const row of rows) {
+        previous.set(row.filePath, ((row.functions as FunctionHotspot[]) || []).map(
+          ({ name, lineStart, lineEnd, cyclomaticComplexity, cognitiveComplexity }) =>
+            ({ name, lineStart, lineEnd, cyclomaticComplexity, cognitiveComplexity }),
+        ));
+      }
+    }
+
+    const rows = files
+      .map((filePath) => {
+        const functions: FunctionHotspot[] = functionsByFile.get(filePath) ?? previous.get(filePath) ?? [];
+        const fileChurn = churn.get(filePath) ?? { commits: 0, authors: 0, linesChanged: 0 };
+        const complexity = functions.reduce((sum, fn) => sum + fn.cyclomaticComplexity, 0);
+        return { filePath, ...fileChurn, complexity, score: 0, functions };
+      })
+      .filter((row) => row.complexity > 0);
+    this.score(rows, (row) => row.commits, (row) => row.complexity);
+
+    // Per-function churn only where it matters: blame is one git call per file
+    const hottest = rows.filter((row) => row.score > 0).sort((a, b) => b.score - a.score).slice(0, options.blameFiles);
+    const blamed: FunctionHotspot[] = [];
+    for (const row of hottest) {
+      const lines = await blameFile(dir, row.filePath);
+      if (!lines.length) continue;
+      row.functions = row.functions.map((fn) => ({ ...fn, ...this.rangeChurn(lines, fn.lineStart, fn.lineEnd, since), score: 0 }));
+      blamed.push(...row.functions);
+    }
+    this.score(blamed, (fn) => fn.commits ?? 0, (fn) => fn.cyclomaticComplexity);
+
+    for (let i = 0; i < rows.length; i += 500) {
+      await (this.prisma as any).hotspot.createMany({
+        data: rows.slice(i, i + 500).map((row) => ({ projectId, runId, ...row })),
+        skipDuplicates: true,
+      });
+    }
+    return rows.length;
+  }
+
+  /**
+   * Hotspots of the project's current run: files and functions by score
+   */
+  async getHotspots(projectId: number, limit = 25) {
+    const project = await (this.prisma as any).project.findUnique({
+      where: { id: projectId },
+      select: { currentRunId: true, currentRun: { select: { config: true } } },
+    });
+    if (!project?.currentRunId) return { runId: null, windowDays: null, files: [], functions: [] };
+    const rows = await (this.prisma as any).hotspot.findMany({
+      where: { runId: project.currentRunId },
+      orderBy: { score: 'desc' },
+    });
+    const functions = rows
+      .flatMap((row: any) => ((row.functions as FunctionHotspot[]) || [])
+        .filter((fn) => fn.score !== undefined)
+        .map((fn) => ({ filePath: row.filePath, ...fn })))
+      .sort((a: FunctionHotspot, b: FunctionHotspot) => (b.score ?? 0) - (a.score ?? 0));
+    return {
+      runId: project.currentRunId,
+      windowDays: project.currentRun?.config?.hotspots?.windowDays ?? null,
+      files: rows.slice(0, limit).map(({ functions: _functions, ...row }: any) => row),
+      functions: functions.slice(0, limit),
+    };
+  }
+
+  /**
+   * Commits, authors and added+deleted lines per file since `since`. Empty when the
+   * directory has no git history (uploaded archives).
+   */
+  private async fileChurn(dir: string, since: Date): Promise<Map<string, Churn>> {
+    const stats = new Map<string, { commits: number; authors: Set<string>; linesChanged: number }>();
+    let out: string;
+    try {
+      out = await simpleGit(dir).raw([
+        'log', `--since=${since.toISOString()}`, '--no-merges', '--no-renames', '--relative', '--numstat', '--format=%x1e%H%x1f%ae',
+      ]);
+    } catch {
+      return new Map();
+    }
+    for (const record of out.split('\x1e')) {
+      const [header, ...lines] = record.split('\n');
+      const author = header.split('\x1f')[1];
+      if (!author) continue;
+      for (const line of lines) {
+        const [added, deleted, path] = line.split('\t');
+        if (!path) continue;
+        const entry = stats.get(path) ?? { commits: 0, authors: new Set<string>(), linesChanged: 0 };
+        entry.commits++;
+        entry.authors.add(author.toLowerCase());
+        // Binary files show '-' instead of line counts
+        entry.linesChanged += (Number(added) || 0) + (Number(deleted) || 0);
+        stats.set(path, entry);
+      }
+    }
+    return new Map([...stats].map(([path, s]) => [path, { commits: s.commits, authors: s.authors.size, linesChanged: s.linesChanged }]));
+  }
+
+  // Churn of lines start..end (1-based, inclusive) that changed since `since`
+  private rangeChurn(lines: BlameLine[], start: number, end: number, since: Date): Churn {
+    const recent = lines.slice(start - 1, end).filter((line) => line.time * 1000 >= since.getTime());
+    return {
+      commits: new Set(recent.map((line) => line.sha)).size,
+      authors: new Set(recent.map((line) => line.email)).size,
+      linesChanged: recent.length,
+    };
+  }
+
+  // 0-100: churn and complexity, each relative to the highest in the set
+  private score<T extends { score?: number }>(items: T[], churn: (item: T) => number, complexity: (item: T) => number) {
+    const maxChurn = Math.max(0, ...items.map(churn));
+    const maxComplexity = Math.max(0, ...items.map(complexity));
+    for (const item of items) {
+      item.score = maxChurn && maxComplexity
+        ? Math.round((churn(item) / maxChurn) * (complexity(item) / maxComplexity) * 1000) / 10
+        : 0;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { createHash } from 'crypto';
+import { getLanguageProfile, languageOfFile } from '../languages/language-registry';
+
+export interface FingerprintInput {
+  issueType: string;
+  filePath: string;
+  className?: string | null;
+  functionName?: string | null;
+  codeBlock?: string | null;
+  lineStart?: number | null;
+}
+
+// Whitespace and comments do not change what a finding is about. Comment syntax is the
+// file's language's; files of unknown languages only ignore whitespace.
+function normalizeCode(code: string, filePath: string) {
+  const language = languageOfFile(filePath);
+  const comments = language ? getLanguageProfile(language)?.comments : undefined;
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  let normalized = code;
+  if (comments?.block) {
+    normalized = normalized.replace(new RegExp(`${escape(comments.block[0])}[\\s\\S]*?${escape(comments.block[1])}`, 'g'), '');
+  }
+  if (comments) {
+    normalized = normalized.replace(new RegExp(`(^|\\s)${escape(comments.line)}.*$`, 'gm'), '$1');
+  }
+  return normalized.replace(/\s+/g, '');
+}
+
+// Hash of a finding's code, insensitive to formatting
+export function codeHash(code: string | null | undefined, filePath: string) {
+  return createHash('sha1').update(normalizeCode(code || '', filePath)).digest('hex');
+}
+
+/**
+ * Stable identity of a finding across runs: rule, file, enclosing symbol and a hash
+ * of the normalized code, but not line numbers, so edits elsewhere in the file keep
+ * it. `occurrence` tells apart identical findings in the same symbol.
+ */
+export function issueFingerprint(issue: FingerprintInput, occurrence = 0): string {
+  const symbol = [issue.className, issue.functionName].filter(Boolean).join('.');
+  return createHash('sha1')
+    .update([issue.issueType, issue.filePath, symbol, codeHash(issue.codeBlock, issue.filePath), occurrence].join('\0'))
+    .digest('hex');
+}
+
+/**
+ * Fingerprints for all findings of one file, in line order, numbering repeats
+ */
+export function fingerprintAll<T extends FingerprintInput>(issues: T[]): Array<T & { fingerprint: string }> {
+  const seen = new Map<string, number>();
+  const ordered = issues
+    .map((issue, index) => ({ issue, index }))
+    .sort((a, b) => (a.issue.lineStart ?? 0) - (b.issue.lineStart ?? 0) || a.index - b.index);
+  const result = new Array<T & { fingerprint: string }>(issues.length);
+  for (const { issue, index } of ordered) {
+    const base = issueFingerprint(issue);
+    const occurrence = seen.get(base) ?? 0;
+    seen.set(base, occurrence + 1);
+    result[index] = { ...issue, fingerprint: occurrence ? issueFingerprint(issue, occurrence) : base };
+  }
+  return result;
+}
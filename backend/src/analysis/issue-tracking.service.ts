@@ -0,0 +1,148 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { fingerprintAll } from './issue-fingerprint';
+
+// Triage decisions on an issue; they carry over to the same finding in later runs
+export const TRIAGE_STATUSES = ['Pending', 'Confirmed', 'WontFix', 'FalsePositive'];
+
+/**
+ * Follows findings across runs by fingerprint: a run's new issue rows inherit the
+ * triage status, first-seen run and refactoring suggestions of the row they replace.
+ */
+@Injectable()
+export class IssueTrackingService {
+  constructor(private readonly prisma: PrismaService) { }
+
+  /**
+   * Match the issues a run created to those it resolved. Returns how many findings
+   * were carried over.
+   */
+  async carryOver(projectId: number, runId: number): Promise<number> {
+    const prior = await this.resolvedWithFingerprints(projectId, runId);
+    const priorByFingerprint = new Map<string, any>();
+    for (const issue of prior) priorByFingerprint.set(issue.fingerprint, issue);
+
+    const created = await (this.prisma as any).issue.findMany({
+      where: { runId, fingerprint: { not: null } },
+      select: { id: true, fingerprint: true },
+    });
+    const matches = created
+      .map((issue: any) => ({ id: issue.id, prior: priorByFingerprint.get(issue.fingerprint) }))
+      .filter((m: any) => m.prior);
+
+    // One update per distinct (status, first seen) pair rather than per issue
+    const groups = new Map<string, { status: string; firstSeenRunId: number; ids: number[] }>();
+    for (const { id, prior: p } of matches) {
+      const firstSeenRunId = p.firstSeenRunId ?? p.runId;
+      const key = `${p.status}\0${firstSeenRunId}`;
+      const group = groups.get(key) ?? { status: p.status, firstSeenRunId, ids: [] as number[] };
+      group.ids.push(id);
+      groups.set(key, group);
+    }
+    for (const group of groups.values()) {
+      await (this.prisma as any).issue.updateMany({
+        where: { id: { in: group.ids } },
+        data: { status: group.status, firstSeenRunId: group.firstSeenRunId },
+      });
+    }
+
+    // Suggestions are copied, so older runs keep theirs
+    const newIdByPriorId = new Map<number, number>(matches.map((m: any) => [m.prior.id, m.id]));
+    if (newIdByPriorId.size) {
+      const suggestions = await (this.prisma as any).refactoringSuggestion.findMany({
+        where: { issueId: { in: [...newIdByPriorId.keys()] } },
+      });
+      if (suggestions.length) {
+        await (this.prisma as any).refactoringSuggestion.createMany({
+          data: suggestions.map(({ id: _id, createdAt: _createdAt, updatedAt: _updatedAt, issueId, validationLayers, ...rest }: any) => ({
+            ...rest,
+            ...(validationLayers != null ? { validationLayers } : {}),
+            issueId: newIdByPriorId.get(issueId),
+          })),
+        });
+      }
+    }
+    return matches.length;
+  }
+
+  /**
+   * How the findings of a completed run relate to the run before: new, still there
+   * (existing) and fixed (resolved by the run and not found again). Baselined findings
+   * are neither new nor existing.
+   */
+  async findings(projectId: number, runId: number, snapshot: Array<{ runId: number; firstSeenRunId?: number | null; fingerprint?: string | null; baselined?: boolean }>) {
+    const present = new Set(snapshot.map((i) => i.fingerprint).filter(Boolean));
+    const reported = snapshot.filter((i) => !i.baselined);
+    const resolved = await (this.prisma as any).issue.findMany({
+      where: { projectId, resolvedRunId: runId },
+      select: { fingerprint: true },
+    });
+    const created = reported.filter((i) => (i.firstSeenRunId ?? i.runId) === runId).length;
+    return {
+      newIssues: created,
+      existingIssues: reported.length - created,
+      fixedIssues: resolved.filter((i: any) => !i.fingerprint || !present.has(i.fingerprint)).length,
+    };
+  }
+
+  async setStatus(projectId: number, issueId: number, status: string) {
+    if (!TRIAGE_STATUSES.includes(status)) {
+      throw new BadRequestException(`status must be one of ${TRIAGE_STATUSES.join(', ')}`);
+    }
+    await this.findIssue(projectId, issueId);
+    return (this.prisma as any).issue.update({ where: { id: issueId }, data: { status } });
+  }
+
+  async listComments(projectId: number, issueId: number) {
+    const issue = await this.findIssue(projectId, issueId);
+    if (!issue.fingerprint) return [];
+    return (this.prisma as any).issueComment.findMany({
+      where: { projectId, fingerprint: issue.fingerprint },
+      orderBy: { createdAt: 'asc' },
+      include: { user: { select: { id: true, displayName: true, githubUsername: true, email: true } } },
+    });
+  }
+
+  async addComment(projectId: number, issueId: number, userId: number | undefined, body: string) {
+    const text = typeof body === 'string' ? body.trim() : '';
+    if (!text) throw new BadRequestException('Comment body is required');
+    const issue = await this.findIssue(projectId, issueId);
+    if (!issue.fingerprint) throw new BadRequestException('Re-analyze the project to comment on this issue');
+    return (this.prisma as any).issueComment.create({
+      data: { projectId, fingerprint: issue.fingerprint, userId: userId ?? null, body: text },
+      include: { user: { select: { id: true, displayName: true, githubUsername: true, email: true } } },
+    });
+  }
+
+  private async findIssue(projectId: number, issueId: number) {
+    const issue = await (this.prisma as any).issue.findFirst({ where: { id: issueId, projectId } });
+    if (!issue) throw new NotFoundException('Issue not found');
+    return issue;
+  }
+
+  /**
+   * Fingerprint issues matching `where` that were stored before fingerprints existed
+   */
+  async ensureFingerprints(where: Record<string, any>) {
+    const legacy = await (this.prisma as any).issue.findMany({
+      where: { ...where, fingerprint: null },
+      select: { id: true, issueType: true, filePath: true, className: true, functionName: true, codeBlock: true, lineStart: true },
+    });
+    const byFile = new Map<string, any[]>();
+    for (const issue of legacy) byFile.set(issue.filePath, [...(byFile.get(issue.filePath) ?? []), issue]);
+    for (const issues of byFile.values()) {
+      for (const issue of fingerprintAll(issues)) {
+        await (this.prisma as any).issue.update({ where: { id: issue.id }, data: { fingerprint: issue.fingerprint } });
+      }
+    }
+  }
+
+  // Issues the run resolved, all with fingerprints
+  private async resolvedWithFingerprints(projectId: number, runId: number) {
+    await this.ensureFingerprints({ projectId, resolvedRunId: runId });
+    return (this.prisma as any).issue.findMany({
+      where: { projectId, resolvedRunId: runId },
+      select: { id: true, runId: true, status: true, firstSeenRunId: true, fingerprint: true },
+    });
+  }
+}
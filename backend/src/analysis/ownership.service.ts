@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import ignore, { Ignore } from 'ignore';
+import { BlameLine, blameFile } from './git-blame';
+
+// Where GitHub looks for CODEOWNERS, in order; the first one found is used
+const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export interface CodeOwnersRule {
+  pattern: string;
+  owners: string[]; // empty: explicitly without owner
+  matcher: Ignore;
+}
+
+export interface IssueOwnership {
+  author: string | null;
+  authorEmail: string | null;
+  owners: string[];
+}
+
+interface LocatedIssue {
+  filePath: string;
+  lineStart?: number | null;
+  lineEnd?: number | null;
+}
+
+/**
+ * Who should fix an issue: the author of most of its lines (git blame) and the
+ * owners CODEOWNERS assigns to its file.
+ */
+@Injectable()
+export class OwnershipService {
+  /**
+   * CODEOWNERS rules of a checked-out tree; empty when there is no CODEOWNERS file
+   */
+  async loadCodeOwners(dir: string): Promise<CodeOwnersRule[]> {
+    for (const path of CODEOWNERS_PATHS) {
+      const text = await readFile(join(dir, path), 'utf8').catch(() => null);
+      if (text === null) continue;
+      const rules: CodeOwnersRule[] = [];
+      for (const raw of text.split(/\r?\n/)) {
+        const line = raw.replace(/(^|\s)#.*$/, '').trim();
+        if (!line) continue;
+        const [pattern, ...owners] = line.split(/\s+/);
+        rules.push({ pattern, owners, matcher: ignore().add(pattern) });
+      }
+      return rules;
+    }
+    return [];
+  }
+
+  /**
+   * Owners of a repo-relative path: the last matching rule wins
+   */
+  ownersOf(rules: CodeOwnersRule[], relPath: string): string[] {
+    for (let i = rules.length - 1; i >= 0; i--) {
+      if (rules[i].matcher.ignores(relPath)) return rules[i].owners;
+    }
+    return [];
+  }
+
+  /**
+   * Attach ownership to issues of one file. The file is blamed once; issues without
+   * a line range are attributed to the file's dominant author.
+   */
+  async attribute<T extends LocatedIssue>(dir: string, rules: CodeOwnersRule[], filePath: string, issues: T[], blame?: BlameLine[]): Promise<Array<T & IssueOwnership>> {
+    if (!issues.length) return [];
+    const lines = blame ?? await blameFile(dir, filePath);
+    const owners = this.ownersOf(rules, filePath);
+    return issues.map((issue) => {
+      const author = this.dominantAuthor(lines, issue.lineStart ?? 1, issue.lineEnd ?? issue.lineStart ?? lines.length);
+      return { ...issue, author: author?.author ?? null, authorEmail: author?.email ?? null, owners };
+    });
+  }
+
+  // The author of most lines in start..end (1-based, inclusive); ties go to the most recent change
+  private dominantAuthor(lines: BlameLine[], start: number, end: number): BlameLine | null {
+    const byEmail = new Map<string, { count: number; latest: BlameLine }>();
+    for (const line of lines.slice(Math.max(0, start - 1), Math.max(start, end))) {
+      const entry = byEmail.get(line.email);
+      if (!entry) byEmail.set(line.email, { count: 1, latest: line });
+      else {
+        entry.count++;
+        if (line.time > entry.latest.time) entry.latest = line;
+      }
+    }
+    let best: { count: number; latest: BlameLine } | null = null;
+    for (const entry of byEmail.values()) {
+      if (!best || entry.count > best.count || (entry.count === best.count && entry.latest.time > best.latest.time)) best = entry;
+    }
+    return best?.latest ?? null;
+  }
+}
@@ -0,0 +1,94 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { PROJECT_SETTING_KEYS, RepoConfig, RepoConfigService } from './repo-config.service';
+import type { CustomRuleSpec } from './custom-rule-runner.service';
+
+interface SettingsProject {
+  id: number;
+  userId?: number | null;
+  settings?: any;
+}
+
+/**
+ * Per-project analysis settings and how they layer: built-in defaults (with
+ * ANALYSIS_COMPLEXITY_THRESHOLD), the owner's user settings, then the project's own.
+ * Custom rules of the owner and the project are added here as well.
+ * The repository's .codestruct.yml is applied on top of this per run.
+ */
+@Injectable()
+export class ProjectSettingsService {
+  readonly defaultComplexityThreshold: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly repoConfig: RepoConfigService,
+  ) {
+    const th = Number(process.env.ANALYSIS_COMPLEXITY_THRESHOLD);
+    // aggressive default threshold for clearer findings
+    this.defaultComplexityThreshold = !Number.isNaN(th) && th > 0 ? th : 3;
+  }
+
+  /**
+   * Effective settings for a project before its repository config is read
+   */
+  async resolve(project: SettingsProject): Promise<RepoConfig> {
+    const config = this.repoConfig.defaults(this.defaultComplexityThreshold);
+    if (project.userId) {
+      const user = await (this.prisma as any).userSettings.findUnique({ where: { userId: project.userId } }).catch(() => null);
+      if (user?.complexityThreshold) {
+        this.repoConfig.merge(config, { thresholds: { complexity: user.complexityThreshold } }, 'user', PROJECT_SETTING_KEYS);
+      }
+    }
+    if (project.settings && Object.keys(project.settings).length) {
+      this.repoConfig.merge(config, project.settings, 'project', PROJECT_SETTING_KEYS);
+    }
+    config.customRules = await this.customRules(project);
+    return config;
+  }
+
+  // Enabled custom rules of the owner, then the project's, which replace same-id ones.
+  // Errors propagate: a run without the user's rules would report their findings as fixed.
+  private async customRules(project: SettingsProject): Promise<CustomRuleSpec[]> {
+    const owners: any[] = [{ projectId: project.id }];
+    if (project.userId) owners.unshift({ userId: project.userId });
+    const rows = await (this.prisma as any).customRule.findMany({
+      where: { enabled: true, OR: owners },
+      orderBy: { id: 'asc' },
+    });
+    const byId = new Map<string, CustomRuleSpec>();
+    const ordered = [...rows.filter((r: any) => r.projectId == null), ...rows.filter((r: any) => r.projectId != null)];
+    for (const row of ordered) {
+      const { ruleId, kind, pattern, language, severity, message, recommendation } = row;
+      byId.set(ruleId, { ruleId, kind, pattern, language, severity, message, recommendation });
+    }
+    return [...byId.values()];
+  }
+
+  async getSettings(projectId: number) {
+    const project = await this.findProject(projectId);
+    return { settings: project.settings ?? {}, effective: await this.resolve(project) };
+  }
+
+  /**
+   * Replace the project's settings. They are validated like a .codestruct.yml, but
+   * anything that would only produce a warning there is rejected here.
+   */
+  async updateSettings(projectId: number, settings: any) {
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+      throw new BadRequestException('settings must be an object');
+    }
+    const project = await this.findProject(projectId);
+    const check = this.repoConfig.defaults(this.defaultComplexityThreshold);
+    this.repoConfig.merge(check, settings, 'project', PROJECT_SETTING_KEYS);
+    if (check.warnings.length) throw new BadRequestException(check.warnings.join('; '));
+
+    const updated = await (this.prisma as any).project.update({ where: { id: project.id }, data: { settings } });
+    return { settings: updated.settings ?? {}, effective: await this.resolve(updated) };
+  }
+
+  private async findProject(projectId: number) {
+    const project = await (this.prisma as any).project.findUnique({ where: { id: projectId } });
+    if (!project) throw new NotFoundException('Project not found');
+    return project;
+  }
+}
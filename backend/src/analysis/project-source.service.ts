@@ -0,0 +1,270 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { execFile } from 'child_process';
+import { randomUUID } from 'crypto';
+import { mkdir, mkdtemp, readdir, realpath, rename, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { delimiter, isAbsolute, join, resolve, sep } from 'path';
+import { promisify } from 'util';
+import simpleGit from 'simple-git';
+import { PrismaService } from '../prisma/prisma.service';
+
+const execFileAsync = promisify(execFile);
+
+// git: cloned from gitUrl; upload: extracted archive kept on disk; local: server path
+export type ProjectSourceType = 'git' | 'upload' | 'local';
+
+/**
+ * The project's code can't be reached (unknown ref, missing upload or path), so
+ * the job runner does not retry.
+ */
+export class AnalysisSourceError extends Error {
+  readonly retryable = false;
+}
+
+export interface ProjectSourceRef {
+  id: number;
+  gitUrl: string;
+  userId?: number | null;
+  sourceType?: string | null;
+  sourcePath?: string | null;
+}
+
+export interface CheckedOutSource {
+  dir: string;
+  sourceType: ProjectSourceType;
+  commitSha: string | null;
+  branch: string | null; // null for tags, detached commits and non-git sources
+  release: () => Promise<void>; // deletes temporary clones; uploads and local trees stay
+}
+
+/**
+ * Where a project's code comes from: git clones, uploaded archives (extracted under
+ * ANALYSIS_UPLOAD_DIR) and server-local paths under one of ANALYSIS_LOCAL_ROOTS.
+ */
+@Injectable()
+export class ProjectSourceService {
+  private readonly uploadRoot = resolve(process.env.ANALYSIS_UPLOAD_DIR || join(process.cwd(), 'uploads'));
+  private readonly maxExtractedBytes = (Number(process.env.ANALYSIS_UPLOAD_MAX_EXTRACTED_MB) || 1024) * 1024 * 1024;
+  private readonly localRoots = (process.env.ANALYSIS_LOCAL_ROOTS || '')
+    .split(delimiter)
+    .map((root) => root.trim())
+    .filter(Boolean);
+
+  constructor(private readonly prisma: PrismaService) { }
+
+  isGit(project: { sourceType?: string | null }) {
+    return !project.sourceType || project.sourceType === 'git';
+  }
+
+  /**
+   * Make the project's code available on disk. Git projects are cloned into a
+   * temporary directory and checked out at `ref`; call release() when done.
+   */
+  async checkout(project: ProjectSourceRef, ref?: string | null): Promise<CheckedOutSource> {
+    if (!this.isGit(project)) {
+      const sourceType = project.sourceType as ProjectSourceType;
+      const dir = sourceType === 'upload' ? this.uploadDir(project.id) : project.sourcePath || '';
+      // The allow-list may have changed since the project was created
+      if (sourceType === 'local' && !(await this.isAllowedLocalPath(dir))) {
+        throw new AnalysisSourceError(`Local path ${dir} is no longer allowed for analysis`);
+      }
+      const info = await stat(dir).catch(() => null);
+      if (!info?.isDirectory()) {
+        throw new AnalysisSourceError(sourceType === 'upload'
+          ? 'The uploaded sources for this project are missing; upload the archive again'
+          : `Local path ${dir} does not exist`);
+      }
+      return { dir, sourceType, commitSha: null, branch: null, release: async () => { } };
+    }
+
+    const dir = await mkdtemp(join(tmpdir(), 'codestruct-'));
+    const release = () => rm(dir, { recursive: true, force: true }).catch(() => { });
+    try {
+      await simpleGit().clone(await this.authenticatedCloneUrl(project.gitUrl, project.userId ?? undefined), dir);
+      const checkedOut = ref ? await this.checkoutRef(dir, ref) : null;
+      const git = simpleGit(dir);
+      return {
+        dir,
+        sourceType: 'git',
+        commitSha: (await git.revparse(['HEAD'])).trim(),
+        branch: checkedOut ? checkedOut.branch : (await git.revparse(['--abbrev-ref', 'HEAD'])).trim(),
+        release,
+      };
+    } catch (err) {
+      await release();
+      throw err;
+    }
+  }
+
+  /**
+   * The commit `ref` (or the default branch) points to on the remote, read without
+   * cloning. Null when it can't be told: non-git sources, abbreviated SHAs or an
+   * unreachable remote.
+   */
+  async remoteHead(project: ProjectSourceRef, ref?: string | null): Promise<string | null> {
+    if (!this.isGit(project)) return null;
+    if (ref && /^[0-9a-f]{40}$/i.test(ref)) return ref.toLowerCase();
+    const patterns = ref ? [`refs/heads/${ref}`, `refs/tags/${ref}`, `refs/tags/${ref}^{}`] : ['HEAD'];
+    try {
+      const url = await this.authenticatedCloneUrl(project.gitUrl, project.userId ?? undefined);
+      const out = await simpleGit().listRemote([url, ...patterns]);
+      const refs = new Map<string, string>();
+      for (const line of out.split('\n')) {
+        const [sha, name] = line.trim().split(/\s+/);
+        if (sha && name) refs.set(name, sha);
+      }
+      // Same order as checkoutRef: branches first; annotated tags resolve to their commit
+      for (const name of patterns.length > 1 ? [patterns[0], patterns[2], patterns[1]] : patterns) {
+        if (refs.has(name)) return refs.get(name)!;
+      }
+    } catch { }
+    return null;
+  }
+
+  /**
+   * Extract an uploaded .zip or .tar.gz into a staging directory. A single top-level
+   * folder (as in GitHub "Download ZIP" archives) is unwrapped by storeUpload.
+   */
+  async extractArchive(archivePath: string, originalName: string): Promise<string> {
+    const format = /\.zip$/i.test(originalName) ? 'zip' : /\.(tar\.gz|tgz)$/i.test(originalName) ? 'tgz' : null;
+    if (!format) throw new BadRequestException('Upload a .zip or .tar.gz archive');
+
+    const extractedBytes = await this.archiveSize(archivePath, format);
+    if (extractedBytes > this.maxExtractedBytes) {
+      throw new BadRequestException(`Archive expands to more than ${Math.round(this.maxExtractedBytes / 1024 / 1024)} MB`);
+    }
+
+    await mkdir(this.uploadRoot, { recursive: true });
+    const staging = join(this.uploadRoot, `.staging-${randomUUID()}`);
+    await mkdir(staging);
+    try {
+      // Both tools drop absolute paths and ".." members, so entries stay inside staging
+      if (format === 'zip') {
+        await execFileAsync('unzip', ['-q', '-o', archivePath, '-d', staging]);
+      } else {
+        await execFileAsync('tar', ['-xzf', archivePath, '-C', staging, '--no-same-owner', '--no-same-permissions']);
+      }
+    } catch (err: any) {
+      await rm(staging, { recursive: true, force: true }).catch(() => { });
+      throw new BadRequestException(`Could not extract archive: ${err?.stderr?.toString().trim() || 'extraction failed'}`);
+    }
+    return staging;
+  }
+
+  /**
+   * Replace the project's stored tree with a staged extraction
+   */
+  async storeUpload(projectId: number, staging: string) {
+    const entries = await readdir(staging, { withFileTypes: true });
+    const root = entries.length === 1 && entries[0].isDirectory() ? join(staging, entries[0].name) : staging;
+
+    const target = this.uploadDir(projectId);
+    const previous = `${target}.old-${randomUUID()}`;
+    const hadPrevious = await stat(target).then(() => true, () => false);
+    if (hadPrevious) await rename(target, previous);
+    await rename(root, target);
+    await rm(previous, { recursive: true, force: true }).catch(() => { });
+    if (root !== staging) await rm(staging, { recursive: true, force: true }).catch(() => { });
+  }
+
+  async discardStaging(staging: string) {
+    await rm(staging, { recursive: true, force: true }).catch(() => { });
+  }
+
+  /**
+   * Validate a server-local path: it must be an existing directory under one of the
+   * admin-configured ANALYSIS_LOCAL_ROOTS. Returns the resolved real path.
+   */
+  async resolveLocalPath(input: string): Promise<string> {
+    if (!this.localRoots.length) {
+      throw new BadRequestException('Local path analysis is disabled on this server');
+    }
+    if (!isAbsolute(input)) throw new BadRequestException('path must be absolute');
+    const real = await realpath(input).catch(() => null);
+    const info = real ? await stat(real).catch(() => null) : null;
+    if (!real || !info?.isDirectory()) throw new BadRequestException(`${input} is not a directory`);
+    if (!(await this.isAllowedLocalPath(real))) {
+      throw new BadRequestException(`${input} is not under an allowed root`);
+    }
+    return real;
+  }
+
+  private uploadDir(projectId: number) {
+    return join(this.uploadRoot, String(projectId));
+  }
+
+  private async isAllowedLocalPath(path: string) {
+    for (const root of this.localRoots) {
+      const realRoot = await realpath(root).catch(() => null);
+      if (realRoot && (path === realRoot || path.startsWith(realRoot.endsWith(sep) ? realRoot : realRoot + sep))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Uncompressed size from the archive listing, checked before anything is written
+  private async archiveSize(archivePath: string, format: 'zip' | 'tgz'): Promise<number> {
+    try {
+      if (format === 'zip') {
+        const { stdout } = await execFileAsync('unzip', ['-Zt', archivePath]);
+        return Number(/(\d+) bytes uncompressed/.exec(stdout)?.[1] || 0);
+      }
+      const { stdout } = await execFileAsync('tar', ['-tvzf', archivePath], { maxBuffer: 64 * 1024 * 1024 });
+      // -rw-r--r-- user/group   1234 2024-01-01 00:00 path
+      return stdout.split('\n').reduce((sum, line) => sum + (Number(line.trim().split(/\s+/)[2]) || 0), 0);
+    } catch (err: any) {
+      throw new BadRequestException(`Not a valid archive: ${err?.stderr?.toString().trim() || 'unrecognized format'}`);
+    }
+  }
+
+  // If we have a logged-in user and GitHub URL, attempt token-authenticated clone for private repos
+  private async authenticatedCloneUrl(gitUrl: string, userId?: number): Promise<string> {
+    if (!userId || !/github\.com/.test(gitUrl)) return gitUrl;
+    try {
+      const user = await (this.prisma as any).user.findUnique({ where: { id: userId } });
+      const token: string | undefined = user?.githubAccessToken;
+      if (token) {
+        // https://x-access-token:<token>@github.com/owner/repo.git
+        const encoded = encodeURIComponent(token);
+        return gitUrl.replace(/^https:\/\//, `https://x-access-token:${encoded}@`);
+      }
+    } catch { }
+    return gitUrl;
+  }
+
+  /**
+   * Check out a branch, tag or commit in a fresh clone. Branch names resolve against
+   * origin; commits that no branch or tag reaches are fetched directly. Returns the
+   * branch name when the ref is a branch, null for tags and commits.
+   */
+  private async checkoutRef(dir: string, ref: string): Promise<{ branch: string | null }> {
+    const git = simpleGit(dir);
+    const resolveRev = async (rev: string) => {
+      try {
+        return (await git.raw(['rev-parse', '--verify', '--quiet', `${rev}^{commit}`])).trim() || null;
+      } catch {
+        return null;
+      }
+    };
+    const candidates: Array<{ rev: string; branch: string | null }> = [
+      { rev: `refs/remotes/origin/${ref}`, branch: ref },
+      { rev: `refs/tags/${ref}`, branch: null },
+      { rev: ref, branch: null },
+    ];
+    for (const candidate of candidates) {
+      const sha = await resolveRev(candidate.rev);
+      if (sha) {
+        await git.raw(['checkout', '--detach', sha]);
+        return { branch: candidate.branch };
+      }
+    }
+    try {
+      await git.raw(['fetch', '--quiet', 'origin', ref]);
+      await git.raw(['checkout', '--detach', 'FETCH_HEAD']);
+    } catch {
+      throw new AnalysisSourceError(`Ref "${ref}" was not found in the repository`);
+    }
+    return { branch: null };
+  }
+}
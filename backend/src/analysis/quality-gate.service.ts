@@ -0,0 +1,246 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AnalysisRunService } from './analysis-run.service';
+import { SEVERITIES, Severity } from './repo-config.service';
+import { codeHash } from './issue-fingerprint';
+
+export const GATE_METRICS = ['newIssues', 'issues', 'duplication', 'maxComplexity', 'qualityScore'] as const;
+export type GateMetric = typeof GATE_METRICS[number];
+
+const GATE_OPERATORS = { lt: '<', lte: '<=', gt: '>', gte: '>=' } as const;
+export type GateOperator = keyof typeof GATE_OPERATORS;
+
+export const SECURITY_ISSUE_TYPES = ['HardcodedCredentials', 'HardcodedUrls', 'HardcodedSecrets', 'SensitiveFile', 'UnsafeLogging', 'WeakEncryption'];
+
+const METRIC_LABELS: Record<GateMetric, string> = {
+  newIssues: 'new issues',
+  issues: 'issues',
+  duplication: 'duplication',
+  maxComplexity: 'function complexity',
+  qualityScore: 'quality score',
+};
+
+// Same weights as the quality score shown on the dashboard
+const SEVERITY_WEIGHTS: Record<string, number> = { Critical: 10, High: 5, Medium: 2, Low: 1 };
+
+/**
+ * One condition of a quality gate, e.g. { metric: duplication, op: lt, value: 5 }.
+ * The issue metrics count only findings matching every filter given.
+ */
+export interface GateCondition {
+  metric: GateMetric;
+  op: GateOperator;
+  value: number;
+  severities?: Severity[];
+  types?: string[];
+  category?: 'security';
+}
+
+export interface GateConditionResult extends GateCondition {
+  label: string;
+  actual: number;
+  passed: boolean;
+}
+
+export interface QualityGateResult {
+  status: 'Passed' | 'Failed' | 'None'; // None: the project has no gate
+  conditions: GateConditionResult[];
+  failing: GateConditionResult[];
+}
+
+// What a gate is evaluated against: reported findings and measures of the analyzed code
+export interface GateInput {
+  issues: Array<{ issueType: string; severity?: string | null; isNew: boolean }>;
+  loc: number;
+  duplicatedLines: number;
+  maxComplexity: number;
+}
+
+/**
+ * Parse one qualityGate entry of a settings layer. It names a metric, exactly one
+ * bound (lt, lte, gt or gte) and, for issue metrics, optional severity, type and
+ * category filters. Returns null after a warning when the entry is invalid.
+ */
+export function parseGateCondition(raw: any, path: string, warn: (message: string) => void): GateCondition | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    warn(`${path} must be a mapping`);
+    return null;
+  }
+  const metric = GATE_METRICS.find((m) => m.toLowerCase() === String(raw.metric).toLowerCase());
+  if (!metric) {
+    warn(`${path}.metric must be one of ${GATE_METRICS.join(', ')}`);
+    return null;
+  }
+  const ops = (Object.keys(GATE_OPERATORS) as GateOperator[]).filter((op) => raw[op] != null);
+  if (ops.length !== 1 || typeof raw[ops[0]] !== 'number' || raw[ops[0]] < 0) {
+    warn(`${path} must set exactly one of ${Object.keys(GATE_OPERATORS).join(', ')} to a number of 0 or more`);
+    return null;
+  }
+  const condition: GateCondition = { metric, op: ops[0], value: raw[ops[0]] };
+  for (const key of Object.keys(raw)) {
+    if (!['metric', 'severity', 'type', 'category', ...Object.keys(GATE_OPERATORS)].includes(key)) {
+      warn(`Unknown key "${key}" in ${path} ignored`);
+    }
+  }
+
+  const list = (value: any) => (Array.isArray(value) ? value : [value]).map(String);
+  if ((raw.severity != null || raw.type != null || raw.category != null) && metric !== 'newIssues' && metric !== 'issues') {
+    warn(`${path}: severity, type and category only apply to newIssues and issues`);
+    return null;
+  }
+  if (raw.severity != null) {
+    const severities = list(raw.severity).map((v) => SEVERITIES.find((s) => s.toLowerCase() === v.toLowerCase()));
+    if (severities.some((s) => !s)) {
+      warn(`${path}.severity must be one or more of ${SEVERITIES.join(', ')}`);
+      return null;
+    }
+    condition.severities = severities as Severity[];
+  }
+  if (raw.type != null) condition.types = list(raw.type);
+  if (raw.category != null) {
+    if (String(raw.category).toLowerCase() !== 'security') {
+      warn(`${path}.category must be security`);
+      return null;
+    }
+    condition.category = 'security';
+  }
+  return condition;
+}
+
+/**
+ * 0-100, lower the more (and the more severe) the findings
+ */
+export function qualityScore(severities: Array<string | null | undefined>) {
+  if (!severities.length) return 100;
+  const score = severities.reduce((sum, severity) => sum + (SEVERITY_WEIGHTS[severity ?? ''] ?? 0), 0);
+  return Math.max(0, Math.round(100 - (score / (severities.length * SEVERITY_WEIGHTS.Critical)) * 100));
+}
+
+/**
+ * Evaluates a project's quality gate (the qualityGate setting) against a completed
+ * run or a CI analysis. The gate fails when any of its conditions does not hold.
+ */
+@Injectable()
+export class QualityGateService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly analysisRuns: AnalysisRunService,
+  ) { }
+
+  evaluate(conditions: GateCondition[], input: GateInput): QualityGateResult {
+    if (!conditions.length) return { status: 'None', conditions: [], failing: [] };
+    const results = conditions.map((condition) => {
+      const actual = this.measure(condition, input);
+      return { ...condition, label: this.label(condition), actual, passed: this.holds(actual, condition) };
+    });
+    const failing = results.filter((r) => !r.passed);
+    return { status: failing.length ? 'Failed' : 'Passed', conditions: results, failing };
+  }
+
+  /**
+   * Evaluate the gate against a run's snapshot. Baselined findings don't count as
+   * issues; maximum complexity comes from the run's hotspot metrics and complexity findings.
+   */
+  async evaluateRun(projectId: number, runId: number, conditions: GateCondition[]) {
+    if (!conditions.length) return this.evaluate(conditions, { issues: [], loc: 0, duplicatedLines: 0, maxComplexity: 0 });
+    const issues = await (this.prisma as any).issue.findMany({
+      where: this.analysisRuns.issueSnapshotWhere(projectId, runId),
+      select: { runId: true, firstSeenRunId: true, issueType: true, severity: true, baselined: true, codeBlock: true, metadata: true },
+    });
+    const files = await (this.prisma as any).projectFile.findMany({
+      where: { projectId, excludedReason: null, language: { not: null } },
+      select: { loc: true },
+    });
+    const hotspots = await (this.prisma as any).hotspot.findMany({ where: { runId }, select: { functions: true } });
+
+    let maxComplexity = 0;
+    for (const hotspot of hotspots) {
+      for (const fn of (hotspot.functions as any[]) || []) maxComplexity = Math.max(maxComplexity, fn.cyclomaticComplexity || 0);
+    }
+    for (const issue of issues) {
+      if (issue.issueType !== 'HighComplexity') continue;
+      maxComplexity = Math.max(maxComplexity, Number(issue.metadata?.cyclomaticComplexity ?? issue.metadata?.complexity) || 0);
+    }
+    return this.evaluate(conditions, {
+      issues: issues
+        .filter((i: any) => !i.baselined)
+        .map((i: any) => ({ issueType: i.issueType, severity: i.severity, isNew: (i.firstSeenRunId ?? i.runId) === runId })),
+      loc: files.reduce((sum: number, f: any) => sum + (f.loc || 0), 0),
+      duplicatedLines: this.duplicatedLines(issues),
+      maxComplexity,
+    });
+  }
+
+  /**
+   * Evaluate the gate against CI findings (repo-relative paths, baselined ones already
+   * left out). With a project, findings its current run already reports are not new;
+   * they are matched by rule, file and code like baselined findings.
+   */
+  async evaluateFindings(
+    project: { id: number; currentRunId?: number | null } | null,
+    conditions: GateCondition[],
+    findings: Array<{ issueType: string; filePath: string; severity?: string | null; codeBlock?: string | null; metadata?: any }>,
+    measures: { loc: number; maxComplexity: number },
+  ) {
+    const known = new Set<string>();
+    if (project?.currentRunId && conditions.some((c) => c.metric === 'newIssues')) {
+      const existing = await (this.prisma as any).issue.findMany({
+        where: { ...this.analysisRuns.issueSnapshotWhere(project.id, project.currentRunId), filePath: { in: [...new Set(findings.map((f) => f.filePath))] } },
+        select: { issueType: true, filePath: true, codeBlock: true },
+      });
+      for (const issue of existing) known.add(`${issue.issueType}\0${issue.filePath}\0${codeHash(issue.codeBlock, issue.filePath)}`);
+    }
+    return this.evaluate(conditions, {
+      issues: findings.map((f) => ({
+        issueType: f.issueType,
+        severity: f.severity,
+        isNew: !known.has(`${f.issueType}\0${f.filePath}\0${codeHash(f.codeBlock, f.filePath)}`),
+      })),
+      loc: measures.loc,
+      duplicatedLines: this.duplicatedLines(findings),
+      maxComplexity: measures.maxComplexity,
+    });
+  }
+
+  private measure(condition: GateCondition, input: GateInput) {
+    switch (condition.metric) {
+      case 'newIssues':
+      case 'issues':
+        return input.issues.filter((issue) =>
+          (condition.metric === 'issues' || issue.isNew)
+          && (!condition.severities || condition.severities.includes(issue.severity as Severity))
+          && (!condition.types || condition.types.includes(issue.issueType))
+          && (!condition.category || SECURITY_ISSUE_TYPES.includes(issue.issueType)),
+        ).length;
+      case 'duplication':
+        return input.loc ? Math.round((Math.min(input.duplicatedLines, input.loc) / input.loc) * 1000) / 10 : 0;
+      case 'maxComplexity':
+        return input.maxComplexity;
+      case 'qualityScore':
+        return qualityScore(input.issues.map((issue) => issue.severity));
+    }
+  }
+
+  private holds(actual: number, { op, value }: GateCondition) {
+    switch (op) {
+      case 'lt': return actual < value;
+      case 'lte': return actual <= value;
+      case 'gt': return actual > value;
+      case 'gte': return actual >= value;
+    }
+  }
+
+  // e.g. "new Critical security issues <= 0", "duplication < 5%"
+  private label(condition: GateCondition) {
+    const filters = [condition.severities?.join('/'), condition.category, condition.types?.join('/')].filter(Boolean);
+    const metric = METRIC_LABELS[condition.metric].replace(/issues$/, [...filters, 'issues'].join(' '));
+    return `${metric} ${GATE_OPERATORS[condition.op]} ${condition.value}${condition.metric === 'duplication' ? '%' : ''}`;
+  }
+
+  // Lines in duplicate blocks, every copy counted
+  private duplicatedLines(issues: Array<{ issueType: string; codeBlock?: string | null; metadata?: any }>) {
+    return issues
+      .filter((i) => i.issueType === 'DuplicateCode')
+      .reduce((sum, i) => sum + (Number(i.metadata?.totalLines) || (i.codeBlock || '').split('\n').length), 0);
+  }
+}
@@ -0,0 +1,314 @@
+import { Injectable } from '@nestjs/common';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { DEFAULT_SMELL_THRESHOLDS, SmellThresholds } from './enhanced-analysis.service';
+import { DEFAULT_DUPLICATION_THRESHOLDS } from './duplication-detection.service';
+import { AnalysisContext, DEFAULT_ANALYSIS_LIMITS } from './analysis-context';
+import { getLanguageProfile } from '../languages/language-registry';
+import { GateCondition, parseGateCondition } from './quality-gate.service';
+import type { CustomRuleSpec } from './custom-rule-runner.service';
+
+export const REPO_CONFIG_FILES = ['.codestruct.yml', '.codestruct.yaml', '.codestruct.json'];
+
+export const SEVERITIES = ['Low', 'Medium', 'High', 'Critical'] as const;
+export type Severity = typeof SEVERITIES[number];
+
+export interface SeverityBands {
+  low: number;
+  medium: number;
+  high: number;
+  critical: number;
+}
+
+// Languages analyzed under a path; the last entry matching a file decides
+export interface LanguageScope {
+  path: string; // glob, '**' for the whole tree
+  languages: string[];
+}
+
+export interface RuleConfig {
+  enabled: boolean;
+  severity?: Severity; // replaces the detector's severity for every issue of the rule
+}
+
+// Keys a project's settings may set; the rest only make sense inside the repository
+export const PROJECT_SETTING_KEYS = ['languages', 'rules', 'thresholds', 'limits', 'hotspots', 'qualityGate'];
+const REPO_CONFIG_KEYS = ['language', 'include', 'exclude', ...PROJECT_SETTING_KEYS];
+
+/**
+ * Effective configuration of one analysis run: defaults, then user and project
+ * settings, then the repository's .codestruct.yml. Stored on the run so results show
+ * what was applied.
+ */
+export interface RepoConfig {
+  source: string | null; // config file name, null when the repository has none
+  layers: string[]; // settings applied over the defaults, in order
+  language: string | null; // primary language shown for the project, overrides auto-detection
+  languages: LanguageScope[]; // empty means every supported language everywhere
+  include: string[]; // globs; empty means every file
+  exclude: string[];
+  rules: Record<string, RuleConfig>;
+  thresholds: {
+    complexity: number; // HighComplexity in the JSON/text fallbacks
+    cyclomaticComplexity: SeverityBands;
+    cognitiveComplexity: SeverityBands;
+    methodLength: SeverityBands;
+    classLines: SeverityBands;
+    classMethods: SeverityBands;
+    parameterCount: SeverityBands;
+    nestingDepth: SeverityBands;
+    switchCases: SeverityBands;
+    duplication: { minLines: number; minTokens: number; minComplexity: number; similarity: number };
+  };
+  limits: { maxFileKb: number; duplicationMaxFileKb: number };
+  // git history mined for hotspots; only the hottest files get per-function churn (git blame)
+  hotspots: { windowDays: number; blameFiles: number };
+  // Conditions every run and CI analysis must meet; empty means no gate
+  qualityGate: GateCondition[];
+  customRules: CustomRuleSpec[]; // enabled custom rules of the project and its owner
+  warnings: string[];
+}
+
+// Config file name -> the detector's threshold table
+const SMELL_BANDS: Record<string, (t: SmellThresholds) => { LOW: number; MEDIUM: number; HIGH: number; CRITICAL: number }> = {
+  cyclomaticComplexity: (t) => t.CYCLOMATIC_COMPLEXITY,
+  cognitiveComplexity: (t) => t.COGNITIVE_COMPLEXITY,
+  methodLength: (t) => t.METHOD_LENGTH,
+  classLines: (t) => t.CLASS_SIZE.LINES,
+  classMethods: (t) => t.CLASS_SIZE.METHODS,
+  parameterCount: (t) => t.PARAMETER_COUNT,
+  nestingDepth: (t) => t.NESTING_DEPTH,
+  switchCases: (t) => t.SWITCH_CASES,
+};
+
+/**
+ * Builds effective configs from settings layers and the optional repository config
+ * file, and turns them into the AnalysisContext the detectors use. DB-free.
+ */
+@Injectable()
+export class RepoConfigService {
+  /**
+   * Apply the first config file found in the repository root over `base`. Problems
+   * in the file never fail the run: the offending part keeps the base value and a
+   * warning is recorded in the effective config.
+   */
+  async load(dir: string, base: RepoConfig): Promise<RepoConfig> {
+    const config: RepoConfig = structuredClone(base);
+    for (const name of REPO_CONFIG_FILES) {
+      const text = await readFile(join(dir, name), 'utf8').catch(() => null);
+      if (text === null) continue;
+      config.source = name;
+      let raw: any;
+      try {
+        raw = name.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+      } catch (err: any) {
+        config.warnings.push(`${name} could not be parsed and was ignored: ${err?.message || err}`);
+        return config;
+      }
+      if (raw && typeof raw === 'object') this.merge(config, raw, name);
+      else if (raw != null) config.warnings.push(`${name} must contain a mapping and was ignored`);
+      return config;
+    }
+    return config;
+  }
+
+  defaults(complexity: number): RepoConfig {
+    const bands = Object.fromEntries(Object.entries(SMELL_BANDS).map(([key, pick]) => {
+      const band = pick(DEFAULT_SMELL_THRESHOLDS);
+      return [key, { low: band.LOW, medium: band.MEDIUM, high: band.HIGH, critical: band.CRITICAL }];
+    })) as Record<keyof typeof SMELL_BANDS, SeverityBands>;
+    return {
+      source: null,
+      layers: [],
+      language: null,
+      languages: [],
+      include: [],
+      exclude: [],
+      rules: {},
+      thresholds: {
+        complexity,
+        cyclomaticComplexity: bands.cyclomaticComplexity,
+        cognitiveComplexity: bands.cognitiveComplexity,
+        methodLength: bands.methodLength,
+        classLines: bands.classLines,
+        classMethods: bands.classMethods,
+        parameterCount: bands.parameterCount,
+        nestingDepth: bands.nestingDepth,
+        switchCases: bands.switchCases,
+        duplication: {
+          minLines: DEFAULT_DUPLICATION_THRESHOLDS.MIN_LINES,
+          minTokens: DEFAULT_DUPLICATION_THRESHOLDS.MIN_TOKENS,
+          minComplexity: DEFAULT_DUPLICATION_THRESHOLDS.MIN_COMPLEXITY,
+          similarity: DEFAULT_DUPLICATION_THRESHOLDS.SEMANTIC_SIMILARITY,
+        },
+      },
+      limits: {
+        maxFileKb: DEFAULT_ANALYSIS_LIMITS.maxFileBytes / 1024,
+        duplicationMaxFileKb: Math.round(DEFAULT_ANALYSIS_LIMITS.duplicationMaxFileBytes / 1024),
+      },
+      hotspots: { windowDays: 365, blameFiles: 30 },
+      qualityGate: [],
+      customRules: [],
+      warnings: [],
+    };
+  }
+
+  /**
+   * Whether two effective configs produce the same findings (source, layers and
+   * warnings don't matter). Incremental runs are only valid while this holds.
+   */
+  sameSettings(a: RepoConfig | null | undefined, b: RepoConfig) {
+    if (!a) return false;
+    const settings = ({ language, languages, include, exclude, rules, thresholds, limits, customRules }: RepoConfig) =>
+      JSON.stringify({ language, languages, include, exclude, rules, thresholds, limits, customRules: customRules ?? [] });
+    return settings(a) === settings(b);
+  }
+
+  toContext(config: RepoConfig): AnalysisContext {
+    const smells: SmellThresholds = JSON.parse(JSON.stringify(DEFAULT_SMELL_THRESHOLDS));
+    for (const [key, pick] of Object.entries(SMELL_BANDS)) {
+      const bands = (config.thresholds as any)[key] as SeverityBands;
+      Object.assign(pick(smells), { LOW: bands.low, MEDIUM: bands.medium, HIGH: bands.high, CRITICAL: bands.critical });
+    }
+    const { minLines, minTokens, minComplexity, similarity } = config.thresholds.duplication;
+    return {
+      complexityThreshold: config.thresholds.complexity,
+      smells,
+      duplication: { MIN_LINES: minLines, MIN_TOKENS: minTokens, MIN_COMPLEXITY: minComplexity, SEMANTIC_SIMILARITY: similarity },
+      rules: config.rules,
+      customRules: config.customRules,
+      limits: {
+        maxFileBytes: Math.round(config.limits.maxFileKb * 1024),
+        duplicationMaxFileBytes: Math.round(config.limits.duplicationMaxFileKb * 1024),
+      },
+    };
+  }
+
+  /**
+   * Apply one settings layer (user, project or config file) in place. Invalid parts
+   * are skipped with a warning prefixed by `layer`.
+   */
+  merge(config: RepoConfig, raw: any, layer: string, keys: string[] = REPO_CONFIG_KEYS) {
+    config.layers.push(layer);
+    const warn = (message: string) => config.warnings.push(`${layer}: ${message}`);
+    for (const key of Object.keys(raw)) {
+      if (!keys.includes(key)) warn(`Unknown key "${key}" ignored`);
+    }
+    raw = Object.fromEntries(Object.entries(raw).filter(([key]) => keys.includes(key)));
+
+    if (raw.language != null) {
+      if (typeof raw.language === 'string' && raw.language.trim()) config.language = raw.language.trim().toLowerCase();
+      else warn('language must be a string');
+    }
+
+    // languages: [typescript, python] or { "frontend/**": [typescript], "services/**": python }
+    if (raw.languages != null) {
+      const entries: Array<[string, any]> = Array.isArray(raw.languages) || typeof raw.languages === 'string'
+        ? [['**', raw.languages]]
+        : typeof raw.languages === 'object' ? Object.entries(raw.languages) : [];
+      if (!entries.length) warn('languages must be a list of languages or a mapping of globs to languages');
+      for (const [path, value] of entries) {
+        const list = typeof value === 'string' ? [value] : value;
+        if (Array.isArray(list) && list.every((l: any) => typeof l === 'string' && l.trim())) {
+          const languages = list.map((l: string) => l.trim().toLowerCase());
+          const unknown = languages.filter((l) => !getLanguageProfile(l));
+          if (unknown.length) warn(`Unknown language ${unknown.join(', ')} in languages.${path}`);
+          config.languages = [...config.languages.filter((scope) => scope.path !== path), { path, languages }];
+        } else {
+          warn(`languages.${path} must be a language or a list of languages`);
+        }
+      }
+    }
+
+    for (const key of ['include', 'exclude'] as const) {
+      if (raw[key] == null) continue;
+      const list = typeof raw[key] === 'string' ? [raw[key]] : raw[key];
+      if (Array.isArray(list) && list.every((p: any) => typeof p === 'string')) config[key] = list;
+      else warn(`${key} must be a glob or a list of globs`);
+    }
+
+    // rules: { MagicNumber: false, LongMethod: { severity: Low }, DeadCode: { enabled: false } }
+    if (raw.rules != null && typeof raw.rules === 'object') {
+      for (const [rule, value] of Object.entries<any>(raw.rules)) {
+        if (typeof value === 'boolean' || value === 'off' || value === 'on') {
+          config.rules[rule] = { enabled: value === true || value === 'on' };
+          continue;
+        }
+        if (!value || typeof value !== 'object') {
+          warn(`rules.${rule} must be true/false or a mapping`);
+          continue;
+        }
+        // Fields not given keep what an earlier layer set
+        const entry: RuleConfig = { ...config.rules[rule], enabled: value.enabled ?? config.rules[rule]?.enabled ?? true };
+        if (typeof entry.enabled !== 'boolean') {
+          warn(`rules.${rule}.enabled must be true or false`);
+          entry.enabled = true;
+        }
+        if (value.severity != null) {
+          const severity = SEVERITIES.find((s) => s.toLowerCase() === String(value.severity).toLowerCase());
+          if (severity) entry.severity = severity;
+          else warn(`rules.${rule}.severity must be one of ${SEVERITIES.join(', ')}`);
+        }
+        config.rules[rule] = entry;
+      }
+    } else if (raw.rules != null) {
+      warn('rules must be a mapping');
+    }
+
+    const positive = (value: any, path: string, max = Infinity) => {
+      if (typeof value === 'number' && value > 0 && value <= max) return true;
+      warn(`${path} must be a number between 0 and ${max === Infinity ? 'infinity' : max}`);
+      return false;
+    };
+
+    for (const section of ['limits', 'hotspots'] as const) {
+      if (raw[section] == null) continue;
+      if (typeof raw[section] !== 'object') warn(`${section} must be a mapping`);
+      for (const [key, value] of Object.entries<any>(raw[section] || {})) {
+        if (!(key in config[section])) warn(`Unknown ${section} setting "${key}" ignored`);
+        else if (positive(value, `${section}.${key}`)) (config[section] as any)[key] = value;
+      }
+    }
+
+    // qualityGate: [{ metric: newIssues, category: security, severity: Critical, lte: 0 }, ...]
+    // A layer's gate replaces the whole gate of the layers before it
+    if (raw.qualityGate != null) {
+      if (Array.isArray(raw.qualityGate)) {
+        config.qualityGate = raw.qualityGate
+          .map((entry: any, i: number) => parseGateCondition(entry, `qualityGate[${i}]`, warn))
+          .filter((condition: GateCondition | null): condition is GateCondition => !!condition);
+      } else {
+        warn('qualityGate must be a list of conditions');
+      }
+    }
+
+    const thresholds = raw.thresholds;
+    if (thresholds == null) return;
+    if (typeof thresholds !== 'object') {
+      warn('thresholds must be a mapping');
+      return;
+    }
+    for (const [key, value] of Object.entries<any>(thresholds)) {
+      if (key === 'complexity') {
+        if (positive(value, 'thresholds.complexity')) config.thresholds.complexity = value;
+      } else if (key === 'duplication') {
+        const target = config.thresholds.duplication as Record<string, number>;
+        for (const [field, n] of Object.entries<any>(value || {})) {
+          if (!(field in target)) warn(`Unknown threshold thresholds.duplication.${field} ignored`);
+          else if (positive(n, `thresholds.duplication.${field}`, field === 'similarity' ? 1 : Infinity)) target[field] = n;
+        }
+      } else if (key in SMELL_BANDS) {
+        // A single number sets the lowest band, i.e. where the rule starts reporting
+        const target = (config.thresholds as any)[key] as SeverityBands;
+        const bands = typeof value === 'number' ? { low: value } : value || {};
+        for (const [band, n] of Object.entries<any>(bands)) {
+          if (!(band in target)) warn(`Unknown threshold thresholds.${key}.${band} ignored`);
+          else if (positive(n, `thresholds.${key}.${band}`)) (target as any)[band] = n;
+        }
+      } else {
+        warn(`Unknown threshold "${key}" ignored`);
+      }
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
-import { PrismaService } from '../prisma/prisma.service';
 import { HardcodedValuesAnalyzer, HardcodedValue } from './hardcoded-values-analyzer.service';
+import { AnalysisContext, isRuleEnabled } from './analysis-context';
 
 export interface SecurityIssue {
     type: 'HardcodedCredentials' | 'HardcodedUrls' | 'HardcodedSecrets' | 'SensitiveFile' | 'UnsafeLogging' | 'WeakEncryption' | 'HardcodedValues';
@@ -74,41 +74,38 @@ export class SecurityAnalysisService {
     ];
 
     constructor(
-        private readonly prisma: PrismaService,
         private readonly hardcodedValuesAnalyzer: HardcodedValuesAnalyzer
     ) {}
 
     async analyzeSecurityIssues(
         code: string,
         filePath: string,
-        projectId: number
+        ctx?: AnalysisContext
     ): Promise<SecurityIssue[]> {
         const issues: SecurityIssue[] = [];
+        const enabled = (...types: SecurityIssue['type'][]) => types.some(type => isRuleEnabled(ctx, type));
 
         // Check for hardcoded credentials and secrets
-        issues.push(...this.detectHardcodedSecrets(code, filePath));
+        if (enabled('HardcodedCredentials', 'HardcodedUrls', 'HardcodedSecrets')) {
+            issues.push(...this.detectHardcodedSecrets(code, filePath));
+        }
         
         // Check for unsafe logging
-        issues.push(...this.detectUnsafeLogging(code, filePath));
+        if (enabled('UnsafeLogging')) issues.push(...this.detectUnsafeLogging(code, filePath));
         
         // Check for weak encryption
-        issues.push(...this.detectWeakEncryption(code, filePath));
+        if (enabled('WeakEncryption')) issues.push(...this.detectWeakEncryption(code, filePath));
         
         // Check for hardcoded values using the analyzer
-        issues.push(...this.detectHardcodedValues(code, filePath));
+        if (enabled('HardcodedValues')) issues.push(...this.detectHardcodedValues(code, filePath));
         
         // Check if this is a sensitive file
-        const sensitiveFileIssue = this.detectSensitiveFile(filePath);
+        const sensitiveFileIssue = enabled('SensitiveFile') ? this.detectSensitiveFile(filePath) : null;
         if (sensitiveFileIssue) {
             issues.push(sensitiveFileIssue);
         }
 
-        // Store issues in database
-        for (const issue of issues) {
-            await this.storeSecurityIssue(issue, projectId);
-        }
-
-        return issues;
+        return issues.filter(issue => isRuleEnabled(ctx, issue.type));
     }
 
     private detectHardcodedSecrets(code: string, filePath: string): SecurityIssue[] {
@@ -325,57 +322,4 @@ export class SecurityAnalysisService {
         const key = Object.keys(recommendations).find(k => algorithm.toLowerCase().includes(k.toLowerCase()));
         return key ? recommendations[key as keyof typeof recommendations] : 'Replace with modern, secure cryptographic algorithms.';
     }
-
-    private async storeSecurityIssue(issue: SecurityIssue, projectId: number): Promise<void> {
-        try {
-            await this.prisma.issue.create({
-                data: {
-                    projectId,
-                    filePath: issue.filePath,
-                    functionName: issue.functionName,
-                    issueType: issue.type,
-                    severity: issue.severity,
-                    confidence: issue.confidence,
-                    description: issue.description,
-                    recommendation: issue.recommendation,
-                    lineStart: issue.lineStart,
-                    lineEnd: issue.lineEnd,
-                    codeBlock: issue.codeBlock,
-                    metadata: issue.metrics
-                }
-            });
-        } catch (error) {
-            console.error('Failed to store security issue:', error);
-        }
-    }
-
-    async getSecuritySummary(projectId: number) {
-        const issues = await this.prisma.issue.findMany({
-            where: {
-                projectId,
-                issueType: {
-                    in: ['HardcodedCredentials', 'HardcodedUrls', 'HardcodedSecrets', 'SensitiveFile', 'UnsafeLogging', 'WeakEncryption']
-                }
-            },
-            select: {
-                issueType: true,
-                severity: true,
-                confidence: true
-            }
-        });
-
-        const summary = {
-            totalIssues: issues.length,
-            criticalIssues: issues.filter((i: any) => i.severity === 'Critical').length,
-            highIssues: issues.filter((i: any) => i.severity === 'High').length,
-            mediumIssues: issues.filter((i: any) => i.severity === 'Medium').length,
-            lowIssues: issues.filter((i: any) => i.severity === 'Low').length,
-            byType: issues.reduce((acc: any, issue: any) => {
-                acc[issue.issueType] = (acc[issue.issueType] || 0) + 1;
-                return acc;
-            }, {} as Record<string, number>)
-        };
-
-        return summary;
-    }
 }
\ No newline at end of file
@@ -0,0 +1,180 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { readFile, stat } from 'fs/promises';
+import { extname, relative } from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { ParserService } from '../parser/parser.service';
+import { CheckedOutSource, ProjectSourceService } from './project-source.service';
+import { RepoConfigService } from './repo-config.service';
+import { ProjectSettingsService } from './project-settings.service';
+import { FileCollectorService, matchesAnyGlob } from './file-collector.service';
+import { getLanguageProfile, grammarFor, isAnalyzable, languageOfExtension, languageProfiles } from '../languages/language-registry';
+
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 5000;
+const SNIPPET_LINES = 20;
+
+export interface StructuralQueryRequest {
+  query: string; // Tree-sitter S-expression; captured nodes (@name) are returned
+  language?: string; // only files of this language; otherwise every language the query compiles for
+  path?: string; // glob on repo-relative paths
+  limit?: number; // matches to return
+}
+
+// 1-based line and column
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface StructuralQueryMatch {
+  file: string;
+  language: string;
+  start: SourcePosition;
+  end: SourcePosition;
+  captures: Array<{ name: string; type: string; text: string; start: SourcePosition; end: SourcePosition }>;
+  snippet: string; // the matched lines, at most SNIPPET_LINES
+}
+
+export interface StructuralQueryStats {
+  filesSearched: number;
+  matches: number;
+  truncated: boolean; // the limit was reached
+  skippedLanguages: Record<string, string>; // language -> why the query does not apply to it
+}
+
+export interface PreparedStructuralQuery {
+  source: CheckedOutSource;
+  files: string[]; // absolute paths
+  queries: Map<string, any>; // grammar key -> compiled query
+  maxFileBytes: number;
+  limit: number;
+  stats: StructuralQueryStats;
+}
+
+const position = (point: { row: number; column: number }): SourcePosition => ({ line: point.row + 1, column: point.column + 1 });
+
+/**
+ * Ad-hoc Tree-sitter queries over a project's analyzed code (the last analyzed commit
+ * for git projects), e.g. every empty catch clause. Files are searched in order and
+ * matches are produced one at a time, so large repositories can be streamed.
+ */
+@Injectable()
+export class StructuralQueryService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly parserService: ParserService,
+    private readonly projectSources: ProjectSourceService,
+    private readonly repoConfig: RepoConfigService,
+    private readonly projectSettings: ProjectSettingsService,
+    private readonly fileCollector: FileCollectorService,
+  ) { }
+
+  /**
+   * Validate and compile the query and check out the sources. Pass the result to
+   * matches(), which releases the checkout when done.
+   */
+  async prepare(projectId: number, request: StructuralQueryRequest): Promise<PreparedStructuralQuery> {
+    const project = await (this.prisma as any).project.findUnique({ where: { id: projectId } });
+    if (!project) throw new NotFoundException('Project not found');
+    if (typeof request.query !== 'string' || !request.query.trim()) throw new BadRequestException('query must be a non-empty string');
+    if (request.path != null && typeof request.path !== 'string') throw new BadRequestException('path must be a glob string');
+    const limit = request.limit == null ? DEFAULT_LIMIT : Number(request.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new BadRequestException(`limit must be an integer between 1 and ${MAX_LIMIT}`);
+    }
+    if (!this.parserService.isTreeSitterAvailable()) throw new BadRequestException('Tree-sitter is not available on this server');
+
+    let profiles = languageProfiles().filter((p) => isAnalyzable(p.id));
+    if (request.language) {
+      const profile = getLanguageProfile(request.language);
+      if (!profile || !isAnalyzable(profile.id)) throw new BadRequestException(`Unknown or unanalyzed language: ${request.language}`);
+      profiles = [profile];
+    }
+
+    // Queries name node types, so each only compiles for the grammars that have them
+    const stats: StructuralQueryStats = { filesSearched: 0, matches: 0, truncated: false, skippedLanguages: {} };
+    const queries = new Map<string, any>();
+    for (const profile of profiles) {
+      let error = 'no grammar loaded';
+      for (const grammar of profile.grammars) {
+        if (!this.parserService.hasGrammar(grammar.key) || queries.has(grammar.key)) continue;
+        try {
+          queries.set(grammar.key, this.parserService.compileQuery(grammar.key, request.query));
+        } catch (err: any) {
+          error = err?.message || String(err);
+        }
+      }
+      if (!profile.grammars.some((g) => queries.has(g.key))) stats.skippedLanguages[profile.id] = error;
+    }
+    if (!queries.size) {
+      const reasons = Object.entries(stats.skippedLanguages).map(([language, why]) => `${language}: ${why}`);
+      throw new BadRequestException(`The query does not compile for any language (${reasons.join('; ')})`);
+    }
+
+    const source = await this.projectSources.checkout(project, project.lastAnalyzedCommit || project.ref);
+    try {
+      const config = await this.repoConfig.load(source.dir, await this.projectSettings.resolve(project));
+      const collected = await this.fileCollector.collect(source.dir, { excludeGlobs: project.excludeGlobs, config });
+      const files = collected.files
+        .filter((file) => {
+          const relPath = relative(source.dir, file).replace(/\\/g, '/');
+          const language = languageOfExtension(extname(file))?.profile;
+          return language && profiles.includes(language) && (!request.path || matchesAnyGlob(relPath, [request.path]));
+        })
+        .sort();
+      return { source, files, queries, maxFileBytes: Math.round(config.limits.maxFileKb * 1024), limit, stats };
+    } catch (err) {
+      await source.release();
+      throw err;
+    }
+  }
+
+  async *matches(prepared: PreparedStructuralQuery): AsyncGenerator<StructuralQueryMatch> {
+    const { source, queries, stats } = prepared;
+    try {
+      for (const file of prepared.files) {
+        const ext = extname(file).toLowerCase();
+        const profile = languageOfExtension(ext)!.profile;
+        const query = queries.get(grammarFor(profile, ext)?.key ?? '');
+        if (!query) continue;
+        const info = await stat(file).catch(() => null);
+        if (!info || info.size > prepared.maxFileBytes) continue;
+        const code = await readFile(file, 'utf8');
+        const parsed = this.parserService.parseWithTreeSitter(code, ext);
+        if (!parsed) continue;
+        stats.filesSearched++;
+
+        const relPath = relative(source.dir, file).replace(/\\/g, '/');
+        const lines = code.split('\n');
+        for (const match of query.matches(parsed.tree.rootNode) as Array<{ captures: Array<{ name: string; node: any }> }>) {
+          if (!match.captures.length) continue; // nothing captured to report
+          const nodes = match.captures.map((c) => c.node);
+          const first = nodes.reduce((a, b) => (b.startIndex < a.startIndex ? b : a));
+          const last = nodes.reduce((a, b) => (b.endIndex > a.endIndex ? b : a));
+          const start = position(first.startPosition);
+          const end = position(last.endPosition);
+          yield {
+            file: relPath,
+            language: profile.id,
+            start,
+            end,
+            captures: match.captures.map((c) => ({
+              name: c.name,
+              type: c.node.type,
+              text: c.node.text,
+              start: position(c.node.startPosition),
+              end: position(c.node.endPosition),
+            })),
+            snippet: lines.slice(start.line - 1, Math.min(end.line, start.line + SNIPPET_LINES - 1)).join('\n'),
+          };
+          if (++stats.matches >= prepared.limit) {
+            stats.truncated = true;
+            return;
+          }
+        }
+      }
+    } finally {
+      await source.release();
+    }
+  }
+}
@@ -0,0 +1,380 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { posix } from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { getLanguageProfile } from '../languages/language-registry';
+import type { FileSymbols, LanguageSymbols, SymbolDefinition, SymbolImport, SymbolKind } from '../languages/language-profile';
+
+const BATCH_SIZE = 1000;
+const KINDS: SymbolKind[] = ['function', 'class', 'interface', 'type', 'enum', 'method', 'variable'];
+// Kinds whose members can be reached through their name (Foo.bar)
+const OWNER_KINDS = new Set<SymbolKind>(['class', 'interface', 'enum']);
+// What a call can resolve to; calling a class constructs it (Python)
+const CALLABLE_KINDS = new Set<SymbolKind>(['function', 'method', 'class']);
+
+export interface IndexedFile {
+  language: string;
+  symbols: FileSymbols;
+}
+
+interface IndexedSymbol extends SymbolDefinition {
+  filePath: string;
+  language: string;
+  fanIn?: number;
+  fanOut?: number;
+}
+
+interface ResolvedReference {
+  symbol: IndexedSymbol;
+  filePath: string;
+  line: number;
+  column: number;
+  kind: 'import' | 'reference';
+}
+
+interface ResolvedCall {
+  caller: IndexedSymbol;
+  callee: IndexedSymbol | null;
+  text: string;
+  line: number;
+  column: number;
+}
+
+export interface SymbolSearch {
+  name?: string; // case-insensitive substring; exact matches come first
+  kind?: string;
+  sort?: string; // fanIn or fanOut, highest first; by name otherwise
+  limit: number;
+}
+
+const SORTS = ['fanIn', 'fanOut'];
+
+// A symbol as listed in search results and call graphs
+const SYMBOL_SUMMARY = {
+  id: true, name: true, kind: true, container: true, exported: true, language: true,
+  filePath: true, lineStart: true, lineEnd: true, column: true, fanIn: true, fanOut: true,
+};
+
+/**
+ * Cross-file symbol index of a run: the declarations of every parsed file and the
+ * references to them. Names resolve syntactically, through the file's imports, its own
+ * top-level names and (Go, Java) those of its package directory; uses through local
+ * variables or expression types (obj.method()) are not followed.
+ */
+@Injectable()
+export class SymbolIndexService {
+  constructor(private readonly prisma: PrismaService) { }
+
+  /**
+   * Resolve and store the index and call graph of a run from the symbols of each file
+   * (repo-relative path -> symbols), then add fan-in/fan-out to the metadata of the
+   * run's function findings. Returns the number of symbols, references and calls stored.
+   */
+  async computeAndStore(projectId: number, runId: number, symbolsByFile: Map<string, IndexedFile>) {
+    const { symbols, references, calls } = this.resolve(symbolsByFile);
+    for (let i = 0; i < symbols.length; i += BATCH_SIZE) {
+      await (this.prisma as any).codeSymbol.createMany({
+        data: symbols.slice(i, i + BATCH_SIZE).map((s) => ({
+          projectId,
+          runId,
+          filePath: s.filePath,
+          name: s.name,
+          kind: s.kind,
+          container: s.container ?? null,
+          exported: s.exported,
+          language: s.language,
+          lineStart: s.line,
+          lineEnd: s.endLine,
+          column: s.column,
+          fanIn: s.fanIn ?? 0,
+          fanOut: s.fanOut ?? 0,
+        })),
+      });
+    }
+
+    // createMany returns no ids; a name's position is unique within a file
+    const rows = await (this.prisma as any).codeSymbol.findMany({
+      where: { runId },
+      select: { id: true, filePath: true, name: true, lineStart: true, column: true },
+    });
+    const ids = new Map<string, number>(rows.map((r: any) => [`${r.filePath}:${r.lineStart}:${r.column}:${r.name}`, r.id]));
+    const idOf = (s: IndexedSymbol) => ids.get(`${s.filePath}:${s.line}:${s.column}:${s.name}`);
+    const referenceRows = references.map((r) => ({
+      symbolId: idOf(r.symbol),
+      filePath: r.filePath,
+      line: r.line,
+      column: r.column,
+      kind: r.kind,
+    }));
+    for (let i = 0; i < referenceRows.length; i += BATCH_SIZE) {
+      await (this.prisma as any).symbolReference.createMany({ data: referenceRows.slice(i, i + BATCH_SIZE) });
+    }
+    const callRows = calls.map((c) => ({
+      callerId: idOf(c.caller),
+      calleeId: c.callee ? idOf(c.callee) : null,
+      callee: c.text,
+      line: c.line,
+      column: c.column,
+    }));
+    for (let i = 0; i < callRows.length; i += BATCH_SIZE) {
+      await (this.prisma as any).callEdge.createMany({ data: callRows.slice(i, i + BATCH_SIZE) });
+    }
+
+    await this.annotateIssues(projectId, runId, symbols.filter((s) => symbolsByFile.get(s.filePath)?.symbols.calls));
+    return { symbols: symbols.length, references: references.length, calls: calls.length };
+  }
+
+  /**
+   * Add the fan-in and fan-out of the function a finding is in to its metadata, for the
+   * findings the run created in files with a call graph. Older rows are left alone: they
+   * are part of earlier runs' snapshots as well.
+   */
+  private async annotateIssues(projectId: number, runId: number, symbols: IndexedSymbol[]) {
+    const functions = new Map<string, IndexedSymbol[]>(); // file + name -> functions and methods
+    for (const symbol of symbols) {
+      if (symbol.kind !== 'function' && symbol.kind !== 'method') continue;
+      const key = `${symbol.filePath}\n${symbol.name}`;
+      functions.set(key, [...(functions.get(key) ?? []), symbol]);
+    }
+    const issues = await (this.prisma as any).issue.findMany({
+      where: { projectId, runId, functionName: { not: null } },
+      select: { id: true, filePath: true, functionName: true, lineStart: true },
+    });
+    const groups = new Map<string, number[]>(); // "fanIn:fanOut" -> issue ids
+    for (const issue of issues) {
+      const candidates = functions.get(`${issue.filePath}\n${issue.functionName}`) ?? [];
+      // Several functions of that name: the one around the finding
+      const fn = candidates.length === 1
+        ? candidates[0]
+        : candidates.find((c) => issue.lineStart != null && c.line <= issue.lineStart && c.endLine >= issue.lineStart);
+      if (!fn) continue;
+      const key = `${fn.fanIn}:${fn.fanOut}`;
+      const group = groups.get(key);
+      if (group) group.push(issue.id);
+      else groups.set(key, [issue.id]);
+    }
+    // One update per distinct (fan-in, fan-out) pair rather than per issue
+    for (const [key, ids] of groups) {
+      const [fanIn, fanOut] = key.split(':').map(Number);
+      await (this.prisma as any).$executeRaw`
+        UPDATE "Issue"
+        SET "metadata" = (CASE WHEN jsonb_typeof("metadata") = 'object' THEN "metadata" ELSE '{}'::jsonb END) || ${JSON.stringify({ fanIn, fanOut })}::jsonb
+        WHERE "id" = ANY(${ids})`;
+    }
+  }
+
+  /**
+   * Symbols of the current run matching a name, with their reference counts
+   */
+  async search(projectId: number, search: SymbolSearch) {
+    const project = await (this.prisma as any).project.findUnique({ where: { id: projectId }, select: { currentRunId: true } });
+    if (!project) throw new NotFoundException('Project not found');
+    if (search.kind && !KINDS.includes(search.kind as SymbolKind)) {
+      throw new BadRequestException(`kind must be one of ${KINDS.join(', ')}`);
+    }
+    if (search.sort && !SORTS.includes(search.sort)) throw new BadRequestException(`sort must be one of ${SORTS.join(', ')}`);
+    if (!project.currentRunId) return [];
+
+    const where = { projectId, runId: project.currentRunId, ...(search.kind ? { kind: search.kind } : {}) };
+    const query = (name: any, take: number) => (this.prisma as any).codeSymbol.findMany({
+      where: { ...where, ...(name ? { name } : {}) },
+      select: { ...SYMBOL_SUMMARY, _count: { select: { references: true } } },
+      orderBy: [...(search.sort ? [{ [search.sort]: 'desc' }] : []), { name: 'asc' }, { filePath: 'asc' }, { lineStart: 'asc' }],
+      take,
+    });
+    let rows: any[];
+    if (search.name) {
+      const exact = await query({ equals: search.name, mode: 'insensitive' }, search.limit);
+      const partial = exact.length < search.limit
+        ? await query({ contains: search.name, mode: 'insensitive' }, search.limit + exact.length)
+        : [];
+      const seen = new Set(exact.map((r: any) => r.id));
+      rows = [...exact, ...partial.filter((r: any) => !seen.has(r.id))].slice(0, search.limit);
+    } else {
+      rows = await query(null, search.limit);
+    }
+    return rows.map(({ _count, ...symbol }: any) => ({ ...symbol, references: _count.references }));
+  }
+
+  /**
+   * A symbol of the project with the imports and references resolved to it
+   */
+  async references(projectId: number, symbolId: number) {
+    const symbol = await (this.prisma as any).codeSymbol.findFirst({ where: { id: symbolId, projectId } });
+    if (!symbol) throw new NotFoundException('Symbol not found');
+    const references = await (this.prisma as any).symbolReference.findMany({
+      where: { symbolId },
+      select: { filePath: true, line: true, column: true, kind: true },
+      orderBy: [{ filePath: 'asc' }, { line: 'asc' }, { column: 'asc' }],
+    });
+    return { symbol, references };
+  }
+
+  /**
+   * A function's callers and callees in the current call graph. Callees that could not
+   * be resolved have no symbol, only the called expression.
+   */
+  async calls(projectId: number, symbolId: number) {
+    const symbol = await (this.prisma as any).codeSymbol.findFirst({ where: { id: symbolId, projectId }, select: SYMBOL_SUMMARY });
+    if (!symbol) throw new NotFoundException('Symbol not found');
+    const [callers, callees] = await Promise.all([
+      (this.prisma as any).callEdge.findMany({
+        where: { calleeId: symbolId },
+        select: { line: true, column: true, caller: { select: SYMBOL_SUMMARY } },
+        orderBy: [{ callerId: 'asc' }, { line: 'asc' }],
+      }),
+      (this.prisma as any).callEdge.findMany({
+        where: { callerId: symbolId },
+        select: { callee: true, line: true, column: true, calleeSymbol: { select: SYMBOL_SUMMARY } },
+        orderBy: [{ line: 'asc' }, { column: 'asc' }],
+      }),
+    ]);
+    return {
+      symbol,
+      callers: callers.map((c: any) => ({ symbol: c.caller, line: c.line, column: c.column })),
+      callees: callees.map((c: any) => ({
+        symbol: c.calleeSymbol,
+        callee: c.callee,
+        resolved: !!c.calleeSymbol,
+        line: c.line,
+        column: c.column,
+      })),
+    };
+  }
+
+  private resolve(symbolsByFile: Map<string, IndexedFile>) {
+    const symbols: IndexedSymbol[] = [];
+    const topLevel = new Map<string, Map<string, IndexedSymbol[]>>(); // file -> name -> symbols
+    const members = new Map<string, Map<string, IndexedSymbol[]>>(); // file -> container.name -> symbols
+    // Per language family: last path segment of a module key -> files, and directory -> files
+    const modules = new Map<LanguageSymbols, Map<string, Array<{ key: string; filePath: string }>>>();
+    const packages = new Map<LanguageSymbols, Map<string, string[]>>();
+    const languageOf = new Map<string, LanguageSymbols>();
+    const byPosition = new Map<string, IndexedSymbol>(); // file:line:column of the name -> symbol
+    const push = <K, V>(map: Map<K, V[]>, key: K, value: V) => {
+      const list = map.get(key);
+      if (list) list.push(value);
+      else map.set(key, [value]);
+    };
+    const nested = <K, V>(map: Map<K, Map<string, V[]>>, key: K) => {
+      if (!map.has(key)) map.set(key, new Map());
+      return map.get(key)!;
+    };
+
+    for (const [filePath, { language, symbols: file }] of symbolsByFile) {
+      const syntax = getLanguageProfile(language)?.symbols;
+      if (!syntax) continue;
+      languageOf.set(filePath, syntax);
+      const dir = posix.dirname(filePath);
+      const key = syntax.moduleKey === 'directory' ? dir : filePath.replace(/\.[^./]+$/, '');
+      push(nested(modules, syntax), key.split('/').pop()!, { key, filePath });
+      push(nested(packages, syntax), dir, filePath);
+      for (const definition of file.definitions) {
+        const symbol = { ...definition, filePath, language };
+        symbols.push(symbol);
+        byPosition.set(`${filePath}:${symbol.line}:${symbol.column}`, symbol);
+        if (symbol.container) push(nested(members, filePath), `${symbol.container}.${symbol.name}`, symbol);
+        else push(nested(topLevel, filePath), symbol.name, symbol);
+      }
+    }
+
+    const topLevelIn = (files: string[], name: string) => files.flatMap((f) => topLevel.get(f)?.get(name) ?? []);
+    const membersIn = (files: string[], container: string, name: string) => files.flatMap((f) => members.get(f)?.get(`${container}.${name}`) ?? []);
+
+    // Files an import names: exact module keys, else the most specific key matching the path's end
+    const moduleFiles = new Map<string, string[]>();
+    const filesOf = (syntax: LanguageSymbols, imp: SymbolImport, fromFile: string) => {
+      const cacheKey = `${posix.dirname(fromFile)}\n${imp.source}`;
+      if (!moduleFiles.has(cacheKey)) {
+        let found: string[] = [];
+        for (const candidate of syntax.modules(imp.source, fromFile)) {
+          const entries = modules.get(syntax)?.get(candidate.path.split('/').pop()!) ?? [];
+          const matches = entries.filter((e) => e.key === candidate.path
+            || (!candidate.exact && (e.key.endsWith(`/${candidate.path}`) || candidate.path.endsWith(`/${e.key}`))));
+          const longest = Math.max(...matches.map((e) => e.key.length));
+          found = matches.filter((e) => e.key.length === longest).map((e) => e.filePath);
+          if (found.length) break;
+        }
+        moduleFiles.set(cacheKey, found);
+      }
+      return moduleFiles.get(cacheKey)!;
+    };
+    const importTargets = (syntax: LanguageSymbols, imp: SymbolImport, fromFile: string) => {
+      if (imp.imported === '*') return [];
+      const files = filesOf(syntax, imp, fromFile);
+      if (imp.imported === 'default') return files.flatMap((f) => [...(topLevel.get(f)?.values() ?? [])].flat().filter((s) => s.isDefault));
+      const named = topLevelIn(files, imp.imported);
+      // Java's static imports name a member
+      return named.length ? named : files.flatMap((f) => [...(members.get(f)?.values() ?? [])].flat().filter((s) => s.name === imp.imported));
+    };
+
+    const references: ResolvedReference[] = [];
+    const calls: ResolvedCall[] = [];
+    const seen = new Set<string>();
+    const add = (targets: IndexedSymbol[], filePath: string, line: number, column: number, kind: ResolvedReference['kind']) => {
+      for (const symbol of targets) {
+        const key = `${symbol.filePath}:${symbol.line}:${symbol.column}:${symbol.name}\n${filePath}:${line}:${column}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        references.push({ symbol, filePath, line, column, kind });
+      }
+    };
+
+    for (const [filePath, { symbols: file }] of symbolsByFile) {
+      const syntax = languageOf.get(filePath);
+      if (!syntax) continue;
+      const imports = new Map(file.imports.map((i) => [i.local, i]));
+      const neighbours = syntax.packageScope
+        ? (packages.get(syntax)?.get(posix.dirname(filePath)) ?? []).filter((f) => f !== filePath)
+        : [];
+      // A name declared in the file, else in its package
+      const visible = (name: string) => {
+        const own = topLevelIn([filePath], name);
+        return own.length ? own : topLevelIn(neighbours, name);
+      };
+
+      // Symbols a name or qualifier.name used in the file stands for
+      const targetsOf = (name: string, qualifier?: string): IndexedSymbol[] => {
+        if (!qualifier) {
+          const imp = imports.get(name);
+          return imp ? importTargets(syntax, imp, filePath) : visible(name);
+        }
+        const imp = imports.get(qualifier);
+        if (imp?.imported === '*') return topLevelIn(filesOf(syntax, imp, filePath), name);
+        // A static member of an imported class, or of one declared in the file or its package
+        return (imp ? importTargets(syntax, imp, filePath) : visible(qualifier))
+          .filter((owner) => OWNER_KINDS.has(owner.kind))
+          .flatMap((owner) => membersIn([owner.filePath], owner.name, name));
+      };
+
+      for (const imp of file.imports) add(importTargets(syntax, imp, filePath), filePath, imp.line, imp.column, 'import');
+      for (const ref of file.references) add(targetsOf(ref.name, ref.qualifier), filePath, ref.line, ref.column, 'reference');
+
+      for (const call of file.calls ?? []) {
+        const caller = byPosition.get(`${filePath}:${call.callerLine}:${call.callerColumn}`);
+        if (!caller) continue;
+        let targets: IndexedSymbol[] = [];
+        if (call.self) targets = caller.container ? membersIn([filePath], caller.container, call.name!) : [];
+        else if (call.name) targets = targetsOf(call.name, call.qualifier);
+        targets = targets.filter((t) => CALLABLE_KINDS.has(t.kind));
+        if (!targets.length) calls.push({ caller, callee: null, text: call.callee, line: call.line, column: call.column });
+        for (const callee of targets) calls.push({ caller, callee, text: call.callee, line: call.line, column: call.column });
+      }
+    }
+
+    // Fan-in: distinct callers; fan-out: distinct callees, unresolved ones by their text
+    const fanIn = new Map<IndexedSymbol, Set<IndexedSymbol>>();
+    const fanOut = new Map<IndexedSymbol, Set<IndexedSymbol | string>>();
+    for (const call of calls) {
+      if (!fanOut.has(call.caller)) fanOut.set(call.caller, new Set());
+      fanOut.get(call.caller)!.add(call.callee ?? call.text);
+      if (!call.callee) continue;
+      if (!fanIn.has(call.callee)) fanIn.set(call.callee, new Set());
+      fanIn.get(call.callee)!.add(call.caller);
+    }
+    for (const symbol of symbols) {
+      symbol.fanIn = fanIn.get(symbol)?.size ?? 0;
+      symbol.fanOut = fanOut.get(symbol)?.size ?? 0;
+    }
+    return { symbols, references, calls };
+  }
+}
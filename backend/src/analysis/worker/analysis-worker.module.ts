@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { ParserService } from '../../parser/parser.service';
+import { AnalysisHelperService } from '../analysis-helper.service';
+import { HardcodedValuesAnalyzer } from '../hardcoded-values-analyzer.service';
+import { SecurityAnalysisService } from '../security-analysis.service';
+import { EnhancedAnalysisService } from '../enhanced-analysis.service';
+import { DuplicationDetectionService } from '../duplication-detection.service';
+import { FileAnalysisService } from '../file-analysis.service';
+import { CustomRuleRunnerService } from '../custom-rule-runner.service';
+import { FileCollectorService } from '../file-collector.service';
+
+// Detection-only providers for analysis worker processes (no database, no HTTP)
+@Module({
+  providers: [
+    ParserService,
+    AnalysisHelperService,
+    HardcodedValuesAnalyzer,
+    SecurityAnalysisService,
+    EnhancedAnalysisService,
+    DuplicationDetectionService,
+    FileAnalysisService,
+    CustomRuleRunnerService,
+    FileCollectorService,
+  ],
+})
+export class AnalysisWorkerModule { }
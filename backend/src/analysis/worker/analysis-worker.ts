@@ -0,0 +1,37 @@
+import 'reflect-metadata';
+import { NestFactory } from '@nestjs/core';
+import { AnalysisWorkerModule } from './analysis-worker.module';
+import { FileAnalysisService } from '../file-analysis.service';
+import { DuplicationDetectionService } from '../duplication-detection.service';
+import { WorkerRequest, WorkerResponse } from './worker-protocol';
+
+// Entry point of a forked analysis worker. Handles one request at a time and
+// replies over IPC; the parent enforces memory and time limits.
+async function bootstrap() {
+  const app = await NestFactory.createApplicationContext(AnalysisWorkerModule, { logger: ['error', 'warn'] });
+  const files = app.get(FileAnalysisService);
+  const duplicates = app.get(DuplicationDetectionService);
+
+  const reply = (message: WorkerResponse) => process.send?.(message);
+
+  process.on('message', async (request: WorkerRequest) => {
+    try {
+      const result = request.task.kind === 'file'
+        ? await files.analyzeFile(request.task.file)
+        : await duplicates.detectDuplicatesInBatches(request.task.blocks, request.task.language, request.task.context);
+      reply({ type: 'result', id: request.id, result });
+    } catch (err: any) {
+      reply({ type: 'error', id: request.id, error: err?.message || String(err) });
+    }
+  });
+
+  // The parent went away (API restart or run aborted): nothing left to do
+  process.on('disconnect', () => process.exit(0));
+  reply({ type: 'ready' });
+}
+
+bootstrap().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error('[analysis-worker] failed to start', err);
+  process.exit(1);
+});
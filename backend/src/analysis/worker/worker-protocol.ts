@@ -0,0 +1,16 @@
+import { DuplicationBlock, FileAnalysisTask } from '../file-analysis.service';
+import { AnalysisContext } from '../analysis-context';
+
+export type WorkerTask =
+  | { kind: 'file'; file: FileAnalysisTask }
+  | { kind: 'duplicates'; blocks: DuplicationBlock[]; language: string; context: AnalysisContext };
+
+export interface WorkerRequest {
+  id: number;
+  task: WorkerTask;
+}
+
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'result'; id: number; result: any }
+  | { type: 'error'; id: number; error: string };
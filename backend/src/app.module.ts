@@ -8,6 +8,8 @@ import { ProjectsModule } from './projects/projects.module';
 import { AuthModule } from './auth/auth.module';
 import { CiModule } from './ci/ci.module';
 import { UserModule } from './user/user.module';
+import { JobsModule } from './jobs/jobs.module';
+import { LanguagesModule } from './languages/languages.module';
 
 @Module({
   imports: [
@@ -20,6 +22,8 @@ import { UserModule } from './user/user.module';
     AuthModule,
     CiModule,
     UserModule,
+    JobsModule,
+    LanguagesModule,
   ],
 })
 export class AppModule {}
@@ -1,5 +1,8 @@
 import { Body, Controller, Post, UseGuards } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
 import { AnalysisService } from '../analysis/analysis.service';
+import { BaselineService } from '../analysis/baseline.service';
+import { QualityGateService } from '../analysis/quality-gate.service';
 import { AuthGuard } from '../auth/auth.guard';
 
 class AnalyzePrDto {
@@ -7,25 +10,41 @@ class AnalyzePrDto {
   language?: string; // 'typescript' | 'python' | etc. - now optional for auto-detection
   branch?: string; // optional
   files?: string[]; // changed files relative paths
+  includeBaselined?: boolean; // also report findings in the project's baseline
 }
 
 @Controller('ci')
 @UseGuards(AuthGuard)
 export class CiController {
-  constructor(private readonly analysis: AnalysisService) { }
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly analysis: AnalysisService,
+    private readonly baseline: BaselineService,
+    private readonly qualityGates: QualityGateService,
+  ) { }
 
   @Post('analyze-pr')
   async analyzePr(@Body() body: AnalyzePrDto) {
-    const { repoUrl, language, files } = body;
-    const result = await this.analysis.quickAnalyzeRepo(repoUrl, language, files);
+    const { repoUrl, language, files, includeBaselined } = body;
+    // The project analyzing this repository, if any, supplies settings, baseline and quality gate
+    const project = await (this.prisma as any).project.findUnique({ where: { gitUrl: repoUrl } });
+    const result = await this.analysis.quickAnalyzeRepo(repoUrl, language, files, project);
+    // Findings in the project's baseline are left out by default
+    const { fresh, baselined } = project?.baselineAt && !includeBaselined
+      ? await this.baseline.partition(project.id, result.issues)
+      : { fresh: result.issues, baselined: [] };
+    // Pipelines fail the build on qualityGate.status === 'Failed'
+    const qualityGate = await this.qualityGates.evaluateFindings(project, result.config.qualityGate, fresh, result.measures);
     // Return a concise summary for commenting in PRs
     return {
       summary: {
-        totalIssues: result.issues.length,
-        highComplexity: result.issues.filter((i: any) => i.issueType === 'HighComplexity').length,
-        duplicateCode: result.issues.filter((i: any) => i.issueType === 'DuplicateCode').length,
+        totalIssues: fresh.length,
+        highComplexity: fresh.filter((i: any) => i.issueType === 'HighComplexity').length,
+        duplicateCode: fresh.filter((i: any) => i.issueType === 'DuplicateCode').length,
+        baselinedIssues: baselined.length,
       },
-      sample: result.issues.slice(0, 10),
+      qualityGate,
+      sample: fresh.slice(0, 10),
       projectName: result.projectName,
     };
   }
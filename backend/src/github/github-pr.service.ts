@@ -38,6 +38,10 @@ export class GitHubPRService {
         throw new Error('Project not found');
       }
 
+      if (project.sourceType && project.sourceType !== 'git') {
+        throw new Error('Pull requests are only available for git projects; export a patch instead');
+      }
+
       console.log(`Project found: ${project.name}, gitUrl: ${project.gitUrl}`);
       console.log(`User: ${project.user.githubUsername}, has token: ${!!project.user.githubAccessToken}`);
 
@@ -69,25 +73,15 @@ export class GitHubPRService {
       const timestamp = Date.now();
       const branchName = `codestruct-refactoring-${timestamp}`;
 
-      // Get the default branch SHA
-      const { data: repoData } = await octokit.rest.repos.get({
-        owner: repoOwner,
-        repo: repoName,
-      });
-
-      const defaultBranch = repoData.default_branch;
-      const { data: refData } = await octokit.rest.git.getRef({
-        owner: repoOwner,
-        repo: repoName,
-        ref: `heads/${defaultBranch}`,
-      });
+      // Branch off the analyzed branch, or the default branch when none was chosen
+      const { baseBranch, baseSha } = await this.resolveBaseBranch(octokit, repoOwner, repoName, project.ref);
 
       // Create new branch
       await octokit.rest.git.createRef({
         owner: repoOwner,
         repo: repoName,
         ref: `refs/heads/${branchName}`,
-        sha: refData.object.sha,
+        sha: baseSha,
       });
 
       // 5. Build file changes by grouping refactorings by file
@@ -115,7 +109,7 @@ export class GitHubPRService {
         repoOwner,
         repoName,
         branchName,
-        defaultBranch,
+        baseBranch,
         fileChanges,
         acceptedRefactorings
       );
@@ -190,7 +184,7 @@ export class GitHubPRService {
     return Array.from(fileChangesMap.values());
   }
 
-  private applyRefactoringToFile(
+  applyRefactoringToFile(
     fileContent: string,
     refactoring: RefactoringData
   ): string {
@@ -262,6 +256,33 @@ export class GitHubPRService {
     }
   }
 
+  /**
+   * The branch the PR should target. Tags and commit SHAs can't be a PR base, so
+   * projects analyzed at one of those fall back to the default branch.
+   */
+  private async resolveBaseBranch(octokit: Octokit, repoOwner: string, repoName: string, ref: string | null) {
+    if (ref) {
+      try {
+        const { data: refData } = await octokit.rest.git.getRef({ owner: repoOwner, repo: repoName, ref: `heads/${ref}` });
+        return { baseBranch: ref, baseSha: refData.object.sha };
+      } catch (error: any) {
+        if (error?.status !== 404) throw error;
+        console.log(`Analyzed ref ${ref} is not a branch, targeting the default branch`);
+      }
+    }
+
+    const { data: repoData } = await octokit.rest.repos.get({
+      owner: repoOwner,
+      repo: repoName,
+    });
+    const { data: refData } = await octokit.rest.git.getRef({
+      owner: repoOwner,
+      repo: repoName,
+      ref: `heads/${repoData.default_branch}`,
+    });
+    return { baseBranch: repoData.default_branch, baseSha: refData.object.sha };
+  }
+
   private async createPullRequest(
     octokit: Octokit,
     repoOwner: string,
@@ -0,0 +1,179 @@
+import { Injectable, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobContext, JobsService } from './jobs.service';
+
+/**
+ * Polls the Job table and runs claimed jobs in this process. Several backend
+ * instances can share the table: claiming uses FOR UPDATE SKIP LOCKED and every
+ * running job carries a lease that is renewed while its handler works.
+ */
+@Injectable()
+export class JobRunnerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private readonly maxConcurrency = Math.max(1, Number(process.env.JOB_MAX_CONCURRENCY) || 2);
+  private readonly pollIntervalMs = Number(process.env.JOB_POLL_INTERVAL_MS) || 2000;
+  private readonly leaseMs = Number(process.env.JOB_LEASE_MS) || 60000;
+  private readonly active = new Set<number>();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private stopping = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jobs: JobsService,
+  ) { }
+
+  async onApplicationBootstrap() {
+    if (process.env.JOB_WORKER_DISABLED === 'true') return;
+    // Pick up jobs that were running when a previous process died
+    const recovered = await this.recoverExpiredLeases().catch((err) => {
+      console.error('[jobs] lease recovery failed', err?.message || err);
+      return 0;
+    });
+    console.log(`[jobs] worker ${this.workerId} started (concurrency ${this.maxConcurrency}, recovered ${recovered})`);
+    this.timer = setInterval(() => this.tick(), this.pollIntervalMs);
+    this.tick();
+  }
+
+  async onModuleDestroy() {
+    this.stopping = true;
+    if (this.timer) clearInterval(this.timer);
+    // Hand our jobs back right away instead of waiting for their leases to expire
+    if (this.active.size) {
+      await (this.prisma as any).job.updateMany({
+        where: { id: { in: [...this.active] }, status: 'Running', leaseOwner: this.workerId },
+        data: { leaseExpiresAt: new Date(0) },
+      }).catch(() => { });
+    }
+  }
+
+  private async tick() {
+    if (this.ticking || this.stopping) return;
+    this.ticking = true;
+    try {
+      await this.recoverExpiredLeases();
+      while (!this.stopping && this.active.size < this.maxConcurrency) {
+        const job = await this.claimNext();
+        if (!job) break;
+        this.active.add(job.id);
+        this.run(job).finally(() => {
+          this.active.delete(job.id);
+          // A slot just freed up; don't wait for the next interval
+          setImmediate(() => this.tick());
+        });
+      }
+    } catch (err: any) {
+      console.error('[jobs] poll failed', err?.message || err);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Runs one job of a type per project at a time; the next one waits its turn
+  private async claimNext(): Promise<any | null> {
+    const now = new Date();
+    const leaseUntil = new Date(now.getTime() + this.leaseMs);
+    const rows = await (this.prisma as any).$queryRaw`
+      UPDATE "Job"
+      SET "status" = 'Running', "leaseOwner" = ${this.workerId}, "leaseExpiresAt" = ${leaseUntil},
+          "attempts" = "attempts" + 1, "startedAt" = ${now}
+      WHERE "id" = (
+        SELECT "id" FROM "Job"
+        WHERE "status" = 'Queued' AND "runAfter" <= ${now}
+          AND NOT EXISTS (
+            SELECT 1 FROM "Job" AS running
+            WHERE running."status" = 'Running' AND running."type" = "Job"."type" AND running."projectId" = "Job"."projectId"
+          )
+        ORDER BY "id"
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING *`;
+    return rows?.[0] ?? null;
+  }
+
+  /**
+   * Running jobs whose lease ran out lost their worker: requeue them, or fail them
+   * once they used up their attempts
+   */
+  private async recoverExpiredLeases(): Promise<number> {
+    const now = new Date();
+    const rows: any[] = await (this.prisma as any).$queryRaw`
+      UPDATE "Job"
+      SET "status" = CASE
+            WHEN "cancelRequested" THEN 'Cancelled'
+            WHEN "attempts" >= "maxAttempts" THEN 'Failed'
+            ELSE 'Queued' END,
+          "error" = 'Worker lease expired before the job finished',
+          "finishedAt" = CASE WHEN "cancelRequested" OR "attempts" >= "maxAttempts" THEN ${now} ELSE NULL END,
+          "leaseOwner" = NULL,
+          "leaseExpiresAt" = NULL
+      WHERE "status" = 'Running' AND "leaseExpiresAt" < ${now}
+      RETURNING *`;
+    // Their handlers never got to clean up
+    for (const job of rows) {
+      if (job.status === 'Failed' || job.status === 'Cancelled') await this.jobs.jobEnded(job, job.status);
+    }
+    return rows.length;
+  }
+
+  private async run(job: any) {
+    const handler = this.jobs.getHandler(job.type);
+    const owned = { id: job.id, leaseOwner: this.workerId, status: 'Running' };
+    const heartbeat = setInterval(() => {
+      (this.prisma as any).job.updateMany({
+        where: owned,
+        data: { leaseExpiresAt: new Date(Date.now() + this.leaseMs) },
+      }).catch(() => { });
+    }, Math.max(1000, Math.floor(this.leaseMs / 3)));
+
+    const ctx: JobContext = {
+      jobId: job.id,
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+      isCancelled: () => this.jobs.isCancelRequested(job.id),
+    };
+
+    try {
+      if (!handler) throw new Error(`No handler registered for job type "${job.type}"`);
+      console.log(`[jobs] running #${job.id} ${job.type} (attempt ${job.attempts}/${job.maxAttempts})`);
+      const result = await handler(job.payload, ctx);
+      const cancelled = await ctx.isCancelled();
+      const updated = await (this.prisma as any).job.updateMany({
+        where: owned,
+        data: {
+          status: cancelled ? 'Cancelled' : 'Completed',
+          result: result ?? undefined,
+          error: null,
+          finishedAt: new Date(),
+          leaseOwner: null,
+          leaseExpiresAt: null,
+        },
+      });
+      if (cancelled && updated.count) await this.jobs.jobEnded(job, 'Cancelled');
+    } catch (err: any) {
+      const message = String(err?.message || err).slice(0, 2000);
+      const cancelled = await ctx.isCancelled().catch(() => false);
+      // Errors can opt out of retries (e.g. an analysis that hit its memory limit)
+      const retry = !!handler && !cancelled && err?.retryable !== false && job.attempts < job.maxAttempts;
+      console.error(`[jobs] #${job.id} ${job.type} failed${retry ? ', will retry' : ''}:`, message);
+      const updated = await (this.prisma as any).job.updateMany({
+        where: owned,
+        data: {
+          status: cancelled ? 'Cancelled' : retry ? 'Queued' : 'Failed',
+          error: message,
+          // Exponential backoff: 30s, 60s, 120s, ...
+          runAfter: retry ? new Date(Date.now() + 30000 * 2 ** (job.attempts - 1)) : undefined,
+          finishedAt: retry ? null : new Date(),
+          leaseOwner: null,
+          leaseExpiresAt: null,
+        },
+      }).catch(() => ({ count: 0 }));
+      if (!retry && updated.count) await this.jobs.jobEnded(job, cancelled ? 'Cancelled' : 'Failed');
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { Controller, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import { JobsService } from './jobs.service';
+import { AuthGuard } from '../auth/auth.guard';
+
+@Controller('jobs')
+@UseGuards(AuthGuard)
+export class JobsController {
+  constructor(private readonly jobs: JobsService) { }
+
+  @Get()
+  async list(@Query('projectId') projectId?: string, @Query('status') status?: string) {
+    return this.jobs.listJobs({ projectId: projectId ? Number(projectId) : undefined, status });
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    return this.jobs.getJob(Number(id));
+  }
+
+  @Post(':id/cancel')
+  async cancel(@Param('id') id: string) {
+    return this.jobs.cancel(Number(id));
+  }
+}
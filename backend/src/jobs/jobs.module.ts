@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { JobsService } from './jobs.service';
+import { JobRunnerService } from './job-runner.service';
+import { JobsController } from './jobs.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [PrismaModule, AuthModule],
+  providers: [JobsService, JobRunnerService],
+  controllers: [JobsController],
+  exports: [JobsService],
+})
+export class JobsModule { }
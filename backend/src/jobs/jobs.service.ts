@@ -0,0 +1,177 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+
+export type JobType = 'analysis' | 'bulk-generate-fixes' | 'regenerate-all' | 'create-pr';
+export type JobStatus = 'Queued' | 'Running' | 'Completed' | 'Failed' | 'Cancelled';
+
+export interface JobContext {
+  jobId: number;
+  attempt: number;
+  maxAttempts: number;
+  /** True once someone asked for the job to be cancelled; handlers should stop at a safe point */
+  isCancelled(): Promise<boolean>;
+}
+
+export type JobHandler = (payload: any, ctx: JobContext) => Promise<any>;
+
+/** Called once a job ended without completing: failed for good, or cancelled */
+export type JobEndedHook = (job: { id: number; projectId: number | null; userId: number | null }, status: 'Failed' | 'Cancelled') => Promise<void>;
+
+export interface EnqueueOptions {
+  projectId?: number;
+  userId?: number;
+  maxAttempts?: number;
+  /**
+   * Reuse an already queued job of the same type for the same project. A running one
+   * has already read its inputs, so a new job is queued behind it (the runner starts
+   * it once the running one finishes).
+   */
+  unique?: boolean;
+}
+
+const ACTIVE_STATUSES: JobStatus[] = ['Queued', 'Running'];
+
+/**
+ * Job storage and the handler registry. Modules register a handler per job type
+ * on init; JobRunnerService claims queued rows and dispatches them.
+ */
+@Injectable()
+export class JobsService {
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly endedHooks = new Map<string, JobEndedHook>();
+
+  constructor(private readonly prisma: PrismaService) { }
+
+  registerHandler(type: JobType, handler: JobHandler) {
+    this.handlers.set(type, handler);
+  }
+
+  getHandler(type: string): JobHandler | undefined {
+    return this.handlers.get(type);
+  }
+
+  /**
+   * Clean up after jobs of a type that end without completing, e.g. state a handler
+   * could not reset because its process died
+   */
+  onJobEnded(type: JobType, hook: JobEndedHook) {
+    this.endedHooks.set(type, hook);
+  }
+
+  async jobEnded(job: { id: number; type: string; projectId: number | null; userId: number | null }, status: 'Failed' | 'Cancelled') {
+    const hook = this.endedHooks.get(job.type);
+    if (!hook) return;
+    try {
+      await hook(job, status);
+    } catch (err: any) {
+      console.error(`[jobs] cleanup after #${job.id} ${job.type} (${status}) failed:`, err?.message || err);
+    }
+  }
+
+  async enqueue(type: JobType, payload: Record<string, any>, options: EnqueueOptions = {}) {
+    if (options.unique && options.projectId) {
+      const existing = await (this.prisma as any).job.findFirst({
+        where: { type, projectId: options.projectId, status: 'Queued', cancelRequested: false },
+        orderBy: { id: 'asc' },
+      });
+      if (existing) return this.withQueuePosition(existing);
+    }
+    const job = await (this.prisma as any).job.create({
+      data: {
+        type,
+        payload,
+        projectId: options.projectId,
+        userId: options.userId,
+        maxAttempts: options.maxAttempts ?? 3,
+      },
+    });
+    return this.withQueuePosition(job);
+  }
+
+  async getJob(id: number) {
+    const job = await (this.prisma as any).job.findUnique({ where: { id } });
+    if (!job) throw new NotFoundException('Job not found');
+    return this.withQueuePosition(job);
+  }
+
+  async listJobs(filter: { projectId?: number; status?: string } = {}) {
+    const where: any = {};
+    if (filter.projectId) where.projectId = filter.projectId;
+    if (filter.status) where.status = filter.status;
+    const jobs = await (this.prisma as any).job.findMany({ where, orderBy: { id: 'desc' }, take: 100 });
+    return Promise.all(jobs.map((j: any) => this.withQueuePosition(j)));
+  }
+
+  /**
+   * Queued jobs are cancelled immediately; running jobs are flagged and finish as
+   * Cancelled once their handler notices (or returns)
+   */
+  async cancel(id: number) {
+    const job = await (this.prisma as any).job.findUnique({ where: { id } });
+    if (!job) throw new NotFoundException('Job not found');
+    if (!ACTIVE_STATUSES.includes(job.status)) {
+      throw new BadRequestException(`Job is already ${job.status}`);
+    }
+    const cancelled = await (this.prisma as any).job.updateMany({
+      where: { id, status: 'Queued' },
+      data: { status: 'Cancelled', cancelRequested: true, finishedAt: new Date() },
+    });
+    if (cancelled.count) {
+      await this.jobEnded(job, 'Cancelled');
+    } else {
+      // The runner reports the job as ended once its handler returns
+      await (this.prisma as any).job.update({ where: { id }, data: { cancelRequested: true } });
+    }
+    return this.getJob(id);
+  }
+
+  /**
+   * Cancel every queued/running job of a type for a project
+   */
+  async cancelForProject(projectId: number, type: JobType) {
+    const jobs = await (this.prisma as any).job.findMany({
+      where: { projectId, type, status: { in: ACTIVE_STATUSES } },
+      select: { id: true },
+    });
+    for (const job of jobs) {
+      await this.cancel(job.id).catch(() => { });
+    }
+    return jobs.length;
+  }
+
+  /**
+   * The queued/running job of a type for a project, if any
+   */
+  async activeJob(projectId: number, type: JobType) {
+    const job = await (this.prisma as any).job.findFirst({
+      where: { projectId, type, status: { in: ACTIVE_STATUSES } },
+      orderBy: { id: 'desc' },
+    });
+    return job ? this.withQueuePosition(job) : null;
+  }
+
+  async isRunning(projectId: number, type: JobType): Promise<boolean> {
+    const running = await (this.prisma as any).job.count({ where: { projectId, type, status: 'Running' } });
+    return running > 0;
+  }
+
+  async isCancelRequested(id: number): Promise<boolean> {
+    const job = await (this.prisma as any).job.findUnique({ where: { id }, select: { cancelRequested: true } });
+    return !!job?.cancelRequested;
+  }
+
+  /**
+   * 1-based position among queued jobs that are due, null once the job left the queue
+   */
+  async queuePosition(job: { id: number; status: string }): Promise<number | null> {
+    if (job.status !== 'Queued') return null;
+    const ahead = await (this.prisma as any).job.count({
+      where: { status: 'Queued', id: { lt: job.id }, runAfter: { lte: new Date() } },
+    });
+    return ahead + 1;
+  }
+
+  private async withQueuePosition(job: any) {
+    return { ...job, queuePosition: await this.queuePosition(job) };
+  }
+}
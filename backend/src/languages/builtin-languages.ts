@@ -0,0 +1,167 @@
+import { LanguageNodeTypes, LanguageProfile } from './language-profile';
+import { braceFunctionBlocks, goFunctionBlocks, indentedFunctionBlocks } from './text-fallback';
+import { SYMBOLS } from './symbol-extraction';
+
+const C_COMMENTS: LanguageProfile['comments'] = { line: '//', block: ['/*', '*/'] };
+
+const TS_GRAMMARS = {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  typescript: () => require('tree-sitter-typescript').typescript,
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  tsx: () => require('tree-sitter-typescript').tsx,
+};
+
+const JS_NODE_TYPES: LanguageNodeTypes = {
+  functions: ['function_declaration', 'method_definition', 'arrow_function', 'function_expression'],
+  classes: ['class_declaration'],
+  methods: ['method_definition', 'function_declaration'],
+  fields: ['property_definition'],
+  classBodies: ['class_declaration', 'class_body'],
+  names: ['identifier', 'property_identifier'],
+  complexity: ['if_statement', 'for_statement', 'while_statement', 'switch_statement', 'case_clause', 'catch_clause', 'conditional_expression'],
+  cognitiveNesting: ['if_statement', 'for_statement', 'while_statement', 'switch_statement', 'try_statement'],
+  nesting: ['if_statement', 'for_statement', 'while_statement', 'try_statement', 'switch_statement', 'block'],
+  numbers: ['number', 'numeric_literal'],
+  calls: ['call_expression', 'member_expression'],
+  blocks: ['statement_block'],
+  variables: ['variable_declaration', 'lexical_declaration'],
+};
+
+const BRACE_FALLBACK = { functionBlocks: braceFunctionBlocks, functionName: [/function\s+(\w+)/, /(\w+)\s*\(/] };
+
+// Recognized by extension and counted in the inventory, but not analyzed
+const inventoried = (id: string, name: string, extensions: Record<string, number>): LanguageProfile => ({
+  id, name, extensions, grammars: [], keywords: [], comments: C_COMMENTS, quotes: ['"', "'"],
+});
+
+export const BUILTIN_LANGUAGES: LanguageProfile[] = [
+  {
+    id: 'typescript',
+    name: 'TypeScript',
+    extensions: { '.ts': 10, '.tsx': 9 },
+    grammars: [
+      { key: 'typescript', module: 'tree-sitter-typescript', load: TS_GRAMMARS.typescript, extensions: ['.ts'] },
+      { key: 'tsx', module: 'tree-sitter-typescript', load: TS_GRAMMARS.tsx, extensions: ['.tsx'] },
+    ],
+    nodeTypes: {
+      ...JS_NODE_TYPES,
+      classes: ['class_declaration', 'interface_declaration'],
+      fields: ['property_definition', 'public_field_definition', 'private_field_definition'],
+      classBodies: ['class_declaration', 'class_body', 'interface_declaration', 'interface_body'],
+    },
+    keywords: ['abstract', 'any', 'as', 'boolean', 'break', 'case', 'catch', 'class', 'const', 'continue', 'declare', 'default', 'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'is', 'let', 'module', 'namespace', 'never', 'new', 'null', 'number', 'object', 'of', 'package', 'private', 'protected', 'public', 'readonly', 'return', 'static', 'string', 'super', 'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield'],
+    comments: C_COMMENTS,
+    quotes: ['"', "'"],
+    textFallback: BRACE_FALLBACK,
+    symbols: SYMBOLS.javascript,
+  },
+  {
+    id: 'javascript',
+    name: 'JavaScript',
+    extensions: { '.js': 8, '.jsx': 7, '.mjs': 7, '.cjs': 7 },
+    // JavaScript parses as TypeScript
+    grammars: [
+      { key: 'typescript', module: 'tree-sitter-typescript', load: TS_GRAMMARS.typescript, extensions: ['.js', '.mjs', '.cjs'] },
+      { key: 'tsx', module: 'tree-sitter-typescript', load: TS_GRAMMARS.tsx, extensions: ['.jsx'] },
+    ],
+    nodeTypes: JS_NODE_TYPES,
+    keywords: ['break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield'],
+    comments: C_COMMENTS,
+    quotes: ['"', "'"],
+    textFallback: BRACE_FALLBACK,
+    symbols: SYMBOLS.javascript,
+  },
+  {
+    id: 'python',
+    name: 'Python',
+    extensions: { '.py': 6 },
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    grammars: [{ key: 'python', module: 'tree-sitter-python', load: () => require('tree-sitter-python') }],
+    nodeTypes: {
+      functions: ['function_definition', 'async_function_definition'],
+      classes: ['class_definition'],
+      methods: ['function_definition'],
+      fields: ['expression_statement'], // Python fields are often assignments
+      classBodies: ['class_definition', 'block'],
+      names: ['identifier'],
+      complexity: ['if_statement', 'for_statement', 'while_statement', 'elif_clause', 'except_clause', 'conditional_expression'],
+      cognitiveNesting: ['if_statement', 'for_statement', 'while_statement', 'switch_statement', 'try_statement'],
+      nesting: ['if_statement', 'for_statement', 'while_statement', 'try_statement', 'with_statement'],
+      numbers: ['integer', 'float'],
+      calls: ['call', 'attribute'],
+      blocks: ['block'],
+      variables: [],
+    },
+    keywords: ['and', 'as', 'assert', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'exec', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'not', 'or', 'pass', 'print', 'raise', 'return', 'try', 'while', 'with', 'yield'],
+    comments: { line: '#' },
+    quotes: ['"', "'"],
+    textFallback: { functionBlocks: indentedFunctionBlocks, functionName: [/def\s+(\w+)\s*\(/] },
+    symbols: SYMBOLS.python,
+  },
+  {
+    id: 'java',
+    name: 'Java',
+    extensions: { '.java': 12 },
+    // Optional: without the grammar, Java files fall back to the text heuristics
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    grammars: [{ key: 'java', module: 'tree-sitter-java', load: () => require('tree-sitter-java') }],
+    nodeTypes: {
+      functions: ['method_declaration', 'constructor_declaration'],
+      classes: ['class_declaration', 'interface_declaration', 'enum_declaration', 'record_declaration'],
+      methods: ['method_declaration', 'constructor_declaration'],
+      fields: ['field_declaration', 'constant_declaration'],
+      classBodies: ['class_declaration', 'class_body', 'enum_declaration', 'enum_body', 'enum_body_declarations', 'interface_declaration', 'interface_body', 'record_declaration'],
+      names: ['identifier'],
+      // switch_label is each case (and default) of a switch statement or expression
+      complexity: ['if_statement', 'for_statement', 'enhanced_for_statement', 'while_statement', 'do_statement', 'switch_label', 'catch_clause', 'ternary_expression'],
+      cognitiveNesting: ['if_statement', 'for_statement', 'while_statement', 'switch_statement', 'try_statement', 'enhanced_for_statement', 'do_statement', 'switch_expression'],
+      nesting: ['if_statement', 'for_statement', 'enhanced_for_statement', 'while_statement', 'do_statement', 'try_statement', 'switch_expression', 'block'],
+      numbers: ['decimal_integer_literal', 'hex_integer_literal', 'octal_integer_literal', 'binary_integer_literal', 'decimal_floating_point_literal'],
+      calls: ['method_invocation'],
+      blocks: ['block'],
+      variables: ['local_variable_declaration'],
+    },
+    keywords: ['abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float', 'for', 'goto', 'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'package', 'private', 'protected', 'public', 'return', 'short', 'static', 'strictfp', 'super', 'switch', 'synchronized', 'this', 'throw', 'throws', 'transient', 'try', 'void', 'volatile', 'while'],
+    comments: C_COMMENTS,
+    quotes: ['"', "'"],
+    textFallback: BRACE_FALLBACK,
+    // Literals may have digit separators and a type suffix (1_000L, 2.5f)
+    numberValue: (text, nodeType) => Number(text.replace(/_/g, '').replace(nodeType === 'decimal_floating_point_literal' ? /[fFdD]$/ : /[lL]$/, '')),
+    symbols: SYMBOLS.java,
+  },
+  {
+    id: 'go',
+    name: 'Go',
+    extensions: { '.go': 2 },
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    grammars: [{ key: 'go', module: 'tree-sitter-go', load: () => require('tree-sitter-go') }],
+    nodeTypes: {
+      functions: ['function_declaration', 'method_declaration'],
+      classes: ['type_spec'],
+      methods: ['method_declaration'],
+      fields: ['field_declaration'],
+      classBodies: ['type_spec', 'struct_type', 'field_declaration_list'],
+      names: ['identifier', 'field_identifier', 'type_identifier'],
+      // Go's only loop is `for`; every case of a switch or select is a branch
+      complexity: ['if_statement', 'for_statement', 'expression_case', 'type_case', 'communication_case'],
+      cognitiveNesting: ['if_statement', 'for_statement', 'expression_switch_statement', 'type_switch_statement', 'select_statement'],
+      nesting: ['if_statement', 'for_statement', 'expression_switch_statement', 'type_switch_statement', 'select_statement', 'block'],
+      numbers: ['int_literal', 'float_literal'],
+      calls: ['call_expression'],
+      blocks: ['block'],
+      variables: [], // the compiler rejects unused variables
+    },
+    keywords: ['break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'false', 'for', 'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range', 'return', 'select', 'struct', 'switch', 'true', 'type', 'var'],
+    comments: C_COMMENTS,
+    quotes: ['"', "'", '`'],
+    textFallback: { functionBlocks: goFunctionBlocks, functionName: [/func\s+(?:\([^)]*\)\s*)?(\w+)/] },
+    numberValue: (text) => Number(text.replace(/_/g, '')),
+    receiverMethods: true,
+    symbols: SYMBOLS.go,
+  },
+  inventoried('kotlin', 'Kotlin', { '.kt': 11 }),
+  inventoried('cpp', 'C++', { '.cpp': 5 }),
+  inventoried('c', 'C', { '.c': 4 }),
+  inventoried('csharp', 'C#', { '.cs': 3 }),
+  inventoried('rust', 'Rust', { '.rs': 1 }),
+];
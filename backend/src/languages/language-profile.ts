@@ -0,0 +1,114 @@
+// A Tree-sitter grammar; `extensions` limits it to some of the language's files
+export interface LanguageGrammar {
+  key: string; // unique across languages that load a different grammar
+  module: string; // npm package providing it
+  load: () => any; // the Tree-sitter language object; throws when the module is missing
+  extensions?: string[];
+}
+
+// Syntax tree node types the detectors look for
+export interface LanguageNodeTypes {
+  functions: string[];
+  classes: string[];
+  methods: string[]; // inside a class
+  fields: string[];
+  classBodies: string[]; // walked into when collecting fields
+  names: string[]; // identifiers, when a node has no name field
+  complexity: string[]; // each adds one to cyclomatic complexity
+  cognitiveNesting: string[]; // cost more the deeper they are nested
+  nesting: string[]; // count towards nesting depth
+  numbers: string[];
+  calls: string[];
+  blocks: string[]; // statement lists, for code after a return
+  variables: string[]; // declarations checked for unused variables
+}
+
+// Text heuristics used when a file can't be parsed with its grammar
+export interface LanguageTextFallback {
+  functionBlocks: (code: string) => Array<{ start: number; end: number; text: string }>;
+  functionName: RegExp[]; // first capture group of the first match
+}
+
+/**
+ * Everything the analyzers know about one language. Profiles without node types
+ * are inventoried (file counts, LOC) but not analyzed.
+ */
+export interface LanguageProfile {
+  id: string; // as used in settings and .codestruct.yml
+  name: string;
+  extensions: Record<string, number>; // extension -> priority when picking a project's primary language
+  grammars: LanguageGrammar[];
+  nodeTypes?: LanguageNodeTypes;
+  keywords: string[]; // kept when normalizing code for duplicate detection
+  comments: { line: string; block?: [string, string] };
+  quotes: string[]; // string literal delimiters
+  textFallback?: LanguageTextFallback;
+  numberValue?: (text: string, nodeType: string) => number; // literal text -> value, when Number() can't parse it
+  receiverMethods?: boolean; // methods are declared outside the type, bound by a receiver (Go)
+  symbols?: LanguageSymbols;
+}
+
+export type SymbolKind = 'function' | 'class' | 'interface' | 'type' | 'enum' | 'method' | 'variable';
+
+// Positions are 1-based
+export interface SymbolDefinition {
+  name: string;
+  kind: SymbolKind;
+  container?: string; // class (or Go receiver type) a member belongs to
+  exported: boolean;
+  isDefault?: boolean; // a JS/TS default export
+  line: number;
+  endLine: number;
+  column: number;
+}
+
+// A name bound by an import: `imported` is the name in the source module, '*' for the module itself
+export interface SymbolImport {
+  local: string;
+  imported: string;
+  source: string; // module path as written, '/'-separated
+  line: number;
+  column: number;
+}
+
+// A use of a name, `qualifier.name` for member accesses on a plain name (ns.foo, Foo.bar)
+export interface SymbolReferenceSite {
+  name: string;
+  qualifier?: string;
+  line: number;
+  column: number;
+}
+
+// A call inside a function or method, identified by the position of the caller's name.
+// `name` is missing when the callee isn't a plain name or member (foo()(), a[b]())
+export interface SymbolCall {
+  callerLine: number;
+  callerColumn: number;
+  callee: string; // as written, e.g. this.save or api.get
+  name?: string;
+  qualifier?: string;
+  self?: boolean; // a method of the caller's own instance (this.save(), self.save())
+  line: number;
+  column: number;
+}
+
+export interface FileSymbols {
+  definitions: SymbolDefinition[];
+  imports: SymbolImport[];
+  references: SymbolReferenceSite[];
+  calls?: SymbolCall[]; // for languages with a call graph
+}
+
+// A module an import may refer to: a module key (see LanguageSymbols) or, when not exact, its path suffix
+export interface ModuleCandidate {
+  path: string;
+  exact: boolean;
+}
+
+// Declarations, imports and references of a language, for the cross-file symbol index
+export interface LanguageSymbols {
+  extract: (root: any) => FileSymbols;
+  modules: (source: string, fromFile: string) => ModuleCandidate[];
+  packageScope?: boolean; // top-level names are visible in the other files of the directory (Go, Java)
+  moduleKey?: 'file' | 'directory'; // what an import names: a file (path without extension) by default, a directory for Go
+}
@@ -0,0 +1,52 @@
+import { extname } from 'path';
+import { LanguageGrammar, LanguageNodeTypes, LanguageProfile } from './language-profile';
+import { BUILTIN_LANGUAGES } from './builtin-languages';
+
+const profiles = new Map<string, LanguageProfile>();
+
+/**
+ * Add a language, or replace the one with the same id. Analysis worker processes
+ * load this module on their own, so register from a module both import.
+ */
+export function registerLanguage(profile: LanguageProfile) {
+  profiles.set(profile.id, profile);
+}
+
+BUILTIN_LANGUAGES.forEach(registerLanguage);
+
+export function languageProfiles(): LanguageProfile[] {
+  return [...profiles.values()];
+}
+
+export function getLanguageProfile(language: string): LanguageProfile | undefined {
+  return profiles.get(language.toLowerCase());
+}
+
+// The language owning an extension (e.g. '.ts') and its priority for primary-language detection
+export function languageOfExtension(ext: string): { profile: LanguageProfile; priority: number } | null {
+  const e = ext.toLowerCase();
+  for (const profile of profiles.values()) {
+    if (e in profile.extensions) return { profile, priority: profile.extensions[e] };
+  }
+  return null;
+}
+
+export function languageOfFile(filePath: string): string | null {
+  return languageOfExtension(extname(filePath))?.profile.id ?? null;
+}
+
+// Whether the detectors run on the language; other files are only inventoried
+export function isAnalyzable(language: string) {
+  return !!getLanguageProfile(language)?.nodeTypes;
+}
+
+// Grammar for a file of the language, by extension; the first one without an extension
+export function grammarFor(profile: LanguageProfile, ext?: string): LanguageGrammar | undefined {
+  return profile.grammars.find((g) => ext && g.extensions?.includes(ext.toLowerCase()))
+    ?? profile.grammars.find((g) => !ext || !g.extensions);
+}
+
+// Node types of an analyzed language; anything else is treated as TypeScript
+export function nodeTypesOf(language: string): LanguageNodeTypes {
+  return getLanguageProfile(language)?.nodeTypes ?? profiles.get('typescript')!.nodeTypes!;
+}
@@ -0,0 +1,30 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '../auth/auth.guard';
+import { ParserService } from '../parser/parser.service';
+import { languageProfiles } from './language-registry';
+
+@Controller('languages')
+@UseGuards(AuthGuard)
+export class LanguagesController {
+  constructor(private readonly parser: ParserService) { }
+
+  // Registered languages: analyzed ones run the detectors, with Tree-sitter when a grammar loaded
+  @Get()
+  list() {
+    return languageProfiles().map((profile) => {
+      const grammars = profile.grammars.map((grammar) => ({
+        module: grammar.module,
+        extensions: grammar.extensions ?? Object.keys(profile.extensions),
+        loaded: this.parser.hasGrammar(grammar.key),
+      }));
+      return {
+        id: profile.id,
+        name: profile.name,
+        extensions: Object.keys(profile.extensions),
+        analyzed: !!profile.nodeTypes,
+        parser: !profile.nodeTypes ? null : grammars.some((g) => g.loaded) ? 'tree-sitter' : 'text',
+        grammars,
+      };
+    });
+  }
+}
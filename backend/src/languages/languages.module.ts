@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { LanguagesController } from './languages.controller';
+import { AnalysisModule } from '../analysis/analysis.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AnalysisModule, AuthModule],
+  controllers: [LanguagesController],
+})
+export class LanguagesModule { }
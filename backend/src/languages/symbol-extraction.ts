@@ -0,0 +1,417 @@
+// Declarations, imports and name references per language, for the cross-file symbol index
+
+import { posix } from 'path';
+import {
+  FileSymbols, LanguageSymbols, SymbolCall, SymbolDefinition, SymbolImport, SymbolKind, SymbolReferenceSite,
+} from './language-profile';
+
+// References and calls kept per file, so generated code can't flood the index
+const MAX_REFERENCES_PER_FILE = 5000;
+const MAX_CALLS_PER_FILE = 5000;
+const MAX_CALLEE_LENGTH = 100;
+
+interface ReferenceSyntax {
+  identifiers: string[]; // node types naming something
+  members: Record<string, [string, string]>; // member access node type -> [object field, member field]
+  skip: string[]; // subtrees without references (imports, package clauses)
+}
+
+interface CallSyntax {
+  calls: Record<string, string>; // call node type -> callee field
+  self: string[]; // node types or names of the current instance (this, self)
+}
+
+function definition(name: any, node: any, kind: SymbolKind, exported: boolean, container?: string): SymbolDefinition {
+  return {
+    name: name.text,
+    kind,
+    ...(container ? { container } : {}),
+    exported,
+    line: name.startPosition.row + 1,
+    endLine: node.endPosition.row + 1,
+    column: name.startPosition.column + 1,
+  };
+}
+
+function importOf(node: any, local: string, imported: string, source: string): SymbolImport {
+  return { local, imported, source, line: node.startPosition.row + 1, column: node.startPosition.column + 1 };
+}
+
+const unquote = (text: string) => text.replace(/^["'`]|["'`]$/g, '');
+
+// A node's field child; node-tree-sitter exposes fields as camel-cased getters (module_name -> moduleNameNode)
+function field(node: any, name: string): any {
+  return node?.[`${name.replace(/_(\w)/g, (_, c) => c.toUpperCase())}Node`] ?? null;
+}
+
+// A plain name or a member chain on one (a, a.b.c)
+function isNameChain(node: any, syntax: ReferenceSyntax): boolean {
+  if (syntax.identifiers.includes(node.type)) return true;
+  const fields = syntax.members[node.type];
+  const object = fields && field(node, fields[0]);
+  return !!object && !!field(node, fields[1]) && isNameChain(object, syntax);
+}
+
+/**
+ * Names used in the file, skipping the names of its own definitions. Only references
+ * that can resolve to another symbol are kept: uses of imported names, of the file's
+ * top-level names or (packageScope) of names possibly declared elsewhere in the package.
+ */
+function collectReferences(root: any, syntax: ReferenceSyntax, symbols: Omit<FileSymbols, 'references'>, packageScope: boolean) {
+  const defined = new Set(symbols.definitions.map((d) => `${d.line}:${d.column}:${d.name}`));
+  const bound = new Set([
+    ...symbols.imports.map((i) => i.local),
+    ...symbols.definitions.filter((d) => !d.container).map((d) => d.name),
+  ]);
+  const references: SymbolReferenceSite[] = [];
+  const add = (name: string, node: any, qualifier?: string) => {
+    const site = { name, line: node.startPosition.row + 1, column: node.startPosition.column + 1 };
+    if (!qualifier && defined.has(`${site.line}:${site.column}:${name}`)) return;
+    if (packageScope || bound.has(qualifier ?? name)) references.push(qualifier ? { ...site, qualifier } : site);
+  };
+  const stack = [root];
+  while (stack.length && references.length < MAX_REFERENCES_PER_FILE) {
+    const node = stack.pop();
+    if (syntax.skip.includes(node.type)) continue;
+    if (syntax.identifiers.includes(node.type)) {
+      add(node.text, node);
+      continue;
+    }
+    const fields = syntax.members[node.type];
+    const member = fields && field(node, fields[1]);
+    const object = fields && field(node, fields[0]);
+    if (member && object && isNameChain(object, syntax)) add(member.text, member, object.text.replace(/\s+/g, ''));
+    // A member name is not a name of its own; without an object (Java's `foo()`) it is
+    for (let i = node.namedChildCount - 1; i >= 0; i--) {
+      const child = node.namedChild(i);
+      if (!object || !member || child.startIndex !== member.startIndex || child.type !== member.type) stack.push(child);
+    }
+  }
+  return references.slice(0, MAX_REFERENCES_PER_FILE).sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Calls made inside the file's functions and methods. A call in a nested closure or
+ * undeclared inner function counts for the innermost enclosing declared one.
+ */
+function collectCalls(root: any, names: ReferenceSyntax, syntax: CallSyntax, definitions: SymbolDefinition[]): SymbolCall[] {
+  const callers = new Set(definitions.filter((d) => d.kind === 'function' || d.kind === 'method').map((d) => `${d.line}:${d.column}:${d.name}`));
+  const calls: SymbolCall[] = [];
+  const stack: Array<{ node: any; caller?: { line: number; column: number } }> = [{ node: root }];
+  while (stack.length && calls.length < MAX_CALLS_PER_FILE) {
+    const { node, caller: enclosing } = stack.pop()!;
+    let caller = enclosing;
+    const name = field(node, 'name');
+    const position = name && { line: name.startPosition.row + 1, column: name.startPosition.column + 1 };
+    if (position && callers.has(`${position.line}:${position.column}:${name.text}`)) caller = position;
+
+    const callee = syntax.calls[node.type] && field(node, syntax.calls[node.type]);
+    if (caller && callee) {
+      const call: SymbolCall = {
+        callerLine: caller.line,
+        callerColumn: caller.column,
+        callee: callee.text.replace(/\s+/g, ' ').slice(0, MAX_CALLEE_LENGTH), // shown for unresolved calls
+        line: node.startPosition.row + 1,
+        column: node.startPosition.column + 1,
+      };
+      const fields = names.members[callee.type];
+      const object = fields && field(callee, fields[0]);
+      const member = fields && field(callee, fields[1]);
+      if (names.identifiers.includes(callee.type)) {
+        call.name = callee.text;
+      } else if (object && member && (syntax.self.includes(object.type) || syntax.self.includes(object.text))) {
+        call.name = member.text;
+        call.self = true;
+      } else if (object && member && isNameChain(object, names)) {
+        call.name = member.text;
+        call.qualifier = object.text.replace(/\s+/g, ''); // a name chain, only used for lookups
+      }
+      calls.push(call);
+    }
+    for (let i = node.namedChildCount - 1; i >= 0; i--) stack.push({ node: node.namedChild(i), caller });
+  }
+  return calls.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+// TypeScript and JavaScript: export statements and ES module imports; relative imports resolve
+const JS_REFERENCES: ReferenceSyntax = {
+  identifiers: ['identifier', 'type_identifier', 'shorthand_property_identifier'],
+  members: { member_expression: ['object', 'property'], nested_type_identifier: ['module', 'name'] },
+  skip: ['import_statement'],
+};
+
+function jsDeclare(node: any, exported: boolean, isDefault: boolean, out: SymbolDefinition[]) {
+  const name = field(node, 'name');
+  const add = (kind: SymbolKind) => name && out.push({ ...definition(name, node, kind, exported), ...(isDefault ? { isDefault } : {}) });
+  switch (node.type) {
+    case 'function_declaration':
+    case 'generator_function_declaration':
+      add('function');
+      break;
+    case 'class_declaration':
+    case 'abstract_class_declaration':
+      add('class');
+      for (const member of field(node, 'body')?.namedChildren ?? []) {
+        const memberName = field(member, 'name');
+        if (!name || member.type !== 'method_definition' || !memberName) continue;
+        const hidden = memberName.type === 'private_property_identifier'
+          || member.namedChildren.some((c: any) => c.type === 'accessibility_modifier' && c.text !== 'public');
+        out.push(definition(memberName, member, 'method', exported && !hidden, name.text));
+      }
+      break;
+    case 'interface_declaration':
+      add('interface');
+      break;
+    case 'type_alias_declaration':
+      add('type');
+      break;
+    case 'enum_declaration':
+      add('enum');
+      break;
+    case 'lexical_declaration':
+    case 'variable_declaration':
+      for (const declarator of node.namedChildren) {
+        const declared = declarator.type === 'variable_declarator' && field(declarator, 'name');
+        if (!declared || declared.type !== 'identifier') continue; // destructuring
+        const value = field(declarator, 'value')?.type;
+        const kind = value === 'arrow_function' || value === 'function' || value === 'function_expression' ? 'function' : 'variable';
+        out.push(definition(declared, declarator, kind, exported));
+      }
+      break;
+  }
+}
+
+const jsSymbols: LanguageSymbols = {
+  extract(root) {
+    const definitions: SymbolDefinition[] = [];
+    const imports: SymbolImport[] = [];
+    const exportedNames = new Map<string, string>(); // local -> exported name, from `export { a as b }`
+    for (const node of root.namedChildren) {
+      if (node.type === 'import_statement') {
+        const source = unquote(field(node, 'source')?.text ?? '');
+        const clause = node.namedChildren.find((c: any) => c.type === 'import_clause');
+        for (const part of clause?.namedChildren ?? []) {
+          if (part.type === 'identifier') imports.push(importOf(part, part.text, 'default', source));
+          else if (part.type === 'namespace_import' && part.namedChild(0)) imports.push(importOf(part, part.namedChild(0).text, '*', source));
+          else if (part.type === 'named_imports') {
+            for (const specifier of part.namedChildren) {
+              const name = field(specifier, 'name');
+              if (name) imports.push(importOf(specifier, field(specifier, 'alias')?.text ?? name.text, name.text, source));
+            }
+          }
+        }
+      } else if (node.type === 'export_statement') {
+        const isDefault = node.children.some((c: any) => c.type === 'default');
+        const declaration = field(node, 'declaration');
+        if (declaration) jsDeclare(declaration, true, isDefault, definitions);
+        else if (isDefault && field(node, 'value')?.type === 'identifier') exportedNames.set(field(node, 'value').text, 'default');
+        else if (!field(node, 'source')) {
+          for (const specifier of node.namedChildren.find((c: any) => c.type === 'export_clause')?.namedChildren ?? []) {
+            const name = field(specifier, 'name')?.text;
+            if (name) exportedNames.set(name, field(specifier, 'alias')?.text ?? name);
+          }
+        }
+      } else {
+        jsDeclare(node, false, false, definitions);
+      }
+    }
+    for (const def of definitions) {
+      const exportedAs = !def.container && exportedNames.get(def.name);
+      if (!exportedAs) continue;
+      def.exported = true;
+      if (exportedAs === 'default') def.isDefault = true;
+    }
+    return {
+      definitions,
+      imports,
+      references: collectReferences(root, JS_REFERENCES, { definitions, imports }, false),
+      calls: collectCalls(root, JS_REFERENCES, { calls: { call_expression: 'function' }, self: ['this'] }, definitions),
+    };
+  },
+  // Package imports are outside the repository
+  modules(source, fromFile) {
+    if (!source.startsWith('.')) return [];
+    const path = posix.join(posix.dirname(fromFile), source).replace(/\.(ts|tsx|js|jsx|mjs|cjs)$/, '');
+    return [{ path, exact: true }, { path: `${path}/index`, exact: true }];
+  },
+};
+
+// Python: names starting with an underscore are private by convention
+const PY_REFERENCES: ReferenceSyntax = {
+  identifiers: ['identifier'],
+  members: { attribute: ['object', 'attribute'] },
+  skip: ['import_statement', 'import_from_statement'],
+};
+
+const pythonSymbols: LanguageSymbols = {
+  extract(root) {
+    const definitions: SymbolDefinition[] = [];
+    const imports: SymbolImport[] = [];
+    const isPublic = (name: string) => !name.startsWith('_');
+    const unwrap = (node: any) => (node.type === 'decorated_definition' ? field(node, 'definition') ?? node : node);
+    for (const child of root.namedChildren) {
+      const node = unwrap(child);
+      const name = field(node, 'name');
+      if (node.type === 'function_definition' && name) {
+        definitions.push(definition(name, child, 'function', isPublic(name.text)));
+      } else if (node.type === 'class_definition' && name) {
+        definitions.push(definition(name, child, 'class', isPublic(name.text)));
+        for (const memberNode of field(node, 'body')?.namedChildren ?? []) {
+          const member = unwrap(memberNode);
+          const memberName = member.type === 'function_definition' && field(member, 'name');
+          if (memberName) definitions.push(definition(memberName, memberNode, 'method', isPublic(name.text) && isPublic(memberName.text), name.text));
+        }
+      } else if (node.type === 'expression_statement' && node.namedChild(0)?.type === 'assignment') {
+        const target = field(node.namedChild(0), 'left');
+        if (target?.type === 'identifier') definitions.push(definition(target, node, 'variable', isPublic(target.text)));
+      } else if (node.type === 'import_statement') {
+        // import a.b binds a.b, used as a qualifier
+        for (const part of node.namedChildren) {
+          const name = part.type === 'aliased_import' ? field(part, 'name') : part;
+          const local = part.type === 'aliased_import' ? field(part, 'alias')?.text : part.text;
+          if (name && local) imports.push(importOf(part, local, '*', name.text));
+        }
+      } else if (node.type === 'import_from_statement') {
+        const moduleName = field(node, 'module_name');
+        for (const part of node.namedChildren) {
+          if (!moduleName || part.startIndex === moduleName.startIndex) continue;
+          const name = part.type === 'aliased_import' ? field(part, 'name') : part.type === 'dotted_name' ? part : null;
+          if (name) imports.push(importOf(part, field(part, 'alias')?.text ?? name.text, name.text, moduleName.text));
+        }
+      }
+    }
+    return {
+      definitions,
+      imports,
+      references: collectReferences(root, PY_REFERENCES, { definitions, imports }, false),
+      calls: collectCalls(root, PY_REFERENCES, { calls: { call: 'function' }, self: ['self', 'cls'] }, definitions),
+    };
+  },
+  // Relative imports resolve from the file's package; absolute ones match any file ending in the module path
+  modules(source, fromFile) {
+    const [, dots, dotted] = /^(\.*)(.*)$/.exec(source)!;
+    const rest = dotted.replace(/\./g, '/');
+    if (!dots) return [{ path: rest, exact: false }, { path: `${rest}/__init__`, exact: false }];
+    let base = posix.dirname(fromFile);
+    for (let i = 1; i < dots.length; i++) base = posix.dirname(base);
+    const path = rest ? posix.join(base, rest) : base;
+    return [{ path, exact: true }, { path: `${path}/__init__`, exact: true }];
+  },
+};
+
+// Java: public members are exported; a file holds the class named by its path
+const JAVA_REFERENCES: ReferenceSyntax = {
+  identifiers: ['identifier', 'type_identifier'],
+  members: { method_invocation: ['object', 'name'], field_access: ['object', 'field'] },
+  skip: ['package_declaration', 'import_declaration'],
+};
+
+const JAVA_TYPES: Record<string, SymbolKind> = {
+  class_declaration: 'class',
+  record_declaration: 'class',
+  interface_declaration: 'interface',
+  annotation_type_declaration: 'interface',
+  enum_declaration: 'enum',
+};
+
+function javaDeclare(node: any, container: string | undefined, inInterface: boolean, out: SymbolDefinition[]) {
+  const isPublic = inInterface || node.namedChildren.some((c: any) => c.type === 'modifiers' && /\bpublic\b/.test(c.text));
+  const name = field(node, 'name');
+  if (JAVA_TYPES[node.type] && name) {
+    out.push(definition(name, node, JAVA_TYPES[node.type], isPublic, container));
+    const body = field(node, 'body');
+    const members = [...(body?.namedChildren ?? [])];
+    // Enum members follow the constants
+    const enumDeclarations = members.find((m: any) => m.type === 'enum_body_declarations');
+    if (enumDeclarations) members.push(...enumDeclarations.namedChildren);
+    for (const member of members) javaDeclare(member, name.text, node.type === 'interface_declaration', out);
+  } else if ((node.type === 'method_declaration' || node.type === 'constructor_declaration') && name && container) {
+    out.push(definition(name, node, 'method', isPublic, container));
+  } else if ((node.type === 'field_declaration' || node.type === 'constant_declaration') && container) {
+    for (const declarator of node.namedChildren.filter((c: any) => c.type === 'variable_declarator')) {
+      const declared = field(declarator, 'name');
+      if (declared) out.push(definition(declared, node, 'variable', isPublic, container));
+    }
+  }
+}
+
+const javaSymbols: LanguageSymbols = {
+  extract(root) {
+    const definitions: SymbolDefinition[] = [];
+    const imports: SymbolImport[] = [];
+    for (const node of root.namedChildren) {
+      if (node.type === 'import_declaration') {
+        // Wildcard imports name a whole package; members are looked up in the same package instead
+        if (node.namedChildren.some((c: any) => c.type === 'asterisk')) continue;
+        const path = node.namedChildren.find((c: any) => c.type === 'scoped_identifier' || c.type === 'identifier');
+        const segments = path ? path.text.replace(/\s+/g, '').split('.') : [];
+        const name = segments[segments.length - 1];
+        if (!name) continue;
+        // A static import names a member of the class before it
+        const isStatic = node.children.some((c: any) => c.type === 'static');
+        imports.push(importOf(node, name, name, (isStatic ? segments.slice(0, -1) : segments).join('/')));
+      } else {
+        javaDeclare(node, undefined, false, definitions);
+      }
+    }
+    return { definitions, imports, references: collectReferences(root, JAVA_REFERENCES, { definitions, imports }, true) };
+  },
+  modules: (source) => [{ path: source, exact: false }],
+  packageScope: true,
+};
+
+// Go: capitalized names are exported; an import names a package directory
+const GO_REFERENCES: ReferenceSyntax = {
+  identifiers: ['identifier', 'type_identifier', 'package_identifier'],
+  members: { selector_expression: ['operand', 'field'], qualified_type: ['package', 'name'] },
+  skip: ['package_clause', 'import_declaration'],
+};
+
+const GO_TYPES: Record<string, SymbolKind> = { struct_type: 'class', interface_type: 'interface' };
+
+const goSymbols: LanguageSymbols = {
+  extract(root) {
+    const definitions: SymbolDefinition[] = [];
+    const imports: SymbolImport[] = [];
+    const isExported = (name: string) => /^[A-Z]/.test(name);
+    const specs = (node: any, type: string) => node.namedChildren.flatMap((c: any) => (c.type === type ? [c] : c.type.endsWith('_list') ? c.namedChildren.filter((s: any) => s.type === type) : []));
+    for (const node of root.namedChildren) {
+      const name = field(node, 'name');
+      if (node.type === 'function_declaration' && name) {
+        definitions.push(definition(name, node, 'function', isExported(name.text)));
+      } else if (node.type === 'method_declaration' && name) {
+        // The receiver's type without pointer and type parameters
+        const receiver = field(node, 'receiver')?.namedChildren.find((c: any) => c.type === 'parameter_declaration');
+        const type = field(receiver, 'type')?.text.replace(/^\*/, '').replace(/\[.*$/, '');
+        definitions.push(definition(name, node, 'method', isExported(name.text), type || undefined));
+      } else if (node.type === 'type_declaration') {
+        for (const spec of specs(node, 'type_spec').concat(specs(node, 'type_alias'))) {
+          const specName = field(spec, 'name');
+          if (specName) definitions.push(definition(specName, spec, GO_TYPES[field(spec, 'type')?.type] ?? 'type', isExported(specName.text)));
+        }
+      } else if (node.type === 'var_declaration' || node.type === 'const_declaration') {
+        for (const spec of specs(node, node.type === 'var_declaration' ? 'var_spec' : 'const_spec')) {
+          for (const specName of spec.namedChildren.filter((c: any) => c.type === 'identifier')) {
+            definitions.push(definition(specName, spec, 'variable', isExported(specName.text)));
+          }
+        }
+      } else if (node.type === 'import_declaration') {
+        for (const spec of specs(node, 'import_spec')) {
+          const source = unquote(field(spec, 'path')?.text ?? '');
+          const alias = field(spec, 'name');
+          if (!source || (alias && alias.type !== 'package_identifier')) continue; // blank and dot imports
+          // The package name is the last path element, before a major version suffix
+          const segments = source.split('/');
+          const last = segments.length > 1 && /^v\d+$/.test(segments[segments.length - 1]) ? segments[segments.length - 2] : segments[segments.length - 1];
+          imports.push(importOf(spec, alias?.text ?? last.replace(/[^A-Za-z0-9_].*$/, ''), '*', source));
+        }
+      }
+    }
+    return { definitions, imports, references: collectReferences(root, GO_REFERENCES, { definitions, imports }, true) };
+  },
+  modules: (source) => [{ path: source, exact: false }],
+  packageScope: true,
+  moduleKey: 'directory',
+};
+
+export const SYMBOLS = { javascript: jsSymbols, python: pythonSymbols, java: javaSymbols, go: goSymbols };
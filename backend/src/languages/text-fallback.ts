@@ -0,0 +1,95 @@
+// Function blocks found by text heuristics, for files their grammar couldn't parse
+
+type TextBlock = { start: number; end: number; text: string };
+
+function findMatchingBrace(code: string, startIdx: number) {
+  let depth = 0;
+  for (let i = startIdx; i < code.length; i++) {
+    const ch = code[i];
+    if (ch === '{') depth++;
+    else if (ch === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+// JS/TS style: function declarations, methods and arrow functions with a block body
+export function braceFunctionBlocks(code: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  // function declarations
+  const funcRegex = /function\s+[A-Za-z_][A-Za-z0-9_]*\s*\([^)]*\)\s*\{/g;
+  for (let m; (m = funcRegex.exec(code));) {
+    const braceIdx = m.index + m[0].lastIndexOf('{');
+    const end = findMatchingBrace(code, braceIdx);
+    if (end > braceIdx) blocks.push({ start: m.index, end: end + 1, text: code.slice(m.index, end + 1) });
+  }
+  // class methods and constructors
+  const reserved = new Set(['if', 'for', 'while', 'switch', 'catch', 'try', 'else', 'do', 'function']);
+  const methodRegex = /(?:^|\n)\s*(?:public|private|protected|static|async\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*\([^)]*\)\s*\{/g;
+  for (let m; (m = methodRegex.exec(code));) {
+    const name = m[1];
+    if (reserved.has(name)) continue;
+    const braceIdx = m.index + m[0].lastIndexOf('{');
+    const end = findMatchingBrace(code, braceIdx);
+    if (end > braceIdx) {
+      const start = m.index;
+      blocks.push({ start, end: end + 1, text: code.slice(start, end + 1) });
+    }
+  }
+  // arrow functions with block body: => { ... }
+  const arrowRegex = /=>\s*\{/g;
+  for (let m; (m = arrowRegex.exec(code));) {
+    const braceIdx = m.index + m[0].indexOf('{');
+    const end = findMatchingBrace(code, braceIdx);
+    if (end > braceIdx) {
+      // backtrack a bit to include variable name if present
+      const start = Math.max(0, code.lastIndexOf('\n', m.index - 80));
+      blocks.push({ start, end: end + 1, text: code.slice(start, end + 1) });
+    }
+  }
+  return blocks;
+}
+
+// Python: a def and every following line indented deeper
+export function indentedFunctionBlocks(code: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const lines = code.split(/\r?\n/);
+  let offset = 0; // track index offset
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const defMatch = line.match(/^([ \t]*)def\s+\w+\s*\(.*\)\s*:/);
+    const lineStartIdx = offset;
+    const lineEndIdx = offset + line.length;
+    if (defMatch) {
+      const indent = defMatch[1] || '';
+      let j = i + 1;
+      let endIdx = lineEndIdx;
+      for (; j < lines.length; j++) {
+        const l = lines[j];
+        const isBlank = /^\s*$/.test(l);
+        const ind = (l.match(/^([ \t]*)/) || ['', ''])[1];
+        if (!isBlank && ind.length <= indent.length) break;
+        endIdx += 1 + l.length; // +1 for newline
+      }
+      blocks.push({ start: lineStartIdx, end: endIdx, text: code.slice(lineStartIdx, endIdx) });
+      i = j - 1;
+    }
+    offset = lineEndIdx + 1;
+  }
+  return blocks;
+}
+
+// Go: top-level functions and methods, func Name(...) and func (r *T) Name(...)
+export function goFunctionBlocks(code: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const funcRegex = /(?:^|\n)func\s+(?:\([^)]*\)\s*)?[A-Za-z_]\w*\s*(?:\[[^\]]*\])?\([^)]*\)[^{\n]*\{/g;
+  for (let m; (m = funcRegex.exec(code));) {
+    const start = m.index + (m[0].startsWith('\n') ? 1 : 0);
+    const braceIdx = m.index + m[0].lastIndexOf('{');
+    const end = findMatchingBrace(code, braceIdx);
+    if (end > braceIdx) blocks.push({ start, end: end + 1, text: code.slice(start, end + 1) });
+  }
+  return blocks;
+}
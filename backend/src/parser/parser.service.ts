@@ -1,11 +1,22 @@
 import { Injectable } from '@nestjs/common';
 import { extname, join, relative } from 'path';
-import { readdir, readFile } from 'fs/promises';
+import { readFile } from 'fs/promises';
+import { FileCollectorService } from '../analysis/file-collector.service';
+import { getLanguageProfile, grammarFor, languageOfExtension, languageProfiles } from '../languages/language-registry';
+
+// A file's serialized AST: compact JSON of the root node, plus where each line starts
+export interface StoredAst {
+  ast: string;
+  format: string;
+  language: string;
+  lineStarts: number[];
+}
+
 // ...existing code...
 @Injectable()
 export class ParserService {
   private parser: any;
-  private languages: Map<string, any>;
+  private grammars: Map<string, any>; // grammar key -> Tree-sitter language
   private tsApi: any | undefined;
 
   // Recursively serialize Tree-sitter AST as nested JSON
@@ -31,23 +42,25 @@ export class ParserService {
     return obj;
   }
 
-  constructor() {
+  constructor(private readonly fileCollector: FileCollectorService) {
+    this.grammars = new Map();
     try {
       // eslint-disable-next-line @typescript-eslint/no-var-requires
       const Parser = require('tree-sitter');
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const Ts = require('tree-sitter-typescript');
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const Py = require('tree-sitter-python');
       this.parser = new Parser();
-      this.languages = new Map([
-        ['typescript', Ts.typescript],
-        ['tsx', Ts.tsx],
-        ['python', Py],
-      ]);
     } catch {
       this.parser = undefined;
-      this.languages = new Map();
+    }
+    // Every grammar is optional: files of a language without one use the text heuristics
+    if (this.parser) {
+      for (const profile of languageProfiles()) {
+        for (const grammar of profile.grammars) {
+          if (this.grammars.has(grammar.key)) continue;
+          try {
+            this.grammars.set(grammar.key, grammar.load());
+          } catch { }
+        }
+      }
     }
     try {
       // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -59,113 +72,113 @@ export class ParserService {
 
   // Public helpers for AnalysisService to reuse the single parser instance
   isTreeSitterAvailable(): boolean {
-    return !!this.parser && this.languages.size > 0;
+    return !!this.parser && this.grammars.size > 0;
   }
 
-  getLanguageKeyByExt(ext: string): 'typescript' | 'tsx' | 'python' {
-    const e = ext.toLowerCase();
-    if (e === '.py') return 'python';
-    if (e === '.tsx') return 'tsx';
-    return 'typescript';
+  hasGrammar(key: string): boolean {
+    return !!this.parser && this.grammars.has(key);
   }
 
-  parseWithTreeSitter(code: string, extOrLangKey: string): { tree: any; langKey: string } | null {
+  // Parse with the grammar of a file extension or language id; langKey is the language id
+  parseWithTreeSitter(code: string, extOrLanguage: string): { tree: any; langKey: string } | null {
     if (!this.isTreeSitterAvailable()) return null;
-    const langKey = extOrLangKey.startsWith('.')
-      ? this.getLanguageKeyByExt(extOrLangKey)
-      : (extOrLangKey as any);
-    const langObj = this.languages.get(langKey);
+    const isExt = extOrLanguage.startsWith('.');
+    const profile = isExt ? languageOfExtension(extOrLanguage)?.profile : getLanguageProfile(extOrLanguage);
+    const grammar = profile && grammarFor(profile, isExt ? extOrLanguage : undefined);
+    const langObj = grammar && this.grammars.get(grammar.key);
     if (!langObj) return null;
     try {
       this.parser.setLanguage(langObj);
       const tree = this.parser.parse(code);
-      return { tree, langKey };
+      return { tree, langKey: profile.id };
     } catch {
       return null;
     }
   }
 
+  /**
+   * Compile a Tree-sitter query (S-expression) for a grammar; throws the compiler's
+   * error, which names the offending node type or position
+   */
+  compileQuery(grammarKey: string, queryString: string): any {
+    const langObj = this.parser && this.grammars.get(grammarKey);
+    const Query = this.parser?.constructor?.Query;
+    if (!langObj || !Query) throw new Error(`Grammar ${grammarKey} is not available`);
+    return new Query(langObj, queryString);
+  }
+
   // Run a Tree-sitter Query against an existing tree root node
-  runQueryOnTree(rootNode: any, langKey: string, queryString: string): Array<{ node: any; name: string }> | null {
+  runQueryOnTree(rootNode: any, grammarKey: string, queryString: string): Array<{ node: any; name: string }> | null {
     if (!this.isTreeSitterAvailable()) return null;
-    const langObj = this.languages.get(langKey);
-    if (!langObj || !this.parser) return null;
     try {
-      const ParserCtor: any = (this.parser as any).constructor;
-      if (!ParserCtor?.Query) return null;
-      const Query = ParserCtor.Query;
-      const q = new Query(langObj, queryString);
-      const captures = q.captures(rootNode) as Array<{ node: any; name: string }>;
-      return captures;
+      return this.compileQuery(grammarKey, queryString).captures(rootNode) as Array<{ node: any; name: string }>;
     } catch {
       return null;
     }
   }
 
-  async parseRepo(root: string, language: string): Promise<Record<string, { ast: string; format: string; language: string }>> {
+  // When onlyFiles is given (repo-relative paths), only those files are parsed
+  async parseRepo(root: string, language: string, onlyFiles?: Set<string>): Promise<Record<string, StoredAst>> {
     const files = await this.collectFiles(root);
-    const asts: Record<string, { ast: string; format: string; language: string }> = {};
+    const asts: Record<string, StoredAst> = {};
     for (const file of files) {
       const relPath = relative(root, file).replace(/\\/g, '/');
-      const ext = extname(file).toLowerCase();
+      if (onlyFiles && !onlyFiles.has(relPath)) continue;
       const code = await readFile(file, 'utf8');
-      let ast: string | null = null;
-      let format = '';
-      let lang = '';
-      // Try Tree-sitter first
+      const parsed = this.parseSource(code, extname(file).toLowerCase());
+      if (parsed) asts[relPath] = parsed;
+    }
+    return asts;
+  }
+
+  // Serialized AST of a single source file (Tree-sitter, else TS compiler for JS/TS)
+  parseSource(code: string, ext: string): StoredAst | null {
+    let ast: string | null = null;
+    let format = '';
+    let lang = '';
+    // Try Tree-sitter first
+    try {
+      const parsed = this.parseWithTreeSitter(code, ext);
+      if (parsed) {
+        ast = JSON.stringify(this.serializeTreeSitterAst((parsed as any).tree.rootNode));
+        format = 'tree-sitter-json';
+        lang = parsed.langKey;
+      }
+    } catch { }
+    // Fallback to TS compiler for JS/TS/TSX
+    if (!ast && this.tsApi && (ext === '.ts' || ext === '.tsx' || ext === '.js' || ext === '.jsx')) {
       try {
-        const parsed = this.parseWithTreeSitter(code, ext);
-        if (parsed) {
-          ast = JSON.stringify(this.serializeTreeSitterAst((parsed as any).tree.rootNode), null, 2);
-          format = 'tree-sitter-json';
-          lang = parsed.langKey;
-        }
-      } catch { }
-      // Fallback to TS compiler for JS/TS/TSX
-      if (!ast && this.tsApi && (ext === '.ts' || ext === '.tsx' || ext === '.js' || ext === '.jsx')) {
-        try {
-          const ts = this.tsApi;
-          const scriptKind = ext === '.tsx' ? ts.ScriptKind.TSX : ext === '.jsx' ? ts.ScriptKind.JSX : ts.ScriptKind.TS;
-          const sf = ts.createSourceFile('tmp' + ext, code, ts.ScriptTarget.ES2020, true, scriptKind);
-          const serialize = (n: any): any => {
-            const nodeObj: any = {
-              type: ts.SyntaxKind[n.kind],
-              pos: n.pos,
-              end: n.end,
-              children: [] as any[],
-            };
-            ts.forEachChild(n, (c: any) => {
-              nodeObj.children.push(serialize(c));
-            });
-            return nodeObj;
+        const ts = this.tsApi;
+        const scriptKind = ext === '.tsx' ? ts.ScriptKind.TSX : ext === '.jsx' ? ts.ScriptKind.JSX : ts.ScriptKind.TS;
+        const sf = ts.createSourceFile('tmp' + ext, code, ts.ScriptTarget.ES2020, true, scriptKind);
+        const serialize = (n: any): any => {
+          const nodeObj: any = {
+            type: ts.SyntaxKind[n.kind],
+            pos: n.pos,
+            end: n.end,
+            children: [] as any[],
           };
-          ast = JSON.stringify(serialize(sf), null, 2);
-          format = 'ts-compiler-json';
-          lang = 'typescript-like';
-        } catch { }
-      }
-      if (ast) {
-        asts[relPath] = { ast, format, language: lang };
-      }
+          ts.forEachChild(n, (c: any) => {
+            nodeObj.children.push(serialize(c));
+          });
+          return nodeObj;
+        };
+        ast = JSON.stringify(serialize(sf));
+        format = 'ts-compiler-json';
+        lang = 'typescript-like';
+      } catch { }
     }
-    return asts;
+    return ast ? { ast, format, language: lang, lineStarts: this.lineStarts(code) } : null;
+  }
+
+  private lineStarts(code: string): number[] {
+    const starts = [0];
+    for (let i = code.indexOf('\n'); i !== -1; i = code.indexOf('\n', i + 1)) starts.push(i + 1);
+    return starts;
   }
 
   private async collectFiles(root: string): Promise<string[]> {
-    const walk = async (dir: string, acc: string[] = []) => {
-      const entries = await readdir(dir, { withFileTypes: true });
-      for (const e of entries) {
-        const p = join(dir, e.name);
-        if (e.isDirectory()) {
-          const name = e.name.toLowerCase();
-          if (name === '.git' || name === 'node_modules' || name === 'dist' || name === 'build' || name === '.next') {
-            continue;
-          }
-          await walk(p, acc);
-        } else acc.push(p);
-      }
-      return acc;
-    };
-    return walk(root);
+    return (await this.fileCollector.collect(root)).files;
   }
+
 }
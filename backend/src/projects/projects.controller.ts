@@ -1,18 +1,52 @@
-import { Body, Controller, Get, Param, Post, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
+import { Body, Controller, Delete, Get, Param, Post, Put, Query, Req, Res, HttpCode, HttpException, HttpStatus, MessageEvent, Sse, UseGuards } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { Observable } from 'rxjs';
 import { PrismaService } from '../prisma/prisma.service';
 import { AnalysisService } from '../analysis/analysis.service';
+import { AnalysisRunService } from '../analysis/analysis-run.service';
+import { AstStorageService } from '../analysis/ast-storage.service';
+import { StructuralQueryService, StructuralQueryRequest } from '../analysis/structural-query.service';
+import { AnalysisProgressService } from '../analysis/analysis-progress.service';
+import { AnalysisSchedulerService } from '../analysis/analysis-scheduler.service';
+import { HotspotService } from '../analysis/hotspot.service';
+import { SymbolIndexService } from '../analysis/symbol-index.service';
+import { IssueTrackingService } from '../analysis/issue-tracking.service';
+import { BaselineService } from '../analysis/baseline.service';
+import { ProjectSettingsService } from '../analysis/project-settings.service';
+import { JobsService } from '../jobs/jobs.service';
 import { AuthGuard } from '../auth/auth.guard';
 
 @Controller('projects')
 @UseGuards(AuthGuard)
 export class ProjectsController {
-  constructor(private readonly prisma: PrismaService, private readonly analysis: AnalysisService) { }
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly analysis: AnalysisService,
+    private readonly analysisRuns: AnalysisRunService,
+    private readonly astStorage: AstStorageService,
+    private readonly structuralQueries: StructuralQueryService,
+    private readonly analysisProgress: AnalysisProgressService,
+    private readonly scheduler: AnalysisSchedulerService,
+    private readonly hotspots: HotspotService,
+    private readonly symbolIndex: SymbolIndexService,
+    private readonly issueTracking: IssueTrackingService,
+    private readonly baseline: BaselineService,
+    private readonly projectSettings: ProjectSettingsService,
+    private readonly jobs: JobsService,
+  ) { }
 
   @Get()
   async list() {
     const projects = await (this.prisma as any).project.findMany({
-      include: { issues: true, user: true },
+      include: { user: true, currentRun: { select: { summary: true } } },
     });
+    // Counts reflect each project's current run only, without baselined findings
+    for (const p of projects) {
+      p.issues = await (this.prisma as any).issue.findMany({
+        where: this.analysisRuns.reportedIssueWhere(p.id, p.currentRunId),
+        select: { issueType: true },
+      });
+    }
     return projects.map((p: any) => ({
       id: p.id,
       name: p.name,
@@ -25,46 +59,113 @@ export class ProjectsController {
         duplicateCode: p.issues.filter((i: any) => i.issueType === 'DuplicateCode').length,
         magicNumbers: p.issues.filter((i: any) => i.issueType === 'MagicNumber').length,
       },
+      qualityGate: p.currentRun?.summary?.qualityGate ?? null, // verdict of the current run
     }));
   }
 
+  // Baselined findings are left out unless includeBaselined=true
   @Get(':projectId')
-  async details(@Param('projectId') projectId: string) {
+  async details(@Param('projectId') projectId: string, @Query('includeBaselined') includeBaselined?: string) {
     const id = Number(projectId);
     const project = await (this.prisma as any).project.findUnique({
       where: { id },
-      include: { issues: true },
+      include: { currentRun: true },
     });
     if (!project) return { error: 'Not found' };
+    project.issues = await (this.prisma as any).issue.findMany({
+      where: this.analysisRuns.reportedIssueWhere(id, project.currentRunId, includeBaselined === 'true'),
+    });
 
     // Load full file list from ProjectFile inventory (falls back to files from issues if empty)
     const inv = await (this.prisma as any).projectFile?.findMany?.({ where: { projectId: id } }) || [];
-    const files = inv.length ? inv.map((f: any) => f.filePath) : Array.from(new Set(project.issues.map((i: any) => i.filePath)));
-    const astFiles = await (this.prisma as any).fileAst?.findMany?.({ where: { projectId: id }, select: { filePath: true } }) || [];
+    const analyzed = inv.filter((f: any) => !f.excludedReason);
+    const files = analyzed.length ? analyzed.map((f: any) => f.filePath) : Array.from(new Set(project.issues.map((i: any) => i.filePath)));
+    const astFiles = await (this.prisma as any).fileAst?.findMany?.({
+      where: this.analysisRuns.fileAstSnapshotWhere(id, project.currentRunId),
+      select: { filePath: true },
+    }) || [];
     const astAvailable = new Set(astFiles.map((f: any) => f.filePath));
+    const analysisJob = await this.jobs.activeJob(id, 'analysis');
 
     return {
       id: project.id,
       name: project.name,
-      language: project.language,
+      language: project.language, // primary language; every supported language is analyzed
+      languageBreakdown: project.currentRun?.summary?.languages ?? {},
+      ref: project.ref,
+      sourceType: project.sourceType,
+      excludeGlobs: project.excludeGlobs,
+      ...this.scheduler.describe(project),
+      ...await this.baseline.describe(project),
       status: project.status,
       analysisStage: project.analysisStage, // Include analysis stage for frontend progress tracking
       files,
       fileInventory: inv,
       astFiles: Array.from(astAvailable),
       issues: project.issues,
+      currentRun: project.currentRun,
+      analysisJob: analysisJob && { id: analysisJob.id, status: analysisJob.status, queuePosition: analysisJob.queuePosition },
     };
   }
 
-  // Return the stored AST for a given file in a project
+  /**
+   * Return the stored AST for a given file in a project. The whole tree by default;
+   * start/end (offsets) or startLine/endLine select the smallest node containing the
+   * range (type: the innermost such node of that type), and depth cuts it off below
+   * that many levels (cut nodes carry childCount).
+   */
   @Get(':projectId/ast/*')
-  async fileAst(@Param('projectId') projectId: string, @Param() params: any) {
+  async fileAst(@Param('projectId') projectId: string, @Param() params: any, @Query() query: Record<string, string>) {
     const id = Number(projectId);
     // params['0'] captures the wildcard after /ast/
     const relPath = decodeURIComponent(params['0'] || '');
-    const row = await (this.prisma as any).fileAst?.findFirst?.({ where: { projectId: id, filePath: relPath } });
+    const currentRunId = await this.analysisRuns.getCurrentRunId(id);
+    const row = await (this.prisma as any).fileAst?.findFirst?.({
+      where: { ...this.analysisRuns.fileAstSnapshotWhere(id, currentRunId), filePath: relPath },
+      include: { blob: true },
+    });
     if (!row) return { error: 'AST not found' };
-    return { filePath: row.filePath, language: row.language, format: row.astFormat, ast: row.ast };
+    const num = (key: string) => {
+      if (query[key] == null || query[key] === '') return undefined;
+      const n = Number(query[key]);
+      if (!Number.isInteger(n) || n < 0) {
+        throw new HttpException({ success: false, message: `${key} must be a non-negative integer` }, HttpStatus.BAD_REQUEST);
+      }
+      return n;
+    };
+    const subtree = await this.astStorage.subtree(row, {
+      start: num('start'),
+      end: num('end'),
+      startLine: num('startLine'),
+      endLine: num('endLine'),
+      type: query.type || undefined,
+      depth: num('depth'),
+    });
+    return { filePath: row.filePath, language: row.language, format: row.astFormat, ...subtree };
+  }
+
+  /**
+   * Run a Tree-sitter query over the project's code. Responds with newline-delimited
+   * JSON: one line per match, then a summary line with `done: true`.
+   */
+  @Post(':projectId/query')
+  async structuralQuery(@Param('projectId') projectId: string, @Body() body: StructuralQueryRequest, @Res() res: Response) {
+    const prepared = await this.structuralQueries.prepare(Number(projectId), body || ({} as StructuralQueryRequest));
+    let closed = false;
+    res.on('close', () => { closed = true; });
+    res.status(HttpStatus.OK).setHeader('Content-Type', 'application/x-ndjson');
+    try {
+      for await (const match of this.structuralQueries.matches(prepared)) {
+        if (closed) break;
+        if (!res.write(JSON.stringify(match) + '\n')) {
+          await new Promise((resolve) => { res.once('drain', resolve); res.once('close', resolve); });
+        }
+      }
+      res.end(JSON.stringify({ done: true, ...prepared.stats }) + '\n');
+    } catch (err: any) {
+      // Headers are already sent; report the failure in the stream
+      res.end(JSON.stringify({ done: false, error: err?.message || 'Query failed', ...prepared.stats }) + '\n');
+    }
   }
 
   // Explicit endpoint to list files with support and AST flags
@@ -72,22 +173,166 @@ export class ProjectsController {
   async listFiles(@Param('projectId') projectId: string) {
     const id = Number(projectId);
     const inv = await (this.prisma as any).projectFile?.findMany?.({ where: { projectId: id } }) || [];
-    const ast = await (this.prisma as any).fileAst?.findMany?.({ where: { projectId: id }, select: { filePath: true } }) || [];
+    const currentRunId = await this.analysisRuns.getCurrentRunId(id);
+    const ast = await (this.prisma as any).fileAst?.findMany?.({
+      where: this.analysisRuns.fileAstSnapshotWhere(id, currentRunId),
+      select: { filePath: true },
+    }) || [];
     const astSet = new Set(ast.map((a: any) => a.filePath));
     return inv.map((f: any) => ({ ...f, hasAst: astSet.has(f.filePath) }));
   }
 
+  // Analysis run history, newest first
+  @Get(':projectId/runs')
+  async listRuns(@Param('projectId') projectId: string) {
+    return this.analysisRuns.listRuns(Number(projectId));
+  }
+
+  // A single run with the issues that were open in it
+  @Get(':projectId/runs/:runId')
+  async getRun(@Param('projectId') projectId: string, @Param('runId') runId: string) {
+    return this.analysisRuns.getRun(Number(projectId), Number(runId));
+  }
+
+  // Show an older (or newer) completed run as the project's current results
+  @Put(':projectId/runs/:runId/current')
+  async setCurrentRun(@Param('projectId') projectId: string, @Param('runId') runId: string) {
+    return this.analysisRuns.setCurrentRun(Number(projectId), Number(runId));
+  }
+
+  // Current issues filtered by owner, author (email), severity and type; comma-separated values match any.
+  // Baselined findings are left out unless includeBaselined=true
+  @Get(':projectId/issues')
+  async listIssues(
+    @Param('projectId') projectId: string,
+    @Query('owner') owner?: string,
+    @Query('author') author?: string,
+    @Query('severity') severity?: string,
+    @Query('type') type?: string,
+    @Query('includeBaselined') includeBaselined?: string,
+  ) {
+    const list = (value?: string) => value?.split(',').map((v) => v.trim()).filter(Boolean);
+    return this.analysisRuns.listIssues(Number(projectId), {
+      owners: list(owner),
+      authors: list(author),
+      severities: list(severity),
+      issueTypes: list(type),
+      includeBaselined: includeBaselined === 'true',
+    });
+  }
+
+  // Freeze the current run's findings as the baseline (replacing any previous one)
+  @Put(':projectId/baseline')
+  async freezeBaseline(@Param('projectId') projectId: string) {
+    return this.baseline.freeze(Number(projectId));
+  }
+
+  @Delete(':projectId/baseline')
+  async resetBaseline(@Param('projectId') projectId: string) {
+    return this.baseline.reset(Number(projectId));
+  }
+
+  // Triage an issue: Pending, Confirmed, WontFix or FalsePositive; later runs keep it for the same finding
+  @Put(':projectId/issues/:issueId/status')
+  async setIssueStatus(@Param('projectId') projectId: string, @Param('issueId') issueId: string, @Body() body: { status?: string }) {
+    return this.issueTracking.setStatus(Number(projectId), Number(issueId), String(body?.status ?? ''));
+  }
+
+  // Comments follow the finding (its fingerprint) across runs
+  @Get(':projectId/issues/:issueId/comments')
+  async listIssueComments(@Param('projectId') projectId: string, @Param('issueId') issueId: string) {
+    return this.issueTracking.listComments(Number(projectId), Number(issueId));
+  }
+
+  @Post(':projectId/issues/:issueId/comments')
+  async addIssueComment(@Param('projectId') projectId: string, @Param('issueId') issueId: string, @Body() body: { body?: string }, @Req() req: Request) {
+    return this.issueTracking.addComment(Number(projectId), Number(issueId), (req as any).user?.id, body?.body ?? '');
+  }
+
+  // Files and functions that are both complex and frequently changed, in the current run
+  @Get(':projectId/hotspots')
+  async getHotspots(@Param('projectId') projectId: string, @Query('limit') limit?: string) {
+    return this.hotspots.getHotspots(Number(projectId), Math.min(Number(limit) || 25, 200));
+  }
+
+  // Declarations in the current run's symbol index, by name (case-insensitive, exact matches first)
+  // or by fan-in/fan-out
+  @Get(':projectId/symbols')
+  async getSymbols(
+    @Param('projectId') projectId: string,
+    @Query('name') name?: string,
+    @Query('kind') kind?: string,
+    @Query('sort') sort?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.symbolIndex.search(Number(projectId), { name, kind, sort, limit: Math.min(Number(limit) || 50, 200) });
+  }
+
+  // Where a symbol is imported and referenced across the project
+  @Get(':projectId/symbols/:symbolId/references')
+  async getSymbolReferences(@Param('projectId') projectId: string, @Param('symbolId') symbolId: string) {
+    return this.symbolIndex.references(Number(projectId), Number(symbolId));
+  }
+
+  // A function's callers and callees in the current call graph (TS/JS and Python), with fan-in/fan-out
+  @Get(':projectId/symbols/:symbolId/calls')
+  async getSymbolCalls(@Param('projectId') projectId: string, @Param('symbolId') symbolId: string) {
+    return this.symbolIndex.calls(Number(projectId), Number(symbolId));
+  }
+
+  // Stored project settings plus the effective result (defaults < user < project);
+  // the repository's .codestruct.yml still applies on top during a run
+  @Get(':projectId/settings')
+  async getSettings(@Param('projectId') projectId: string) {
+    return this.projectSettings.getSettings(Number(projectId));
+  }
+
+  @Put(':projectId/settings')
+  async updateSettings(@Param('projectId') projectId: string, @Body() body: any) {
+    return this.projectSettings.updateSettings(Number(projectId), body);
+  }
+
+  // Scheduled re-analysis: a cron expression or preset (hourly, nightly, weekly); null turns it off
+  @Put(':projectId/schedule')
+  async setSchedule(@Param('projectId') projectId: string, @Body() body: { schedule?: string | null }) {
+    if (body?.schedule != null && typeof body.schedule !== 'string') {
+      throw new HttpException({ success: false, message: 'schedule must be a string or null' }, HttpStatus.BAD_REQUEST);
+    }
+    return this.scheduler.setSchedule(Number(projectId), body?.schedule);
+  }
+
+  // Globs left out of analysis in addition to .gitignore/.gitattributes; applies from the next run
+  @Put(':projectId/exclude-globs')
+  async setExcludeGlobs(@Param('projectId') projectId: string, @Body() body: { excludeGlobs?: string[] }) {
+    const id = Number(projectId);
+    const globs = body?.excludeGlobs;
+    if (!Array.isArray(globs) || !globs.every((g) => typeof g === 'string')) {
+      throw new HttpException({ success: false, message: 'excludeGlobs must be an array of strings' }, HttpStatus.BAD_REQUEST);
+    }
+    const project = await (this.prisma as any).project.findUnique({ where: { id } });
+    if (!project) return { error: 'Not found' };
+    const excludeGlobs = Array.from(new Set(globs.map((g) => g.trim()).filter(Boolean)));
+    // Files may enter or leave the analysis, so the next run can't be incremental
+    await (this.prisma as any).project.update({ where: { id }, data: { excludeGlobs, lastAnalyzedCommit: null } });
+    return { excludeGlobs };
+  }
+
   @Post(':projectId/reanalyze')
-  async reanalyze(@Param('projectId') projectId: string, @Body() body: { language?: string }) {
+  async reanalyze(@Param('projectId') projectId: string, @Body() body: { language?: string; ref?: string }) {
     const id = Number(projectId);
     const project = await (this.prisma as any).project.findUnique({ where: { id } });
     if (!project) return { error: 'Not found' };
-    await (this.prisma as any).project.update({ where: { id }, data: { status: 'Analyzing', analysisStage: 'cloning' } });
-    // Fire-and-forget using existing start logic
-    await this.analysis.startAnalysis(project.gitUrl, body?.language || project.language, project.userId);
+    // Queued through the job runner by the existing start logic, which also resets the status
+    await this.analysis.startAnalysis(project.gitUrl, body?.language || project.language, project.userId, body?.ref);
     return { ok: true };
   }
 
+  // Live analysis progress as server-sent events: snapshot, stage, file, error and done
+  @Sse(':projectId/progress')
+  progress(@Param('projectId') projectId: string): Observable<MessageEvent> {
+    return this.analysisProgress.stream(Number(projectId));
+  }
+
   @Post(':projectId/stop-analysis')
   async stopAnalysis(@Param('projectId') projectId: string) {
     const id = Number(projectId);
@@ -102,18 +347,19 @@ export class ProjectsController {
         analysisStage: 'stopped' 
       } 
     });
+    // Drop queued runs and flag the running one so it stops at its next checkpoint
+    await this.jobs.cancelForProject(id, 'analysis');
     
     return { ok: true, message: 'Analysis stop requested' };
   }
 
   @Post(':projectId/analyze')
   @HttpCode(HttpStatus.ACCEPTED)
-  async analyzeAlias(@Param('projectId') projectId: string, @Body() body: { language?: string }) {
+  async analyzeAlias(@Param('projectId') projectId: string, @Body() body: { language?: string; ref?: string }) {
     const id = Number(projectId);
     const project = await (this.prisma as any).project.findUnique({ where: { id } });
     if (!project) return { error: 'Not found' };
-    await (this.prisma as any).project.update({ where: { id }, data: { status: 'Analyzing' } });
-    await this.analysis.startAnalysis(project.gitUrl, body?.language || project.language, project.userId);
+    await this.analysis.startAnalysis(project.gitUrl, body?.language || project.language, project.userId, body?.ref);
     return { projectId: id, status: 'Analyzing' };
   }
 
@@ -121,12 +367,12 @@ export class ProjectsController {
   async getRefactoringProgress(@Param('projectId') projectId: string) {
     const id = Number(projectId);
 
-    // Get all refactoring suggestions for this project (both pending and completed)
+    // Get all refactoring suggestions for this project (both pending and completed).
+    // Suggestions are copied to each run's issues, so only the current run's count
+    const currentRunId = await this.analysisRuns.getCurrentRunId(id);
     const suggestions = await (this.prisma as any).refactoringSuggestion.findMany({
       where: {
-        issue: {
-          projectId: id
-        }
+        issue: this.analysisRuns.issueSnapshotWhere(id, currentRunId)
       },
       include: {
         issue: {
@@ -170,13 +416,12 @@ export class ProjectsController {
   async getAcceptedRefactorings(@Param('projectId') projectId: string) {
     const id = Number(projectId);
 
-    // Get all accepted refactoring suggestions for this project
+    // Get all accepted refactoring suggestions for this project, on the current run's issues
+    const currentRunId = await this.analysisRuns.getCurrentRunId(id);
     const refactorings = await (this.prisma as any).refactoringSuggestion.findMany({
       where: {
         status: 'accepted',
-        issue: {
-          projectId: id
-        }
+        issue: this.analysisRuns.issueSnapshotWhere(id, currentRunId)
       },
       include: {
         issue: {
@@ -3,6 +3,7 @@ import { ProjectsController } from './projects.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { AnalysisModule } from '../analysis/analysis.module';
 import { AuthModule } from '../auth/auth.module';
+import { JobsModule } from '../jobs/jobs.module';
 
-@Module({ imports: [PrismaModule, AnalysisModule, AuthModule], controllers: [ProjectsController] })
+@Module({ imports: [PrismaModule, AnalysisModule, AuthModule, JobsModule], controllers: [ProjectsController] })
 export class ProjectsModule { }
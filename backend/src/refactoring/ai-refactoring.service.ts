@@ -154,6 +154,10 @@ Provide the refactored code:`;
             DeadCode: 'Remove the unused code while ensuring no side effects or dependencies are broken.',
 
             FeatureEnvy: 'Move the method to the class it is most interested in, or extract the envious operations into the appropriate class.',
+
+            IgnoredError: 'Handle the error instead of discarding it with _: return it wrapped with context, or handle it where it occurs.',
+
+            LongSwitch: 'Replace the long switch with a map of handlers or an interface implemented per case.',
         };
 
         return prompts[issueType] || 'Refactor the code to address the identified issue while maintaining clarity and functionality.';
@@ -271,6 +275,8 @@ ${prompt}`;
             MagicNumber: `Replaced magic numbers with named constants for better clarity and maintainability.`,
             DeadCode: `Removed ${changeCount} lines of unused code.`,
             FeatureEnvy: `Moved method to the appropriate class to improve cohesion.`,
+            IgnoredError: `Handled the previously discarded error.`,
+            LongSwitch: `Replaced the long switch with a dispatch table.`,
         };
 
         return explanations[issueType] || `Applied ${changeCount} changes to address the ${issueType} issue.`;
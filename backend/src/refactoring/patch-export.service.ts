@@ -0,0 +1,97 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { execFile } from 'child_process';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join, resolve, sep } from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { RefactoringService } from './refactoring.service';
+import { GitHubPRService } from '../github/github-pr.service';
+import { ProjectSourceService } from '../analysis/project-source.service';
+
+/**
+ * Accepted refactorings as a patch file instead of a PR. Works for every project
+ * source, so it is the way to ship fixes for uploaded and local projects.
+ */
+@Injectable()
+export class PatchExportService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly refactoringService: RefactoringService,
+    private readonly githubPRService: GitHubPRService,
+    private readonly projectSources: ProjectSourceService,
+  ) { }
+
+  /**
+   * Build a unified diff (for `git apply` or `patch -p1`) against the analyzed code:
+   * the last analyzed commit for git projects, the stored tree for the others.
+   * Without issueIds, all accepted suggestions of the current snapshot are used.
+   */
+  async buildPatch(projectId: number, issueIds?: number[]) {
+    const project = await (this.prisma as any).project.findUnique({ where: { id: projectId } });
+    if (!project) throw new NotFoundException('Project not found');
+
+    if (!issueIds?.length) {
+      const accepted = await (this.prisma as any).refactoringSuggestion.findMany({
+        where: { status: 'accepted', issue: { projectId, resolvedRunId: null } },
+        select: { issueId: true },
+      });
+      issueIds = Array.from(new Set<number>(accepted.map((s: any) => s.issueId)));
+    }
+    const refactorings = await this.refactoringService.getAcceptedRefactoringsData(issueIds);
+    if (!refactorings.length) {
+      return { patch: '', filesModified: 0, refactoringsApplied: 0 };
+    }
+
+    const source = await this.projectSources.checkout(project, project.lastAnalyzedCommit || project.ref);
+    const work = await mkdtemp(join(tmpdir(), 'codestruct-patch-'));
+    try {
+      const byFile = new Map<string, typeof refactorings>();
+      for (const refactoring of refactorings) {
+        const list = byFile.get(refactoring.filePath) || [];
+        list.push(refactoring);
+        byFile.set(refactoring.filePath, list);
+      }
+
+      let filesModified = 0;
+      for (const [filePath, fileRefactorings] of byFile) {
+        // Issue paths are repo-relative; never read outside the checked-out tree
+        const absPath = resolve(source.dir, filePath);
+        if (!absPath.startsWith(source.dir + sep)) continue;
+        const original = await readFile(absPath, 'utf8').catch(() => null);
+        if (original === null) {
+          console.error(`[patch] ${filePath} not found in project ${projectId} sources`);
+          continue;
+        }
+        const updated = fileRefactorings.reduce(
+          (content, refactoring) => this.githubPRService.applyRefactoringToFile(content, refactoring),
+          original,
+        );
+        if (updated === original) continue;
+        for (const [side, content] of [['a', original], ['b', updated]] as const) {
+          const target = join(work, side, filePath);
+          await mkdir(dirname(target), { recursive: true });
+          await writeFile(target, content);
+        }
+        filesModified++;
+      }
+
+      const patch = filesModified ? await this.diffTrees(work) : '';
+      return { patch, filesModified, refactoringsApplied: refactorings.length };
+    } finally {
+      await rm(work, { recursive: true, force: true }).catch(() => { });
+      await source.release();
+    }
+  }
+
+  // git diff --no-index exits with 1 when the trees differ, which is the normal case here
+  private diffTrees(work: string): Promise<string> {
+    return new Promise((resolvePatch, reject) => {
+      execFile(
+        'git',
+        ['diff', '--no-index', '--no-color', '--no-prefix', 'a', 'b'],
+        { cwd: work, maxBuffer: 64 * 1024 * 1024 },
+        (err: any, stdout) => (err && err.code !== 1 ? reject(err) : resolvePatch(stdout)),
+      );
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { RefactoringService } from './refactoring.service';
+import { GitHubPRService } from '../github/github-pr.service';
+import { JobContext, JobsService } from '../jobs/jobs.service';
+
+/**
+ * Registers the queued refactoring work: bulk AI generation and PR creation
+ */
+@Injectable()
+export class RefactoringJobsService implements OnModuleInit {
+  constructor(
+    private readonly jobs: JobsService,
+    private readonly refactoringService: RefactoringService,
+    private readonly githubPRService: GitHubPRService,
+  ) { }
+
+  onModuleInit() {
+    this.jobs.registerHandler('bulk-generate-fixes', (payload, ctx) => this.bulkGenerateFixes(payload, ctx));
+    this.jobs.registerHandler('regenerate-all', (payload, ctx) => this.regenerateAll(payload, ctx));
+    this.jobs.registerHandler('create-pr', (payload) => this.createPR(payload));
+  }
+
+  private async bulkGenerateFixes(payload: { issueIds: number[]; projectId: number }, ctx: JobContext) {
+    const results = await this.refactoringService.bulkGenerateFixes(payload.issueIds, payload.projectId, ctx.isCancelled);
+    return { results, summary: this.summarize(results, payload.issueIds.length) };
+  }
+
+  private async regenerateAll(payload: { projectId: number; forceRegenerate?: boolean }, ctx: JobContext) {
+    const results = await this.refactoringService.regenerateAllSuggestions(
+      payload.projectId,
+      payload.forceRegenerate || false,
+      ctx.isCancelled,
+    );
+    return { results, summary: this.summarize(results, results.length) };
+  }
+
+  private async createPR(payload: { userId: number; projectId: number; acceptedIssueIds: number[] }) {
+    const acceptedRefactorings = await this.refactoringService.getAcceptedRefactoringsData(payload.acceptedIssueIds);
+    if (!acceptedRefactorings.length) {
+      throw new Error('No accepted refactorings found for the selected issues');
+    }
+    const prResult = await this.githubPRService.createRefactoringPR(payload.userId, payload.projectId, acceptedRefactorings);
+    return {
+      pullRequest: prResult.pullRequest,
+      stats: {
+        refactoringsApplied: prResult.refactoringsApplied,
+        filesModified: prResult.filesModified,
+      },
+    };
+  }
+
+  private summarize(results: Array<{ success: boolean }>, total: number) {
+    return {
+      total,
+      successful: results.filter((r) => r.success).length,
+      failed: results.filter((r) => !r.success).length,
+    };
+  }
+}
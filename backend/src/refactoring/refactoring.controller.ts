@@ -1,7 +1,9 @@
-import { Controller, Param, Post, Get, Delete, UseGuards, HttpException, HttpStatus, Body, Request } from '@nestjs/common';
+import { Controller, Param, Post, Get, Delete, UseGuards, HttpException, HttpStatus, HttpCode, Body, Request } from '@nestjs/common';
 import { RefactoringService } from './refactoring.service';
 import { AIRefactoringService } from './ai-refactoring.service';
-import { GitHubPRService } from '../github/github-pr.service';
+import { JobsService } from '../jobs/jobs.service';
+import { PatchExportService } from './patch-export.service';
+import { PrismaService } from '../prisma/prisma.service';
 import { AuthGuard } from '../auth/auth.guard';
 
 @Controller('issues')
@@ -10,7 +12,9 @@ export class RefactoringController {
   constructor(
     private readonly refactoringService: RefactoringService,
     private readonly aiRefactoringService: AIRefactoringService,
-    private readonly githubPRService: GitHubPRService,
+    private readonly jobs: JobsService,
+    private readonly patchExport: PatchExportService,
+    private readonly prisma: PrismaService,
   ) { }
 
   @Post(':id/generate-fix')
@@ -20,31 +24,26 @@ export class RefactoringController {
   }
 
   /**
-   * Bulk fix multiple issues at once
+   * Queue AI fixes for multiple issues; poll GET /jobs/:jobId for the results
    */
   @Post('bulk/generate-fixes')
-  async bulkGenerateFixes(@Body() body: { issueIds: number[]; projectId: number }) {
+  @HttpCode(HttpStatus.ACCEPTED)
+  async bulkGenerateFixes(@Request() req: any, @Body() body: { issueIds: number[]; projectId: number }) {
     console.log('Bulk generate fixes endpoint called with:', body);
     
     try {
-      const results = await this.refactoringService.bulkGenerateFixes(body.issueIds, body.projectId);
-      console.log('Bulk generate fixes completed, results:', results.length);
-      
-      return {
-        success: true,
-        results: results,
-        summary: {
-          total: body.issueIds.length,
-          successful: results.filter((r: any) => r.success).length,
-          failed: results.filter((r: any) => !r.success).length,
-        }
-      };
+      const job = await this.jobs.enqueue(
+        'bulk-generate-fixes',
+        { issueIds: body.issueIds, projectId: body.projectId },
+        { projectId: body.projectId, userId: req.user?.id },
+      );
+      return { success: true, jobId: job.id, status: job.status, queuePosition: job.queuePosition };
     } catch (error: any) {
       console.error('Bulk generate fixes error:', error);
       throw new HttpException(
         {
           success: false,
-          message: error.message || 'Failed to generate bulk fixes',
+          message: error.message || 'Failed to queue bulk fixes',
         },
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
@@ -182,7 +181,7 @@ export class RefactoringController {
   }
 
   /**
-   * Accept multiple refactorings and optionally create PR
+   * Accept multiple refactorings and optionally queue PR creation
    */
   @Post('bulk/accept-all')
   async acceptAllRefactorings(
@@ -193,31 +192,38 @@ export class RefactoringController {
       createPR?: boolean;
     }
   ) {
+    if (body.createPR) {
+      const project = await (this.prisma as any).project.findUnique({ where: { id: body.projectId } });
+      if (project && project.sourceType !== 'git') {
+        throw new HttpException(
+          { success: false, message: 'Pull requests are only available for git projects; export a patch instead' },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+    }
+
     try {
       console.log('Accept all refactorings called with:', body);
       
-      // 1. Get accepted refactorings data
-      const acceptedRefactorings = await this.getAcceptedRefactoringsData(body.acceptedIssueIds);
-      
-      // 2. Mark all suggestions as accepted in database
+      // 1. Mark all suggestions as accepted in database
       await this.markRefactoringsAsAccepted(body.acceptedIssueIds);
       
-      // 3. If user wants to create PR, do it
-      if (body.createPR && acceptedRefactorings.length > 0) {
-        const prResult = await this.githubPRService.createRefactoringPR(
-          req.user.id,
-          body.projectId,
-          acceptedRefactorings
+      // 2. If user wants to create PR, queue it; poll GET /jobs/:jobId for the PR link
+      if (body.createPR && body.acceptedIssueIds.length > 0) {
+
+        // PR creation is not idempotent (branch + commit), so it is never retried
+        const job = await this.jobs.enqueue(
+          'create-pr',
+          { userId: req.user.id, projectId: body.projectId, acceptedIssueIds: body.acceptedIssueIds },
+          { projectId: body.projectId, userId: req.user.id, maxAttempts: 1 },
         );
         
         return {
           success: true,
-          message: 'Refactorings accepted and PR created successfully',
-          pullRequest: prResult.pullRequest,
-          stats: {
-            refactoringsApplied: prResult.refactoringsApplied,
-            filesModified: prResult.filesModified,
-          }
+          message: 'Refactorings accepted, PR creation queued',
+          jobId: job.id,
+          status: job.status,
+          queuePosition: job.queuePosition,
         };
       }
 
@@ -225,7 +231,7 @@ export class RefactoringController {
         success: true, 
         message: 'Refactorings accepted successfully',
         stats: {
-          refactoringsApplied: acceptedRefactorings.length,
+          refactoringsApplied: body.acceptedIssueIds.length,
         }
       };
     } catch (error: any) {
@@ -240,31 +246,25 @@ export class RefactoringController {
     }
   }
 
-  private async getAcceptedRefactoringsData(issueIds: number[]) {
-    // Get refactoring data from persistent storage for accepted issues
-    const refactorings = [];
-    
-    for (const issueId of issueIds) {
-      try {
-        const suggestion = await this.refactoringService.getRefactoringSuggestion(issueId);
-        if (suggestion) {
-          refactorings.push({
-            issueId: issueId,
-            filePath: suggestion.issue.filePath,
-            originalCode: suggestion.originalCode,
-            refactoredCode: suggestion.refactoredCode,
-            issueType: suggestion.issue.issueType,
-            lineStart: suggestion.issue.lineStart || 1,
-            lineEnd: suggestion.issue.lineEnd || 1,
-          });
-        }
-      } catch (error) {
-        console.error(`Failed to get refactoring data for issue ${issueId}:`, error);
-        // Continue with other issues
-      }
+  /**
+   * Accepted refactorings as a unified diff; without acceptedIssueIds every accepted
+   * suggestion of the project is included
+   */
+  @Post('bulk/export-patch')
+  async exportPatch(@Body() body: { projectId: number; acceptedIssueIds?: number[] }) {
+    try {
+      const result = await this.patchExport.buildPatch(Number(body.projectId), body.acceptedIssueIds);
+      return { success: true, ...result };
+    } catch (error: any) {
+      console.error('Export patch error:', error);
+      throw new HttpException(
+        {
+          success: false,
+          message: error.message || 'Failed to export patch',
+        },
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
     }
-    
-    return refactorings;
   }
 
   private async markRefactoringsAsAccepted(issueIds: number[]) {
@@ -280,34 +280,33 @@ export class RefactoringController {
   }
 
   /**
-   * Regenerate all refactoring suggestions for a project
+   * Queue regeneration of all refactoring suggestions for a project
    */
   @Post('bulk/regenerate-all')
-  async regenerateAllSuggestions(@Body() body: { projectId: number; forceRegenerate?: boolean }) {
+  @HttpCode(HttpStatus.ACCEPTED)
+  async regenerateAllSuggestions(@Request() req: any, @Body() body: { projectId: number; forceRegenerate?: boolean }) {
     try {
       console.log(`Regenerating suggestions for project ${body.projectId}, force: ${body.forceRegenerate}`);
       
-      const results = await this.refactoringService.regenerateAllSuggestions(
-        body.projectId, 
-        body.forceRegenerate || false
+      const job = await this.jobs.enqueue(
+        'regenerate-all',
+        { projectId: body.projectId, forceRegenerate: body.forceRegenerate || false },
+        { projectId: body.projectId, userId: req.user?.id, unique: true },
       );
       
       return {
         success: true,
-        message: body.forceRegenerate ? 'All suggestions regenerated' : 'Missing suggestions generated',
-        results: results,
-        summary: {
-          total: results.length,
-          successful: results.filter((r: any) => r.success).length,
-          failed: results.filter((r: any) => !r.success).length,
-        }
+        message: body.forceRegenerate ? 'Regeneration of all suggestions queued' : 'Generation of missing suggestions queued',
+        jobId: job.id,
+        status: job.status,
+        queuePosition: job.queuePosition,
       };
     } catch (error: any) {
       console.error('Regenerate all suggestions error:', error);
       throw new HttpException(
         {
           success: false,
-          message: error.message || 'Failed to regenerate suggestions',
+          message: error.message || 'Failed to queue suggestion regeneration',
         },
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
@@ -6,10 +6,14 @@ import { PrismaModule } from '../prisma/prisma.module';
 import { AuthModule } from '../auth/auth.module';
 import { GitHubModule } from '../github/github.module';
 import { ValidationModule } from '../validation/validation.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { RefactoringJobsService } from './refactoring-jobs.service';
+import { PatchExportService } from './patch-export.service';
+import { AnalysisModule } from '../analysis/analysis.module';
 
 @Module({
-  imports: [PrismaModule, AuthModule, GitHubModule, ValidationModule],
-  providers: [RefactoringService, AIRefactoringService],
+  imports: [PrismaModule, AuthModule, GitHubModule, ValidationModule, JobsModule, AnalysisModule],
+  providers: [RefactoringService, AIRefactoringService, RefactoringJobsService, PatchExportService],
   controllers: [RefactoringController],
   exports: [RefactoringService, AIRefactoringService],
 })
@@ -50,7 +50,7 @@ export class RefactoringService {
     }
   }
 
-  async bulkGenerateFixes(issueIds: number[], projectId: number) {
+  async bulkGenerateFixes(issueIds: number[], projectId: number, shouldStop?: () => Promise<boolean>) {
     console.log(`[Bulk Refactoring] Starting bulk fix for ${issueIds.length} issues in project ${projectId}`);
     
     const results: Array<{
@@ -65,6 +65,10 @@ export class RefactoringService {
     // Process issues in batches to avoid overwhelming the API
     const batchSize = 5;
     for (let i = 0; i < issueIds.length; i += batchSize) {
+      if (shouldStop && await shouldStop()) {
+        console.log(`[Bulk Refactoring] Stopped after ${results.length}/${issueIds.length} issues`);
+        break;
+      }
       const batch = issueIds.slice(i, i + batchSize);
       console.log(`[Bulk Refactoring] Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(issueIds.length / batchSize)}`);
 
@@ -192,11 +196,11 @@ export class RefactoringService {
     };
   }
 
-  async regenerateAllSuggestions(projectId: number, forceRegenerate: boolean = false) {
+  async regenerateAllSuggestions(projectId: number, forceRegenerate: boolean = false, shouldStop?: () => Promise<boolean>) {
     console.log(`[Refactoring] ${forceRegenerate ? 'Force regenerating' : 'Checking'} suggestions for project ${projectId}`);
     
     const issues = await (this.prisma as any).issue.findMany({
-      where: { projectId: projectId }
+      where: { projectId: projectId, resolvedRunId: null }
     });
 
     if (forceRegenerate) {
@@ -212,7 +216,36 @@ export class RefactoringService {
     }
 
     const issueIds = issues.map((issue: any) => issue.id);
-    return await this.bulkGenerateFixes(issueIds, projectId);
+    return await this.bulkGenerateFixes(issueIds, projectId, shouldStop);
+  }
+
+  /**
+   * Accepted suggestion data for the given issues, in the shape the PR service applies
+   */
+  async getAcceptedRefactoringsData(issueIds: number[]) {
+    const refactorings = [];
+
+    for (const issueId of issueIds) {
+      try {
+        const suggestion = await this.getRefactoringSuggestion(issueId);
+        if (suggestion) {
+          refactorings.push({
+            issueId: issueId,
+            filePath: suggestion.issue.filePath,
+            originalCode: suggestion.originalCode,
+            refactoredCode: suggestion.refactoredCode,
+            issueType: suggestion.issue.issueType,
+            lineStart: suggestion.issue.lineStart || 1,
+            lineEnd: suggestion.issue.lineEnd || 1,
+          });
+        }
+      } catch (error) {
+        console.error(`Failed to get refactoring data for issue ${issueId}:`, error);
+        // Continue with other issues
+      }
+    }
+
+    return refactorings;
   }
 
   async deleteRefactoringSuggestion(issueId: number) {
@@ -28,6 +28,7 @@ export class UserController {
     // Get statistics
     const issuesCount = await (this.prisma as any).issue.count({
       where: {
+        resolvedRunId: null,
         project: {
           userId: userId
         }
@@ -37,6 +38,7 @@ export class UserController {
     const refactoringsCount = await (this.prisma as any).refactoringSuggestion.count({
       where: {
         issue: {
+          resolvedRunId: null,
           project: {
             userId: userId
           }
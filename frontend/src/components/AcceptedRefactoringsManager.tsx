@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { api } from '../lib/api';
+import { waitForJob } from '../lib/jobs';
+import { downloadPatch } from '../lib/patch';
 
 interface AcceptedRefactoring {
   id: string;
@@ -33,17 +35,20 @@ interface PRResult {
 
 interface AcceptedRefactoringsManagerProps {
   projectId: number;
+  canCreatePR?: boolean; // false for uploaded and local projects
   onClose: () => void;
 }
 
 const AcceptedRefactoringsManager: React.FC<AcceptedRefactoringsManagerProps> = ({
   projectId,
+  canCreatePR = true,
   onClose,
 }) => {
   const [acceptedRefactorings, setAcceptedRefactorings] = useState<AcceptedRefactoring[]>([]);
   const [selectedRefactorings, setSelectedRefactorings] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [prResult, setPrResult] = useState<PRResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -99,19 +104,27 @@ const AcceptedRefactoringsManager: React.FC<AcceptedRefactoringsManagerProps> =
         createPR: true
       });
 
-      if (data.success) {
+      if (!data.success) {
+        setError(data.message || 'Failed to create PR');
+        return;
+      }
+
+      // PR creation runs as a background job
+      const job = await waitForJob(data.jobId);
+      if (job.status === 'Completed' && job.result) {
+        const { pullRequest, stats } = job.result;
         setPrResult({
-          pullRequest: data.pullRequest,
-          refactoringsApplied: data.stats.refactoringsApplied,
-          filesModified: data.stats.filesModified,
+          pullRequest,
+          refactoringsApplied: stats.refactoringsApplied,
+          filesModified: stats.filesModified,
           stats: {
-            linesAdded: data.stats.linesAdded || 0,
-            linesRemoved: data.stats.linesRemoved || 0,
-            fileChanges: data.stats.filesModified?.length || 0
+            linesAdded: stats.linesAdded || 0,
+            linesRemoved: stats.linesRemoved || 0,
+            fileChanges: stats.filesModified?.length || 0
           }
         });
       } else {
-        setError(data.message || 'Failed to create PR');
+        setError(job.error || `PR creation ${job.status.toLowerCase()}`);
       }
     } catch (error: any) {
       setError(error.message || 'Failed to create PR');
@@ -120,6 +133,27 @@ const AcceptedRefactoringsManager: React.FC<AcceptedRefactoringsManagerProps> =
     }
   };
 
+  const handleDownloadPatch = async () => {
+    if (selectedRefactorings.length === 0) {
+      setError('Please select at least one refactoring to include in the patch');
+      return;
+    }
+
+    try {
+      setExporting(true);
+      setError(null);
+      const files = await downloadPatch(
+        projectId,
+        acceptedRefactorings.filter(r => selectedRefactorings.includes(r.id)).map(r => r.issueId),
+      );
+      if (!files) setError('None of the selected refactorings could be applied to the analyzed code');
+    } catch (error: any) {
+      setError(error?.response?.data?.message || error.message || 'Failed to export patch');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const getVerificationBadgeColor = (badge: string) => {
     switch (badge) {
       case 'verified': return 'bg-green-100 text-green-800 border-green-200';
@@ -346,9 +380,17 @@ const AcceptedRefactoringsManager: React.FC<AcceptedRefactoringsManagerProps> =
                 >
                   Cancel
                 </button>
+                <button
+                  onClick={handleDownloadPatch}
+                  disabled={selectedRefactorings.length === 0 || exporting}
+                  className="px-6 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 dark:text-blue-400 dark:border-blue-500 dark:hover:bg-neutral-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {exporting ? 'Exporting...' : `Download Patch (${selectedRefactorings.length})`}
+                </button>
                 <button
                   onClick={handleCreatePR}
-                  disabled={selectedRefactorings.length === 0 || creating}
+                  disabled={selectedRefactorings.length === 0 || creating || !canCreatePR}
+                  title={canCreatePR ? undefined : 'Pull requests are only available for git projects'}
                   className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                 >
                   {creating ? (
@@ -1,4 +1,6 @@
 import React, { useEffect, useState } from 'react';
+import { useAnalysisProgress } from '../lib/progress';
+import { AnalysisProgress } from '../types/analysis';
 
 interface AnalysisStage {
     id: string;
@@ -8,6 +10,12 @@ interface AnalysisStage {
 }
 
 const stages: AnalysisStage[] = [
+    {
+        id: 'queued',
+        label: 'Waiting in Queue',
+        description: 'Waiting for a free analysis worker',
+        icon: '⏳'
+    },
     {
         id: 'cloning',
         label: 'Cloning Repository',
@@ -38,6 +46,12 @@ const stages: AnalysisStage[] = [
         description: 'Finding redundant code patterns',
         icon: '🔄'
     },
+    {
+        id: 'hotspots',
+        label: 'Mining Git History',
+        description: 'Finding frequently changed complex code',
+        icon: '🔥'
+    },
     {
         id: 'completed',
         label: 'Analysis Complete',
@@ -46,17 +60,33 @@ const stages: AnalysisStage[] = [
     }
 ];
 
+// Stages during which files are parsed and analyzed; progress within them follows the file count
+const FILE_STAGES = ['parsing', 'analyzing'];
+
 interface AnalysisProgressLoaderProps {
+    // Streams live progress for this project; otherwise currentStage/queuePosition are shown
+    projectId?: string | number;
+    onDone?: (progress: AnalysisProgress) => void;
     currentStage?: string;
     compact?: boolean;
+    queuePosition?: number | null;
 }
 
 const AnalysisProgressLoader: React.FC<AnalysisProgressLoaderProps> = ({
-    currentStage,
-    compact = false
+    projectId,
+    onDone,
+    currentStage: initialStage,
+    compact = false,
+    queuePosition: initialQueuePosition
 }) => {
     const [activeStageIndex, setActiveStageIndex] = useState(0);
     const [progress, setProgress] = useState(0);
+    const live = useAnalysisProgress(projectId, !!projectId, onDone);
+    const currentStage = live?.stage ?? initialStage;
+    const queuePosition = live?.queuePosition ?? initialQueuePosition;
+    const fileShare = live && live.filesTotal && FILE_STAGES.includes(currentStage || '')
+        ? live.filesParsed / live.filesTotal
+        : 0;
 
     useEffect(() => {
         // If we have a specific stage from backend, use it
@@ -64,9 +94,10 @@ const AnalysisProgressLoader: React.FC<AnalysisProgressLoaderProps> = ({
             const index = stages.findIndex(s => s.id === currentStage);
             if (index !== -1) {
                 setActiveStageIndex(index);
-                setProgress((index / (stages.length - 1)) * 100);
                 return;
             }
+            // Stages without a step of their own (e.g. starting) keep the current one
+            if (live) return;
         }
 
         // Otherwise, simulate progress through stages
@@ -85,15 +116,20 @@ const AnalysisProgressLoader: React.FC<AnalysisProgressLoaderProps> = ({
     }, [currentStage]);
 
     useEffect(() => {
-        setProgress((activeStageIndex / (stages.length - 1)) * 100);
-    }, [activeStageIndex]);
+        setProgress(Math.min(100, ((activeStageIndex + fileShare) / (stages.length - 1)) * 100));
+    }, [activeStageIndex, fileShare]);
+
+    const queueNote = currentStage === 'queued' && queuePosition ? ` (#${queuePosition} in queue)` : '';
+    const fileNote = live && live.filesTotal && FILE_STAGES.includes(currentStage || '')
+        ? ` ${live.filesParsed}/${live.filesTotal} files`
+        : '';
 
     if (compact) {
         return (
             <div className="flex items-center space-x-2">
                 <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-500 border-t-transparent"></div>
                 <span className="text-sm text-neutral-600 dark:text-neutral-400">
-                    {stages[activeStageIndex]?.label}...
+                    {stages[activeStageIndex]?.label}{queueNote}{fileNote}...
                 </span>
             </div>
         );
@@ -127,7 +163,7 @@ const AnalysisProgressLoader: React.FC<AnalysisProgressLoaderProps> = ({
             </div>
 
             {/* Progress Bar */}
-            <div className="relative h-4 bg-neutral-100 dark:bg-neutral-800 rounded-full overflow-hidden mb-8">
+            <div className={`relative h-4 bg-neutral-100 dark:bg-neutral-800 rounded-full overflow-hidden ${live ? 'mb-3' : 'mb-8'}`}>
                 <div
                     className="absolute inset-y-0 left-0 bg-primary-600 transition-all duration-500 ease-out rounded-full"
                     style={{ width: `${progress}%` }}
@@ -135,6 +171,29 @@ const AnalysisProgressLoader: React.FC<AnalysisProgressLoaderProps> = ({
                 </div>
             </div>
 
+            {/* Live counts */}
+            {live && (
+                <div className="mb-8 space-y-2 text-xs text-neutral-600 dark:text-neutral-400">
+                    <div className="flex items-center justify-between gap-4">
+                        <span className="font-medium">
+                            {live.filesParsed} / {live.filesTotal || '?'} files · {live.issuesFound} issues found
+                        </span>
+                        {live.currentFile && (
+                            <span className="truncate font-mono text-neutral-500 dark:text-neutral-500" title={live.currentFile}>
+                                {live.currentFile}
+                            </span>
+                        )}
+                    </div>
+                    {live.errors.length > 0 && (
+                        <ul className="space-y-1 text-danger-600 dark:text-danger-400">
+                            {live.errors.slice(-3).map((error, i) => (
+                                <li key={i} className="truncate" title={error}>{error}</li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
             {/* Stages List */}
             <div className="space-y-3">
                 {stages.map((stage, index) => {
@@ -194,7 +253,7 @@ const AnalysisProgressLoader: React.FC<AnalysisProgressLoaderProps> = ({
                                             ? 'text-success-700 dark:text-success-300'
                                             : 'text-neutral-400 dark:text-neutral-500'
                                     }`}>
-                                    {stage.description}
+                                    {stage.description}{stage.id === 'queued' ? queueNote : ''}
                                 </p>
                             </div>
 
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../lib/api';
+import { AnalysisSchedule } from '../types/analysis';
+
+interface AnalysisSchedulePanelProps {
+  projectId: string | number;
+  schedule: AnalysisSchedule;
+  onSaved?: (schedule: AnalysisSchedule) => void;
+}
+
+const PRESETS = ['hourly', 'nightly', 'weekly'];
+
+const formatTime = (value?: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+// Periodic re-analysis: a preset or cron expression, with the next and last scheduled run
+const AnalysisSchedulePanel: React.FC<AnalysisSchedulePanelProps> = ({ projectId, schedule, onSaved }) => {
+  const [value, setValue] = useState(schedule.schedule ?? '');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setValue(schedule.schedule ?? '');
+  }, [schedule.schedule]);
+
+  const save = async (next: string) => {
+    try {
+      setSaving(true);
+      setMessage(null);
+      const { data } = await api.put(`/projects/${projectId}/schedule`, { schedule: next.trim() || null });
+      setMessage(data.schedule ? 'Saved.' : 'Schedule turned off.');
+      onSaved?.(data);
+    } catch (e: any) {
+      setMessage(e?.response?.data?.message ?? 'Failed to save schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-2xl p-5 shadow-sm">
+      <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100 mb-1">
+        Scheduled Analysis
+      </h3>
+      <p className="text-xs text-neutral-500 dark:text-neutral-400 mb-3">
+        preset or cron expression; skipped when there are no new commits
+      </p>
+      <div className="flex gap-1 mb-2">
+        {PRESETS.map((preset) => (
+          <button
+            key={preset}
+            onClick={() => setValue(preset)}
+            className={`px-2 py-1 text-xs rounded-md capitalize transition-colors ${value === preset
+              ? 'bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300'
+              : 'bg-neutral-100 dark:bg-neutral-800 text-neutral-600 dark:text-neutral-400 hover:bg-neutral-200 dark:hover:bg-neutral-700'
+              }`}
+          >
+            {preset}
+          </button>
+        ))}
+      </div>
+      <input
+        className="w-full text-xs font-mono p-2 rounded-lg border border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-800 text-neutral-800 dark:text-neutral-200"
+        placeholder="0 2 * * *"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+      />
+      <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 mt-3 text-xs">
+        <dt className="text-neutral-500 dark:text-neutral-400">Next run</dt>
+        <dd className="text-neutral-800 dark:text-neutral-200">{schedule.schedule ? formatTime(schedule.nextScheduledAt) : 'off'}</dd>
+        <dt className="text-neutral-500 dark:text-neutral-400">Last run</dt>
+        <dd className="text-neutral-800 dark:text-neutral-200 truncate" title={schedule.lastScheduleResult ?? undefined}>
+          {formatTime(schedule.lastScheduledAt)}
+          {schedule.lastScheduleResult && <span className="text-neutral-500 dark:text-neutral-400"> · {schedule.lastScheduleResult}</span>}
+        </dd>
+      </dl>
+      <div className="flex items-center justify-between mt-3 gap-2">
+        <span className="text-xs text-neutral-500 dark:text-neutral-400 truncate" title={message ?? undefined}>{message}</span>
+        <div className="flex items-center gap-2 shrink-0">
+          {schedule.schedule && (
+            <button
+              onClick={() => save('')}
+              disabled={saving}
+              className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300 disabled:opacity-50 transition-colors"
+            >
+              Turn off
+            </button>
+          )}
+          <button
+            onClick={() => save(value)}
+            disabled={saving || !value.trim()}
+            className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-neutral-700 hover:bg-neutral-800 text-white disabled:opacity-50 transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisSchedulePanel;
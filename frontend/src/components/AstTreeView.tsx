@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../lib/api';
+import { AstNode, FileAst } from '../types/analysis';
+
+interface AstTreeViewProps {
+  projectId: string | number;
+  file: FileAst;
+}
+
+// Levels fetched at a time; deeper nodes load when expanded
+export const AST_PAGE_DEPTH = 3;
+
+const span = (node: AstNode): [number, number] => [node.startIndex ?? node.pos ?? 0, node.endIndex ?? node.end ?? 0];
+
+interface NodeRowProps {
+  node: AstNode;
+  load: (node: AstNode) => Promise<AstNode>;
+  level: number;
+}
+
+const NodeRow: React.FC<NodeRowProps> = ({ node: initial, load, level }) => {
+  const [node, setNode] = useState(initial);
+  const [open, setOpen] = useState(level < 2);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setNode(initial), [initial]);
+
+  const hasChildren = !!node.children?.length || !!node.childCount;
+
+  const toggle = async () => {
+    if (!open && !node.children && node.childCount) {
+      try {
+        setLoading(true);
+        setError(null);
+        setNode(await load(node));
+      } catch (e: any) {
+        setError(e?.response?.data?.message ?? 'Failed to load children');
+        return;
+      } finally {
+        setLoading(false);
+      }
+    }
+    setOpen(!open);
+  };
+
+  const [start, end] = span(node);
+  const lines = node.startLine ? (node.startLine === node.endLine ? `L${node.startLine}` : `L${node.startLine}-${node.endLine}`) : `${start}-${end}`;
+
+  return (
+    <div>
+      <div
+        className={`flex items-center gap-2 py-0.5 ${hasChildren ? 'cursor-pointer hover:bg-neutral-100 dark:hover:bg-neutral-800' : ''}`}
+        style={{ paddingLeft: level * 12 }}
+        onClick={hasChildren ? toggle : undefined}
+      >
+        <span className="w-3 text-neutral-400">{hasChildren ? (open ? '▾' : '▸') : ''}</span>
+        <span className="text-neutral-900 dark:text-neutral-100">{node.type}</span>
+        <span className="text-neutral-500 dark:text-neutral-400">{lines}</span>
+        {loading && <span className="text-neutral-500">loading…</span>}
+        {error && <span className="text-red-600 dark:text-red-400">{error}</span>}
+      </div>
+      {open && node.children?.map((child, i) => (
+        <NodeRow key={`${i}-${child.type}`} node={child} load={load} level={level + 1} />
+      ))}
+    </div>
+  );
+};
+
+// Expandable syntax tree that pages in collapsed subtrees from the server
+const AstTreeView: React.FC<AstTreeViewProps> = ({ projectId, file }) => {
+  const [root, setRoot] = useState(file.ast);
+  const [line, setLine] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setRoot(file.ast), [file]);
+
+  const fetchSubtree = async (params: Record<string, number | string>) => {
+    const encoded = encodeURIComponent(file.filePath);
+    const { data } = await api.get<FileAst>(`/projects/${projectId}/ast/${encoded}`, { params: { ...params, depth: AST_PAGE_DEPTH } });
+    return data.ast;
+  };
+
+  const load = (node: AstNode) => {
+    const [start, end] = span(node);
+    return fetchSubtree({ start, end, type: node.type });
+  };
+
+  const jump = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setError(null);
+      setRoot(line ? await fetchSubtree({ startLine: Number(line), endLine: Number(line) }) : await fetchSubtree({}));
+    } catch (err: any) {
+      setError(err?.response?.data?.message ?? 'Failed to load AST');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <form onSubmit={jump} className="flex items-center gap-2 text-xs">
+        <input
+          type="number"
+          min={1}
+          max={file.lines ?? undefined}
+          value={line}
+          onChange={(e) => setLine(e.target.value)}
+          placeholder="Line"
+          className="w-24 px-2 py-1 border dark:border-neutral-700 rounded bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-100"
+        />
+        <button type="submit" className="px-2 py-1 border dark:border-neutral-700 rounded text-neutral-700 dark:text-neutral-300">
+          {line ? 'Show node at line' : 'Show whole file'}
+        </button>
+        {error && <span className="text-red-600 dark:text-red-400">{error}</span>}
+      </form>
+      <div className="text-xs font-mono overflow-auto max-h-96 p-2 bg-neutral-50 dark:bg-neutral-900/60 border dark:border-neutral-800 rounded">
+        <NodeRow node={root} load={load} level={0} />
+      </div>
+    </div>
+  );
+};
+
+export default AstTreeView;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { api } from '../lib/api';
+import { ProjectBaseline } from '../types/analysis';
+
+interface BaselinePanelProps {
+  projectId: string | number;
+  baseline: ProjectBaseline;
+  showBaselined: boolean;
+  onShowBaselinedChange: (show: boolean) => void;
+  onChanged: (baseline: ProjectBaseline) => void;
+}
+
+// Freeze the current findings as accepted debt so only new ones are reported; resettable
+const BaselinePanel: React.FC<BaselinePanelProps> = ({ projectId, baseline, showBaselined, onShowBaselinedChange, onChanged }) => {
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const update = async (request: () => Promise<{ data: ProjectBaseline }>) => {
+    try {
+      setSaving(true);
+      setMessage(null);
+      const { data } = await request();
+      onChanged(data);
+    } catch (e: any) {
+      setMessage(e?.response?.data?.message ?? 'Failed to update baseline');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const freeze = () => {
+    if (baseline.baselineAt && !window.confirm('Replace the baseline with the current findings?')) return;
+    update(() => api.put(`/projects/${projectId}/baseline`));
+  };
+
+  const reset = () => {
+    if (!window.confirm('Reset the baseline? All findings will be reported again.')) return;
+    update(() => api.delete(`/projects/${projectId}/baseline`));
+  };
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-2xl p-5 shadow-sm">
+      <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100 mb-1">
+        Baseline
+      </h3>
+      <p className="text-xs text-neutral-500 dark:text-neutral-400 mb-3">
+        {baseline.baselineAt
+          ? `${baseline.baselineIssues} findings frozen ${new Date(baseline.baselineAt).toLocaleString()}; only newer ones are reported`
+          : 'freeze the current findings to report only newly introduced issues'}
+      </p>
+      {baseline.baselineAt && (
+        <label className="flex items-center gap-2 text-xs text-neutral-700 dark:text-neutral-300 mb-3">
+          <input type="checkbox" checked={showBaselined} onChange={(e) => onShowBaselinedChange(e.target.checked)} />
+          Show baselined findings
+        </label>
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-neutral-500 dark:text-neutral-400 truncate" title={message ?? undefined}>{message}</span>
+        <div className="flex items-center gap-2 shrink-0">
+          {baseline.baselineAt && (
+            <button
+              onClick={reset}
+              disabled={saving}
+              className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300 disabled:opacity-50 transition-colors"
+            >
+              Reset
+            </button>
+          )}
+          <button
+            onClick={freeze}
+            disabled={saving}
+            className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-neutral-700 hover:bg-neutral-800 text-white disabled:opacity-50 transition-colors"
+          >
+            {saving ? 'Saving...' : baseline.baselineAt ? 'Freeze again' : 'Freeze current findings'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BaselinePanel;
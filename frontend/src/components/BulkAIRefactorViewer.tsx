@@ -1,10 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { api } from '../lib/api';
+import { waitForJob } from '../lib/jobs';
 import { EnhancedIssue } from '../types/analysis';
 
 interface BulkAIRefactorViewerProps {
   issues: EnhancedIssue[];
   projectId: number;
+  canCreatePR?: boolean; // false for uploaded and local projects
   onClose: () => void;
   onComplete?: () => void;
 }
@@ -23,6 +25,7 @@ interface RefactoringResult {
 const BulkAIRefactorViewer: React.FC<BulkAIRefactorViewerProps> = ({
   issues,
   projectId,
+  canCreatePR = true,
   onClose,
   onComplete,
 }) => {
@@ -42,7 +45,7 @@ const BulkAIRefactorViewer: React.FC<BulkAIRefactorViewerProps> = ({
   const stoppedRef = useRef(false); // Use ref for immediate stop check
   const [selectedResult, setSelectedResult] = useState<RefactoringResult | null>(null);
   const [activeTab, setActiveTab] = useState<'progress' | 'results'>('progress');
-  const [createPR, setCreatePR] = useState(true);
+  const [createPR, setCreatePR] = useState(canCreatePR);
   const [prCreating, setPrCreating] = useState(false);
   const [prResult, setPrResult] = useState<any>(null);
   const [existingSuggestions, setExistingSuggestions] = useState<any>({});
@@ -410,8 +413,14 @@ const BulkAIRefactorViewer: React.FC<BulkAIRefactorViewerProps> = ({
         createPR: createPR
       });
 
-      if (response.data.pullRequest) {
-        setPrResult(response.data.pullRequest);
+      // PR creation is queued; wait for the job to get the PR link
+      if (response.data.jobId) {
+        const job = await waitForJob(response.data.jobId);
+        if (job.status === 'Completed' && job.result?.pullRequest) {
+          setPrResult(job.result.pullRequest);
+        } else if (job.status !== 'Completed') {
+          alert(`Suggestions accepted, but PR creation ${job.status.toLowerCase()}: ${job.error || 'unknown error'}`);
+        }
       }
 
       // Update local state to mark as accepted
@@ -830,6 +839,7 @@ const BulkAIRefactorViewer: React.FC<BulkAIRefactorViewerProps> = ({
               {availableForAcceptance.length > 0 && (
                 <div className="space-y-4">
                   {/* PR Creation Option */}
+                  {canCreatePR ? (
                   <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4 border border-blue-200 dark:border-blue-800">
                     <label className="flex items-center gap-3">
                       <input
@@ -848,6 +858,11 @@ const BulkAIRefactorViewer: React.FC<BulkAIRefactorViewerProps> = ({
                       </div>
                     </label>
                   </div>
+                  ) : (
+                    <p className="text-xs text-blue-700 dark:text-blue-300">
+                      This project was not imported from git, so no pull request can be created. Download the accepted changes as a patch from Accepted Refactorings.
+                    </p>
+                  )}
 
                   <div className="flex justify-center">
                     <button
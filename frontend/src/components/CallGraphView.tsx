@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../lib/api';
+import { CodeSymbol, SymbolCalls } from '../types/analysis';
+
+interface CallGraphViewProps {
+  projectId: string | number;
+}
+
+interface GraphNode {
+  key: string;
+  label: string;
+  title: string;
+  symbol: CodeSymbol | null; // null for unresolved callees
+  sites: number; // call sites behind the edge
+}
+
+const NODE_WIDTH = 190;
+const NODE_HEIGHT = 30;
+const GAP = 8;
+const COLUMN_GAP = 90;
+const MAX_NODES = 15; // per column; the rest are summarized
+
+const isFunction = (s: CodeSymbol) => s.kind === 'function' || s.kind === 'method';
+const labelOf = (s: CodeSymbol) => (s.container ? `${s.container}.${s.name}` : s.name);
+const clip = (text: string, length = 24) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+// Edges to the same function (or unresolved expression) are drawn once
+function group(entries: Array<{ symbol: CodeSymbol | null; text: string }>): GraphNode[] {
+  const nodes = new Map<string, GraphNode>();
+  for (const { symbol, text } of entries) {
+    const key = symbol ? `s${symbol.id}` : `u${text}`;
+    const node = nodes.get(key);
+    if (node) node.sites++;
+    else nodes.set(key, { key, label: symbol ? labelOf(symbol) : text, title: symbol ? `${symbol.filePath}:${symbol.lineStart}` : 'unresolved', symbol, sites: 1 });
+  }
+  return [...nodes.values()];
+}
+
+// Callers on the left, the selected function in the middle and its callees on the right;
+// clicking a resolved function moves it to the middle
+const CallGraphView: React.FC<CallGraphViewProps> = ({ projectId }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<CodeSymbol[]>([]);
+  const [calls, setCalls] = useState<SymbolCalls | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = async (name: string) => {
+    try {
+      setError(null);
+      const params = name ? { name, limit: 50 } : { sort: 'fanIn', limit: 50 };
+      const { data } = await api.get<CodeSymbol[]>(`/projects/${projectId}/symbols`, { params });
+      setResults(data.filter(isFunction).slice(0, 12));
+    } catch (e: any) {
+      setError(e?.response?.data?.message ?? 'Failed to search functions');
+    }
+  };
+
+  const select = async (symbol: CodeSymbol) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const { data } = await api.get<SymbolCalls>(`/projects/${projectId}/symbols/${symbol.id}/calls`);
+      setCalls(data);
+    } catch (e: any) {
+      setError(e?.response?.data?.message ?? 'Failed to load calls');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setCalls(null);
+    search('');
+  }, [projectId]);
+
+  const callers = calls ? group(calls.callers.map((c) => ({ symbol: c.symbol, text: labelOf(c.symbol) }))) : [];
+  const callees = calls ? group(calls.callees.map((c) => ({ symbol: c.symbol, text: c.callee }))) : [];
+  const tallest = Math.max(callers.length, callees.length);
+  const rows = Math.max(1, Math.min(tallest, MAX_NODES) + (tallest > MAX_NODES ? 1 : 0));
+  const height = rows * (NODE_HEIGHT + GAP) + GAP;
+  const width = NODE_WIDTH * 3 + COLUMN_GAP * 2;
+  const columnX = [0, NODE_WIDTH + COLUMN_GAP, (NODE_WIDTH + COLUMN_GAP) * 2];
+  const rowY = (index: number, count: number) => (height - count * (NODE_HEIGHT + GAP) + GAP) / 2 + index * (NODE_HEIGHT + GAP);
+
+  const renderNode = (node: GraphNode, x: number, y: number, selected = false) => (
+    <g
+      key={node.key}
+      transform={`translate(${x}, ${y})`}
+      className={node.symbol && !selected ? 'cursor-pointer' : undefined}
+      onClick={() => node.symbol && !selected && select(node.symbol)}
+    >
+      <title>{`${node.label} (${node.title})${node.sites > 1 ? `, ${node.sites} call sites` : ''}`}</title>
+      <rect
+        width={NODE_WIDTH}
+        height={NODE_HEIGHT}
+        rx={6}
+        strokeDasharray={node.symbol ? undefined : '4 3'}
+        className={selected
+          ? 'fill-primary-50 dark:fill-primary-900/30 stroke-primary-500'
+          : node.symbol
+          ? 'fill-white dark:fill-neutral-800 stroke-neutral-300 dark:stroke-neutral-600 hover:stroke-primary-500'
+          : 'fill-neutral-50 dark:fill-neutral-900 stroke-neutral-300 dark:stroke-neutral-700'}
+      />
+      <text x={10} y={19} className={`text-[11px] font-mono ${node.symbol ? 'fill-neutral-800 dark:fill-neutral-200' : 'fill-neutral-500'}`}>
+        {clip(node.label)}{node.sites > 1 ? ` ×${node.sites}` : ''}
+      </text>
+    </g>
+  );
+
+  const renderColumn = (nodes: GraphNode[], column: 0 | 2) => {
+    const shown = nodes.slice(0, MAX_NODES);
+    const count = shown.length + (nodes.length > MAX_NODES ? 1 : 0);
+    const centerY = height / 2;
+    return (
+      <>
+        {shown.map((node, i) => {
+          const y = rowY(i, count);
+          const [x1, x2] = column === 0 ? [NODE_WIDTH, columnX[1]] : [columnX[1] + NODE_WIDTH, columnX[2]];
+          const [y1, y2] = column === 0 ? [y + NODE_HEIGHT / 2, centerY] : [centerY, y + NODE_HEIGHT / 2];
+          const mid = (x1 + x2) / 2;
+          return (
+            <path
+              key={`e${node.key}`}
+              d={`M${x1},${y1} C${mid},${y1} ${mid},${y2} ${x2},${y2}`}
+              fill="none"
+              strokeDasharray={node.symbol ? undefined : '4 3'}
+              className="stroke-neutral-300 dark:stroke-neutral-600"
+            />
+          );
+        })}
+        {shown.map((node, i) => renderNode(node, columnX[column], rowY(i, count)))}
+        {nodes.length > MAX_NODES && (
+          <text x={columnX[column] + 10} y={rowY(shown.length, count) + 19} className="text-[11px] fill-neutral-500">
+            +{nodes.length - MAX_NODES} more
+          </text>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 border dark:border-neutral-800 rounded-lg p-4 space-y-4">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-sm font-semibold text-neutral-800 dark:text-neutral-200">Call Graph</h3>
+        <span className="text-xs text-neutral-500 dark:text-neutral-400">TypeScript, JavaScript and Python functions</span>
+      </div>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          search(query.trim());
+        }}
+      >
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Function or method name"
+          className="flex-1 px-3 py-1.5 text-sm border border-neutral-300 dark:border-neutral-700 rounded-lg bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-100"
+        />
+        <button type="submit" className="px-3 py-1.5 text-sm border border-neutral-300 dark:border-neutral-700 rounded-lg text-neutral-700 dark:text-neutral-300">
+          Search
+        </button>
+      </form>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+      <div className="flex flex-wrap gap-2">
+        {!query && results.length > 0 && <span className="text-xs text-neutral-500 dark:text-neutral-400 self-center">Most called:</span>}
+        {results.map((s) => (
+          <button
+            key={s.id}
+            onClick={() => select(s)}
+            title={`${s.filePath}:${s.lineStart}`}
+            className={`text-xs font-mono px-2 py-1 rounded border ${calls?.symbol.id === s.id
+              ? 'border-primary-500 text-primary-700 dark:text-primary-300'
+              : 'border-neutral-200 dark:border-neutral-700 text-neutral-700 dark:text-neutral-300'}`}
+          >
+            {labelOf(s)} <span className="text-neutral-500">in {s.fanIn} / out {s.fanOut}</span>
+          </button>
+        ))}
+        {results.length === 0 && !error && (
+          <span className="text-xs text-neutral-500 dark:text-neutral-400">No functions found; the call graph is built when the project is analyzed.</span>
+        )}
+      </div>
+
+      {loading && <div className="text-sm text-neutral-600 dark:text-neutral-400">Loading calls…</div>}
+      {!loading && calls && (
+        <div className="space-y-2">
+          <div className="text-xs text-neutral-600 dark:text-neutral-300">
+            <span className="font-mono">{calls.symbol.filePath}:{calls.symbol.lineStart}</span> • fan-in {calls.symbol.fanIn} • fan-out {calls.symbol.fanOut}
+            {callees.some((c) => !c.symbol) && ' • dashed callees could not be resolved'}
+          </div>
+          <div className="overflow-x-auto">
+            <svg viewBox={`0 0 ${width} ${height}`} width={width} height={height}>
+              {renderColumn(callers, 0)}
+              {renderColumn(callees, 2)}
+              {renderNode(
+                { key: 'selected', label: labelOf(calls.symbol), title: `${calls.symbol.filePath}:${calls.symbol.lineStart}`, symbol: calls.symbol, sites: 1 },
+                columnX[1],
+                height / 2 - NODE_HEIGHT / 2,
+                true,
+              )}
+            </svg>
+          </div>
+          {callers.length === 0 && callees.length === 0 && (
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">No calls to or from this function.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CallGraphView;
@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../lib/api';
+import { CustomRule, EnhancedIssue } from '../types/analysis';
+
+type RuleDraft = Omit<CustomRule, 'id' | 'project'> & { id?: number };
+
+const EMPTY_RULE: RuleDraft = {
+  ruleId: '',
+  kind: 'query',
+  pattern: '',
+  language: 'typescript',
+  severity: 'Medium',
+  message: '',
+  recommendation: '',
+  enabled: true,
+  projectId: null,
+};
+
+const SEVERITIES: CustomRule['severity'][] = ['Low', 'Medium', 'High', 'Critical'];
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-neutral-300 dark:border-neutral-700 rounded-lg bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-100';
+const labelClass = 'block text-xs font-medium text-neutral-700 dark:text-neutral-300 mb-1';
+
+// House rules run on every analysis of the user's projects (or of one project); editable with a snippet preview
+const CustomRulesPanel: React.FC = () => {
+  const [rules, setRules] = useState<CustomRule[]>([]);
+  const [projects, setProjects] = useState<Array<{ id: number; name: string }>>([]);
+  const [languages, setLanguages] = useState<Array<{ id: string; name: string }>>([]);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [snippet, setSnippet] = useState('');
+  const [preview, setPreview] = useState<EnhancedIssue[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadRules = async () => {
+    const { data } = await api.get<CustomRule[]>('/custom-rules');
+    setRules(data);
+  };
+
+  useEffect(() => {
+    loadRules().catch(() => setMessage('Failed to load custom rules'));
+    api.get('/projects').then(({ data }) => setProjects(data.map((p: any) => ({ id: p.id, name: p.name })))).catch(() => { });
+    api.get('/languages')
+      .then(({ data }) => setLanguages(data.filter((l: any) => l.analyzed).map((l: any) => ({ id: l.id, name: l.name }))))
+      .catch(() => { });
+  }, []);
+
+  const errorMessage = (e: any, fallback: string) => e?.response?.data?.message ?? fallback;
+
+  const edit = (rule: RuleDraft | null) => {
+    setDraft(rule && { ...rule });
+    setPreview(null);
+    setMessage(null);
+  };
+
+  const update = (changes: Partial<RuleDraft>) => {
+    setDraft((d) => d && { ...d, ...changes });
+    setPreview(null);
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    try {
+      setSaving(true);
+      const { id, ...body } = draft;
+      if (id) await api.put(`/custom-rules/${id}`, body);
+      else await api.post('/custom-rules', body);
+      await loadRules();
+      edit(null);
+      setMessage('Rule saved; it applies from the next analysis');
+    } catch (e: any) {
+      setMessage(errorMessage(e, 'Failed to save rule'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (rule: CustomRule) => {
+    if (!window.confirm(`Delete rule ${rule.ruleId}?`)) return;
+    try {
+      await api.delete(`/custom-rules/${rule.id}`);
+      await loadRules();
+    } catch (e: any) {
+      setMessage(errorMessage(e, 'Failed to delete rule'));
+    }
+  };
+
+  const toggle = async (rule: CustomRule) => {
+    try {
+      await api.put(`/custom-rules/${rule.id}`, { enabled: !rule.enabled });
+      await loadRules();
+    } catch (e: any) {
+      setMessage(errorMessage(e, 'Failed to update rule'));
+    }
+  };
+
+  const test = async () => {
+    if (!draft) return;
+    try {
+      setMessage(null);
+      const { data } = await api.post<{ issues: EnhancedIssue[] }>('/custom-rules/test', { rule: draft, code: snippet });
+      setPreview(data.issues);
+    } catch (e: any) {
+      setPreview(null);
+      setMessage(errorMessage(e, 'Failed to test rule'));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {message && <div className="text-sm text-neutral-700 dark:text-neutral-300">{message}</div>}
+
+      {!draft && (
+        <>
+          {rules.length === 0 && (
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">No custom rules yet.</p>
+          )}
+          <div className="divide-y divide-neutral-200 dark:divide-neutral-800">
+            {rules.map((rule) => (
+              <div key={rule.id} className="py-3 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-mono font-medium text-neutral-900 dark:text-neutral-100">{rule.ruleId}</span>
+                    <span className="text-xs px-2 py-0.5 rounded bg-neutral-100 dark:bg-neutral-800 text-neutral-600 dark:text-neutral-300">
+                      {rule.kind}{rule.language ? ` • ${rule.language}` : ''} • {rule.severity}
+                    </span>
+                    {!rule.enabled && <span className="text-xs text-neutral-500">disabled</span>}
+                  </div>
+                  <p className="text-sm text-neutral-600 dark:text-neutral-400 truncate">{rule.message}</p>
+                  <p className="text-xs text-neutral-500 dark:text-neutral-500">{rule.project ? `Project: ${rule.project.name}` : 'All my projects'}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0 text-sm">
+                  <button onClick={() => toggle(rule)} className="text-neutral-600 dark:text-neutral-300 hover:underline">
+                    {rule.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button onClick={() => edit(rule)} className="text-primary-600 dark:text-primary-400 hover:underline">Edit</button>
+                  <button onClick={() => remove(rule)} className="text-red-600 dark:text-red-400 hover:underline">Delete</button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => edit(EMPTY_RULE)}
+            className="px-4 py-2 text-sm bg-primary-600 hover:bg-primary-700 text-white font-medium rounded-lg transition-colors"
+          >
+            New rule
+          </button>
+        </>
+      )}
+
+      {draft && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Rule ID</label>
+              <input className={inputClass} value={draft.ruleId} placeholder="acme/no-raw-sql" onChange={(e) => update({ ruleId: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Applies to</label>
+              <select
+                className={inputClass}
+                value={draft.projectId ?? ''}
+                onChange={(e) => update({ projectId: e.target.value ? Number(e.target.value) : null })}
+              >
+                <option value="">All my projects</option>
+                {projects.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Kind</label>
+              <select
+                className={inputClass}
+                value={draft.kind}
+                onChange={(e) => {
+                  const kind = e.target.value as RuleDraft['kind'];
+                  // Queries are written for one grammar
+                  update({ kind, language: kind === 'query' ? draft.language ?? languages[0]?.id ?? 'typescript' : draft.language });
+                }}
+              >
+                <option value="query">Tree-sitter query</option>
+                <option value="regex">Regular expression</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Language</label>
+              <select className={inputClass} value={draft.language ?? ''} onChange={(e) => update({ language: e.target.value || null })}>
+                {draft.kind === 'regex' && <option value="">Any language</option>}
+                {languages.map((l) => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Severity</label>
+              <select className={inputClass} value={draft.severity} onChange={(e) => update({ severity: e.target.value as RuleDraft['severity'] })}>
+                {SEVERITIES.map((s) => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>
+              Pattern {draft.kind === 'query' && <span className="font-normal text-neutral-500">(capture the reported node as @match)</span>}
+            </label>
+            <textarea
+              className={`${inputClass} font-mono`}
+              rows={4}
+              value={draft.pattern}
+              placeholder={draft.kind === 'query' ? '(catch_clause body: (statement_block) @match (#eq? @match "{}"))' : 'console\\.log\\('}
+              onChange={(e) => update({ pattern: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Message</label>
+            <input className={inputClass} value={draft.message} onChange={(e) => update({ message: e.target.value })} />
+          </div>
+          <div>
+            <label className={labelClass}>Recommendation</label>
+            <input className={inputClass} value={draft.recommendation} onChange={(e) => update({ recommendation: e.target.value })} />
+          </div>
+
+          <div className="border-t border-neutral-200 dark:border-neutral-800 pt-4 space-y-2">
+            <label className={labelClass}>Test against a snippet</label>
+            <textarea
+              className={`${inputClass} font-mono`}
+              rows={6}
+              value={snippet}
+              placeholder="Paste code to run the rule on"
+              onChange={(e) => { setSnippet(e.target.value); setPreview(null); }}
+            />
+            <button onClick={test} className="px-3 py-1.5 text-sm border border-neutral-300 dark:border-neutral-700 rounded-lg text-neutral-700 dark:text-neutral-300">
+              Run test
+            </button>
+            {preview && (
+              <div className="text-sm text-neutral-700 dark:text-neutral-300">
+                {preview.length === 0 ? 'No matches' : `${preview.length} match${preview.length === 1 ? '' : 'es'}`}
+                <ul className="mt-1 space-y-1">
+                  {preview.map((issue, i) => (
+                    <li key={i} className="font-mono text-xs">
+                      <span className="text-neutral-500">L{issue.lineStart}{issue.lineEnd !== issue.lineStart ? `-${issue.lineEnd}` : ''}</span>{' '}
+                      {issue.codeBlock.split('\n')[0].trim()}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button onClick={() => edit(null)} className="px-4 py-2 text-sm border border-neutral-300 dark:border-neutral-700 rounded-lg text-neutral-700 dark:text-neutral-300">
+              Cancel
+            </button>
+            <button
+              onClick={save}
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-primary-600 hover:bg-primary-700 disabled:bg-neutral-400 text-white font-medium rounded-lg transition-colors"
+            >
+              {saving ? 'Saving...' : 'Save rule'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomRulesPanel;
@@ -1,10 +1,13 @@
 import React, { useState } from 'react';
 import { EnhancedIssue } from '../types/analysis';
 import AIRefactorViewer from './AIRefactorViewer';
+import IssueDiscussion from './IssueDiscussion';
 
 interface Props {
     issue: EnhancedIssue;
     onRefactorAccept?: () => void;
+    projectId?: string | number; // enables triage and comments
+    currentRunId?: number | null; // marks findings first seen in this run as new
 }
 
 const severityColors = {
@@ -31,10 +34,14 @@ const issueTypeColors = {
     DuplicateCode: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
     MagicNumber: 'bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-300',
     DeadCode: 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-300',
-    FeatureEnvy: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300'
+    FeatureEnvy: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300',
+    IgnoredError: 'bg-rose-100 text-rose-800 dark:bg-rose-900/30 dark:text-rose-300',
+    LongSwitch: 'bg-lime-100 text-lime-800 dark:bg-lime-900/30 dark:text-lime-300'
 };
 
-const EnhancedIssueCard: React.FC<Props> = ({ issue, onRefactorAccept }) => {
+const customRuleColor = 'bg-fuchsia-100 text-fuchsia-800 dark:bg-fuchsia-900/30 dark:text-fuchsia-300';
+
+const EnhancedIssueCard: React.FC<Props> = ({ issue, onRefactorAccept, projectId, currentRunId }) => {
     const [showAIRefactor, setShowAIRefactor] = useState(false);
 
     const getConfidenceColor = (confidence: number) => {
@@ -71,6 +78,12 @@ const EnhancedIssueCard: React.FC<Props> = ({ issue, onRefactorAccept }) => {
         if (metadata.similarity !== undefined) {
             metrics.push(`Similarity: ${Math.round(metadata.similarity * 100)}%`);
         }
+        if (metadata.fanIn !== undefined) {
+            metrics.push(`Fan-in: ${metadata.fanIn}`);
+        }
+        if (metadata.fanOut !== undefined) {
+            metrics.push(`Fan-out: ${metadata.fanOut}`);
+        }
 
         return metrics;
     };
@@ -82,7 +95,7 @@ const EnhancedIssueCard: React.FC<Props> = ({ issue, onRefactorAccept }) => {
             {/* Header */}
             <div className="flex items-start justify-between">
                 <div className="flex items-center gap-2 flex-wrap">
-                    <span className={`text-xs px-2 py-1 rounded-full font-medium ${issueTypeColors[issue.issueType]}`}>
+                    <span className={`text-xs px-2 py-1 rounded-full font-medium ${issueTypeColors[issue.issueType as keyof typeof issueTypeColors] ?? customRuleColor}`}>
                         {issue.issueType}
                     </span>
                     <span className={`text-xs px-2 py-1 rounded border ${severityColors[issue.severity]} ${severityColorsDark[issue.severity]}`}>
@@ -91,12 +104,24 @@ const EnhancedIssueCard: React.FC<Props> = ({ issue, onRefactorAccept }) => {
                     <span className={`text-xs font-medium ${getConfidenceColor(issue.confidence)}`}>
                         {issue.confidence}% confidence
                     </span>
+                    {currentRunId != null && (issue.firstSeenRunId ?? issue.runId) === currentRunId && (
+                        <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-blue-600 text-white">New</span>
+                    )}
+                    {issue.baselined && (
+                        <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-neutral-200 text-neutral-700 dark:bg-neutral-700 dark:text-neutral-300">Baselined</span>
+                    )}
                 </div>
                 <div className="text-xs text-neutral-500 dark:text-neutral-400">
                     {issue.filePath}
                     {issue.lineStart && issue.lineEnd && (
                         <span className="ml-1">:{issue.lineStart}-{issue.lineEnd}</span>
                     )}
+                    {(issue.author || issue.owners?.length) && (
+                        <span className="ml-2" title={issue.authorEmail ?? undefined}>
+                            {issue.author && <>by {issue.author}</>}
+                            {issue.owners?.length ? <>{issue.author && ' · '}owned by {issue.owners.join(', ')}</> : null}
+                        </span>
+                    )}
                 </div>
             </div>
 
@@ -185,6 +210,8 @@ const EnhancedIssueCard: React.FC<Props> = ({ issue, onRefactorAccept }) => {
                 </pre>
             </div>
 
+            {projectId != null && <IssueDiscussion projectId={projectId} issue={issue} />}
+
             {/* AI Refactor Viewer Modal */}
             {showAIRefactor && (
                 <AIRefactorViewer
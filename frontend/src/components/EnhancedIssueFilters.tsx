@@ -4,6 +4,8 @@ import { EnhancedIssue } from '../types/analysis';
 interface FilterState {
     issueTypes: string[];
     severities: string[];
+    owners: string[];
+    authors: string[]; // author emails
     search: string;
     sortBy: 'severity' | 'confidence' | 'type' | 'file';
     sortOrder: 'asc' | 'desc';
@@ -25,18 +27,29 @@ const allIssueTypes = [
     'DuplicateCode',
     'MagicNumber',
     'DeadCode',
-    'FeatureEnvy'
+    'FeatureEnvy',
+    'IgnoredError',
+    'LongSwitch'
 ];
 
 const allSeverities = ['Critical', 'High', 'Medium', 'Low'];
 
+// Owner and author facets list the most frequent values only
+const MAX_FACET_VALUES = 12;
+
 const EnhancedIssueFilters: React.FC<Props> = ({ issues, filters, onFiltersChange }) => {
+    // Built-in types, then the custom rules found in these issues
+    const issueTypes = React.useMemo(() => {
+        const custom = Array.from(new Set(issues.map(issue => issue.issueType).filter(type => !allIssueTypes.includes(type))));
+        return [...allIssueTypes, ...custom.sort()];
+    }, [issues]);
+
     const issueTypeCounts = React.useMemo(() => {
-        return allIssueTypes.reduce((acc, type) => {
+        return issueTypes.reduce((acc, type) => {
             acc[type] = issues.filter(issue => issue.issueType === type).length;
             return acc;
         }, {} as Record<string, number>);
-    }, [issues]);
+    }, [issues, issueTypes]);
 
     const severityCounts = React.useMemo(() => {
         return allSeverities.reduce((acc, severity) => {
@@ -45,6 +58,32 @@ const EnhancedIssueFilters: React.FC<Props> = ({ issues, filters, onFiltersChang
         }, {} as Record<string, number>);
     }, [issues]);
 
+    const ownerCounts = React.useMemo(() => {
+        const counts: Record<string, number> = {};
+        issues.forEach(issue => issue.owners?.forEach(owner => {
+            counts[owner] = (counts[owner] || 0) + 1;
+        }));
+        return Object.entries(counts).sort(([, a], [, b]) => b - a).slice(0, MAX_FACET_VALUES);
+    }, [issues]);
+
+    const authorCounts = React.useMemo(() => {
+        const counts: Record<string, { name: string; count: number }> = {};
+        issues.forEach(issue => {
+            if (!issue.authorEmail) return;
+            const entry = counts[issue.authorEmail] || (counts[issue.authorEmail] = { name: issue.author || issue.authorEmail, count: 0 });
+            entry.count++;
+        });
+        return Object.entries(counts).sort(([, a], [, b]) => b.count - a.count).slice(0, MAX_FACET_VALUES);
+    }, [issues]);
+
+    const toggle = (key: 'owners' | 'authors', value: string) => {
+        const values = filters[key].includes(value)
+            ? filters[key].filter(v => v !== value)
+            : [...filters[key], value];
+
+        onFiltersChange({ ...filters, [key]: values });
+    };
+
     const handleIssueTypeToggle = (type: string) => {
         const newTypes = filters.issueTypes.includes(type)
             ? filters.issueTypes.filter(t => t !== type)
@@ -65,6 +104,8 @@ const EnhancedIssueFilters: React.FC<Props> = ({ issues, filters, onFiltersChang
         onFiltersChange({
             issueTypes: [],
             severities: [],
+            owners: [],
+            authors: [],
             search: '',
             sortBy: 'severity',
             sortOrder: 'desc'
@@ -74,6 +115,8 @@ const EnhancedIssueFilters: React.FC<Props> = ({ issues, filters, onFiltersChang
     const activeFiltersCount =
         filters.issueTypes.length +
         filters.severities.length +
+        filters.owners.length +
+        filters.authors.length +
         (filters.search ? 1 : 0);
 
     return (
@@ -169,13 +212,60 @@ const EnhancedIssueFilters: React.FC<Props> = ({ issues, filters, onFiltersChang
                 </div>
             </div>
 
+            {/* Owner Filters (CODEOWNERS) */}
+            {ownerCounts.length > 0 && (
+                <div>
+                    <label className="text-xs text-neutral-600 dark:text-neutral-400 block mb-2">
+                        Owners
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                        {ownerCounts.map(([owner, count]) => (
+                            <button
+                                key={owner}
+                                onClick={() => toggle('owners', owner)}
+                                className={`text-xs px-3 py-1 rounded-full transition-colors ${filters.owners.includes(owner)
+                                    ? 'bg-blue-600 text-white'
+                                    : 'bg-neutral-100 text-neutral-700 dark:bg-neutral-700 dark:text-neutral-300 hover:bg-neutral-200 dark:hover:bg-neutral-600'
+                                    }`}
+                            >
+                                {owner} ({count})
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Author Filters (git blame) */}
+            {authorCounts.length > 0 && (
+                <div>
+                    <label className="text-xs text-neutral-600 dark:text-neutral-400 block mb-2">
+                        Authors
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                        {authorCounts.map(([email, { name, count }]) => (
+                            <button
+                                key={email}
+                                onClick={() => toggle('authors', email)}
+                                title={email}
+                                className={`text-xs px-3 py-1 rounded-full transition-colors ${filters.authors.includes(email)
+                                    ? 'bg-blue-600 text-white'
+                                    : 'bg-neutral-100 text-neutral-700 dark:bg-neutral-700 dark:text-neutral-300 hover:bg-neutral-200 dark:hover:bg-neutral-600'
+                                    }`}
+                            >
+                                {name} ({count})
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Issue Type Filters */}
             <div>
                 <label className="text-xs text-neutral-600 dark:text-neutral-400 block mb-2">
                     Issue Types
                 </label>
                 <div className="grid grid-cols-2 gap-2">
-                    {allIssueTypes.map(type => {
+                    {issueTypes.map(type => {
                         const count = issueTypeCounts[type];
                         const isSelected = filters.issueTypes.includes(type);
 
@@ -1,5 +1,7 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
+import QualityGateBadge from './QualityGateBadge';
+import { QualityGateResult } from '../types/analysis';
 
 interface ProjectSummary {
     id: number;
@@ -13,6 +15,7 @@ interface ProjectSummary {
         confidence: number;
     }>;
     createdAt: string;
+    qualityGate?: QualityGateResult | null;
 }
 
 interface Props {
@@ -98,6 +101,7 @@ const EnhancedProjectCard: React.FC<Props> = ({ project }) => {
                 <span>
                     {new Date(project.createdAt).toLocaleDateString()}
                 </span>
+                <QualityGateBadge gate={project.qualityGate} />
             </div>
 
             {/* Quality Score and Issues Summary */}
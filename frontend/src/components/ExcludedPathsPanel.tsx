@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../lib/api';
+import { ProjectFileEntry } from '../types/analysis';
+
+interface ExcludedPathsPanelProps {
+  projectId: string | number;
+  excluded: ProjectFileEntry[];
+  excludeGlobs: string[];
+  onSaved?: (excludeGlobs: string[]) => void;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  default: 'built-in',
+  gitignore: '.gitignore',
+  generated: 'generated',
+  vendored: 'vendored',
+  project: 'project exclude',
+  'repo-config': '.codestruct.yml',
+  language: 'language',
+};
+
+// Paths left out of the last analysis and the project's own exclude globs
+const ExcludedPathsPanel: React.FC<ExcludedPathsPanelProps> = ({ projectId, excluded, excludeGlobs, onSaved }) => {
+  const [text, setText] = useState(excludeGlobs.join('\n'));
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setText(excludeGlobs.join('\n'));
+  }, [excludeGlobs.join('\n')]);
+
+  const save = async () => {
+    try {
+      setSaving(true);
+      setMessage(null);
+      const globs = text.split('\n').map((g) => g.trim()).filter(Boolean);
+      const { data } = await api.put(`/projects/${projectId}/exclude-globs`, { excludeGlobs: globs });
+      setMessage('Saved. Applies from the next analysis.');
+      onSaved?.(data.excludeGlobs);
+    } catch (e: any) {
+      setMessage(e?.response?.data?.message ?? 'Failed to save exclude globs');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-2xl p-5 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+          Excluded Paths
+        </h3>
+        <span className="text-xs px-2 py-1 rounded-lg bg-neutral-100 dark:bg-neutral-800 text-neutral-600 dark:text-neutral-400 font-medium">
+          {excluded.length}
+        </span>
+      </div>
+      {excluded.length > 0 && (
+        <div className="space-y-1 max-h-48 overflow-y-auto mb-4">
+          {excluded.map((f) => (
+            <div key={f.filePath} className="flex items-center justify-between gap-2 text-xs py-1 px-3" title={f.filePath}>
+              <span className="truncate text-neutral-600 dark:text-neutral-400">{f.filePath}</span>
+              <span className="shrink-0 px-2 py-0.5 rounded-md bg-neutral-100 dark:bg-neutral-800 text-neutral-600 dark:text-neutral-400">
+                {REASON_LABELS[f.excludedReason || ''] || f.excludedReason}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      <label className="block text-xs font-medium text-neutral-700 dark:text-neutral-300 mb-1">
+        Exclude globs (one per line)
+      </label>
+      <textarea
+        className="w-full h-20 text-xs font-mono p-2 rounded-lg border border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-800 text-neutral-800 dark:text-neutral-200"
+        placeholder={'migrations/**\n**/*.fixture.ts'}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <div className="flex items-center justify-between mt-2">
+        <span className="text-xs text-neutral-500 dark:text-neutral-400">{message}</span>
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-neutral-700 hover:bg-neutral-800 text-white disabled:opacity-50 transition-colors"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExcludedPathsPanel;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { ProjectHotspots } from '../types/analysis';
+
+interface HotspotChartProps {
+  hotspots: ProjectHotspots;
+}
+
+const WIDTH = 480;
+const HEIGHT = 240;
+const PAD = 32;
+
+const scoreColor = (score: number) =>
+  score >= 50 ? '#dc2626' : score >= 20 ? '#f97316' : score >= 5 ? '#eab308' : '#a3a3a3';
+
+// Churn (commits) against complexity per file, bubbles sized by hotspot score, with the top functions below
+const HotspotChart: React.FC<HotspotChartProps> = ({ hotspots }) => {
+  const [hovered, setHovered] = useState<string | null>(null);
+  const files = hotspots.files;
+  const maxCommits = Math.max(1, ...files.map((f) => f.commits));
+  const maxComplexity = Math.max(1, ...files.map((f) => f.complexity));
+  const x = (commits: number) => PAD + (commits / maxCommits) * (WIDTH - PAD * 2);
+  const y = (complexity: number) => HEIGHT - PAD - (complexity / maxComplexity) * (HEIGHT - PAD * 2);
+  const active = files.find((f) => f.filePath === hovered);
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 border dark:border-neutral-800 rounded-lg p-4">
+      <div className="flex items-baseline justify-between mb-3">
+        <h3 className="text-sm font-semibold text-neutral-800 dark:text-neutral-200">Hotspots</h3>
+        {hotspots.windowDays != null && (
+          <span className="text-xs text-neutral-500 dark:text-neutral-400">changes in the last {hotspots.windowDays} days</span>
+        )}
+      </div>
+      {!files.some((f) => f.commits > 0) ? (
+        <p className="text-xs text-neutral-500 dark:text-neutral-400">
+          No change history in this window (uploaded sources have none).
+        </p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+            <line x1={PAD} y1={HEIGHT - PAD} x2={WIDTH - PAD} y2={HEIGHT - PAD} className="stroke-neutral-300 dark:stroke-neutral-700" />
+            <line x1={PAD} y1={PAD} x2={PAD} y2={HEIGHT - PAD} className="stroke-neutral-300 dark:stroke-neutral-700" />
+            <text x={WIDTH - PAD} y={HEIGHT - 8} textAnchor="end" className="fill-neutral-500 text-[10px]">commits →</text>
+            <text x={8} y={PAD - 10} className="fill-neutral-500 text-[10px]">↑ complexity</text>
+            {files.map((f) => (
+              <circle
+                key={f.filePath}
+                cx={x(f.commits)}
+                cy={y(f.complexity)}
+                r={3 + (f.score / 100) * 12}
+                fill={scoreColor(f.score)}
+                fillOpacity={hovered === f.filePath ? 0.9 : 0.55}
+                onMouseEnter={() => setHovered(f.filePath)}
+                onMouseLeave={() => setHovered(null)}
+              />
+            ))}
+          </svg>
+          <div className="text-xs text-neutral-600 dark:text-neutral-400 h-4 truncate">
+            {active
+              ? `${active.filePath}: ${active.commits} commits by ${active.authors} authors, ${active.linesChanged} lines changed, complexity ${active.complexity}, score ${active.score}`
+              : 'Hover a bubble for details'}
+          </div>
+        </>
+      )}
+      {hotspots.functions.length > 0 && (
+        <div className="mt-3">
+          <h4 className="text-xs font-semibold text-neutral-700 dark:text-neutral-300 mb-1">Hottest functions</h4>
+          <ul className="space-y-1">
+            {hotspots.functions.slice(0, 8).map((fn) => (
+              <li key={`${fn.filePath}:${fn.lineStart}`} className="flex items-center justify-between text-xs gap-2">
+                <span className="truncate text-neutral-700 dark:text-neutral-300" title={`${fn.filePath}:${fn.lineStart}`}>
+                  <span className="font-mono">{fn.name}</span>
+                  <span className="text-neutral-500 dark:text-neutral-400"> · {fn.filePath}:{fn.lineStart}</span>
+                </span>
+                <span className="shrink-0 text-neutral-500 dark:text-neutral-400">
+                  {fn.commits} commits · cx {fn.cyclomaticComplexity} ·{' '}
+                  <span className="font-medium" style={{ color: scoreColor(fn.score) }}>{fn.score}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HotspotChart;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { api } from '../lib/api';
+import { EnhancedIssue, IssueComment, TriageStatus } from '../types/analysis';
+
+interface IssueDiscussionProps {
+  projectId: string | number;
+  issue: EnhancedIssue;
+}
+
+const STATUSES: TriageStatus[] = ['Pending', 'Confirmed', 'WontFix', 'FalsePositive'];
+
+const authorName = (comment: IssueComment) =>
+  comment.user?.displayName || comment.user?.githubUsername || comment.user?.email || 'unknown';
+
+// Triage status and comments of a finding; both stay with it across re-analysis
+const IssueDiscussion: React.FC<IssueDiscussionProps> = ({ projectId, issue }) => {
+  const [status, setStatus] = useState<TriageStatus>(issue.status ?? 'Pending');
+  const [comments, setComments] = useState<IssueComment[] | null>(null);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const base = `/projects/${projectId}/issues/${issue.id}`;
+
+  const changeStatus = async (next: TriageStatus) => {
+    const previous = status;
+    setStatus(next);
+    try {
+      await api.put(`${base}/status`, { status: next });
+    } catch (e: any) {
+      setStatus(previous);
+      setError(e?.response?.data?.message ?? 'Failed to update status');
+    }
+  };
+
+  const toggleComments = async () => {
+    if (comments) {
+      setComments(null);
+      return;
+    }
+    try {
+      const { data } = await api.get<IssueComment[]>(`${base}/comments`);
+      setComments(data);
+    } catch (e: any) {
+      setError(e?.response?.data?.message ?? 'Failed to load comments');
+    }
+  };
+
+  const addComment = async () => {
+    try {
+      const { data } = await api.post<IssueComment>(`${base}/comments`, { body: draft });
+      setComments([...(comments ?? []), data]);
+      setDraft('');
+      setError(null);
+    } catch (e: any) {
+      setError(e?.response?.data?.message ?? 'Failed to add comment');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs">
+        <select
+          value={status}
+          onChange={(e) => changeStatus(e.target.value as TriageStatus)}
+          className="text-xs px-2 py-1 border border-neutral-300 dark:border-neutral-600 rounded bg-white dark:bg-neutral-800 text-neutral-700 dark:text-neutral-200"
+        >
+          {STATUSES.map((s) => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <button onClick={toggleComments} className="text-blue-600 dark:text-blue-400 hover:underline">
+          {comments ? 'Hide comments' : 'Comments'}
+        </button>
+        {error && <span className="text-red-600 dark:text-red-400 truncate">{error}</span>}
+      </div>
+      {comments && (
+        <div className="space-y-2">
+          {comments.length === 0 && (
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">No comments yet.</p>
+          )}
+          {comments.map((comment) => (
+            <div key={comment.id} className="text-xs p-2 rounded bg-neutral-50 dark:bg-neutral-800/60">
+              <div className="text-neutral-500 dark:text-neutral-400 mb-0.5">
+                {authorName(comment)} · {new Date(comment.createdAt).toLocaleString()}
+              </div>
+              <div className="text-neutral-800 dark:text-neutral-200 whitespace-pre-wrap">{comment.body}</div>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && draft.trim()) addComment(); }}
+              placeholder="Add a comment..."
+              className="flex-1 text-xs px-2 py-1 border border-neutral-300 dark:border-neutral-600 rounded bg-white dark:bg-neutral-800 text-neutral-800 dark:text-neutral-200"
+            />
+            <button
+              onClick={addComment}
+              disabled={!draft.trim()}
+              className="px-3 py-1 text-xs font-semibold rounded bg-neutral-700 hover:bg-neutral-800 text-white disabled:opacity-50"
+            >
+              Post
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IssueDiscussion;
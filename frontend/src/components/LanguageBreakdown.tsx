@@ -0,0 +1,36 @@
+import React from 'react';
+import { LanguageStats } from '../types/analysis';
+
+interface LanguageBreakdownProps {
+  languages: Record<string, LanguageStats>;
+}
+
+// Files, lines of code and issues per language of the current analysis
+const LanguageBreakdown: React.FC<LanguageBreakdownProps> = ({ languages }) => {
+  const rows = Object.entries(languages).sort(([, a], [, b]) => b.loc - a.loc);
+  const totalLoc = rows.reduce((sum, [, stats]) => sum + stats.loc, 0) || 1;
+  if (!rows.length) return null;
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-2xl p-5 shadow-sm">
+      <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100 mb-3">Languages</h3>
+      <div className="space-y-2">
+        {rows.map(([language, stats]) => (
+          <div key={language}>
+            <div className="flex items-center justify-between text-xs">
+              <span className="font-medium text-neutral-700 dark:text-neutral-300 capitalize">{language}</span>
+              <span className="text-neutral-500 dark:text-neutral-400">
+                {stats.files} files · {stats.loc.toLocaleString()} LOC · {stats.issues} issues
+              </span>
+            </div>
+            <div className="h-1.5 mt-1 rounded-full bg-neutral-100 dark:bg-neutral-800 overflow-hidden">
+              <div className="h-full bg-primary-500" style={{ width: `${(stats.loc / totalLoc) * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LanguageBreakdown;
@@ -1,11 +1,26 @@
 import React from 'react';
-import { ProjectAnalytics, EnhancedIssue } from '../types/analysis';
+import { ProjectAnalytics, EnhancedIssue, ProjectHotspots } from '../types/analysis';
+import { api } from '../lib/api';
+import HotspotChart from './HotspotChart';
 
 interface Props {
     issues: EnhancedIssue[];
+    projectId?: string | number;
+    runId?: number | null; // reloads hotspots when the current run changes
 }
 
-const ProjectAnalyticsDashboard: React.FC<Props> = ({ issues }) => {
+const ProjectAnalyticsDashboard: React.FC<Props> = ({ issues, projectId, runId }) => {
+    const [hotspots, setHotspots] = React.useState<ProjectHotspots | null>(null);
+
+    React.useEffect(() => {
+        if (projectId == null) return;
+        let cancelled = false;
+        api.get<ProjectHotspots>(`/projects/${projectId}/hotspots`)
+            .then(({ data }) => { if (!cancelled) setHotspots(data); })
+            .catch(() => { if (!cancelled) setHotspots(null); });
+        return () => { cancelled = true; };
+    }, [projectId, runId]);
+
     // Calculate analytics from issues
     const analytics = React.useMemo(() => {
         const totalIssues = issues.length;
@@ -126,6 +141,9 @@ const ProjectAnalyticsDashboard: React.FC<Props> = ({ issues }) => {
                 </div>
             </div>
 
+            {/* Hotspots: complex code that changes often */}
+            {hotspots && hotspots.files.length > 0 && <HotspotChart hotspots={hotspots} />}
+
             {/* Severity Breakdown */}
             <div className="bg-white dark:bg-neutral-900 border dark:border-neutral-800 rounded-lg p-4">
                 <h3 className="text-sm font-semibold text-neutral-800 dark:text-neutral-200 mb-3">
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../lib/api';
+import { RepoConfig } from '../types/analysis';
+
+interface ProjectSettingsPanelProps {
+  projectId: string | number;
+}
+
+// Project-level languages/rules/thresholds/limits/qualityGate (same format as .codestruct.yml), edited as JSON
+const ProjectSettingsPanel: React.FC<ProjectSettingsPanelProps> = ({ projectId }) => {
+  const [text, setText] = useState('{}');
+  const [effective, setEffective] = useState<RepoConfig | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.get(`/projects/${projectId}/settings`)
+      .then(({ data }) => {
+        setText(JSON.stringify(data.settings ?? {}, null, 2));
+        setEffective(data.effective ?? null);
+      })
+      .catch(() => setMessage('Failed to load project settings'));
+  }, [projectId]);
+
+  const save = async () => {
+    let settings: any;
+    try {
+      settings = JSON.parse(text || '{}');
+    } catch {
+      setMessage('Settings must be valid JSON');
+      return;
+    }
+    try {
+      setSaving(true);
+      setMessage(null);
+      const { data } = await api.put(`/projects/${projectId}/settings`, settings);
+      setText(JSON.stringify(data.settings ?? {}, null, 2));
+      setEffective(data.effective ?? null);
+      setMessage('Saved. Applies from the next analysis.');
+    } catch (e: any) {
+      setMessage(e?.response?.data?.message ?? 'Failed to save project settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-2xl p-5 shadow-sm">
+      <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100 mb-1">
+        Analysis Settings
+      </h3>
+      <p className="text-xs text-neutral-500 dark:text-neutral-400 mb-3">
+        languages per directory, rules, thresholds and limits; override your user settings, overridden by the repository's .codestruct.yml
+      </p>
+      <textarea
+        className="w-full h-32 text-xs font-mono p-2 rounded-lg border border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-800 text-neutral-800 dark:text-neutral-200"
+        placeholder={'{ "languages": { "web/**": ["typescript"] }, "rules": { "MagicNumber": false } }'}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <div className="flex items-center justify-between mt-2 gap-2">
+        <span className="text-xs text-neutral-500 dark:text-neutral-400 truncate" title={message ?? undefined}>{message}</span>
+        <div className="flex items-center gap-2 shrink-0">
+          {effective && (
+            <span
+              className="text-xs text-neutral-500 dark:text-neutral-400 underline decoration-dotted cursor-help"
+              title={JSON.stringify({ languages: effective.languages, rules: effective.rules, thresholds: effective.thresholds, limits: effective.limits, qualityGate: effective.qualityGate }, null, 2)}
+            >
+              effective
+            </span>
+          )}
+          <button
+            onClick={save}
+            disabled={saving}
+            className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-neutral-700 hover:bg-neutral-800 text-white disabled:opacity-50 transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectSettingsPanel;
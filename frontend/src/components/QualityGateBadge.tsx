@@ -0,0 +1,29 @@
+import React from 'react';
+import { QualityGateResult } from '../types/analysis';
+
+interface QualityGateBadgeProps {
+  gate?: QualityGateResult | null;
+}
+
+// Verdict of the project's quality gate on its current run; the failing conditions are in the tooltip
+const QualityGateBadge: React.FC<QualityGateBadgeProps> = ({ gate }) => {
+  if (!gate || gate.status === 'None') return null;
+  const passed = gate.status === 'Passed';
+  const title = passed
+    ? 'Quality gate passed'
+    : `Quality gate failed:\n${gate.failing.map((c) => `${c.label} (is ${c.actual})`).join('\n')}`;
+
+  return (
+    <span
+      title={title}
+      className={`inline-flex items-center px-2 py-1 rounded-md text-xs font-semibold ${passed
+        ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+        : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+        }`}
+    >
+      Gate {passed ? 'passed' : 'failed'}
+    </span>
+  );
+};
+
+export default QualityGateBadge;
@@ -0,0 +1,21 @@
+import { api } from './api';
+import { BackgroundJob } from '../types/analysis';
+
+const TERMINAL = ['Completed', 'Failed', 'Cancelled'];
+
+/**
+ * Poll a queued backend job until it finishes. Resolves with the final job
+ * (check `status`), calling `onUpdate` on every poll for progress/queue position.
+ */
+export async function waitForJob(
+  jobId: number,
+  onUpdate?: (job: BackgroundJob) => void,
+  intervalMs = 2000,
+): Promise<BackgroundJob> {
+  for (;;) {
+    const { data } = await api.get<BackgroundJob>(`/jobs/${jobId}`);
+    onUpdate?.(data);
+    if (TERMINAL.includes(data.status)) return data;
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
@@ -0,0 +1,18 @@
+import { api } from './api';
+
+/**
+ * Export accepted refactorings as a unified diff and save it as a .patch file.
+ * Resolves with the number of files in the patch (0 when nothing applied).
+ */
+export async function downloadPatch(projectId: number, issueIds?: number[]): Promise<number> {
+  const { data } = await api.post('/issues/bulk/export-patch', { projectId, acceptedIssueIds: issueIds });
+  if (!data.filesModified) return 0;
+
+  const url = URL.createObjectURL(new Blob([data.patch], { type: 'text/x-diff' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `codestruct-project-${projectId}.patch`;
+  link.click();
+  URL.revokeObjectURL(url);
+  return data.filesModified;
+}
@@ -0,0 +1,37 @@
+import { useEffect, useRef, useState } from 'react';
+import { api } from './api';
+import { AnalysisProgress } from '../types/analysis';
+
+const EVENTS = ['snapshot', 'stage', 'file', 'error', 'done'];
+
+/**
+ * Subscribe to a project's live analysis progress (server-sent events) while
+ * `enabled`. `onDone` runs once the run completes, fails or is stopped.
+ */
+export function useAnalysisProgress(
+  projectId: string | number | undefined,
+  enabled: boolean,
+  onDone?: (progress: AnalysisProgress) => void,
+): AnalysisProgress | null {
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const doneRef = useRef(onDone);
+  doneRef.current = onDone;
+
+  useEffect(() => {
+    if (!projectId || !enabled) return;
+    const source = new EventSource(`${api.defaults.baseURL}/projects/${projectId}/progress`, { withCredentials: true });
+    const handle = (event: MessageEvent) => {
+      const next: AnalysisProgress = JSON.parse(event.data);
+      setProgress(next);
+      if (event.type === 'done') {
+        source.close();
+        doneRef.current?.(next);
+      }
+    };
+    EVENTS.forEach((type) => source.addEventListener(type, handle as EventListener));
+    // EventSource reconnects by itself after network errors
+    return () => source.close();
+  }, [projectId, enabled]);
+
+  return progress;
+}
@@ -4,6 +4,7 @@ import { api } from '../lib/api';
 import { useAuth } from '../context/AuthContext';
 import AnalysisProgressLoader from '../components/AnalysisProgressLoader';
 import DarkModeToggle from '../components/DarkModeToggle';
+import QualityGateBadge from '../components/QualityGateBadge';
 
 const Dashboard: React.FC = () => {
   const [projects, setProjects] = useState<any[]>([]);
@@ -20,10 +21,10 @@ const Dashboard: React.FC = () => {
     setShowImportModal(true);
   };
 
-  const handleImportFromUrl = async (gitUrl: string) => {
+  const handleImportFromUrl = async (gitUrl: string, ref?: string) => {
     setImportLoading(true);
     try {
-      const { data } = await api.post('/analysis/start', { gitUrl });
+      const { data } = await api.post('/analysis/start', { gitUrl, ref: ref || undefined });
       if (data?.projectId) {
         setShowImportModal(false);
         navigate(`/project/${data.projectId}`);
@@ -35,6 +36,39 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  // Archives and server paths become non-git projects (patch export instead of PRs)
+  const handleImportFromArchive = async (archive: File) => {
+    setImportLoading(true);
+    try {
+      const form = new FormData();
+      form.append('archive', archive);
+      const { data } = await api.post('/analysis/upload', form);
+      if (data?.projectId) {
+        setShowImportModal(false);
+        navigate(`/project/${data.projectId}`);
+      }
+    } catch (e: any) {
+      setError(e?.response?.data?.message ?? e?.message ?? 'Failed to upload archive');
+    } finally {
+      setImportLoading(false);
+    }
+  };
+
+  const handleImportFromPath = async (path: string) => {
+    setImportLoading(true);
+    try {
+      const { data } = await api.post('/analysis/local', { path });
+      if (data?.projectId) {
+        setShowImportModal(false);
+        navigate(`/project/${data.projectId}`);
+      }
+    } catch (e: any) {
+      setError(e?.response?.data?.message ?? e?.message ?? 'Failed to analyze path');
+    } finally {
+      setImportLoading(false);
+    }
+  };
+
   const handleImportFromRepo = async (repo: any) => {
     setImportLoading(true);
     try {
@@ -72,17 +106,19 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  // Analyzing cards stream their own progress and reload the list once their run ends
+  const fetchProjects = async () => {
+    try {
+      const projectsRes = await api.get('/projects');
+      setProjects(projectsRes.data);
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to load projects');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   useEffect(() => {
-    const fetchProjects = async () => {
-      try {
-        const projectsRes = await api.get('/projects');
-        setProjects(projectsRes.data);
-      } catch (e: any) {
-        setError(e?.message ?? 'Failed to load projects');
-      } finally {
-        setLoading(false);
-      }
-    };
     fetchProjects();
   }, []);
 
@@ -250,8 +286,9 @@ const Dashboard: React.FC = () => {
                         e.preventDefault();
                         const formData = new FormData(e.currentTarget);
                         const gitUrl = formData.get('gitUrl') as string;
+                        const ref = (formData.get('ref') as string || '').trim();
                         if (gitUrl) {
-                          handleImportFromUrl(gitUrl);
+                          handleImportFromUrl(gitUrl, ref);
                         }
                       }}
                       className="space-y-4"
@@ -271,6 +308,20 @@ const Dashboard: React.FC = () => {
                           Language will be automatically detected
                         </p>
                       </div>
+                      <div>
+                        <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+                          Branch, tag or commit <span className="font-normal text-neutral-500 dark:text-neutral-400">(optional)</span>
+                        </label>
+                        <input
+                          name="ref"
+                          type="text"
+                          placeholder="main, release/2.0, v1.4.0 or a commit SHA"
+                          className="block w-full px-4 py-3 border border-neutral-300 dark:border-neutral-700 rounded-xl shadow-sm placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-neutral-800 dark:text-neutral-100 transition-all"
+                        />
+                        <p className="mt-2 text-xs text-neutral-500 dark:text-neutral-400">
+                          Leave empty to analyze the default branch
+                        </p>
+                      </div>
                       <button
                         type="submit"
                         disabled={importLoading}
@@ -294,6 +345,74 @@ const Dashboard: React.FC = () => {
                         )}
                       </button>
                     </form>
+
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        const archive = new FormData(e.currentTarget).get('archive') as File | null;
+                        if (archive && archive.size) {
+                          handleImportFromArchive(archive);
+                        }
+                      }}
+                      className="space-y-2 pt-4 border-t border-neutral-200 dark:border-neutral-800"
+                    >
+                      <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                        Or upload an archive
+                      </label>
+                      <div className="flex items-center gap-2">
+                        <input
+                          name="archive"
+                          type="file"
+                          required
+                          accept=".zip,.tar.gz,.tgz"
+                          className="block w-full text-sm text-neutral-600 dark:text-neutral-300 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-neutral-100 dark:file:bg-neutral-800 file:text-neutral-700 dark:file:text-neutral-200"
+                        />
+                        <button
+                          type="submit"
+                          disabled={importLoading}
+                          className="px-4 py-2 text-sm font-semibold rounded-xl text-white bg-neutral-700 hover:bg-neutral-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          Upload
+                        </button>
+                      </div>
+                      <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                        .zip or .tar.gz; fixes are exported as a patch instead of a pull request
+                      </p>
+                    </form>
+
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        const path = (new FormData(e.currentTarget).get('path') as string || '').trim();
+                        if (path) {
+                          handleImportFromPath(path);
+                        }
+                      }}
+                      className="space-y-2 pt-4 border-t border-neutral-200 dark:border-neutral-800"
+                    >
+                      <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                        Or analyze a path on the server
+                      </label>
+                      <div className="flex items-center gap-2">
+                        <input
+                          name="path"
+                          type="text"
+                          required
+                          placeholder="/srv/code/vendor-drop"
+                          className="block w-full px-3 py-2 border border-neutral-300 dark:border-neutral-700 rounded-xl text-sm placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-primary-500 dark:bg-neutral-800 dark:text-neutral-100"
+                        />
+                        <button
+                          type="submit"
+                          disabled={importLoading}
+                          className="px-4 py-2 text-sm font-semibold rounded-xl text-white bg-neutral-700 hover:bg-neutral-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          Analyze
+                        </button>
+                      </div>
+                      <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                        Only directories allowed by the server administrator
+                      </p>
+                    </form>
                   </div>
 
                   {/* Right side - GitHub Repositories */}
@@ -408,6 +527,7 @@ const Dashboard: React.FC = () => {
                           <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300">
                             {p.language}
                           </span>
+                          <QualityGateBadge gate={p.qualityGate} />
                         </div>
                       </div>
                       <span className={`inline-flex items-center px-3 py-1 rounded-lg text-xs font-semibold ${p.status === 'Completed'
@@ -429,7 +549,7 @@ const Dashboard: React.FC = () => {
                     {/* Progress indicator for analyzing projects */}
                     {p.status === 'Analyzing' && (
                       <div className="mt-4 pt-4 border-t border-neutral-200 dark:border-neutral-800">
-                        <AnalysisProgressLoader currentStage={p.analysisStage} compact={true} />
+                        <AnalysisProgressLoader projectId={p.id} onDone={fetchProjects} currentStage={p.analysisStage} compact={true} />
                       </div>
                     )}
 
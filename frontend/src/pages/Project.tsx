@@ -10,7 +10,14 @@ import DarkModeToggle from '../components/DarkModeToggle';
 import BulkAIRefactorViewer from '../components/BulkAIRefactorViewer';
 import AcceptedRefactoringsManager from '../components/AcceptedRefactoringsManager';
 import AnalysisProgressLoader from '../components/AnalysisProgressLoader';
-import { EnhancedIssue, ProjectData } from '../types/analysis';
+import ExcludedPathsPanel from '../components/ExcludedPathsPanel';
+import ProjectSettingsPanel from '../components/ProjectSettingsPanel';
+import LanguageBreakdown from '../components/LanguageBreakdown';
+import AnalysisSchedulePanel from '../components/AnalysisSchedulePanel';
+import BaselinePanel from '../components/BaselinePanel';
+import AstTreeView, { AST_PAGE_DEPTH } from '../components/AstTreeView';
+import CallGraphView from '../components/CallGraphView';
+import { AnalysisRun, EnhancedIssue, FileAst, ProjectData } from '../types/analysis';
 
 const Project: React.FC = () => {
   const { projectId } = useParams();
@@ -19,18 +26,19 @@ const Project: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [notification, setNotification] = useState<{ message: string; type: 'info' | 'success' | 'warning' } | null>(null);
-  const [polling, setPolling] = useState<NodeJS.Timeout | null>(null);
   const [analysisAbortController, setAnalysisAbortController] = useState<AbortController | null>(null);
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
-  const [ast, setAst] = useState<{ filePath: string; language: string; format: string; ast: string } | null>(null);
+  const [ast, setAst] = useState<FileAst | null>(null);
   const [astLoading, setAstLoading] = useState(false);
   const [astError, setAstError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'issues' | 'analytics' | 'duplicates' | 'security'>('analytics');
+  const [activeTab, setActiveTab] = useState<'issues' | 'analytics' | 'duplicates' | 'security' | 'calls'>('analytics');
 
   // Enhanced filtering state
   const [filters, setFilters] = useState({
     issueTypes: [] as string[],
     severities: [] as string[],
+    owners: [] as string[],
+    authors: [] as string[],
     search: '',
     sortBy: 'severity' as 'severity' | 'confidence' | 'type' | 'file',
     sortOrder: 'desc' as 'asc' | 'desc'
@@ -39,6 +47,8 @@ const Project: React.FC = () => {
   // Bulk refactoring state
   const [showBulkRefactor, setShowBulkRefactor] = useState(false);
   const [showAcceptedRefactorings, setShowAcceptedRefactorings] = useState(false);
+  const [runs, setRuns] = useState<AnalysisRun[]>([]);
+  const [showBaselined, setShowBaselined] = useState(false);
 
   const handleBulkRefactor = async () => {
     if (!data?.issues || filteredAndSortedIssues.length === 0) return;
@@ -75,6 +85,14 @@ const Project: React.FC = () => {
         return false;
       }
 
+      // Ownership filters (CODEOWNERS owners, blame author email)
+      if (filters.owners.length > 0 && !issue.owners?.some((owner) => filters.owners.includes(owner))) {
+        return false;
+      }
+      if (filters.authors.length > 0 && !(issue.authorEmail && filters.authors.includes(issue.authorEmail))) {
+        return false;
+      }
+
       return true;
     });
 
@@ -131,35 +149,17 @@ const Project: React.FC = () => {
   const filesUnion: string[] = data ? Array.from(new Set([...(data.files || []), ...((data.astFiles as string[]) || [])])) : [];
   const hasAst = (f: string) => (data?.astFiles || []).includes(f);
 
-  // Function to start/restart polling
-  const startPolling = async () => {
-    // Clear any existing polling timer
-    if (polling) {
-      clearTimeout(polling);
-      setPolling(null);
+  // Load project details; while an analysis runs, AnalysisProgressLoader streams its
+  // progress and reloads them once it is done
+  const loadDetails = async () => {
+    try {
+      const { data } = await api.get(`/projects/${projectId}`, { params: showBaselined ? { includeBaselined: true } : {} });
+      setData(data);
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to load project');
+    } finally {
+      setLoading(false);
     }
-
-    const fetchDetails = async () => {
-      try {
-        const { data } = await api.get(`/projects/${projectId}`);
-        setData(data);
-
-        // Continue polling while analyzing
-        if (data && data.status === 'Analyzing') {
-          const timer = setTimeout(fetchDetails, 2000);
-          setPolling(timer);
-        } else {
-          setPolling(null);
-        }
-      } catch (e: any) {
-        setError(e?.message ?? 'Failed to load project');
-        setPolling(null);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    await fetchDetails();
   };
 
   // Function to stop analysis
@@ -179,12 +179,8 @@ const Project: React.FC = () => {
       console.log('[Stop] Aborted analysis request');
     }
     
-    // Clear polling
-    if (polling) {
-      clearTimeout(polling);
-      setPolling(null);
-    }
-    
+    await loadDetails();
+
     setLoading(false);
     setAnalysisAbortController(null);
     
@@ -201,15 +197,26 @@ const Project: React.FC = () => {
   };
 
   useEffect(() => {
-    startPolling();
+    loadDetails();
+  }, [projectId, showBaselined]);
 
-    // Cleanup on unmount
-    return () => {
-      if (polling) {
-        clearTimeout(polling);
-      }
-    };
-  }, [projectId]);
+  // Refresh run history whenever the project's status or current run changes
+  useEffect(() => {
+    if (!projectId) return;
+    api.get(`/projects/${projectId}/runs`)
+      .then(({ data }) => setRuns(Array.isArray(data) ? data : []))
+      .catch(() => setRuns([]));
+  }, [projectId, data?.status, data?.currentRun?.id]);
+
+  const selectRun = async (runId: number) => {
+    try {
+      await api.put(`/projects/${projectId}/runs/${runId}/current`);
+      await loadDetails();
+    } catch (e: any) {
+      setNotification({ message: e?.response?.data?.message ?? 'Failed to switch analysis run', type: 'warning' });
+      setTimeout(() => setNotification(null), 5000);
+    }
+  };
 
   const loadAst = async (filePath: string) => {
     if (!projectId) return;
@@ -219,11 +226,12 @@ const Project: React.FC = () => {
     setAstLoading(true);
     try {
       const encoded = encodeURIComponent(filePath);
-      const { data: resp } = await api.get(`/projects/${projectId}/ast/${encoded}`);
+      // Top levels only; the tree view loads deeper nodes as they are expanded
+      const { data: resp } = await api.get(`/projects/${projectId}/ast/${encoded}`, { params: { depth: AST_PAGE_DEPTH } });
       if (resp && !resp.error) setAst(resp);
       else setAstError('AST not found');
     } catch (e: any) {
-      setAstError(e?.message ?? 'Failed to load AST');
+      setAstError(e?.response?.data?.message ?? e?.message ?? 'Failed to load AST');
     } finally {
       setAstLoading(false);
     }
@@ -359,6 +367,27 @@ const Project: React.FC = () => {
                     <span className="inline-flex items-center px-2.5 py-0.5 rounded-lg text-xs font-medium bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300">
                       {data?.language}
                     </span>
+                    {(data?.currentRun?.commitSha || data?.ref) && (
+                      <span
+                        className="inline-flex items-center px-2.5 py-0.5 rounded-lg text-xs font-mono bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300"
+                        title={data?.currentRun?.commitSha ?? undefined}
+                      >
+                        {data?.currentRun?.ref || data?.currentRun?.branch || data?.ref || 'default branch'}
+                        {data?.currentRun?.commitSha && ` @ ${data.currentRun.commitSha.slice(0, 7)}`}
+                      </span>
+                    )}
+                    {data?.currentRun?.config?.source && (
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-lg text-xs font-mono ${data.currentRun.config.warnings.length
+                          ? 'bg-warning-100 text-warning-700 dark:bg-warning-900/30 dark:text-warning-300'
+                          : 'bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300'
+                          }`}
+                        title={[...data.currentRun.config.warnings, JSON.stringify(data.currentRun.config, null, 2)].join('\n\n')}
+                      >
+                        {data.currentRun.config.source}
+                        {data.currentRun.config.warnings.length > 0 && ` (${data.currentRun.config.warnings.length} warnings)`}
+                      </span>
+                    )}
                     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-lg text-xs font-semibold ${data?.status === 'Completed'
                       ? 'bg-success-100 text-success-700 dark:bg-success-900/30 dark:text-success-300'
                       : data?.status === 'Analyzing'
@@ -370,6 +399,21 @@ const Project: React.FC = () => {
                     <span className="text-sm text-neutral-600 dark:text-neutral-400">
                       {data?.issues?.length || 0} issues found
                     </span>
+                    {runs.length > 0 && (
+                      <select
+                        className="text-xs rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300 px-2 py-0.5"
+                        value={data?.currentRun?.id ?? ''}
+                        onChange={(e) => selectRun(Number(e.target.value))}
+                        title="Analysis run history"
+                      >
+                        {runs.map((run) => (
+                          <option key={run.id} value={run.id} disabled={run.status !== 'Completed'}>
+                            #{run.id} · {new Date(run.startedAt).toLocaleString()} · {run.commitSha ? run.commitSha.slice(0, 7) : run.mode}
+                            {run.status !== 'Completed' ? ` (${run.status})` : run.summary ? ` · ${run.summary.totalIssues} issues (${run.summary.newIssues} new, ${run.summary.fixedIssues ?? run.summary.resolvedIssues} fixed)` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    )}
                   </div>
                 </div>
               </div>
@@ -389,12 +433,10 @@ const Project: React.FC = () => {
                       signal: controller.signal
                     });
 
-                    // Reset state and restart polling
+                    // Reset state; the progress stream takes over while it runs
                     setLoading(true);
                     setError(null);
-
-                    // Restart polling to track the re-analysis progress
-                    await startPolling();
+                    await loadDetails();
                   } catch (e: any) {
                     if (e.name === 'AbortError' || e.name === 'CanceledError') {
                       // Show notification for stopped analysis
@@ -423,7 +465,12 @@ const Project: React.FC = () => {
         {/* Analysis Progress - Only show during analysis */}
         {data?.status === 'Analyzing' ? (
           <div>
-            <AnalysisProgressLoader currentStage={data?.analysisStage} />
+            <AnalysisProgressLoader
+              projectId={projectId}
+              onDone={loadDetails}
+              currentStage={data?.analysisStage}
+              queuePosition={data?.analysisJob?.queuePosition}
+            />
             
             {/* Stop Analysis Button */}
             <div className="mt-4 flex justify-center">
@@ -447,7 +494,8 @@ const Project: React.FC = () => {
                   { id: 'analytics', label: 'Analytics', icon: <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>, count: data?.issues?.length || 0 },
                   { id: 'issues', label: 'Issues', icon: <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>, count: filteredAndSortedIssues.length },
                   { id: 'duplicates', label: 'Duplicates', icon: <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>, count: duplicateGroups.length },
-                  { id: 'security', label: 'Security', icon: <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 12c.943 0 1.833-.183 2.652-.515a4 4 0 11-5.304 0A8.955 8.955 0 0012 12zm0 0V4a8 8 0 018 8 8 8 0 11-16 0 8 8 0 018-8v8z" /></svg>, count: (data?.issues?.filter(i => ['HardcodedCredentials', 'HardcodedUrls', 'HardcodedSecrets', 'SensitiveFile', 'UnsafeLogging', 'WeakEncryption', 'HardcodedValues'].includes((i as any).issueType)).length) || 0 }
+                  { id: 'security', label: 'Security', icon: <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 12c.943 0 1.833-.183 2.652-.515a4 4 0 11-5.304 0A8.955 8.955 0 0012 12zm0 0V4a8 8 0 018 8 8 8 0 11-16 0 8 8 0 018-8v8z" /></svg>, count: (data?.issues?.filter(i => ['HardcodedCredentials', 'HardcodedUrls', 'HardcodedSecrets', 'SensitiveFile', 'UnsafeLogging', 'WeakEncryption', 'HardcodedValues'].includes((i as any).issueType)).length) || 0 },
+                  { id: 'calls', label: 'Call Graph', icon: <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h4v4H4zM16 4h4v4h-4zM16 16h4v4h-4zM8 8l8-2M8 8l8 10" /></svg> }
                 ].map(tab => (
                   <button
                     key={tab.id}
@@ -459,12 +507,14 @@ const Project: React.FC = () => {
                   >
                     {tab.icon}
                     <span>{tab.label}</span>
-                    <span className={`px-2 py-0.5 rounded-lg text-xs font-semibold ${activeTab === tab.id
-                      ? 'bg-white/20'
-                      : 'bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300'
-                      }`}>
-                      {tab.count}
-                    </span>
+                    {tab.count != null && (
+                      <span className={`px-2 py-0.5 rounded-lg text-xs font-semibold ${activeTab === tab.id
+                        ? 'bg-white/20'
+                        : 'bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300'
+                        }`}>
+                        {tab.count}
+                      </span>
+                    )}
                   </button>
                 ))}
               </nav>
@@ -507,6 +557,46 @@ const Project: React.FC = () => {
                   </div>
                 </div>
 
+                {data?.languageBreakdown && <LanguageBreakdown languages={data.languageBreakdown} />}
+
+                {projectId && (
+                  <ExcludedPathsPanel
+                    projectId={projectId}
+                    excluded={(data?.fileInventory || []).filter((f) => f.excludedReason)}
+                    excludeGlobs={data?.excludeGlobs || []}
+                    onSaved={(excludeGlobs) => setData((prev) => prev && { ...prev, excludeGlobs })}
+                  />
+                )}
+
+                {projectId && <ProjectSettingsPanel projectId={projectId} />}
+
+                {projectId && data && data.sourceType !== 'upload' && (
+                  <AnalysisSchedulePanel
+                    projectId={projectId}
+                    schedule={{
+                      schedule: data.schedule ?? null,
+                      nextScheduledAt: data.nextScheduledAt,
+                      lastScheduledAt: data.lastScheduledAt,
+                      lastScheduleResult: data.lastScheduleResult,
+                    }}
+                    onSaved={(schedule) => setData((prev) => prev && { ...prev, ...schedule })}
+                  />
+                )}
+
+                {projectId && data?.currentRun && (
+                  <BaselinePanel
+                    projectId={projectId}
+                    baseline={{
+                      baselineAt: data.baselineAt ?? null,
+                      baselineRunId: data.baselineRunId ?? null,
+                      baselineIssues: data.baselineIssues ?? 0,
+                    }}
+                    showBaselined={showBaselined}
+                    onShowBaselinedChange={setShowBaselined}
+                    onChanged={() => loadDetails()}
+                  />
+                )}
+
                 {/* Filters (only show on issues tab) */}
                 {activeTab === 'issues' && data?.issues && (
                   <div className="space-y-4">
@@ -549,7 +639,7 @@ const Project: React.FC = () => {
               {/* Main Content */}
               <div className="col-span-12 lg:col-span-9">
                 {activeTab === 'analytics' && data?.issues && (
-                  <ProjectAnalyticsDashboard issues={data.issues} />
+                  <ProjectAnalyticsDashboard issues={data.issues} projectId={projectId} runId={data.currentRun?.id} />
                 )}
 
                 {activeTab === 'security' && (
@@ -558,6 +648,10 @@ const Project: React.FC = () => {
                   </div>
                 )}
 
+                {activeTab === 'calls' && projectId && (
+                  <CallGraphView projectId={projectId} />
+                )}
+
                 {activeTab === 'issues' && (
                   <div className="space-y-4">
                     {filteredAndSortedIssues.length === 0 ? (
@@ -584,7 +678,7 @@ const Project: React.FC = () => {
                           </span>
                         </div>
                         {filteredAndSortedIssues.map((issue: EnhancedIssue) => (
-                          <EnhancedIssueCard key={issue.id} issue={issue} />
+                          <EnhancedIssueCard key={issue.id} issue={issue} projectId={projectId} currentRunId={data.currentRun?.id} />
                         ))}
                       </>
                     )}
@@ -632,7 +726,7 @@ const Project: React.FC = () => {
                             </div>
                             <div className="space-y-3">
                               {group.issues.map((issue: EnhancedIssue) => (
-                                <EnhancedIssueCard key={issue.id} issue={issue} />
+                                <EnhancedIssueCard key={issue.id} issue={issue} projectId={projectId} currentRunId={data.currentRun?.id} />
                               ))}
                             </div>
                           </div>
@@ -656,11 +750,9 @@ const Project: React.FC = () => {
                     {!astLoading && !astError && ast && (
                       <div className="space-y-3">
                         <div className="text-xs text-neutral-600 dark:text-neutral-300">
-                          Language: {ast.language} • Format: {ast.format}
+                          Language: {ast.language} • Format: {ast.format} • {(ast.size / 1024).toFixed(1)} KB{ast.lines ? ` • ${ast.lines} lines` : ''}
                         </div>
-                        <pre className="text-xs overflow-auto max-h-96 p-4 bg-neutral-50 dark:bg-neutral-900/60 border dark:border-neutral-800 rounded whitespace-pre-wrap break-words text-neutral-900 dark:text-neutral-100">
-                          {ast.ast}
-                        </pre>
+                        <AstTreeView projectId={projectId!} file={ast} />
                       </div>
                     )}
                     {!astLoading && !astError && !ast && (
@@ -676,6 +768,7 @@ const Project: React.FC = () => {
               <BulkAIRefactorViewer
                 issues={filteredAndSortedIssues}
                 projectId={Number(projectId)}
+                canCreatePR={(data?.sourceType ?? 'git') === 'git'}
                 onClose={() => setShowBulkRefactor(false)}
                 onComplete={async () => {
                   // Refresh data after completion
@@ -690,6 +783,7 @@ const Project: React.FC = () => {
             {showAcceptedRefactorings && (
               <AcceptedRefactoringsManager
                 projectId={Number(projectId)}
+                canCreatePR={(data?.sourceType ?? 'git') === 'git'}
                 onClose={() => setShowAcceptedRefactorings(false)}
               />
             )}
@@ -3,11 +3,12 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { api } from '../lib/api';
 import DarkModeToggle from '../components/DarkModeToggle';
+import CustomRulesPanel from '../components/CustomRulesPanel';
 
 const Settings: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const [activeSection, setActiveSection] = useState<'general' | 'notifications' | 'advanced'>('general');
+  const [activeSection, setActiveSection] = useState<'general' | 'notifications' | 'advanced' | 'rules'>('general');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
@@ -144,6 +145,20 @@ const Settings: React.FC = () => {
                   </svg>
                   <span className="font-medium">Advanced</span>
                 </button>
+
+                <button
+                  onClick={() => setActiveSection('rules')}
+                  className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                    activeSection === 'rules'
+                      ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-400'
+                      : 'text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800'
+                  }`}
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                  </svg>
+                  <span className="font-medium">Custom Rules</span>
+                </button>
               </nav>
             </div>
           </div>
@@ -310,19 +325,34 @@ const Settings: React.FC = () => {
                 </div>
               )}
 
-              {/* Save Button */}
-              <div className="mt-6 pt-6 border-t border-neutral-200 dark:border-neutral-800 flex justify-end">
-                <button
-                  onClick={handleSaveSettings}
-                  disabled={saving}
-                  className="px-6 py-2 bg-primary-600 hover:bg-primary-700 disabled:bg-neutral-400 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors flex items-center space-x-2"
-                >
-                  {saving && (
-                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                  )}
-                  <span>{saving ? 'Saving...' : 'Save Changes'}</span>
-                </button>
-              </div>
+              {/* Custom Rules */}
+              {activeSection === 'rules' && (
+                <div className="space-y-6">
+                  <div>
+                    <h2 className="text-xl font-semibold text-neutral-900 dark:text-neutral-100 mb-1">Custom Rules</h2>
+                    <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                      House rules as Tree-sitter queries or regular expressions, reported as issues on every analysis
+                    </p>
+                  </div>
+                  <CustomRulesPanel />
+                </div>
+              )}
+
+              {/* Save Button; custom rules are saved one by one */}
+              {activeSection !== 'rules' && (
+                <div className="mt-6 pt-6 border-t border-neutral-200 dark:border-neutral-800 flex justify-end">
+                  <button
+                    onClick={handleSaveSettings}
+                    disabled={saving}
+                    className="px-6 py-2 bg-primary-600 hover:bg-primary-700 disabled:bg-neutral-400 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors flex items-center space-x-2"
+                  >
+                    {saving && (
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    )}
+                    <span>{saving ? 'Saving...' : 'Save Changes'}</span>
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         </div>
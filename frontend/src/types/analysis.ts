@@ -4,7 +4,8 @@ export interface EnhancedIssue {
     filePath: string;
     functionName?: string;
     className?: string;
-    issueType: 'LongMethod' | 'GodClass' | 'DeepNesting' | 'LongParameterList' | 'HighComplexity' | 'CognitiveComplexity' | 'DuplicateCode' | 'MagicNumber' | 'DeadCode' | 'FeatureEnvy';
+    // Custom rules report their namespaced rule ID (acme/no-raw-sql)
+    issueType: 'LongMethod' | 'GodClass' | 'DeepNesting' | 'LongParameterList' | 'HighComplexity' | 'CognitiveComplexity' | 'DuplicateCode' | 'MagicNumber' | 'DeadCode' | 'FeatureEnvy' | 'IgnoredError' | 'LongSwitch' | `${string}/${string}`;
     severity: 'Low' | 'Medium' | 'High' | 'Critical';
     confidence: number; // 0-100
     description?: string;
@@ -14,20 +15,263 @@ export interface EnhancedIssue {
     metadata?: Record<string, any>;
     codeBlock: string;
     duplicateGroupId?: string;
+    author?: string | null; // wrote most of the issue's lines (git blame)
+    authorEmail?: string | null;
+    owners?: string[]; // from CODEOWNERS
+    status?: TriageStatus;
+    fingerprint?: string | null; // the same finding across runs
+    runId?: number;
+    firstSeenRunId?: number | null;
+    baselined?: boolean;
     createdAt: string;
 }
 
-export interface ProjectData {
+export type TriageStatus = 'Pending' | 'Confirmed' | 'WontFix' | 'FalsePositive';
+
+export interface IssueComment {
+    id: number;
+    body: string;
+    createdAt: string;
+    user?: { id: number; displayName?: string | null; githubUsername?: string | null; email: string } | null;
+}
+
+// Scheduled re-analysis of a project; lastScheduleResult is 'queued' or why it was skipped
+export interface AnalysisSchedule {
+    schedule: string | null;
+    nextScheduledAt?: string | null;
+    lastScheduledAt?: string | null;
+    lastScheduleResult?: string | null;
+}
+
+// Findings frozen as accepted debt; runs, the issue list and CI leave them out by default
+export interface ProjectBaseline {
+    baselineAt: string | null;
+    baselineRunId: number | null;
+    baselineIssues: number;
+}
+
+export interface ProjectData extends Partial<AnalysisSchedule>, Partial<ProjectBaseline> {
     id: number;
     name: string;
     gitUrl: string;
     language: string;
+    languageBreakdown?: Record<string, LanguageStats>;
+    ref?: string | null;
+    sourceType?: 'git' | 'upload' | 'local';
+    excludeGlobs?: string[];
     status: 'Analyzing' | 'Completed' | 'Failed';
-    analysisStage?: 'cloning' | 'detecting' | 'parsing' | 'analyzing' | 'duplicates' | 'refactoring' | 'pr' | 'completed';
+    analysisStage?: 'queued' | 'cloning' | 'detecting' | 'parsing' | 'analyzing' | 'duplicates' | 'hotspots' | 'refactoring' | 'pr' | 'completed';
     issues: EnhancedIssue[];
     files: string[];
+    fileInventory?: ProjectFileEntry[];
     astFiles: string[];
     createdAt: string;
+    currentRun?: AnalysisRun | null;
+    analysisJob?: { id: number; status: JobStatus; queuePosition: number | null } | null;
+}
+
+// ProjectFile row; excludedReason is set for paths left out of analysis (directories end with '/')
+export interface ProjectFileEntry {
+    filePath: string;
+    ext: string;
+    language?: string | null;
+    loc?: number | null;
+    supported: boolean;
+    excludedReason?: string | null;
+}
+
+// Syntax tree node; Tree-sitter nodes have startIndex/endIndex, TS compiler nodes pos/end
+export interface AstNode {
+    type: string;
+    startIndex?: number;
+    endIndex?: number;
+    pos?: number;
+    end?: number;
+    startLine?: number;
+    endLine?: number;
+    children?: AstNode[];
+    childCount?: number; // children not loaded yet
+}
+
+// A house rule: a Tree-sitter query or regex reported as issues of type ruleId
+export interface CustomRule {
+    id: number;
+    ruleId: string;
+    kind: 'query' | 'regex';
+    pattern: string;
+    language: string | null;
+    severity: 'Low' | 'Medium' | 'High' | 'Critical';
+    message: string;
+    recommendation: string;
+    enabled: boolean;
+    projectId: number | null; // null: applies to all of the user's projects
+    project?: { id: number; name: string } | null;
+}
+
+// A subtree of a file's stored AST
+export interface FileAst {
+    filePath: string;
+    language: string;
+    format: string;
+    size: number; // bytes of the whole stored tree
+    lines: number | null;
+    ast: AstNode;
+}
+
+// A declaration in the project's symbol index; fan-in/fan-out count for functions and methods
+export interface CodeSymbol {
+    id: number;
+    name: string;
+    kind: 'function' | 'class' | 'interface' | 'type' | 'enum' | 'method' | 'variable';
+    container: string | null;
+    exported: boolean;
+    language: string;
+    filePath: string;
+    lineStart: number;
+    lineEnd: number;
+    column: number;
+    fanIn: number;
+    fanOut: number;
+    references?: number;
+}
+
+// A function's callers and callees; unresolved callees only have the called expression
+export interface SymbolCalls {
+    symbol: CodeSymbol;
+    callers: Array<{ symbol: CodeSymbol; line: number; column: number }>;
+    callees: Array<{ symbol: CodeSymbol | null; callee: string; resolved: boolean; line: number; column: number }>;
+}
+
+export interface LanguageStats {
+    files: number;
+    loc: number;
+    issues: number;
+}
+
+export interface Churn {
+    commits: number;
+    authors: number;
+    linesChanged: number;
+}
+
+// A file that is both complex and frequently changed; score is 0-100 within the run
+export interface FileHotspot extends Churn {
+    filePath: string;
+    complexity: number;
+    score: number;
+}
+
+export interface FunctionHotspot extends Churn {
+    filePath: string;
+    name: string;
+    lineStart: number;
+    lineEnd: number;
+    cyclomaticComplexity: number;
+    score: number;
+}
+
+// GET /projects/:id/hotspots
+export interface ProjectHotspots {
+    runId: number | null;
+    windowDays: number | null;
+    files: FileHotspot[];
+    functions: FunctionHotspot[];
+}
+
+// Live progress of a project's analysis, streamed from /projects/:id/progress
+export interface AnalysisProgress {
+    projectId: number;
+    runId: number | null;
+    status: 'idle' | 'queued' | 'running' | 'completed' | 'failed' | 'stopped';
+    stage: string | null;
+    filesTotal: number;
+    filesParsed: number;
+    issuesFound: number;
+    currentFile: string | null;
+    errors: string[];
+    queuePosition?: number | null;
+    seq: number;
+    updatedAt: string;
+}
+
+export type JobStatus = 'Queued' | 'Running' | 'Completed' | 'Failed' | 'Cancelled';
+
+export interface BackgroundJob {
+    id: number;
+    type: 'analysis' | 'bulk-generate-fixes' | 'regenerate-all' | 'create-pr';
+    status: JobStatus;
+    result?: any;
+    error?: string | null;
+    projectId?: number | null;
+    attempts: number;
+    maxAttempts: number;
+    queuePosition: number | null;
+    createdAt: string;
+    startedAt?: string | null;
+    finishedAt?: string | null;
+}
+
+// Effective settings of a run: defaults < user < project < .codestruct.yml (source)
+export interface RepoConfig {
+    source: string | null;
+    layers?: string[];
+    language: string | null;
+    languages?: Array<{ path: string; languages: string[] }>;
+    include: string[];
+    exclude: string[];
+    rules: Record<string, { enabled: boolean; severity?: string }>;
+    thresholds: Record<string, any>;
+    limits?: { maxFileKb: number; duplicationMaxFileKb: number };
+    qualityGate?: QualityGateCondition[];
+    warnings: string[];
+}
+
+// A quality gate condition, e.g. duplication lt 5 or new Critical security issues lte 0
+export interface QualityGateCondition {
+    metric: 'newIssues' | 'issues' | 'duplication' | 'maxComplexity' | 'qualityScore';
+    op: 'lt' | 'lte' | 'gt' | 'gte';
+    value: number;
+    severities?: string[];
+    types?: string[];
+    category?: 'security';
+}
+
+export interface QualityGateResult {
+    status: 'Passed' | 'Failed' | 'None';
+    conditions: Array<QualityGateCondition & { label: string; actual: number; passed: boolean }>;
+    failing: Array<QualityGateCondition & { label: string; actual: number; passed: boolean }>;
+}
+
+export interface AnalysisRun {
+    id: number;
+    projectId: number;
+    status: 'Running' | 'Completed' | 'Failed' | 'Stopped';
+    mode: 'full' | 'incremental';
+    commitSha?: string | null;
+    baseCommitSha?: string | null;
+    ref?: string | null;
+    branch?: string | null;
+    language?: string | null;
+    config?: RepoConfig | null;
+    startedAt: string;
+    finishedAt?: string | null;
+    stageTimings?: Record<string, number> | null;
+    summary?: {
+        totalIssues: number;
+        newIssues: number;
+        existingIssues?: number;
+        fixedIssues?: number;
+        baselinedIssues?: number;
+        resolvedIssues: number;
+        bySeverity: Record<string, number>;
+        byType: Record<string, number>;
+        filesTotal?: number;
+        filesAnalyzed?: number;
+        languages?: Record<string, LanguageStats>;
+        qualityGate?: QualityGateResult;
+    } | null;
+    error?: string | null;
+    isCurrent?: boolean;
 }
 
 export interface DuplicateGroup {